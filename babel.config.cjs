@@ -1,3 +1,9 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  env: {
+    // Metro handles import() in app builds; Jest needs it as require()
+    test: {
+      plugins: ['@babel/plugin-transform-dynamic-import'],
+    },
+  },
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect } from 'react'
+import {
+  AutoLockService,
+  type AutoLockConfig,
+  type AutoLockListener,
+} from '../../services/autoLockService'
+
+/**
+ * Runs AutoLockService for as long as the provider is mounted and an
+ * auto-lock config is given, forwarding lock events to onAutoLock.
+ */
+export function useAutoLock(
+  config?: AutoLockConfig,
+  onAutoLock?: AutoLockListener,
+) {
+  const enabled = config != null
+  const backgroundTimeoutMs = config?.backgroundTimeoutMs
+  const idleTimeoutMs = config?.idleTimeoutMs
+  const lockOnBackground = config?.lockOnBackground
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    AutoLockService.start({ backgroundTimeoutMs, idleTimeoutMs, lockOnBackground })
+
+    return () => {
+      AutoLockService.stop()
+    }
+  }, [enabled, backgroundTimeoutMs, idleTimeoutMs, lockOnBackground])
+
+  useEffect(() => {
+    if (!onAutoLock) {
+      return
+    }
+    return AutoLockService.subscribe(onAutoLock)
+  }, [onAutoLock])
+}
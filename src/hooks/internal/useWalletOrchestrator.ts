@@ -18,13 +18,24 @@ import {
   getWalletStore,
   type WalletStore,
 } from '../../store/walletStore'
+import type { WorkletRecoveryState } from '../../store/workletStore'
 import type { WdkAppState } from '../../provider/WdkAppProvider'
+import type { BundleRejectionError } from '../../utils/errors'
+import {
+  StartupStage,
+  type StartupStageTiming,
+} from '../../utils/initializationState'
 
 export interface UseWalletOrchestratorProps {
   isWorkletStarted: boolean
   isWorkletInitialized: boolean
   isWdkReinitialized: boolean
   workletError: string | null
+  isWorkletShutdown?: boolean
+  workletRecovery?: WorkletRecoveryState | null
+  startupStage?: StartupStage | null
+  startupTimings?: StartupStageTiming[]
+  bundleError?: BundleRejectionError | null
 }
 
 export function useWalletOrchestrator({
@@ -32,6 +43,11 @@ export function useWalletOrchestrator({
   isWorkletInitialized,
   isWdkReinitialized: isWorkletReinitialized,
   workletError,
+  isWorkletShutdown = false,
+  workletRecovery = null,
+  startupStage = null,
+  startupTimings,
+  bundleError = null,
 }: UseWalletOrchestratorProps) {
   const walletStore = getWalletStore()
 
@@ -44,6 +60,23 @@ export function useWalletOrchestrator({
   )
 
   const state = useMemo((): WdkAppState => {
+    // A supervised restart wins over any error raised by the dead worklet or
+    // by a failed attempt - the supervisor reports ERROR once it gives up.
+    if (workletRecovery) {
+      return activeWalletId
+        ? {
+            status: 'RECOVERING',
+            attempt: workletRecovery.attempt,
+            walletId: activeWalletId,
+          }
+        : { status: 'RECOVERING', attempt: workletRecovery.attempt }
+    }
+
+    // A refused bundle never recovers on its own; it needs a new bundle.
+    if (bundleError) {
+      return { status: 'BUNDLE_REJECTED', error: bundleError }
+    }
+
     const walletError =
       walletLoadingState.type === 'error' ? walletLoadingState.error : null
     const topLevelError = workletError ? new Error(workletError) : walletError
@@ -52,6 +85,12 @@ export function useWalletOrchestrator({
       return { status: 'ERROR', error: topLevelError }
     }
 
+    if (isWorkletShutdown) {
+      return activeWalletId
+        ? { status: 'SHUT_DOWN', walletId: activeWalletId }
+        : { status: 'SHUT_DOWN' }
+    }
+
     if (
       isWorkletInitialized &&
       activeWalletId &&
@@ -65,6 +104,13 @@ export function useWalletOrchestrator({
       return { status: 'REINITIALIZING'}
     }
 
+    // Stages after the worklet has started (loading the first wallet,
+    // deriving its addresses) never hide LOCKED or NO_WALLET; they are only
+    // reported via useWdkApp().startup.
+    if (startupStage && !isWorkletStarted) {
+      return { status: 'INITIALIZING', stage: startupStage, timings: startupTimings ?? [] }
+    }
+
     if (isWorkletStarted && activeWalletId) {
       return { status: 'LOCKED', walletId: activeWalletId }
     }
@@ -77,13 +123,18 @@ export function useWalletOrchestrator({
 
     return { status: 'INITIALIZING' }
   }, [
+    workletRecovery,
     workletError,
+    isWorkletShutdown,
     walletLoadingState,
     isWorkletInitialized,
     isWorkletStarted,
     activeWalletId,
     isWorkletReinitialized,
     wallets,
+    startupStage,
+    startupTimings,
+    bundleError,
   ])
 
   return {
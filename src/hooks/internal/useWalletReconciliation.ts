@@ -0,0 +1,60 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect, useRef } from 'react'
+
+import { logError } from '../../utils/logger'
+import { waitForOperationIdle, withOperationMutex } from '../../utils/operationMutex'
+import {
+  reconcileWallets,
+  type ReconcileWalletsOptions,
+  type WalletReconciliationReport,
+} from '../../utils/walletReconciliation'
+
+/**
+ * Reconciles the wallet list with secure storage once when the provider
+ * mounts, if enabled. `true` only reports; repairs need the options. Both
+ * arguments are read on mount only.
+ */
+export function useWalletReconciliation(
+  config?: boolean | ReconcileWalletsOptions,
+  onReconciled?: (report: WalletReconciliationReport) => void,
+) {
+  const initial = useRef({ config, onReconciled })
+
+  useEffect(() => {
+    const { config: startConfig, onReconciled: callback } = initial.current
+    if (!startConfig) {
+      return
+    }
+    const options: ReconcileWalletsOptions = startConfig === true ? {} : startConfig
+
+    let cancelled = false
+    const run = async () => {
+      await waitForOperationIdle()
+      if (cancelled) return
+      const report = await withOperationMutex('reconcileWallets', () =>
+        reconcileWallets(options),
+      )
+      if (!cancelled) callback?.(report)
+    }
+    run().catch((error) => {
+      logError('[useWalletReconciliation] Failed to reconcile wallets:', error)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+}
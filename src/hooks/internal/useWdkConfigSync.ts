@@ -0,0 +1,134 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect } from 'react'
+import type { QueryClient } from '@tanstack/react-query'
+import { WorkletLifecycleService } from '../../services/workletLifecycleService'
+import { getWorkletStore } from '../../store/workletStore'
+import type { WdkConfigs } from '../../types'
+import { diffWdkConfigs } from '../../utils/configDiff'
+import { QUERY_KEY_TAGS } from '../../utils/constants'
+import { normalizeError } from '../../utils/errorUtils'
+import { log, logError } from '../../utils/logger'
+import {
+  isOperationInProgress,
+  waitForOperationIdle,
+  withOperationMutex,
+} from '../../utils/operationMutex'
+import { validateWdkConfigs } from '../../utils/validation'
+
+/**
+ * Whether a balance query may hold data for one of the given networks.
+ * Queries without a network segment (e.g. multi-asset queries) span
+ * networks and always match.
+ */
+function isBalanceQueryForNetworks(
+  queryKey: readonly unknown[],
+  networks: string[],
+): boolean {
+  if (queryKey[0] !== QUERY_KEY_TAGS.BALANCES) {
+    return false
+  }
+  const networkTagIndex = queryKey.indexOf(QUERY_KEY_TAGS.NETWORK)
+  if (networkTagIndex === -1) {
+    return true
+  }
+  return networks.includes(queryKey[networkTagIndex + 1] as string)
+}
+
+/**
+ * Whether wdkConfigs differs by value from the config the worklet runs with
+ */
+function differsFromAppliedConfigs(wdkConfigs: WdkConfigs): boolean {
+  const current = getWorkletStore().getState().wdkConfigs
+  return !current || diffWdkConfigs(current, wdkConfigs).hasChanges
+}
+
+/**
+ * Applies changes to the provider's wdkConfigs prop to the running worklet
+ * (see WorkletLifecycleService.applyConfigs) and invalidates balance queries
+ * for the changed networks. Re-runs once the worklet has started, so a
+ * config that changed while the worklet was still starting is applied too.
+ * A new object with the same config is ignored, and an apply waits until
+ * no other operation holds the mutex instead of failing against it.
+ */
+export function useWdkConfigSync(
+  wdkConfigs: WdkConfigs,
+  isWorkletStarted: boolean,
+  queryClient: QueryClient,
+) {
+  useEffect(() => {
+    if (!isWorkletStarted) {
+      return
+    }
+
+    try {
+      validateWdkConfigs(wdkConfigs)
+    } catch {
+      // WdkAppProvider already reports invalid configs
+      return
+    }
+
+    // Only the latest config matters; an older pending apply gives way
+    let cancelled = false
+
+    const applyConfigs = async () => {
+      try {
+        if (!differsFromAppliedConfigs(wdkConfigs)) {
+          return
+        }
+
+        // Let a user-initiated operation (unlock, create, ...) finish first.
+        // Another operation may take the mutex when it frees up, so wait
+        // again until it is free when this continuation runs.
+        do {
+          await waitForOperationIdle()
+          if (cancelled) {
+            return
+          }
+        } while (isOperationInProgress())
+
+        if (!differsFromAppliedConfigs(wdkConfigs)) {
+          return
+        }
+
+        const diff = await withOperationMutex('applyWdkConfigs', () =>
+          WorkletLifecycleService.applyConfigs(wdkConfigs),
+        )
+
+        if (!diff?.hasChanges || diff.changedNetworks.length === 0) {
+          return
+        }
+
+        await queryClient.invalidateQueries({
+          predicate: (query) =>
+            isBalanceQueryForNetworks(query.queryKey, diff.changedNetworks),
+        })
+        log('[useWdkConfigSync] Applied WDK config changes', diff)
+      } catch (error) {
+        const err = normalizeError(error, true, {
+          component: 'useWdkConfigSync',
+          operation: 'applyConfigs',
+        })
+        logError('[useWdkConfigSync] Failed to apply WDK config changes:', err)
+      }
+    }
+
+    applyConfigs()
+
+    return () => {
+      cancelled = true
+    }
+  }, [wdkConfigs, isWorkletStarted, queryClient])
+}
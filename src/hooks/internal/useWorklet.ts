@@ -18,7 +18,9 @@ import type { Worklet } from 'react-native-bare-kit'
 import { WorkletLifecycleService } from '../../services/workletLifecycleService'
 import { getWorkletStore } from '../../store/workletStore'
 import type { WdkConfigs, BundleConfig, HRPC, WorkletStartResponse } from '../../types'
-import type { WorkletStore } from '../../store/workletStore'
+import type { WorkletStore, WorkletRecoveryState } from '../../store/workletStore'
+import type { StartupStage, StartupStageTiming } from '../../utils/initializationState'
+import type { BundleRejectionError } from '../../utils/errors'
 
 /**
  * Hook to interact with the worklet
@@ -48,21 +50,26 @@ export interface UseWorkletResult {
   isInitialized: boolean
   isReinitialized: boolean
   isLoading: boolean
+  isShutdown: boolean
   error: string | null
   hrpc: HRPC | null
   worklet: Worklet | null
   workletStartResult: WorkletStartResponse | null
   wdkInitResult: { status?: string | null } | null
   networkConfigs: WdkConfigs | null
+  recovery: WorkletRecoveryState | null
+  startupStage: StartupStage | null
+  startupTimings: StartupStageTiming[]
+  bundleError: BundleRejectionError | null
   // Actions
   initializeWDK: (options: { encryptionKey: string; encryptedSeed: string }) => Promise<void>
-  generateEntropyAndEncrypt: (wordCount?: 12 | 24) => Promise<{
+  generateEntropyAndEncrypt: (wordCount?: 12 | 24, passphrase?: string) => Promise<{
     encryptionKey: string
     encryptedSeedBuffer: string
     encryptedEntropyBuffer: string
   }>
   getMnemonicFromEntropy: (encryptedEntropy: string, encryptionKey: string) => Promise<{ mnemonic: string }>
-  getSeedAndEntropyFromMnemonic: (mnemonic: string) => Promise<{
+  getSeedAndEntropyFromMnemonic: (mnemonic: string, passphrase?: string) => Promise<{
     encryptionKey: string
     encryptedSeedBuffer: string
     encryptedEntropyBuffer: string
@@ -86,12 +93,17 @@ export function useWorklet(): UseWorkletResult {
     isInitialized: state.isInitialized,
     isReinitialized: state.isReinitialized,
     isLoading: state.isLoading,
+    isShutdown: state.isShutdown,
     error: state.error,
     hrpc: state.hrpc,
     worklet: state.worklet,
     workletStartResult: state.workletStartResult,
     wdkInitResult: state.wdkInitResult,
     networkConfigs: state.wdkConfigs,
+    recovery: state.recovery,
+    startupStage: state.startupStage,
+    startupTimings: state.startupTimings,
+    bundleError: state.bundleError,
   }))
   const workletState = store(selector)
 
@@ -100,12 +112,17 @@ export function useWorklet(): UseWorkletResult {
     isInitialized: workletState.isInitialized,
     isReinitialized: workletState.isReinitialized,
     isLoading: workletState.isLoading,
+    isShutdown: workletState.isShutdown,
     error: workletState.error,
     hrpc: workletState.hrpc,
     worklet: workletState.worklet,
     workletStartResult: workletState.workletStartResult,
     wdkInitResult: workletState.wdkInitResult,
     networkConfigs: workletState.networkConfigs,
+    recovery: workletState.recovery,
+    startupStage: workletState.startupStage,
+    startupTimings: workletState.startupTimings,
+    bundleError: workletState.bundleError,
     initializeWDK: WorkletLifecycleService.initializeWDK,
     generateEntropyAndEncrypt: WorkletLifecycleService.generateEntropyAndEncrypt,
     getMnemonicFromEntropy: WorkletLifecycleService.getMnemonicFromEntropy,
@@ -43,6 +43,8 @@ export function useWorkletInitializer<
     isWorkletStarted,
     isInitialized: isWorkletInitialized,
     isLoading: isWorkletLoading,
+    isShutdown: isWorkletShutdown,
+    recovery,
   } = workletHookState
 
   // Automatically initialize worklet when component mounts
@@ -61,6 +63,22 @@ export function useWorkletInitializer<
       return
     }
 
+    // Stays down after shutdown() until restart() is called
+    if (isWorkletShutdown) {
+      log('[useWorkletInitializer] Initialization skipped', {
+        reason: 'worklet shut down',
+      })
+      return
+    }
+
+    // The supervisor owns restarts (and their backoff) while recovering
+    if (recovery) {
+      log('[useWorkletInitializer] Initialization skipped', {
+        reason: 'supervised restart in progress',
+      })
+      return
+    }
+
     // If worklet is already started/initialized, nothing to do
     if (isWorkletStarted || isWorkletInitialized) {
       log(
@@ -100,6 +118,8 @@ export function useWorkletInitializer<
     isWorkletInitialized,
     isWorkletLoading,
     isWorkletStarted,
+    isWorkletShutdown,
+    recovery,
     bundleConfig,
     wdkConfigs,
   ])
@@ -0,0 +1,63 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useEffect } from 'react'
+import {
+  WorkletSupervisorService,
+  type WorkletSupervisorConfig,
+} from '../../services/workletSupervisorService'
+
+/**
+ * Runs WorkletSupervisorService for as long as the provider is mounted and a
+ * supervisor config is given. Depends on the individual config values so an
+ * inline config object doesn't restart supervision on every render.
+ */
+export function useWorkletSupervisor(config?: WorkletSupervisorConfig) {
+  const enabled = config != null
+  const heartbeatIntervalMs = config?.heartbeatIntervalMs
+  const heartbeatTimeoutMs = config?.heartbeatTimeoutMs
+  const maxAttempts = config?.restartPolicy?.maxAttempts
+  const initialDelayMs = config?.restartPolicy?.initialDelayMs
+  const maxDelayMs = config?.restartPolicy?.maxDelayMs
+  const backoffMultiplier = config?.restartPolicy?.backoffMultiplier
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    WorkletSupervisorService.start({
+      heartbeatIntervalMs,
+      heartbeatTimeoutMs,
+      restartPolicy: {
+        ...(maxAttempts !== undefined && { maxAttempts }),
+        ...(initialDelayMs !== undefined && { initialDelayMs }),
+        ...(maxDelayMs !== undefined && { maxDelayMs }),
+        ...(backoffMultiplier !== undefined && { backoffMultiplier }),
+      },
+    })
+
+    return () => {
+      WorkletSupervisorService.stop()
+    }
+  }, [
+    enabled,
+    heartbeatIntervalMs,
+    heartbeatTimeoutMs,
+    maxAttempts,
+    initialDelayMs,
+    maxDelayMs,
+    backoffMultiplier,
+  ])
+}
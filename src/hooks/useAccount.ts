@@ -20,10 +20,13 @@ import type { IAsset } from '../types'
 import { BalanceFetchResult } from '../types'
 import { useAddressLoader } from './useAddressLoader'
 import { requireInitialized } from '../utils/storeHelpers'
+import type { CallOptions } from '../utils/callOptions'
 
 export type UseAccountParams = {
   accountIndex: number
   network: string
+  /** Default timeout / abort signal for this account's worklet calls (per-call options override it) */
+  callOptions?: CallOptions
 }
 
 export interface TransactionParams {
@@ -68,27 +71,28 @@ export interface UseAccountReturn<T extends object> {
   /**
    * Executes a transfer of any asset, from native coins to smart contract tokens.
    */
-  send: (params: TransactionParams) => Promise<TransactionResult>
+  send: (params: TransactionParams, options?: CallOptions) => Promise<TransactionResult>
 
   /**
    * Signs a simple UTF-8 string message with the account's private key.
    */
-  sign: (message: string) => Promise<UseAccountResponse & { signature: string }>
+  sign: (message: string, options?: CallOptions) => Promise<UseAccountResponse & { signature: string }>
 
   /**
    * Verifies a signature.
    */
-  verify: (message: string, signature: string) => Promise<UseAccountResponse & { verified: boolean }>
+  verify: (message: string, signature: string, options?: CallOptions) => Promise<UseAccountResponse & { verified: boolean }>
   
   /**
    * Query fee for a transaction.
    */
-  estimateFee: (params: TransactionParams) => Promise<Omit<TransactionResult, 'hash'>>
+  estimateFee: (params: TransactionParams, options?: CallOptions) => Promise<Omit<TransactionResult, 'hash'>>
 
   /**
    * Accesses chain-specific or other modular features not included in the core API.
    * Returns a typed, "live" proxied interface that will work correctly even if
-   * the account is not ready at the time of its creation.
+   * the account is not ready at the time of its creation. Calls use the hook's
+   * `callOptions`.
    * @example
    * const btcAccount = useAccount<WalletAccountBtc>();
    * const btcExtension = btcAccount.extension(); // This can be called safely at any time
@@ -102,6 +106,17 @@ export function useAccount<T extends object>(
 ): UseAccountReturn<T> {
   const { address, isLoading, error: addressLoaderError } = useAddressLoader(accountParams)
   const activeWalletId = getWalletStore()((state) => state.activeWalletId)
+  const defaultTimeoutMs = accountParams.callOptions?.timeoutMs
+  const defaultSignal = accountParams.callOptions?.signal
+
+  const resolveCallOptions = useCallback(
+    (options?: CallOptions): CallOptions => ({
+      timeoutMs: defaultTimeoutMs,
+      signal: defaultSignal,
+      ...options,
+    }),
+    [defaultTimeoutMs, defaultSignal],
+  )
   
   const activeWalletError = useMemo(() => {
     if (!activeWalletId) {
@@ -153,7 +168,7 @@ export function useAccount<T extends object>(
   )
 
   const send = useCallback(
-    async (params: TransactionParams): Promise<TransactionResult> => {
+    async (params: TransactionParams, options?: CallOptions): Promise<TransactionResult> => {
       await requireInitialized();
 
       if (!account) {
@@ -168,7 +183,8 @@ export function useAccount<T extends object>(
       const { to, asset, amount } = params
 
       if (asset.isNative()) {
-        const txResult = await AccountService.callAccountMethod<'sendTransaction'>(
+        const txResult = await AccountService.callAccountMethodWithOptions<'sendTransaction'>(
+          resolveCallOptions(options),
           account.network,
           account.accountIndex,
           'sendTransaction',
@@ -194,7 +210,8 @@ export function useAccount<T extends object>(
           }
         }
 
-        const txResult = await AccountService.callAccountMethod<'transfer'>(
+        const txResult = await AccountService.callAccountMethodWithOptions<'transfer'>(
+          resolveCallOptions(options),
           account.network,
           account.accountIndex,
           'transfer',
@@ -211,11 +228,11 @@ export function useAccount<T extends object>(
         }
       }
     },
-    [account],
+    [account, resolveCallOptions],
   )
 
   const sign = useCallback(
-    async (message: string): Promise<UseAccountResponse & { signature: string }> => {
+    async (message: string, options?: CallOptions): Promise<UseAccountResponse & { signature: string }> => {
       await requireInitialized();
 
       if (!account) {
@@ -226,7 +243,8 @@ export function useAccount<T extends object>(
         }
       }
 
-      const signature = await AccountService.callAccountMethod<'sign'>(
+      const signature = await AccountService.callAccountMethodWithOptions<'sign'>(
+        resolveCallOptions(options),
         account.network,
         account.accountIndex,
         'sign',
@@ -238,11 +256,11 @@ export function useAccount<T extends object>(
         signature
       }
     },
-    [account],
+    [account, resolveCallOptions],
   )
 
   const verify = useCallback(
-    async (message: string, signature: string): Promise<UseAccountResponse & { verified: boolean }> => {
+    async (message: string, signature: string, options?: CallOptions): Promise<UseAccountResponse & { verified: boolean }> => {
       await requireInitialized();
 
       if (!account) {
@@ -253,7 +271,8 @@ export function useAccount<T extends object>(
         }
       }
 
-      const isValid = await AccountService.callAccountMethod<'verify'>(
+      const isValid = await AccountService.callAccountMethodWithOptions<'verify'>(
+        resolveCallOptions(options),
         account.network,
         account.accountIndex,
         'verify',
@@ -266,12 +285,13 @@ export function useAccount<T extends object>(
         verified: isValid
       }
     },
-    [account],
+    [account, resolveCallOptions],
   )
 
   const estimateFee = useCallback(
     async (
       params: TransactionParams,
+      options?: CallOptions,
     ): Promise<Omit<TransactionResult, 'hash'>> => {
       await requireInitialized();
 
@@ -285,7 +305,8 @@ export function useAccount<T extends object>(
 
       if (params.asset.isNative()) {
         const feeResponse =
-          await AccountService.callAccountMethod<'quoteSendTransaction'>(
+          await AccountService.callAccountMethodWithOptions<'quoteSendTransaction'>(
+            resolveCallOptions(options),
             account.network,
             account.accountIndex,
             'quoteSendTransaction',
@@ -308,7 +329,8 @@ export function useAccount<T extends object>(
         }
       }
 
-      const feeResponse = await AccountService.callAccountMethod<'quoteTransfer'>(
+      const feeResponse = await AccountService.callAccountMethodWithOptions<'quoteTransfer'>(
+        resolveCallOptions(options),
         account.network,
         account.accountIndex,
         'quoteTransfer',
@@ -320,7 +342,7 @@ export function useAccount<T extends object>(
         ...feeResponse,
       }
     },
-    [account],
+    [account, resolveCallOptions],
   )
 
   const extension = useCallback((): T => {
@@ -342,7 +364,8 @@ export function useAccount<T extends object>(
           }
 
           if (typeof prop === 'string') {
-            return await AccountService.callAccountMethod(
+            return await AccountService.callAccountMethodWithOptions(
+              resolveCallOptions(),
               account.network,
               account.accountIndex,
               prop,
@@ -352,7 +375,7 @@ export function useAccount<T extends object>(
         }
       },
     })
-  }, [account])
+  }, [account, resolveCallOptions])
 
   return useMemo(
     () => {
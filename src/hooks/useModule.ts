@@ -14,6 +14,7 @@
 
 import { useEffect, useMemo, useRef } from 'react'
 import { ModuleService, type ModuleEventListener } from '../services/moduleService'
+import type { CallOptions } from '../utils/callOptions'
 
 /**
  * Typed "live" proxy for a worklet module: each method call is a callModule RPC,
@@ -26,6 +27,7 @@ export type UseModuleProxy<T extends object> = T & {
 /**
  * Generic hook for a bundled worklet module by name. The module is constructed at
  * WDK init (via config), so the hook just proxies calls + event subscriptions.
+ * `callOptions` (timeout / abort signal) applies to every method call.
  *
  * @example
  * const addressBook = useModule<AddressBookApi>('addressBook')
@@ -34,7 +36,11 @@ export type UseModuleProxy<T extends object> = T & {
  */
 export function useModule<T extends object = Record<string, (...args: unknown[]) => Promise<unknown>>>(
   moduleName: string,
+  callOptions?: CallOptions,
 ): UseModuleProxy<T> {
+  const timeoutMs = callOptions?.timeoutMs
+  const signal = callOptions?.signal
+
   const subscriptionsRef = useRef<Array<() => void>>([])
 
   useEffect(() => {
@@ -69,12 +75,12 @@ export function useModule<T extends object = Record<string, (...args: unknown[])
 
         if (typeof prop === 'string') {
           return async (...args: unknown[]): Promise<unknown> => {
-            return await ModuleService.callModule(moduleName, prop, ...args)
+            return await ModuleService.callModuleWithOptions({ timeoutMs, signal }, moduleName, prop, ...args)
           }
         }
 
         return undefined
       },
     })
-  }, [moduleName])
+  }, [moduleName, timeoutMs, signal])
 }
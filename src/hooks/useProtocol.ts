@@ -17,12 +17,15 @@ import { AccountService } from '../services/accountService'
 import { getWalletStore } from '../store/walletStore'
 import { useAddressLoader } from './useAddressLoader'
 import { requireInitialized } from '../utils/storeHelpers'
+import type { CallOptions } from '../utils/callOptions'
 
 export type UseProtocolParams = {
   accountIndex: number
   network: string
   protocolType: 'bridge' | 'swap' | 'swidge' | 'lending' | 'fiat'
   protocolName: string
+  /** Timeout / abort signal applied to every protocol call */
+  callOptions?: CallOptions
 }
 
 /**
@@ -42,6 +45,8 @@ export type UseProtocolParams = {
  */
 export function useProtocol<T extends object>(params: UseProtocolParams): T {
   const { accountIndex, network, protocolType, protocolName } = params
+  const timeoutMs = params.callOptions?.timeoutMs
+  const signal = params.callOptions?.signal
 
   const { address } = useAddressLoader({ accountIndex, network })
   const activeWalletId = getWalletStore()((state) => state.activeWalletId)
@@ -72,7 +77,8 @@ export function useProtocol<T extends object>(params: UseProtocolParams): T {
           }
 
           if (typeof prop === 'string') {
-            return await AccountService.callProtocolMethod(
+            return await AccountService.callProtocolMethodWithOptions(
+              { timeoutMs, signal },
               account.network,
               account.accountIndex,
               prop,
@@ -84,7 +90,7 @@ export function useProtocol<T extends object>(params: UseProtocolParams): T {
         }
       },
     })
-  }, [account, protocolType, protocolName])
+  }, [account, protocolType, protocolName, timeoutMs, signal])
 
   return useMemo(() => protocol(), [protocol])
 }
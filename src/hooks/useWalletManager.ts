@@ -14,21 +14,101 @@
 
 import { produce } from 'immer'
 import { useMemo, useCallback } from 'react'
-import { WalletSetupService } from '../services/walletSetupService'
+import {
+  WalletSetupService,
+  type RecoveredWallet,
+} from '../services/walletSetupService'
+import {
+  MnemonicRevealService,
+  type BackupQuiz,
+  type BackupQuizOptions,
+  type MnemonicRevealOptions,
+  type MnemonicRevealSession,
+} from '../services/mnemonicRevealService'
 import { WorkletLifecycleService } from '../services/workletLifecycleService'
 import {
   getWalletStore,
   updateWalletLoadingState,
   WalletInfo,
+  WalletMetadata,
   WalletState,
+  WatchOnlyAccounts,
 } from '../store/walletStore'
 import { getWorkletStore } from '../store/workletStore'
 import { log, logError } from '../utils/logger'
+import {
+  discoverAccounts as discoverWalletAccounts,
+  type AccountDiscoveryOptions,
+  type AccountDiscoveryResult,
+} from '../utils/accountDiscovery'
 import { withOperationMutex } from '../utils/operationMutex'
+import { validateNetworkName } from '../utils/validation'
+import { lockActiveWallet } from '../utils/walletLock'
+import {
+  reconcileWallets as reconcileStoredWallets,
+  type ReconcileWalletsOptions,
+  type WalletReconciliationReport,
+} from '../utils/walletReconciliation'
 import { useShallow } from 'zustand/react/shallow'
 import { DEFAULT_WALLET_IDENTIFIER } from '../utils/constants'
+import type { ShareSplitOptions, ShareValidationResult } from '../utils/shamirShares'
+import type { WalletBackupImportResult, WalletBackupMetadata } from '../utils/walletBackup'
+import type { WalletFingerprint } from '../utils/walletFingerprint'
+
+export type { WalletInfo, WalletMetadata, WatchOnlyAccounts }
+
+/**
+ * Optional BIP-39 passphrase ("25th word"). It's used for the call only and
+ * never persisted - the app must ask for it again on every unlock.
+ */
+export interface WalletPassphraseOptions {
+  passphrase?: string
+}
 
-export type { WalletInfo }
+export interface RestoreWalletOptions extends WalletPassphraseOptions {
+  /**
+   * Restore even if the seed is already on the device under another wallet
+   * ID; otherwise that rejects with DuplicateWalletError
+   */
+  allowDuplicate?: boolean
+}
+
+/** Trailing passphrase argument for the services, omitted when empty */
+const passphraseArg = (options?: WalletPassphraseOptions): [] | [string] =>
+  options?.passphrase ? [options.passphrase] : []
+
+/** Trailing passphrase and duplicate arguments for the restore services */
+const restoreArgs = (
+  options?: RestoreWalletOptions,
+): [passphrase?: string, duplicates?: { allowDuplicate: true }] =>
+  options?.allowDuplicate
+    ? [options.passphrase || undefined, { allowDuplicate: true }]
+    : passphraseArg(options)
+
+/** Merge into a wallet's metadata (inside produce), creating it if missing */
+const patchMetadata = (
+  state: WalletState,
+  walletId: string,
+  patch: Partial<WalletMetadata>,
+): void => {
+  state.walletMetadata[walletId] = {
+    backedUp: false,
+    ...state.walletMetadata[walletId],
+    ...patch,
+  }
+}
+
+export interface WalletAppearance {
+  /** App-defined icon key; null clears it */
+  icon?: string | null
+  /** App-defined colour; null clears it */
+  color?: string | null
+}
+
+export interface WalletBackupExportOptions {
+  /** Wallets to include; defaults to every stored wallet except the temporary one */
+  walletIds?: string[]
+}
 
 export interface UseWalletManagerResult {
   /** The currently "Active" Wallet ID (Seed) loaded in the engine. */
@@ -37,27 +117,89 @@ export interface UseWalletManagerResult {
   /** The current state of the active wallet. */
   status: 'LOCKED' | 'UNLOCKED' | 'NO_WALLET' | 'LOADING' | 'ERROR'
 
-  /** List of backing Wallets (Seeds) managed by the device. */
+  /** List of backing Wallets (Seeds) managed by the device, in display order. */
   wallets: WalletInfo[]
 
+  /**
+   * Persisted metadata per walletId: name, icon/colour, createdAt,
+   * lastUnlockedAt, origin and whether it's backed up.
+   */
+  walletMetadata: Record<string, WalletMetadata>
+
+  /** Set a wallet's display name; an empty name clears it. */
+  renameWallet: (walletId: string, name: string) => void
+
+  /** Set a wallet's icon and/or colour. */
+  setWalletIcon: (walletId: string, appearance: WalletAppearance) => void
+
+  /**
+   * Put wallets in the given order. Wallets not listed keep their relative
+   * order after the listed ones.
+   */
+  reorderWallets: (walletIds: string[]) => void
+
+  /** Record whether the user has backed up a wallet's recovery phrase. */
+  setWalletBackedUp: (walletId: string, backedUp?: boolean) => void
+
   /**
    * Create a new Wallet (Seed).
    * The app is responsible for any biometric or other security check before
    * calling this - the library does not enforce one.
    */
-  createWallet: (walletId: string) => Promise<void>
+  createWallet: (walletId: string, options?: WalletPassphraseOptions) => Promise<void>
 
   /**
    * Restore a Wallet from Seed Phrase. Returns the new walletId.
    * The app is responsible for any biometric or other security check before
    * calling this - the library does not enforce one.
+   * Rejects with DuplicateWalletError if the seed is already on the device
+   * under another ID (offer switchWallet(error.existingWalletId)), unless
+   * options.allowDuplicate.
+   */
+  restoreWallet: (
+    mnemonic: string,
+    walletId: string,
+    options?: RestoreWalletOptions,
+  ) => Promise<string>
+
+  /**
+   * Register a watch-only wallet: addresses and/or xpubs per network, no
+   * seed. It joins the wallet list locked; once unlocked it reads addresses
+   * and balances like any wallet, while send, sign and other write calls
+   * reject with WatchOnlyWalletError.
+   */
+  addWatchOnlyWallet: (walletId: string, accounts: WatchOnlyAccounts) => Promise<void>
+
+  /**
+   * Split a wallet's recovery secret into `shareCount` SLIP-39 shares, any
+   * `threshold` of which restore it. A BIP-39 passphrase is not included.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
+   */
+  splitWalletIntoShares: (walletId: string, options: ShareSplitOptions) => Promise<string[]>
+
+  /**
+   * Check SLIP-39 shares as the user enters them: which are invalid, and
+   * how many more are needed.
+   */
+  validateShares: (shares: string[]) => Promise<ShareValidationResult>
+
+  /**
+   * Restore a Wallet from SLIP-39 shares, like restoreWallet. Returns the
+   * new walletId.
    */
-  restoreWallet: (mnemonic: string, walletId: string) => Promise<string>
+  restoreWalletFromShares: (
+    shares: string[],
+    walletId: string,
+    options?: RestoreWalletOptions,
+  ) => Promise<string>
 
   /** Generate a mnemonic phrase. */
   generateMnemonic: (wordCount?: 12 | 24) => Promise<string>
 
-  /** Delete/Remove a wallet and all associated data. */
+  /**
+   * Delete/Remove a wallet and all associated data.
+   * Requires whatever the provider's authPolicy sets for deleteWallet.
+   */
   deleteWallet: (walletId: string) => Promise<void>
 
   /**
@@ -70,22 +212,23 @@ export interface UseWalletManagerResult {
 
   /**
    * Unlocks a wallet by decrypting and loading it.
-   * The app is responsible for any biometric or other security check before
-   * calling this - the library does not enforce one.
+   * Requires whatever the provider's authPolicy sets for unlock.
    * Resolves without doing anything if this exact wallet is already ready.
    * Throws if a *different* wallet is already active - call lock() first.
+   * Wallets with passphraseRequired reject with PassphraseRequiredError
+   * unless options.passphrase is given; a passphrase on any other wallet
+   * opens the hidden wallet it derives.
    * @param walletId - The wallet to unlock. Callers own identity - there is no implicit fallback.
    */
-  unlock: (walletId: string) => Promise<void>
+  unlock: (walletId: string, options?: WalletPassphraseOptions) => Promise<void>
 
   /**
    * Switches to a different wallet.
    * Equivalent to calling lock() followed by unlock(walletId), performed as a single
    * atomic operation so the previous wallet's data is always cleared before the new
-   * one is loaded. The app is responsible for any biometric or other security check
-   * before calling this - the library does not enforce one.
+   * one is loaded. Requires whatever the provider's authPolicy sets for unlock.
    */
-  switchWallet: (walletId: string) => Promise<void>
+  switchWallet: (walletId: string, options?: WalletPassphraseOptions) => Promise<void>
 
   /** Clear the wallet cache. */
   clearCache: () => void
@@ -96,7 +239,11 @@ export interface UseWalletManagerResult {
    * Useful for previewing addresses before committing to creating a real wallet
    * Only one temporary wallet can exist at a time. Creating a new one will clear the previous session.
    */
-  createTemporaryWallet: (walletId: string, mnemonic?: string) => Promise<string>
+  createTemporaryWallet: (
+    walletId: string,
+    mnemonic?: string,
+    options?: WalletPassphraseOptions,
+  ) => Promise<string>
 
   /**
    * Clear the temporary wallet session.
@@ -104,16 +251,73 @@ export interface UseWalletManagerResult {
    */
   clearTemporaryWallet: () => void
 
+  /**
+   * Keep the temporary wallet: store its seed and entropy as they were
+   * created, without deriving them again, and turn it into a regular wallet
+   * that stays unlocked with the addresses already derived. Rejects with
+   * DuplicateWalletError like restoreWallet, unless options.allowDuplicate.
+   */
+  commitTemporaryWallet: (walletId: string, options?: RestoreWalletOptions) => Promise<void>
+
   /**
    * Get mnemonic phrase from wallet.
-   * The app is responsible for any biometric or other security check before
-   * calling this - the library does not enforce one.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
    */
   getMnemonic: (walletId: string) => Promise<string | null>
 
+  /**
+   * Reveal the recovery phrase through a session that drops it after
+   * options.ttlMs (default 60s), on app background and on lock. Records
+   * the reveal in the wallet's metadata.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
+   */
+  revealMnemonic: (walletId: string, options?: MnemonicRevealOptions) => Promise<MnemonicRevealSession>
+
+  /**
+   * Quiz the user on a few words of a live reveal session. Passing it marks
+   * the wallet as backed up.
+   */
+  createBackupQuiz: (session: MnemonicRevealSession, options?: BackupQuizOptions) => Promise<BackupQuiz>
+
   /** Get encryption key from cache or secure storage. */
   getEncryptionKey: (walletId: string) => Promise<string | null>
 
+  /**
+   * Re-encrypt a wallet's stored seed and entropy under a fresh key. The
+   * previous entries are restored if the swap fails part way; an unlocked
+   * wallet stays unlocked.
+   */
+  rotateEncryptionKey: (walletId: string) => Promise<void>
+
+  /**
+   * Export wallets as a password-encrypted backup blob, along with their
+   * wallet list entries and account lists. Passphrases are not included.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
+   */
+  exportBackup: (password: string, options?: WalletBackupExportOptions) => Promise<string>
+
+  /**
+   * Restore the wallets in a backup made by exportBackup. Wallets whose ID
+   * already exists are skipped; restored ones join the wallet list locked.
+   * Throws if a wallet is active - call lock() first.
+   */
+  importBackup: (blob: string, password: string) => Promise<WalletBackupImportResult>
+
+  /**
+   * Compare walletList and per-wallet data (MMKV) with what secure storage
+   * holds: wallets stored but not listed, listed but gone, data for unknown
+   * wallets, and unreadable entries. Reports only unless options.repair;
+   * missing wallets are removed only with options.removeMissing too.
+   */
+  reconcileWallets: (options?: ReconcileWalletsOptions) => Promise<WalletReconciliationReport>
+
+  /**
+   * Find the used accounts of the active wallet (e.g. after restoreWallet):
+   * each network is scanned by account index until options.gapLimit unused
+   * accounts in a row. The accounts found are saved to its accountList.
+   */
+  discoverAccounts: (options?: AccountDiscoveryOptions) => Promise<AccountDiscoveryResult>
+
   /** Get encrypted seed from cache or secure storage. */
   getEncryptedSeed: (walletId: string) => Promise<string | null>
 
@@ -133,8 +337,8 @@ export interface UseWalletManagerResult {
     encryptionKey: string,
   ) => Promise<{ mnemonic: string }>
 
-  /** Get seed and entropy from mnemonic phrase. */
-  getSeedAndEntropyFromMnemonic: (mnemonic: string) => Promise<{
+  /** Get seed and entropy from mnemonic phrase, optionally with a BIP-39 passphrase. */
+  getSeedAndEntropyFromMnemonic: (mnemonic: string, passphrase?: string) => Promise<{
     encryptionKey: string
     encryptedSeedBuffer: string
     encryptedEntropyBuffer: string
@@ -146,9 +350,10 @@ export function useWalletManager(): UseWalletManagerResult {
   const workletStore = getWorkletStore()
 
   // Subscribe to wallet list state and loading state from Zustand
-  const { wallets, activeWalletId, walletLoadingState } = walletStore(
+  const { wallets, walletMetadata, activeWalletId, walletLoadingState } = walletStore(
     useShallow((state) => ({
       wallets: state.walletList,
+      walletMetadata: state.walletMetadata,
       activeWalletId: state.activeWalletId,
       walletLoadingState: state.walletLoadingState,
     })),
@@ -186,15 +391,8 @@ export function useWalletManager(): UseWalletManagerResult {
    * drops back to not_loaded. Callers are responsible for tracking which wallet to target on the next unlock.
    */
   const performLock = useCallback(() => {
-    if (walletStore.getState().activeWalletId) {
-      WorkletLifecycleService.reset()
-      walletStore.setState({
-        activeWalletId: null,
-        walletLoadingState: { type: 'not_loaded' },
-      })
-      log('[useWalletManager] Locked wallet and cleared active wallet ID')
-    }
-  }, [walletStore])
+    lockActiveWallet()
+  }, [])
 
   const lock = useCallback(
     () => withOperationMutex('lock', async () => performLock()),
@@ -211,6 +409,7 @@ export function useWalletManager(): UseWalletManagerResult {
     if (activeWalletId === tempWalletId) {
       performLock()
     }
+    WalletSetupService.discardTemporaryWallet()
 
     walletStore.setState(
       produce((state: WalletState) => {
@@ -225,7 +424,7 @@ export function useWalletManager(): UseWalletManagerResult {
   }, [performLock, walletStore])
 
   const performUnlock = useCallback(
-    async (walletId: string) => {
+    async (walletId: string, options?: WalletPassphraseOptions) => {
       const { walletLoadingState: currentLoadingState, activeWalletId } =
         walletStore.getState()
       if (currentLoadingState.type === 'ready') {
@@ -255,9 +454,34 @@ export function useWalletManager(): UseWalletManagerResult {
           }),
         )
 
-        await WalletSetupService.initializeWallet({
-          walletId,
-        })
+        const watched = walletStore.getState().watchOnlyWallets[walletId]
+        let fingerprint: WalletFingerprint | null | undefined
+        if (watched) {
+          await WalletSetupService.initializeWatchOnly(watched)
+        } else {
+          await WalletSetupService.initializeWallet({
+            walletId,
+            passphrase: options?.passphrase,
+          })
+          // Wallets from before fingerprints, or from before a network was
+          // added, get the missing networks on the next unlock; a
+          // passphrase can open a different wallet, so only without one
+          const stored = walletStore.getState().walletMetadata[walletId]?.fingerprint
+          const networks = Object.keys(workletStore.getState().wdkConfigs?.networks ?? {})
+          if (!options?.passphrase && (!stored || networks.some((network) => !stored[network]))) {
+            const loaded = await WalletSetupService.getLoadedWalletFingerprint()
+            fingerprint = loaded ? { ...stored, ...loaded } : null
+          }
+        }
+
+        walletStore.setState((prev) =>
+          produce(prev, (state) => {
+            patchMetadata(state, walletId, {
+              lastUnlockedAt: Date.now(),
+              ...(fingerprint ? { fingerprint } : {}),
+            })
+          }),
+        )
 
         walletStore.setState((prev) =>
           updateWalletLoadingState(prev, {
@@ -278,19 +502,20 @@ export function useWalletManager(): UseWalletManagerResult {
         throw err
       }
     },
-    [walletStore, clearTemporaryWallet],
+    [walletStore, workletStore, clearTemporaryWallet],
   )
 
   const unlock = useCallback(
-    (walletId: string) => withOperationMutex('unlock', () => performUnlock(walletId)),
+    (walletId: string, options?: WalletPassphraseOptions) =>
+      withOperationMutex('unlock', () => performUnlock(walletId, options)),
     [performUnlock],
   )
 
   const switchWallet = useCallback(
-    (walletId: string) =>
+    (walletId: string, options?: WalletPassphraseOptions) =>
       withOperationMutex('switchWallet', async () => {
         performLock()
-        await performUnlock(walletId)
+        await performUnlock(walletId, options)
       }),
     [performLock, performUnlock],
   )
@@ -326,10 +551,18 @@ export function useWalletManager(): UseWalletManagerResult {
         }
 
         const walletChecks = await Promise.all(
-          identifiersToCheck.map(async (id) => ({
-            identifier: id,
-            exists: await checkWallet(id),
-          })),
+          identifiersToCheck.map(async (id): Promise<WalletInfo> => {
+            const known = existingWallets.find(w => w.identifier === id)
+            // Watch-only wallets have nothing in secure storage to check
+            if (known?.watchOnly) {
+              return known
+            }
+            return {
+              identifier: id,
+              exists: await checkWallet(id),
+              ...(known?.passphraseRequired ? { passphraseRequired: true } : {}),
+            }
+          }),
         )
         return walletStore.setState({ walletList: walletChecks })
       } catch (err) {
@@ -340,9 +573,18 @@ export function useWalletManager(): UseWalletManagerResult {
     [checkWallet, walletStore],
   )
 
-  const restoreWallet = useCallback(
-    (mnemonic: string, walletId: string): Promise<string> =>
-      withOperationMutex('restoreWallet', async () => {
+  /**
+   * Shared by restoreWallet and restoreWalletFromShares: `recover` stores
+   * and loads the wallet, the rest is list and state bookkeeping
+   */
+  const performRestore = useCallback(
+    (
+      operation: string,
+      walletId: string,
+      options: RestoreWalletOptions | undefined,
+      recover: () => Promise<RecoveredWallet>,
+    ): Promise<string> =>
+      withOperationMutex(operation, async () => {
         if (walletStore.getState().walletLoadingState.type === 'ready') {
           throw new Error(
             'A wallet is already active. Call lock() before restoring a new wallet.',
@@ -366,12 +608,31 @@ export function useWalletManager(): UseWalletManagerResult {
             }),
           )
 
-          await WalletSetupService.initializeFromMnemonic(mnemonic, walletId)
+          const { fingerprint } = await recover()
 
           // Refresh the main wallet list so the UI updates
           await refreshWalletList([walletId])
 
-          walletStore.setState({ activeWalletId: walletId })
+          walletStore.setState((prev) =>
+            produce(prev, (state) => {
+              if (options?.passphrase) {
+                const entry = state.walletList.find(
+                  ({ identifier }) => identifier === walletId,
+                )
+                if (entry) entry.passphraseRequired = true
+              }
+              const now = Date.now()
+              patchMetadata(state, walletId, {
+                origin: 'restored',
+                createdAt: now,
+                lastUnlockedAt: now,
+                // The user just typed the phrase in, so they have it
+                backedUp: true,
+                ...(fingerprint ? { fingerprint } : {}),
+              })
+              state.activeWalletId = walletId
+            }),
+          )
 
           walletStore.setState((prev) =>
             updateWalletLoadingState(prev, {
@@ -397,6 +658,62 @@ export function useWalletManager(): UseWalletManagerResult {
     [refreshWalletList, walletStore, clearTemporaryWallet],
   )
 
+  const restoreWallet = useCallback(
+    (
+      mnemonic: string,
+      walletId: string,
+      options?: RestoreWalletOptions,
+    ): Promise<string> =>
+      performRestore('restoreWallet', walletId, options, () =>
+        WalletSetupService.initializeFromMnemonic(
+          mnemonic,
+          walletId,
+          ...restoreArgs(options),
+        ),
+      ),
+    [performRestore],
+  )
+
+  const restoreWalletFromShares = useCallback(
+    (
+      shares: string[],
+      walletId: string,
+      options?: RestoreWalletOptions,
+    ): Promise<string> =>
+      performRestore('restoreWalletFromShares', walletId, options, () =>
+        WalletSetupService.initializeFromShares(
+          shares,
+          walletId,
+          ...restoreArgs(options),
+        ),
+      ),
+    [performRestore],
+  )
+
+  const splitWalletIntoShares = useCallback(
+    async (walletId: string, options: ShareSplitOptions): Promise<string[]> => {
+      try {
+        return await WalletSetupService.splitIntoShares(walletId, options)
+      } catch (err) {
+        logError('Failed to split wallet into shares:', err)
+        throw err
+      }
+    },
+    [],
+  )
+
+  const validateShares = useCallback(
+    async (shares: string[]): Promise<ShareValidationResult> => {
+      try {
+        return await WalletSetupService.validateShares(shares)
+      } catch (err) {
+        logError('Failed to validate shares:', err)
+        throw err
+      }
+    },
+    [],
+  )
+
   const deleteWallet = useCallback(
     async (walletId: string) => {
       if (!walletId) {
@@ -411,6 +728,8 @@ export function useWalletManager(): UseWalletManagerResult {
             delete state.addresses[walletId]
             delete state.balances[walletId]
             delete state.accountList[walletId]
+            delete state.walletMetadata[walletId]
+            delete state.watchOnlyWallets[walletId]
             delete state.lastBalanceUpdate[walletId]
             delete state.walletLoading[walletId]
             delete state.balanceLoading[walletId]
@@ -437,10 +756,68 @@ export function useWalletManager(): UseWalletManagerResult {
     [walletStore],
   )
 
+  const commitTemporaryWallet = useCallback(
+    (walletId: string, options?: RestoreWalletOptions): Promise<void> =>
+      withOperationMutex('commitTemporaryWallet', async () => {
+        const { tempWalletId, activeWalletId, walletLoadingState } =
+          walletStore.getState()
+        if (
+          !walletId ||
+          tempWalletId !== walletId ||
+          activeWalletId !== walletId ||
+          walletLoadingState.type !== 'ready'
+        ) {
+          throw new Error(`"${walletId}" is not the active temporary wallet.`)
+        }
+
+        try {
+          const { passphraseRequired, restored, fingerprint } =
+            await WalletSetupService.commitTemporaryWallet(
+              walletId,
+              options?.allowDuplicate ? { allowDuplicate: true } : {},
+            )
+
+          // The walletList entry and the derived addresses are already there
+          walletStore.setState((prev) =>
+            produce(prev, (state) => {
+              state.tempWalletId = null
+              const entry = state.walletList.find(
+                ({ identifier }) => identifier === walletId,
+              )
+              if (entry) {
+                entry.exists = true
+                if (passphraseRequired) entry.passphraseRequired = true
+              } else {
+                state.walletList.push({
+                  identifier: walletId,
+                  exists: true,
+                  ...(passphraseRequired ? { passphraseRequired: true } : {}),
+                })
+              }
+              const now = Date.now()
+              patchMetadata(state, walletId, {
+                origin: restored ? 'restored' : 'created',
+                createdAt: now,
+                lastUnlockedAt: now,
+                // A phrase typed in is one the user has
+                backedUp: Boolean(restored),
+                ...(fingerprint ? { fingerprint } : {}),
+              })
+            }),
+          )
+
+          log(`[useWalletManager] Committed temporary wallet ${walletId}`)
+        } catch (err) {
+          logError('Failed to commit temporary wallet:', err)
+          throw err
+        }
+      }),
+    [walletStore],
+  )
+
   /**
    * Get mnemonic phrase from wallet.
-   * The app is responsible for any biometric or other security check before
-   * calling this - the library does not enforce one.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
    */
   const getMnemonic = useCallback(
     async (walletId: string): Promise<string | null> => {
@@ -454,10 +831,21 @@ export function useWalletManager(): UseWalletManagerResult {
     [],
   )
 
+  const revealMnemonic = useCallback(
+    (walletId: string, options?: MnemonicRevealOptions) =>
+      MnemonicRevealService.reveal(walletId, options),
+    [],
+  )
+
+  const createBackupQuiz = useCallback(
+    (session: MnemonicRevealSession, options?: BackupQuizOptions) =>
+      MnemonicRevealService.createQuiz(session, options),
+    [],
+  )
+
   /**
    * Get encryption key from cache or secure storage.
-   * The app is responsible for any biometric or other security check before
-   * calling this - the library does not enforce one.
+   * Requires whatever the provider's authPolicy sets for getMnemonic.
    *
    * @param walletId - Optional walletId override (defaults to hook's walletId)
    * @returns Promise resolving to encryption key or null if not found
@@ -547,12 +935,13 @@ export function useWalletManager(): UseWalletManagerResult {
   )
 
   const getSeedAndEntropyFromMnemonic = useCallback(
-    async (mnemonic: string) => {
+    async (mnemonic: string, passphrase?: string) => {
       try {
         await WorkletLifecycleService.ensureWorkletStarted()
 
         return await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(
           mnemonic,
+          passphrase,
         )
       } catch (err) {
         logError('Failed to get seed from mnemonic:', err)
@@ -579,7 +968,11 @@ export function useWalletManager(): UseWalletManagerResult {
   
 
   const createTemporaryWallet = useCallback(
-    async (walletId: string, mnemonic?: string): Promise<string> => {
+    async (
+      walletId: string,
+      mnemonic?: string,
+      options?: WalletPassphraseOptions,
+    ): Promise<string> => {
       return withOperationMutex('createTemporaryWallet', async () => {
         if (!walletId || typeof walletId !== 'string') {
           throw new Error('A valid walletId is required for createTemporaryWallet.')
@@ -598,26 +991,21 @@ export function useWalletManager(): UseWalletManagerResult {
         try {
           await WorkletLifecycleService.ensureWorkletStarted()
 
-          let encryptionKey: string
-          let encryptedSeed: string
-
-          if (mnemonic) {
-            const result =
-              await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(
+          const result = mnemonic
+            ? await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(
                 mnemonic,
+                ...passphraseArg(options),
               )
-            encryptionKey = result.encryptionKey
-            encryptedSeed = result.encryptedSeedBuffer
-          } else {
-            const result =
-              await WorkletLifecycleService.generateEntropyAndEncrypt()
-            encryptionKey = result.encryptionKey
-            encryptedSeed = result.encryptedSeedBuffer
-          }
+            : await WorkletLifecycleService.generateEntropyAndEncrypt(
+                undefined,
+                ...passphraseArg(options),
+              )
+          const { encryptionKey, encryptedSeedBuffer: encryptedSeed } = result
 
           const tempWalletInfo: WalletInfo = {
             identifier: tempWalletId,
-            exists: true
+            exists: true,
+            ...(options?.passphrase ? { passphraseRequired: true } : {}),
           }
 
           walletStore.setState(
@@ -643,6 +1031,14 @@ export function useWalletManager(): UseWalletManagerResult {
             encryptionKey,
             encryptedSeed,
           })
+          // Kept so commitTemporaryWallet can store it as it is
+          WalletSetupService.holdTemporaryWallet(tempWalletId, {
+            encryptionKey,
+            encryptedSeed,
+            encryptedEntropy: result.encryptedEntropyBuffer,
+            ...(options?.passphrase ? { passphraseRequired: true } : {}),
+            ...(mnemonic ? { restored: true } : {}),
+          })
 
           walletStore.setState((prev) =>
             updateWalletLoadingState(prev, {
@@ -679,7 +1075,7 @@ export function useWalletManager(): UseWalletManagerResult {
    * Create a new wallet and add it to the wallet list
    */
   const createWallet = useCallback(
-    (walletId: string) =>
+    (walletId: string, options?: WalletPassphraseOptions) =>
       withOperationMutex('createWallet', async () => {
         if (walletStore.getState().walletLoadingState.type === 'ready') {
           throw new Error(
@@ -704,13 +1100,23 @@ export function useWalletManager(): UseWalletManagerResult {
             throw new Error(`Wallet with walletId "${walletId}" already exists`)
           }
 
-          await WalletSetupService.createNewWallet(walletId)
+          await WalletSetupService.createNewWallet(walletId, ...passphraseArg(options))
+          const fingerprint = await WalletSetupService.getLoadedWalletFingerprint()
 
           walletStore.setState((prev) =>
             produce(prev, (state) => {
               state.walletList.push({
                 identifier: walletId,
                 exists: true,
+                ...(options?.passphrase ? { passphraseRequired: true } : {}),
+              })
+              const now = Date.now()
+              patchMetadata(state, walletId, {
+                origin: 'created',
+                createdAt: now,
+                lastUnlockedAt: now,
+                backedUp: false,
+                ...(fingerprint ? { fingerprint } : {}),
               })
               state.activeWalletId = walletId
             }),
@@ -740,6 +1146,266 @@ export function useWalletManager(): UseWalletManagerResult {
     [checkWallet, walletStore, clearTemporaryWallet],
   )
 
+  const addWatchOnlyWallet = useCallback(
+    (walletId: string, accounts: WatchOnlyAccounts): Promise<void> =>
+      withOperationMutex('addWatchOnlyWallet', async () => {
+        if (!walletId) {
+          throw new Error('Wallet ID is required for a watch-only wallet')
+        }
+
+        const networks = Object.keys(accounts)
+        if (networks.length === 0) {
+          throw new Error('A watch-only wallet needs at least one network')
+        }
+        for (const network of networks) {
+          validateNetworkName(network)
+          const list = accounts[network]!
+          if (list.length === 0) {
+            throw new Error(`No watch-only accounts given for ${network}`)
+          }
+          if (list.some((account) => Boolean(account.address) === Boolean(account.xpub))) {
+            throw new Error(
+              `Each watch-only account on ${network} needs either an address or an xpub`,
+            )
+          }
+        }
+
+        const listed = walletStore
+          .getState()
+          .walletList.some(({ identifier }) => identifier === walletId)
+        if (listed || (await WalletSetupService.hasWallet(walletId))) {
+          throw new Error(`A wallet with the ID "${walletId}" already exists.`)
+        }
+
+        walletStore.setState((prev) =>
+          produce(prev, (state) => {
+            state.walletList.push({ identifier: walletId, exists: true, watchOnly: true })
+            state.watchOnlyWallets[walletId] = accounts
+            // Plain addresses need no derivation, so useAddresses has them
+            // before the first unlock
+            for (const network of networks) {
+              accounts[network]!.forEach(({ address }, accountIndex) => {
+                if (address) {
+                  state.addresses[walletId] ??= {}
+                  state.addresses[walletId][network] ??= {}
+                  state.addresses[walletId][network][accountIndex] = address
+                }
+              })
+            }
+            patchMetadata(state, walletId, {
+              origin: 'watched',
+              createdAt: Date.now(),
+              // There is no recovery phrase to back up
+              backedUp: true,
+            })
+          }),
+        )
+
+        log(`[useWalletManager] Added watch-only wallet: ${walletId}`)
+      }),
+    [walletStore],
+  )
+
+  const renameWallet = useCallback(
+    (walletId: string, name: string) => {
+      const trimmed = name.trim()
+      walletStore.setState((prev) =>
+        produce(prev, (state) => {
+          patchMetadata(state, walletId, { name: trimmed || undefined })
+        }),
+      )
+    },
+    [walletStore],
+  )
+
+  const setWalletIcon = useCallback(
+    (walletId: string, appearance: WalletAppearance) => {
+      walletStore.setState((prev) =>
+        produce(prev, (state) => {
+          patchMetadata(state, walletId, {
+            ...('icon' in appearance ? { icon: appearance.icon ?? undefined } : {}),
+            ...('color' in appearance ? { color: appearance.color ?? undefined } : {}),
+          })
+        }),
+      )
+    },
+    [walletStore],
+  )
+
+  const reorderWallets = useCallback(
+    (walletIds: string[]) => {
+      const { walletList } = walletStore.getState()
+      const listed = new Set(walletIds)
+      const unknown = [...listed].filter(
+        (id) => !walletList.some(({ identifier }) => identifier === id),
+      )
+      if (unknown.length > 0) {
+        throw new Error(`Unknown wallet(s): ${unknown.join(', ')}`)
+      }
+
+      walletStore.setState({
+        walletList: [
+          ...[...listed].map((id) => walletList.find(({ identifier }) => identifier === id)!),
+          ...walletList.filter(({ identifier }) => !listed.has(identifier)),
+        ],
+      })
+    },
+    [walletStore],
+  )
+
+  const setWalletBackedUp = useCallback(
+    (walletId: string, backedUp: boolean = true) => {
+      walletStore.setState((prev) =>
+        produce(prev, (state) => {
+          patchMetadata(state, walletId, { backedUp })
+        }),
+      )
+    },
+    [walletStore],
+  )
+
+  const rotateEncryptionKey = useCallback(
+    (walletId: string): Promise<void> =>
+      withOperationMutex('rotateEncryptionKey', async () => {
+        try {
+          await WalletSetupService.rotateEncryptionKey(walletId)
+        } catch (err) {
+          logError('Failed to rotate encryption key:', err)
+          throw err
+        }
+      }),
+    [],
+  )
+
+  const exportBackup = useCallback(
+    async (password: string, options?: WalletBackupExportOptions): Promise<string> => {
+      const { walletList, accountList, walletMetadata, tempWalletId } =
+        walletStore.getState()
+      const walletIds =
+        options?.walletIds ??
+        walletList
+          .filter(({ identifier, exists, watchOnly }) =>
+            exists && !watchOnly && identifier !== tempWalletId,
+          )
+          .map(({ identifier }) => identifier)
+
+      const wallets = walletIds.map((identifier): WalletBackupMetadata => {
+        const info = walletList.find((w) => w.identifier === identifier)
+        const accounts = accountList[identifier]
+        const { name, icon, color } = walletMetadata[identifier] ?? {}
+        const metadata = {
+          ...(name ? { name } : {}),
+          ...(icon ? { icon } : {}),
+          ...(color ? { color } : {}),
+        }
+        return {
+          identifier,
+          ...(info?.passphraseRequired ? { passphraseRequired: true } : {}),
+          ...(accounts?.length ? { accounts } : {}),
+          ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+        }
+      })
+
+      try {
+        return await WalletSetupService.exportBackup(wallets, password)
+      } catch (err) {
+        logError('Failed to export wallet backup:', err)
+        throw err
+      }
+    },
+    [walletStore],
+  )
+
+  const importBackup = useCallback(
+    (blob: string, password: string): Promise<WalletBackupImportResult> =>
+      withOperationMutex('importBackup', async () => {
+        if (walletStore.getState().walletLoadingState.type === 'ready') {
+          throw new Error(
+            'A wallet is already active. Call lock() before importing a backup.',
+          )
+        }
+
+        clearTemporaryWallet()
+
+        try {
+          const result = await WalletSetupService.importBackup(blob, password)
+
+          walletStore.setState((prev) =>
+            produce(prev, (state) => {
+              const now = Date.now()
+              for (const {
+                identifier,
+                passphraseRequired,
+                accounts,
+                metadata,
+                fingerprint,
+              } of result.restored) {
+                state.walletList = state.walletList.filter(
+                  (w) => w.identifier !== identifier,
+                )
+                state.walletList.push({
+                  identifier,
+                  exists: true,
+                  ...(passphraseRequired ? { passphraseRequired: true } : {}),
+                })
+                if (accounts && !state.accountList[identifier]) {
+                  state.accountList[identifier] = accounts
+                }
+                patchMetadata(state, identifier, {
+                  ...metadata,
+                  origin: 'imported',
+                  createdAt: now,
+                  // It's in the backup it came from
+                  backedUp: true,
+                  ...(fingerprint ? { fingerprint } : {}),
+                })
+              }
+            }),
+          )
+
+          log(
+            `[useWalletManager] Imported ${result.restored.length} wallet(s) from backup`,
+          )
+          return result
+        } catch (err) {
+          logError('Failed to import wallet backup:', err)
+          throw err
+        }
+      }),
+    [walletStore, clearTemporaryWallet],
+  )
+
+  const reconcileWallets = useCallback(
+    (options?: ReconcileWalletsOptions): Promise<WalletReconciliationReport> =>
+      withOperationMutex('reconcileWallets', async () => {
+        try {
+          return await reconcileStoredWallets(options)
+        } catch (err) {
+          logError('Failed to reconcile wallets:', err)
+          throw err
+        }
+      }),
+    [],
+  )
+
+  const discoverAccounts = useCallback(
+    (options?: AccountDiscoveryOptions): Promise<AccountDiscoveryResult> =>
+      withOperationMutex('discoverAccounts', async () => {
+        const { activeWalletId, walletLoadingState } = walletStore.getState()
+        if (!activeWalletId || walletLoadingState.type !== 'ready') {
+          throw new Error('No wallet is unlocked. Call unlock() before discovering accounts.')
+        }
+
+        try {
+          return await discoverWalletAccounts(activeWalletId, options)
+        } catch (err) {
+          logError('Failed to discover accounts:', err)
+          throw err
+        }
+      }),
+    [walletStore],
+  )
+
   const clearCache = useCallback(() => {
     walletStore.setState({
       balances: {},
@@ -753,6 +1419,7 @@ export function useWalletManager(): UseWalletManagerResult {
     () => ({
       activeWalletId,
       wallets,
+      walletMetadata,
       status,
 
       // Session Management
@@ -765,16 +1432,34 @@ export function useWalletManager(): UseWalletManagerResult {
       createWallet,
       createTemporaryWallet,
       clearTemporaryWallet,
+      commitTemporaryWallet,
       restoreWallet,
+      restoreWalletFromShares,
+      splitWalletIntoShares,
+      validateShares,
       deleteWallet,
+      addWatchOnlyWallet,
       generateMnemonic,
       getMnemonic,
+      revealMnemonic,
+      createBackupQuiz,
       generateEntropyAndEncrypt,
       getMnemonicFromEntropy,
       getSeedAndEntropyFromMnemonic,
       getEncryptionKey,
       getEncryptedSeed,
       getEncryptedEntropy,
+      rotateEncryptionKey,
+      exportBackup,
+      importBackup,
+      reconcileWallets,
+      discoverAccounts,
+
+      // Metadata
+      renameWallet,
+      setWalletIcon,
+      reorderWallets,
+      setWalletBackedUp,
     }),
     [
       unlock,
@@ -784,18 +1469,35 @@ export function useWalletManager(): UseWalletManagerResult {
       createWallet,
       createTemporaryWallet,
       clearTemporaryWallet,
+      commitTemporaryWallet,
       restoreWallet,
+      restoreWalletFromShares,
+      splitWalletIntoShares,
+      validateShares,
       deleteWallet,
+      addWatchOnlyWallet,
       generateMnemonic,
       getMnemonic,
+      revealMnemonic,
+      createBackupQuiz,
       generateEntropyAndEncrypt,
       getMnemonicFromEntropy,
       getSeedAndEntropyFromMnemonic,
       getEncryptionKey,
       getEncryptedSeed,
       getEncryptedEntropy,
+      rotateEncryptionKey,
+      exportBackup,
+      importBackup,
+      reconcileWallets,
+      discoverAccounts,
+      renameWallet,
+      setWalletIcon,
+      reorderWallets,
+      setWalletBackedUp,
       activeWalletId,
       wallets,
+      walletMetadata,
       status,
     ],
   )
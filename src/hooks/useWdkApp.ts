@@ -25,9 +25,17 @@
  *   information yet to report anything more specific (e.g. the worklet has
  *   started but no identity or wallets are known - nothing has been
  *   created/restored/unlocked this session, and nothing has told the SDK
- *   who the user is).
+ *   who the user is). `stage` is the startup step in progress and `timings`
+ *   how long each step took, for splash-screen progress.
  * - `REINITIALIZING` - The worklet is being manually reinitialized via
  *   `reinitializeWdk()`.
+ * - `RECOVERING` - The worklet died and the supervisor (enabled with the
+ *   provider's `supervisor` prop) is restarting it. `walletId` is the wallet
+ *   that was unlocked at the time; once the worklet is back the status moves
+ *   to `LOCKED` with the same hint and `unlock(walletId)` restores it.
+ * - `SHUT_DOWN` - The worklet was stopped with `shutdown()` to free its
+ *   memory and stays down until `restart()` is called. `walletId` is the
+ *   wallet that was unlocked at the time; unlock it again after restarting.
  * - `NO_WALLET` - No wallet exists at all - confirmed empty, so this is a
  *   genuinely fresh device/user. Safe to route to onboarding
  *   (create/restore).
@@ -76,17 +84,50 @@
  */
 
 import { useCallback, useContext } from 'react'
+import { useShallow } from 'zustand/react/shallow'
 import { WdkAppContext } from '../provider/WdkAppProvider'
 import type { WdkAppContextValue } from '../provider/WdkAppProvider'
 import { getWorkletStore } from '../store/workletStore'
 import { WorkletLifecycleService } from '../services/workletLifecycleService'
 import { log, logError } from '../utils/logger'
-import { withOperationMutex } from '../utils/operationMutex'
+import { wipeAllData as wipeDeviceData } from '../utils/dataWipe'
+import type { WipeReport } from '../utils/dataWipe'
+import {
+  isOperationInProgress,
+  waitForOperationIdle,
+  withOperationMutex,
+} from '../utils/operationMutex'
 import { createResolvablePromise } from '../utils/promise'
+import type { StartupStage, StartupStageTiming } from '../utils/initializationState'
+
+/**
+ * Startup progress as reported by WorkletLifecycleService
+ */
+export interface WdkStartupProgress {
+  /** Stage currently running; null once startup is done (or failed) */
+  stage: StartupStage | null
+  /** Timings of every stage run since the worklet was last started */
+  timings: StartupStageTiming[]
+}
 
 export interface UseWdkAppResult extends WdkAppContextValue {
   reinitializeWdk: () => Promise<void>
   resetWallets: (blockchains: string[]) => Promise<void>
+  /** Stop the worklet and free its memory; state becomes `SHUT_DOWN` */
+  shutdown: () => Promise<void>
+  /** Start the worklet again with the same config; wallets must be unlocked again */
+  restart: () => Promise<void>
+  /**
+   * Startup stages and their timings. Unlike `state`, this also covers
+   * deriving the first addresses, which continues after `READY`.
+   */
+  startup: WdkStartupProgress
+  /**
+   * Delete every wallet and all cached data from the device and shut the
+   * worklet down, e.g. on logout or compromise. Waits for any running
+   * operation first. `restart()` to onboard again.
+   */
+  wipeAllData: () => Promise<WipeReport>
 }
 
 /**
@@ -100,6 +141,13 @@ export function useWdkApp(): UseWdkAppResult {
   if (!context) {
     throw new Error('useWdkApp must be used within WdkAppProvider')
   }
+
+  const startup = getWorkletStore()(
+    useShallow((state) => ({
+      stage: state.startupStage,
+      timings: state.startupTimings,
+    })),
+  )
   
   const reinitializeWdk = useCallback(async () => {
     return withOperationMutex('reinitializeWdk', async () => {
@@ -170,10 +218,48 @@ export function useWdkApp(): UseWdkAppResult {
     })
   }, [])
 
+  const shutdown = useCallback(async () => {
+    return withOperationMutex('shutdownWorklet', async () => {
+      log('[useWdkApp] Shutting down worklet')
+      try {
+        await WorkletLifecycleService.shutdown()
+        log('[useWdkApp] Worklet shutdown done')
+      } catch (e) {
+        logError('[useWdkApp] Worklet shutdown failed', e)
+      }
+    })
+  }, [])
+
+  const restart = useCallback(async () => {
+    return withOperationMutex('restartWorklet', async () => {
+      log('[useWdkApp] Restarting worklet')
+      try {
+        await WorkletLifecycleService.restart()
+        log('[useWdkApp] Worklet restart done')
+      } catch (e) {
+        logError('[useWdkApp] Worklet restart failed', e)
+      }
+    })
+  }, [])
+
+  const { queryClient } = context
+  const wipeAllData = useCallback(async () => {
+    // Another operation may take the mutex as it frees up, so wait until it
+    // is still free when this continuation runs; the acquire below is sync.
+    do {
+      await waitForOperationIdle()
+    } while (isOperationInProgress())
+    return withOperationMutex('wipeAllData', () => wipeDeviceData(queryClient))
+  }, [queryClient])
+
   return {
     ...context,
     reinitializeWdk,
     resetWallets,
+    shutdown,
+    restart,
+    startup,
+    wipeAllData,
   }
 }
 
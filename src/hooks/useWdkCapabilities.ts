@@ -0,0 +1,62 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMemo } from 'react'
+import { getWorkletStore } from '../store/workletStore'
+import type { WdkCapabilities } from '../utils/workletCapabilities'
+
+export interface UseWdkCapabilitiesResult {
+  /**
+   * What the running bundle reported from workletStart; null until the
+   * worklet has started, or when the bundle predates the handshake
+   */
+  capabilities: WdkCapabilities | null
+  /** Whether the bundle exposes the given RPC */
+  hasRpc: (rpc: string) => boolean
+  /** Whether the bundle registers the given network */
+  hasNetwork: (network: string) => boolean
+  /** Whether the bundle registers the given protocol */
+  hasProtocol: (protocol: string) => boolean
+  /** Whether the bundle registers the given module */
+  hasModule: (module: string) => boolean
+  /** Whether the bundle accepts the given optional request field */
+  hasFeature: (feature: string) => boolean
+}
+
+/**
+ * Capabilities of the running worklet bundle, for feature-gating UI.
+ * The has* checks answer false while capabilities are unknown, so gated
+ * features stay hidden until the bundle has said it supports them.
+ *
+ * @example
+ * const { hasModule } = useWdkCapabilities()
+ * return hasModule('addressBook') ? <ContactsTab /> : null
+ */
+export function useWdkCapabilities(): UseWdkCapabilitiesResult {
+  const capabilities = getWorkletStore()((state) => state.capabilities)
+
+  return useMemo(() => {
+    const includes = (list: string[] | null | undefined, name: string) =>
+      list?.includes(name) ?? false
+
+    return {
+      capabilities,
+      hasRpc: (rpc) => includes(capabilities?.rpcs, rpc),
+      hasNetwork: (network) => includes(capabilities?.networks, network),
+      hasProtocol: (protocol) => includes(capabilities?.protocols, protocol),
+      hasModule: (module) => includes(capabilities?.modules, module),
+      hasFeature: (feature) => includes(capabilities?.features, feature),
+    }
+  }, [capabilities])
+}
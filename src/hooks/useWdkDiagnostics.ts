@@ -0,0 +1,52 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { useMemo } from 'react'
+import { getDiagnosticsStore } from '../store/diagnosticsStore'
+import {
+  getDiagnosticsSnapshot,
+  resetDiagnostics,
+  type WdkDiagnosticsSnapshot,
+} from '../utils/hrpcInstrumentation'
+
+export interface UseWdkDiagnosticsResult extends WdkDiagnosticsSnapshot {
+  /** Drop all recorded metrics */
+  reset: () => void
+}
+
+/**
+ * Live HRPC call metrics: rolling latency percentiles per method and
+ * network, in-flight counts and recent failures. Useful for finding which
+ * chain's RPC makes the wallet feel slow. No argument values are recorded.
+ *
+ * Re-renders on every HRPC call, so mount it in a debug screen rather than
+ * in hot UI paths.
+ *
+ * @example
+ * const { methods } = useWdkDiagnostics()
+ * const slowest = methods[0] // e.g. { method: 'callMethod:getBalance', network: 'ethereum', p90Ms: 2400, ... }
+ */
+export function useWdkDiagnostics(): UseWdkDiagnosticsResult {
+  const methods = getDiagnosticsStore()((state) => state.methods)
+  const inFlight = getDiagnosticsStore()((state) => state.inFlight)
+  const recentFailures = getDiagnosticsStore()((state) => state.recentFailures)
+
+  return useMemo(
+    () => ({
+      ...getDiagnosticsSnapshot({ methods, inFlight, recentFailures }),
+      reset: resetDiagnostics,
+    }),
+    [methods, inFlight, recentFailures],
+  )
+}
@@ -25,6 +25,7 @@ export type {
   BalanceFetchResult,
   IAsset,
   BundleConfig,
+  BundleSignatureVerifier,
   AddressInfo,
   AddressInfoResult
 } from './types'
@@ -33,6 +34,20 @@ export { BaseAsset } from './entities/asset'
 
 export { WdkAppProvider } from './provider/WdkAppProvider'
 export type { WdkAppProviderProps, WdkAppContextValue, WdkAppState } from './provider/WdkAppProvider'
+export type { WorkletSupervisorConfig, WorkletRestartPolicy } from './services/workletSupervisorService'
+export { createBareWorkletTransport } from './services/workletTransport'
+export type { WorkletTransport, WorkletTransportFactory, WorkletTransportOptions } from './services/workletTransport'
+export { AutoLockService, autoLockTouchHandlers } from './services/autoLockService'
+export type { AutoLockConfig, AutoLockEvent, AutoLockListener, AutoLockReason } from './services/autoLockService'
+export { AuthPolicyService } from './services/authPolicyService'
+export type {
+  AuthPolicy,
+  AuthOperation,
+  AuthRequirement,
+  AuthOutcome,
+  AuthRequest,
+  Authenticator,
+} from './services/authPolicyService'
 
 export { useWdkApp } from './hooks/useWdkApp'
 export { useAddresses } from './hooks/useAddresses'
@@ -44,10 +59,28 @@ export type { UseAccountParams, UseAccountReturn, UseAccountResponse, Transactio
 export { useProtocol } from './hooks/useProtocol'
 export type { UseProtocolParams } from './hooks/useProtocol'
 
-export type { UseWdkAppResult } from './hooks/useWdkApp'
+export type { UseWdkAppResult, WdkStartupProgress } from './hooks/useWdkApp'
+export { StartupStage } from './utils/initializationState'
+export type { StartupStageTiming } from './utils/initializationState'
+
+export { useWdkCapabilities } from './hooks/useWdkCapabilities'
+export type { UseWdkCapabilitiesResult } from './hooks/useWdkCapabilities'
+export type { WdkCapabilities } from './utils/workletCapabilities'
+
+export { useWdkDiagnostics } from './hooks/useWdkDiagnostics'
+export type { UseWdkDiagnosticsResult } from './hooks/useWdkDiagnostics'
+export type { HrpcMethodDiagnostics, WdkDiagnosticsSnapshot } from './utils/hrpcInstrumentation'
+export type { HrpcCallFailure } from './store/diagnosticsStore'
 
 export { useWalletManager } from './hooks/useWalletManager'
-export type { UseWalletManagerResult, WalletInfo } from './hooks/useWalletManager'
+export type {
+  UseWalletManagerResult,
+  WalletInfo,
+  WalletPassphraseOptions,
+  RestoreWalletOptions,
+  WalletBackupExportOptions,
+  WalletAppearance,
+} from './hooks/useWalletManager'
 export {
   useBalance,
   useBalancesForWallet,
@@ -58,11 +91,105 @@ export {
 
 export type { BalanceQueryOptions } from './hooks/useBalance'
 
-export type { AccountInfo } from './store/walletStore'
+export type {
+  AccountInfo,
+  WalletMetadata,
+  WalletOrigin,
+  WatchOnlyAccount,
+  WatchOnlyAccounts,
+} from './store/walletStore'
+
+export {
+  validateMnemonic,
+  validateMnemonicDetailed,
+  suggestMnemonicWords,
+  normalizeMnemonic,
+  MNEMONIC_LANGUAGES,
+  VALID_MNEMONIC_WORD_COUNTS,
+} from './utils/mnemonicUtils'
+export type {
+  MnemonicLanguage,
+  MnemonicValidationError,
+  MnemonicValidationOptions,
+  MnemonicValidationResult,
+  InvalidMnemonicWord,
+} from './utils/mnemonicUtils'
+
+export { MAX_SLIP39_SHARES } from './utils/shamirShares'
+export type {
+  InvalidShare,
+  ShareSplitOptions,
+  ShareValidationResult,
+} from './utils/shamirShares'
+
+export { WALLET_BACKUP_VERSION } from './utils/walletBackup'
 
-export { validateMnemonic } from './utils/mnemonicUtils'
+export type {
+  ReconcileWalletsOptions,
+  UnreadableWallet,
+  WalletReconciliationReport,
+} from './utils/walletReconciliation'
+export type { StoredWalletStatus } from './services/walletSetupService'
+
+export {
+  DEFAULT_ACCOUNT_GAP_LIMIT,
+  DEFAULT_MAX_DISCOVERED_ACCOUNTS,
+} from './utils/accountDiscovery'
+export type {
+  AccountDiscoveryFailure,
+  AccountDiscoveryOptions,
+  AccountDiscoveryProgress,
+  AccountDiscoveryResult,
+  AccountUsageProbe,
+} from './utils/accountDiscovery'
+
+export { computeWalletFingerprint, fingerprintsMatch } from './utils/walletFingerprint'
+export type { WalletFingerprint } from './utils/walletFingerprint'
+export {
+  DEFAULT_BACKUP_QUIZ_QUESTIONS,
+  DEFAULT_MNEMONIC_REVEAL_TTL_MS,
+} from './services/mnemonicRevealService'
+export type {
+  BackupQuiz,
+  BackupQuizOptions,
+  MnemonicRevealOptions,
+  MnemonicRevealSession,
+} from './services/mnemonicRevealService'
+export type { WipeReport, WipeStep, WipeStepResult } from './utils/dataWipe'
+export type {
+  WalletBackupEntry,
+  WalletBackupImportResult,
+  WalletBackupMetadata,
+} from './utils/walletBackup'
 
 export { useModule } from './hooks/useModule'
 export type { UseModuleProxy } from './hooks/useModule'
 export { ModuleService } from './services/moduleService'
 export type { ModuleEventListener } from './services/moduleService'
+
+export type { CallOptions } from './utils/callOptions'
+export {
+  WdkError,
+  WdkTimeoutError,
+  WdkAbortError,
+  WdkStaleResultError,
+  BundleIntegrityError,
+  BundleIncompatibleError,
+  UnsupportedByBundleError,
+  AuthenticationCancelledError,
+  AuthenticationFailedError,
+  AuthenticationLockoutError,
+  PassphraseRequiredError,
+  WalletBackupError,
+  WatchOnlyWalletError,
+  DuplicateWalletError,
+  MnemonicRevealEndedError,
+  isWdkError,
+  isBundleRejectionError,
+} from './utils/errors'
+export type {
+  BundleIntegrityFailure,
+  BundleIncompatibility,
+  BundleRejectionError,
+  WalletBackupFailure,
+} from './utils/errors'
@@ -13,16 +13,35 @@
 // limitations under the License.
 
 import React, { createContext, useMemo, useRef, useEffect } from 'react'
+import { StyleSheet, View } from 'react-native'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { createSecureStorage } from '@tetherto/wdk-react-native-secure-storage'
+import type { SecureStorage } from '@tetherto/wdk-react-native-secure-storage'
 
+import { useAutoLock } from '../hooks/internal/useAutoLock'
+import { useWdkConfigSync } from '../hooks/internal/useWdkConfigSync'
 import { useWalletOrchestrator } from '../hooks/internal/useWalletOrchestrator'
+import { useWalletReconciliation } from '../hooks/internal/useWalletReconciliation'
 import { useWorkletInitializer } from '../hooks/internal/useWorkletInitializer'
+import { useWorkletSupervisor } from '../hooks/internal/useWorkletSupervisor'
 
+import { AuthPolicyService } from '../services/authPolicyService'
+import type { AuthPolicy } from '../services/authPolicyService'
+import { autoLockTouchHandlers } from '../services/autoLockService'
+import type { AutoLockConfig, AutoLockListener } from '../services/autoLockService'
 import { WalletSetupService } from '../services/walletSetupService'
+import type { WorkletSupervisorConfig } from '../services/workletSupervisorService'
+import { WorkletLifecycleService } from '../services/workletLifecycleService'
+import type { WorkletTransportFactory } from '../services/workletTransport'
 import { normalizeError } from '../utils/errorUtils'
+import type { BundleRejectionError } from '../utils/errors'
+import type { StartupStage, StartupStageTiming } from '../utils/initializationState'
 import { logError } from '../utils/logger'
 import { validateWdkConfigs } from '../utils/validation'
+import type {
+  ReconcileWalletsOptions,
+  WalletReconciliationReport,
+} from '../utils/walletReconciliation'
 import {
   DEFAULT_QUERY_GC_TIME_MS,
   DEFAULT_QUERY_STALE_TIME_MS,
@@ -33,10 +52,21 @@ export type WdkAppState =
   /** The worklet hasn't started yet, or there isn't enough information yet
    * to report anything more specific (e.g. the worklet has started but no
    * identity or wallets are known - nothing has been created/restored/
-   * unlocked this session, and nothing has told the SDK who the user is). */
-  | { status: 'INITIALIZING' }
+   * unlocked this session, and nothing has told the SDK who the user is).
+   * stage is the startup step in progress (loading the bundle, IPC
+   * handshake, workletStart, initializeWDK) and timings how long each step
+   * took so far. */
+  | { status: 'INITIALIZING'; stage?: StartupStage; timings?: StartupStageTiming[] }
   /** The worklet is being manually reinitialized via reinitializeWdk(). */
   | { status: 'REINITIALIZING' }
+  /** The worklet died (IPC closed or heartbeat unanswered) and the supervisor
+   * is restarting it; attempt is the current restart attempt. walletId is the
+   * wallet that was active when it died - once the worklet is back the state
+   * moves to LOCKED with the same hint, and unlock() restores it. */
+  | { status: 'RECOVERING'; attempt: number; walletId?: string }
+  /** The worklet was stopped via shutdown() and stays down until restart()
+   * is called. walletId is the wallet that was active, as an unlock hint. */
+  | { status: 'SHUT_DOWN'; walletId?: string }
   /** No wallet exists at all - walletList is confirmed empty, so this is a
    * genuinely fresh device/user. Safe to route to onboarding
    * (create/restore). */
@@ -53,10 +83,18 @@ export type WdkAppState =
   | { status: 'READY'; walletId: string }
   /** Something failed - inspect error for details. Can originate from
    * either the worklet layer or a wallet operation (create/unlock/etc). */
-  | { status: 'ERROR'; error: Error };
+  | { status: 'ERROR'; error: Error }
+  /** The worklet bundle was refused and nothing was loaded into it: it
+   * failed its integrity check (BundleIntegrityError - BundleConfig sha256
+   * or signature), or it can't work with this core or these wdkConfigs
+   * (BundleIncompatibleError). Ship or download a good bundle instead of
+   * retrying. */
+  | { status: 'BUNDLE_REJECTED'; error: BundleRejectionError };
 
 export interface WdkAppContextValue {
   state: WdkAppState;
+  /** The provider's query client, cleared by wipeAllData() */
+  queryClient?: QueryClient;
 }
 
 const WdkAppContext = createContext<WdkAppContextValue | null>(null)
@@ -67,6 +105,33 @@ export interface WdkAppProviderProps<
 > {
   bundle: BundleConfig
   wdkConfigs: WdkConfigs<TNetwork, TProtocol>
+  /** Enables worklet crash detection and supervised restarts. Omit to
+   * disable supervision. */
+  supervisor?: WorkletSupervisorConfig
+  /** Locks the active wallet after time in the background, after inactivity
+   * or as soon as the app is backgrounded. Omit to disable auto-lock. */
+  autoLock?: AutoLockConfig
+  /** Called after an auto-lock locked a wallet - route to your unlock screen */
+  onAutoLock?: AutoLockListener
+  /** Creates the HRPC transport the services talk to. Defaults to the Bare
+   * worklet; pass an in-process implementation to run outside React Native.
+   * Read once on mount. */
+  transport?: WorkletTransportFactory
+  /** Where wallet keys and encrypted seeds are kept. Defaults to the
+   * device keychain via wdk-react-native-secure-storage. Read once on mount. */
+  secureStorage?: SecureStorage
+  /** Which operations (unlock, getMnemonic, send, sign, deleteWallet) need
+   * biometrics or your own authenticator first. Enforced by the services;
+   * failures surface as AuthenticationCancelledError,
+   * AuthenticationFailedError or AuthenticationLockoutError. Omit to require
+   * nothing. */
+  authPolicy?: AuthPolicy
+  /** Reconcile the persisted wallet list with secure storage on mount (see
+   * useWalletManager().reconcileWallets). `true` only reports; pass
+   * `{ repair: true }` to repair. Read once on mount. */
+  reconcileWallets?: boolean | ReconcileWalletsOptions
+  /** Called with the report of the reconciliation run on mount */
+  onWalletsReconciled?: (report: WalletReconciliationReport) => void
   children: React.ReactNode
 }
 
@@ -86,17 +151,35 @@ export function WdkAppProvider<
 >({
   bundle: bundleConfig,
   wdkConfigs,
+  supervisor,
+  autoLock,
+  onAutoLock,
+  transport,
+  secureStorage: secureStorageOverride,
+  authPolicy,
+  reconcileWallets,
+  onWalletsReconciled,
   children,
 }: WdkAppProviderProps<TNetwork, TProtocol>) {
   // Synchronous service setup (must run before child effects)
-  const secureStorageInitialized = useRef<boolean | undefined>(undefined)
-  const secureStorage = useMemo(() => createSecureStorage(), [])
+  const servicesInitialized = useRef<boolean | undefined>(undefined)
 
-  if (secureStorageInitialized.current == null) {
-    WalletSetupService.setSecureStorage(secureStorage)
-    secureStorageInitialized.current = true
+  if (servicesInitialized.current == null) {
+    WalletSetupService.setSecureStorage(
+      secureStorageOverride ?? createSecureStorage(),
+    )
+    WorkletLifecycleService.setTransport(transport)
+    AuthPolicyService.setPolicy(authPolicy ?? null)
+    servicesInitialized.current = true
   }
 
+  useEffect(() => {
+    AuthPolicyService.setPolicy(authPolicy ?? null)
+    return () => {
+      AuthPolicyService.setPolicy(null)
+    }
+  }, [authPolicy])
+
   useEffect(() => {
     try {
       validateWdkConfigs(wdkConfigs)
@@ -115,32 +198,65 @@ export function WdkAppProvider<
     isInitialized: isWorkletInitialized,
     isReinitialized: isWdkReinitialized,
     error: workletError,
+    isShutdown: isWorkletShutdown,
+    recovery: workletRecovery,
+    startupStage,
+    startupTimings,
+    bundleError,
   } = useWorkletInitializer({
     bundleConfig,
     wdkConfigs,
   })
 
+  useWdkConfigSync(wdkConfigs, isWorkletStarted, queryClient)
+  useWorkletSupervisor(supervisor)
+  useAutoLock(autoLock, onAutoLock)
+  useWalletReconciliation(reconcileWallets, onWalletsReconciled)
+
   const { state } = useWalletOrchestrator({
     isWorkletStarted,
     isWorkletInitialized,
     isWdkReinitialized,
     workletError,
+    isWorkletShutdown,
+    workletRecovery,
+    startupStage,
+    startupTimings,
+    bundleError,
   })
 
   const contextValue: WdkAppContextValue = useMemo(
     () => ({
       state,
+      queryClient,
     }),
     [state],
   )
 
+  // Idle auto-lock needs to see touches; the wrapper captures them without
+  // claiming the responder. Apps that can't take the extra View opt out
+  // and put autoLockTouchHandlers on their own root.
+  const content = autoLock?.idleTimeoutMs && autoLock.wrapChildren !== false ? (
+    <View style={styles.activityTracker} {...autoLockTouchHandlers}>
+      {children}
+    </View>
+  ) : (
+    children
+  )
+
   return (
     <QueryClientProvider client={queryClient}>
       <WdkAppContext.Provider value={contextValue}>
-        {children}
+        {content}
       </WdkAppContext.Provider>
     </QueryClientProvider>
   )
 }
 
+const styles = StyleSheet.create({
+  activityTracker: {
+    flex: 1,
+  },
+})
+
 export { WdkAppContext }
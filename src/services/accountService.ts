@@ -23,10 +23,44 @@
 import { validateAccountIndex, validateNetworkName } from '../utils/validation'
 import { DefaultAccountMethods } from '../types/accountMethods'
 import { handleServiceError } from '../utils/errorHandling'
-import { requireInitialized } from '../utils/storeHelpers'
+import { requireInitialized, requireWritableWallet } from '../utils/storeHelpers'
 import { safeStringify } from '../utils/jsonUtils'
 import { workletResponseSchema } from '../utils/schemas'
 import { convertBigIntToString } from '../utils/balanceUtils'
+import { runWithCallOptions, type CallOptions } from '../utils/callOptions'
+import { AuthPolicyService, type AuthOperation } from './authPolicyService'
+
+/**
+ * Protocol methods that move funds, by the auth policy operation that gates
+ * them. Quotes and reads aren't gated.
+ */
+const AUTH_GATED_PROTOCOL_METHODS = new Map<string, AuthOperation>([
+  ['swap', 'send'],
+  ['bridge', 'send'],
+  ['supply', 'send'],
+  ['withdraw', 'send'],
+  ['borrow', 'send'],
+  ['repay', 'send'],
+])
+
+/**
+ * Account methods (extension methods included) that move funds or produce
+ * signatures. They are gated by the auth policy and refused on watch-only
+ * wallets.
+ */
+const WRITE_METHOD_PATTERN = /^(sign|send|transfer|approve)/
+
+/**
+ * Auth policy operation gating an account method: 'sign' for sign*,
+ * 'send' for send*, transfer* and approve*, null for reads and quotes
+ */
+function getAccountAuthOperation(methodName: string): AuthOperation | null {
+  const match = WRITE_METHOD_PATTERN.exec(methodName)
+  if (!match) {
+    return null
+  }
+  return match[1] === 'sign' ? 'sign' : 'send'
+}
 
 /**
  * Account Service
@@ -46,6 +80,37 @@ export class AccountService {
     accountIndex: number,
     methodName: string,
     ...args: unknown[]
+  ): Promise<unknown> {
+    return this.callAccountMethodWithOptions({}, network, accountIndex, methodName, ...args)
+  }
+
+  /**
+   * callAccountMethod with a per-call timeout and/or AbortSignal
+   *
+   * @throws WdkTimeoutError or WdkAbortError; a result arriving afterwards is discarded
+   */
+  static async callAccountMethodWithOptions<M extends keyof DefaultAccountMethods>(
+    options: CallOptions,
+    network: string,
+    accountIndex: number,
+    methodName: M,
+    ...args: DefaultAccountMethods[M]['params']
+  ): Promise<DefaultAccountMethods[M]['result']>
+
+  static async callAccountMethodWithOptions(
+    options: CallOptions,
+    network: string,
+    accountIndex: number,
+    methodName: string,
+    ...args: unknown[]
+  ): Promise<unknown>
+
+  static async callAccountMethodWithOptions(
+    options: CallOptions,
+    network: string,
+    accountIndex: number,
+    methodName: string,
+    ...args: unknown[]
   ): Promise<unknown> {
     if (typeof methodName !== 'string' || methodName.trim().length === 0) {
       throw new Error('methodName must be a non-empty string')
@@ -56,18 +121,29 @@ export class AccountService {
 
     const hrpc = await requireInitialized()
 
+    const authOperation = getAccountAuthOperation(methodName)
+    if (authOperation) {
+      requireWritableWallet(methodName)
+      await AuthPolicyService.authorize(authOperation)
+    }
+
     let argsString: string | undefined = undefined
     if (args !== undefined && args !== null) {
       argsString = safeStringify(args)
     }
 
     try {
-      const response = await hrpc.callMethod({
-        methodName: String(methodName),
-        network,
-        accountIndex,
-        args: argsString,
-      })
+      const response = await runWithCallOptions(
+        `callAccountMethod:${String(methodName)}`,
+        () => hrpc.callMethod({
+          methodName: String(methodName),
+          network,
+          accountIndex,
+          args: argsString,
+        }),
+        options,
+        authOperation === null,
+      )
 
       // Validate response structure
       const validatedResponse = workletResponseSchema.parse(response)
@@ -125,6 +201,31 @@ export class AccountService {
     protocolType: string,
     protocolName: string,
     ...args: unknown[]
+  ): Promise<unknown> {
+    return this.callProtocolMethodWithOptions(
+      {},
+      network,
+      accountIndex,
+      methodName,
+      protocolType,
+      protocolName,
+      ...args,
+    )
+  }
+
+  /**
+   * callProtocolMethod with a per-call timeout and/or AbortSignal
+   *
+   * @throws WdkTimeoutError or WdkAbortError; a result arriving afterwards is discarded
+   */
+  static async callProtocolMethodWithOptions(
+    options: CallOptions,
+    network: string,
+    accountIndex: number,
+    methodName: string,
+    protocolType: string,
+    protocolName: string,
+    ...args: unknown[]
   ): Promise<unknown> {
     if (typeof methodName !== 'string' || methodName.trim().length === 0) {
       throw new Error('methodName must be a non-empty string')
@@ -135,6 +236,15 @@ export class AccountService {
 
     const hrpc = await requireInitialized()
 
+    if (AUTH_GATED_PROTOCOL_METHODS.has(methodName)) {
+      requireWritableWallet(methodName)
+    }
+
+    const authOperation = AUTH_GATED_PROTOCOL_METHODS.get(methodName)
+    if (authOperation) {
+      await AuthPolicyService.authorize(authOperation)
+    }
+
     let argsString: string | undefined = undefined
     if (args !== undefined && args !== null) {
       argsString = safeStringify(args)
@@ -143,13 +253,18 @@ export class AccountService {
     const optionsString = safeStringify({ protocolType, protocolName })
 
     try {
-      const response = await hrpc.callMethod({
-        methodName: String(methodName),
-        network,
-        accountIndex,
-        args: argsString,
-        options: optionsString,
-      })
+      const response = await runWithCallOptions(
+        `callProtocolMethod:${String(methodName)}`,
+        () => hrpc.callMethod({
+          methodName: String(methodName),
+          network,
+          accountIndex,
+          args: argsString,
+          options: optionsString,
+        }),
+        options,
+        authOperation === undefined,
+      )
 
       const validatedResponse = workletResponseSchema.parse(response)
 
@@ -32,6 +32,8 @@ import {
 import { validateAccountIndex, validateNetworkName } from '../utils/validation'
 import { log, logError } from '../utils/logger'
 import { AddressInfoResult } from '../types'
+import { StartupStage } from '../utils/initializationState'
+import { WorkletLifecycleService } from './workletLifecycleService'
 
 /**
  * Address Service
@@ -73,11 +75,14 @@ export class AddressService {
 
     const cacheKey = `${targetWalletId}:${network}:${accountIndex}`
 
-    return this.coordinator.run(
+    const address = await this.coordinator.run(
       cacheKey,
       () => this.fetchAddressFromWorklet(network, accountIndex, targetWalletId),
       (address) => this.cacheAddress(targetWalletId, network, accountIndex, address),
     )
+    // The first derived address ends startup
+    WorkletLifecycleService.completeStartupStage(StartupStage.DERIVING_ADDRESSES)
+    return address
   }
 
   private static async fetchAddressFromWorklet(
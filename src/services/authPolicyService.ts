@@ -0,0 +1,216 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Auth Policy Service
+ *
+ * Enforces the WdkAppProvider `authPolicy`: which wallet operations need
+ * biometrics or the app's own authenticator before they run. The services
+ * call authorize() before touching the key or the worklet, so the policy
+ * holds no matter which hook or screen started the operation.
+ *
+ * Consecutive failures are counted across operations; after maxAttempts
+ * authentication locks out for lockoutMs. A cancelled prompt isn't a
+ * failure, and a successful one resets the count.
+ */
+
+import {
+  AuthenticationCancelledError,
+  AuthenticationFailedError,
+  AuthenticationLockoutError,
+  type AuthOperation,
+} from '../utils/errors'
+import { log } from '../utils/logger'
+
+export type { AuthOperation }
+
+/**
+ * What an operation needs before it runs
+ * - none: nothing (default)
+ * - biometrics: the secure storage biometric prompt
+ * - authenticator: the policy's `authenticator` callback (PIN, passcode...)
+ */
+export type AuthRequirement = 'none' | 'biometrics' | 'authenticator'
+
+/**
+ * Result of an authenticator callback. true/false are shorthand for
+ * 'granted'/'denied'.
+ */
+export type AuthOutcome = 'granted' | 'denied' | 'cancelled' | boolean
+
+export interface AuthRequest {
+  operation: AuthOperation
+  /** Wallet the operation targets, when known */
+  walletId?: string
+  /** Failed attempts left before lockout */
+  attemptsRemaining: number
+}
+
+export type Authenticator = (request: AuthRequest) => AuthOutcome | Promise<AuthOutcome>
+
+/**
+ * Authentication policy (WdkAppProvider `authPolicy` prop)
+ */
+export interface AuthPolicy {
+  /** Requirement per operation; operations not listed need nothing */
+  operations?: Partial<Record<AuthOperation, AuthRequirement>>
+  /** Called for operations that require 'authenticator' */
+  authenticator?: Authenticator
+  /** Consecutive failures before lockout (default: 5) */
+  maxAttempts?: number
+  /** How long a lockout lasts (default: 30s) */
+  lockoutMs?: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_LOCKOUT_MS = 30_000
+
+let activePolicy: AuthPolicy | null = null
+let biometricPrompt: (() => Promise<boolean>) | null = null
+let failedAttempts = 0
+let lockedUntil: number | null = null
+
+function isCancellation(error: unknown): boolean {
+  if (error instanceof AuthenticationCancelledError) {
+    return true
+  }
+  const message = error instanceof Error ? error.message : String(error)
+  return /cancel/i.test(message)
+}
+
+/**
+ * Auth Policy Service
+ *
+ * Configured by WdkAppProvider; enforced by WalletSetupService and
+ * AccountService.
+ */
+export class AuthPolicyService {
+  /**
+   * Set the policy to enforce; null requires nothing. Attempt counting and
+   * any lockout carry over.
+   */
+  static setPolicy(policy: AuthPolicy | null): void {
+    activePolicy = policy
+  }
+
+  /**
+   * Set the biometric prompt used for 'biometrics' requirements. Called by
+   * WalletSetupService.setSecureStorage.
+   */
+  static setBiometricPrompt(prompt: (() => Promise<boolean>) | null): void {
+    biometricPrompt = prompt
+  }
+
+  /**
+   * What the active policy requires for an operation
+   */
+  static getRequirement(operation: AuthOperation): AuthRequirement {
+    return activePolicy?.operations?.[operation] ?? 'none'
+  }
+
+  /**
+   * Authenticate for an operation if the policy requires it
+   *
+   * @throws AuthenticationCancelledError, AuthenticationFailedError or
+   * AuthenticationLockoutError
+   */
+  static async authorize(operation: AuthOperation, walletId?: string): Promise<void> {
+    const requirement = this.getRequirement(operation)
+    if (requirement === 'none') {
+      return
+    }
+
+    const maxAttempts = activePolicy?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    const lockoutMs = activePolicy?.lockoutMs ?? DEFAULT_LOCKOUT_MS
+
+    if (lockedUntil !== null) {
+      const retryAfterMs = lockedUntil - Date.now()
+      if (retryAfterMs > 0) {
+        throw new AuthenticationLockoutError(operation, retryAfterMs)
+      }
+      lockedUntil = null
+      failedAttempts = 0
+    }
+
+    const prompt = this.resolvePrompt(requirement, operation)
+
+    let outcome: AuthOutcome
+    let detail: string | undefined
+    try {
+      outcome = await prompt({
+        operation,
+        walletId,
+        attemptsRemaining: maxAttempts - failedAttempts,
+      })
+    } catch (error) {
+      if (isCancellation(error)) {
+        outcome = 'cancelled'
+      } else {
+        outcome = 'denied'
+        detail = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    if (outcome === 'cancelled') {
+      log(`[AuthPolicy] Authentication for ${operation} cancelled`)
+      throw new AuthenticationCancelledError(operation)
+    }
+
+    if (outcome === true || outcome === 'granted') {
+      failedAttempts = 0
+      return
+    }
+
+    failedAttempts += 1
+    log(`[AuthPolicy] Authentication for ${operation} failed (${failedAttempts}/${maxAttempts})`)
+    if (failedAttempts >= maxAttempts) {
+      lockedUntil = Date.now() + lockoutMs
+      throw new AuthenticationLockoutError(operation, lockoutMs)
+    }
+    throw new AuthenticationFailedError(operation, maxAttempts - failedAttempts, detail)
+  }
+
+  /**
+   * Clear failed attempts and any lockout
+   */
+  static resetAttempts(): void {
+    failedAttempts = 0
+    lockedUntil = null
+  }
+
+  /**
+   * The prompt for a requirement; a missing one is a setup error, not a
+   * failed attempt
+   */
+  private static resolvePrompt(
+    requirement: Exclude<AuthRequirement, 'none'>,
+    operation: AuthOperation,
+  ): Authenticator {
+    if (requirement === 'authenticator') {
+      const authenticator = activePolicy?.authenticator
+      if (!authenticator) {
+        throw new Error(
+          `authPolicy requires an authenticator for ${operation} but none was provided`,
+        )
+      }
+      return authenticator
+    }
+
+    const prompt = biometricPrompt
+    if (!prompt) {
+      throw new Error('SecureStorage not initialized. Ensure WdkAppProvider is mounted.')
+    }
+    return () => prompt()
+  }
+}
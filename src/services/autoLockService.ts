@@ -0,0 +1,278 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Auto-Lock Service
+ *
+ * Locks the active wallet after a period in the background, after a period
+ * without user interaction, or as soon as the app is backgrounded. Locking goes
+ * through the same path as useWalletManager().lock() under the operation
+ * mutex; when another wallet operation holds the mutex the lock is deferred
+ * until it is released instead of failing.
+ */
+
+import { AppState, type AppStateStatus, type NativeEventSubscription } from 'react-native'
+
+import { getWalletStore } from '../store/walletStore'
+import { log, logError } from '../utils/logger'
+import { isOperationInProgress, withOperationMutex } from '../utils/operationMutex'
+import { lockActiveWallet } from '../utils/walletLock'
+
+export type AutoLockReason = 'background' | 'idle'
+
+/**
+ * Auto-lock configuration (WdkAppProvider `autoLock` prop). Every trigger is
+ * off unless configured.
+ */
+export interface AutoLockConfig {
+  /** Lock once the app has been in the background this long */
+  backgroundTimeoutMs?: number
+  /** Lock after this long without user interaction while in the foreground */
+  idleTimeoutMs?: number
+  /**
+   * Lock as soon as the app moves to the background, for any reason (app
+   * switch, home button, screen lock). Unlike `backgroundTimeoutMs: 0`,
+   * this doesn't rely on a timer, which iOS suspends in the background.
+   */
+  lockOnBackground?: boolean
+  /**
+   * With idleTimeoutMs, WdkAppProvider wraps its children in a full-size
+   * View (`flex: 1`) to see touches. Set false to render the children as
+   * they are and spread `autoLockTouchHandlers` on your own root view.
+   * Defaults to true.
+   */
+  wrapChildren?: boolean
+}
+
+/**
+ * Emitted after an auto-lock actually locked a wallet
+ */
+export interface AutoLockEvent {
+  reason: AutoLockReason
+  /** The wallet that was locked */
+  walletId: string
+  /** When the lock happened (ms since epoch) */
+  timestamp: number
+}
+
+export type AutoLockListener = (event: AutoLockEvent) => void
+
+let activeConfig: AutoLockConfig | null = null
+let appState: AppStateStatus = AppState.currentState
+let appStateSubscription: NativeEventSubscription | null = null
+let backgroundedAt: number | null = null
+let lastActivityAt = Date.now()
+let backgroundTimer: ReturnType<typeof setTimeout> | null = null
+let idleTimer: ReturnType<typeof setTimeout> | null = null
+let pendingReason: AutoLockReason | null = null
+let unsubscribeMutex: (() => void) | null = null
+const listeners = new Set<AutoLockListener>()
+
+function clearTimer(timer: ReturnType<typeof setTimeout> | null): null {
+  if (timer) clearTimeout(timer)
+  return null
+}
+
+function hasActiveWallet(): boolean {
+  return getWalletStore().getState().activeWalletId !== null
+}
+
+function emit(event: AutoLockEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event)
+    } catch {
+      // Listener errors must not break locking.
+    }
+  }
+}
+
+function scheduleIdleTimer(): void {
+  idleTimer = clearTimer(idleTimer)
+  const idleTimeoutMs = activeConfig?.idleTimeoutMs
+  if (!idleTimeoutMs || appState !== 'active') {
+    return
+  }
+
+  const remaining = Math.max(0, lastActivityAt + idleTimeoutMs - Date.now())
+  idleTimer = setTimeout(() => {
+    idleTimer = null
+    if (Date.now() - lastActivityAt >= idleTimeoutMs) {
+      void AutoLockService.lockNow('idle')
+    } else {
+      scheduleIdleTimer()
+    }
+  }, remaining)
+}
+
+function handleAppStateChange(next: AppStateStatus): void {
+  const previous = appState
+  appState = next
+  const config = activeConfig
+  if (!config || next === previous) {
+    return
+  }
+
+  if (next === 'background') {
+    backgroundedAt = Date.now()
+    idleTimer = clearTimer(idleTimer)
+
+    if (config.lockOnBackground) {
+      void AutoLockService.lockNow('background')
+      return
+    }
+
+    const { backgroundTimeoutMs } = config
+    if (backgroundTimeoutMs !== undefined) {
+      // Only fires where JS keeps running in the background (Android); iOS
+      // suspends timers, which is covered by the elapsed check on resume.
+      backgroundTimer = clearTimer(backgroundTimer)
+      backgroundTimer = setTimeout(() => {
+        backgroundTimer = null
+        void AutoLockService.lockNow('background')
+      }, backgroundTimeoutMs)
+    }
+    return
+  }
+
+  if (next === 'active') {
+    backgroundTimer = clearTimer(backgroundTimer)
+    const { backgroundTimeoutMs } = config
+    const elapsed = backgroundedAt === null ? 0 : Date.now() - backgroundedAt
+    backgroundedAt = null
+
+    if (backgroundTimeoutMs !== undefined && elapsed >= backgroundTimeoutMs) {
+      void AutoLockService.lockNow('background')
+    }
+
+    // Time spent in the background doesn't count towards idleness.
+    lastActivityAt = Date.now()
+    scheduleIdleTimer()
+  }
+}
+
+function reportTouch(): boolean {
+  AutoLockService.reportActivity()
+  // Never claim the responder, so the app's own gestures are unaffected
+  return false
+}
+
+/**
+ * Responder props that count touches as activity for the idle timer,
+ * for the root view of apps that set `autoLock.wrapChildren: false`
+ */
+export const autoLockTouchHandlers = {
+  onStartShouldSetResponderCapture: reportTouch,
+  onMoveShouldSetResponderCapture: reportTouch,
+} as const
+
+/**
+ * Auto-Lock Service
+ *
+ * Started by WdkAppProvider when the `autoLock` prop is set.
+ */
+export class AutoLockService {
+  /**
+   * Start enforcing the given policy. Calling start again replaces it.
+   */
+  static start(config: AutoLockConfig): void {
+    this.stop()
+    activeConfig = config
+    appState = AppState.currentState
+    lastActivityAt = Date.now()
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange)
+    scheduleIdleTimer()
+
+    log('[AutoLock] Auto-lock policy started', config)
+  }
+
+  /**
+   * Stop enforcing the policy and cancel any pending lock
+   */
+  static stop(): void {
+    appStateSubscription?.remove()
+    appStateSubscription = null
+    backgroundTimer = clearTimer(backgroundTimer)
+    idleTimer = clearTimer(idleTimer)
+    unsubscribeMutex?.()
+    unsubscribeMutex = null
+    pendingReason = null
+    backgroundedAt = null
+    activeConfig = null
+  }
+
+  /**
+   * Record user interaction, restarting the idle countdown. WdkAppProvider
+   * reports touches automatically; call this for other input (e.g. hardware
+   * keyboards) that should also count as activity.
+   */
+  static reportActivity(): void {
+    lastActivityAt = Date.now()
+    if (activeConfig?.idleTimeoutMs && !idleTimer) {
+      scheduleIdleTimer()
+    }
+  }
+
+  /**
+   * Subscribe to auto-lock events; returns an unsubscribe fn
+   */
+  static subscribe(listener: AutoLockListener): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Lock the active wallet now. If another wallet operation holds the mutex,
+   * the lock runs as soon as that operation releases it.
+   */
+  static async lockNow(reason: AutoLockReason): Promise<void> {
+    if (!activeConfig || !hasActiveWallet()) {
+      return
+    }
+
+    if (isOperationInProgress()) {
+      if (!pendingReason) {
+        log(`[AutoLock] Deferring ${reason} lock until current operation finishes`)
+        pendingReason = reason
+        unsubscribeMutex = getWalletStore().subscribe((state) => {
+          if (state.isOperationInProgress || !pendingReason) {
+            return
+          }
+          const deferred = pendingReason
+          pendingReason = null
+          unsubscribeMutex?.()
+          unsubscribeMutex = null
+          void AutoLockService.lockNow(deferred)
+        })
+      }
+      return
+    }
+
+    try {
+      const walletId = await withOperationMutex('autoLock', async () =>
+        lockActiveWallet(),
+      )
+      if (walletId) {
+        log(`[AutoLock] Locked wallet (${reason})`)
+        emit({ reason, walletId, timestamp: Date.now() })
+      }
+    } catch (error) {
+      logError('[AutoLock] Auto-lock failed', error)
+    } finally {
+      idleTimer = clearTimer(idleTimer)
+    }
+  }
+}
@@ -0,0 +1,263 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Mnemonic Reveal Service
+ *
+ * Hands out the recovery phrase through short-lived sessions instead of as a
+ * bare string. A session's phrase is dropped when it expires, when it is
+ * closed, when the app goes to the background and when a wallet is locked.
+ * Backup quizzes made from a session end along with the reveal sessions, and
+ * passing one marks the wallet as backed up.
+ */
+
+import * as Crypto from 'expo-crypto'
+import { produce } from 'immer'
+import { AppState, type AppStateStatus, type NativeEventSubscription } from 'react-native'
+
+import { WalletSetupService } from './walletSetupService'
+import { getWalletStore, type WalletMetadata } from '../store/walletStore'
+import { MnemonicRevealEndedError } from '../utils/errors'
+import { log } from '../utils/logger'
+
+/**
+ * Default lifetime of a reveal session (ms)
+ */
+export const DEFAULT_MNEMONIC_REVEAL_TTL_MS = 60_000
+
+/**
+ * Default number of words a backup quiz asks for
+ */
+export const DEFAULT_BACKUP_QUIZ_QUESTIONS = 3
+
+export interface MnemonicRevealOptions {
+  /** How long the phrase stays readable (ms); defaults to a minute */
+  ttlMs?: number
+}
+
+/**
+ * Handle to a revealed recovery phrase
+ */
+export interface MnemonicRevealSession {
+  walletId: string
+  /** When the session expires (ms since epoch) */
+  expiresAt: number
+  /** Whether the phrase can still be read */
+  isActive: () => boolean
+  /**
+   * The recovery phrase
+   *
+   * @throws MnemonicRevealEndedError once the session has ended
+   */
+  getMnemonic: () => string
+  /** End the session now, e.g. when the reveal screen unmounts */
+  close: () => void
+}
+
+export interface BackupQuizOptions {
+  /** Number of words to ask for; defaults to 3 */
+  questions?: number
+}
+
+/**
+ * Asks for the words at a few positions of a revealed phrase
+ */
+export interface BackupQuiz {
+  walletId: string
+  /** 1-based positions of the words to ask for, ascending */
+  positions: number[]
+  /**
+   * Check the answers, one per position (case and surrounding whitespace
+   * are ignored). When all are right the wallet is marked as backed up.
+   *
+   * @throws MnemonicRevealEndedError once the quiz has ended
+   */
+  verify: (answers: string[]) => boolean
+}
+
+interface RevealEntry {
+  walletId: string
+  words: string[]
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const sessions = new Map<number, RevealEntry>()
+const quizzes = new Map<number, { walletId: string; expected: string[] }>()
+let nextId = 0
+let appStateSubscription: NativeEventSubscription | null = null
+
+function patchMetadata(walletId: string, patch: Partial<WalletMetadata>): void {
+  getWalletStore().setState((prev) =>
+    produce(prev, (state) => {
+      state.walletMetadata[walletId] = {
+        backedUp: false,
+        ...state.walletMetadata[walletId],
+        ...patch,
+      }
+    }),
+  )
+}
+
+function handleAppStateChange(next: AppStateStatus): void {
+  if (next === 'background') {
+    MnemonicRevealService.endAll()
+  }
+}
+
+function watchAppState(): void {
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange)
+  }
+}
+
+function unwatchAppStateIfIdle(): void {
+  if (sessions.size === 0 && quizzes.size === 0) {
+    appStateSubscription?.remove()
+    appStateSubscription = null
+  }
+}
+
+function endSession(id: number): void {
+  const entry = sessions.get(id)
+  if (!entry) {
+    return
+  }
+  if (entry.timer) clearTimeout(entry.timer)
+  entry.words = []
+  sessions.delete(id)
+  unwatchAppStateIfIdle()
+}
+
+/**
+ * Pick `count` distinct 0-based word indexes out of `length`, ascending
+ */
+async function pickPositions(length: number, count: number): Promise<number[]> {
+  const indexes = Array.from({ length }, (_, index) => index)
+  const random = await Crypto.getRandomBytesAsync(length)
+  for (let i = length - 1; i > 0; i--) {
+    const j = (random[i] ?? 0) % (i + 1)
+    ;[indexes[i], indexes[j]] = [indexes[j]!, indexes[i]!]
+  }
+  return indexes.slice(0, count).sort((a, b) => a - b)
+}
+
+const normalizeWord = (word: string) => word.trim().toLowerCase()
+
+export class MnemonicRevealService {
+  /**
+   * Read a wallet's recovery phrase into a session that ends after
+   * options.ttlMs. Requires whatever the authPolicy sets for getMnemonic,
+   * and records the reveal in the wallet's metadata.
+   */
+  static async reveal(
+    walletId: string,
+    options: MnemonicRevealOptions = {},
+  ): Promise<MnemonicRevealSession> {
+    const { ttlMs = DEFAULT_MNEMONIC_REVEAL_TTL_MS } = options
+    if (!(ttlMs > 0)) {
+      throw new Error('ttlMs must be a positive number of milliseconds')
+    }
+
+    const mnemonic = await WalletSetupService.getMnemonic(walletId)
+    if (!mnemonic) {
+      throw new Error(`No recovery phrase found for wallet ${walletId}`)
+    }
+
+    const id = ++nextId
+    const expiresAt = Date.now() + ttlMs
+    const entry: RevealEntry = {
+      walletId,
+      words: mnemonic.split(' '),
+      timer: setTimeout(() => endSession(id), ttlMs),
+    }
+    sessions.set(id, entry)
+    watchAppState()
+    patchMetadata(walletId, { mnemonicRevealedAt: Date.now() })
+    log(`[MnemonicRevealService] Revealed recovery phrase of wallet ${walletId}`)
+
+    return {
+      walletId,
+      expiresAt,
+      isActive: () => sessions.has(id),
+      getMnemonic: () => {
+        if (!sessions.has(id)) {
+          throw new MnemonicRevealEndedError(walletId)
+        }
+        return entry.words.join(' ')
+      },
+      close: () => endSession(id),
+    }
+  }
+
+  /**
+   * Make a quiz asking for a few words of a live session's phrase. The quiz
+   * keeps only those words and outlives the session, but ends on
+   * background or lock like the reveal sessions.
+   *
+   * @throws MnemonicRevealEndedError if the session has ended
+   */
+  static async createQuiz(
+    session: MnemonicRevealSession,
+    options: BackupQuizOptions = {},
+  ): Promise<BackupQuiz> {
+    const words = session.getMnemonic().split(' ')
+    const { questions = DEFAULT_BACKUP_QUIZ_QUESTIONS } = options
+    if (!Number.isInteger(questions) || questions < 1 || questions > words.length) {
+      throw new Error(`questions must be an integer between 1 and ${words.length}`)
+    }
+
+    const indexes = await pickPositions(words.length, questions)
+    const { walletId } = session
+    const id = ++nextId
+    quizzes.set(id, { walletId, expected: indexes.map((index) => words[index]!) })
+    watchAppState()
+
+    return {
+      walletId,
+      positions: indexes.map((index) => index + 1),
+      verify: (answers) => {
+        const quiz = quizzes.get(id)
+        if (!quiz) {
+          throw new MnemonicRevealEndedError(walletId)
+        }
+        const passed =
+          answers.length === quiz.expected.length &&
+          quiz.expected.every((word, index) => normalizeWord(answers[index] ?? '') === word)
+        if (passed) {
+          quizzes.delete(id)
+          unwatchAppStateIfIdle()
+          patchMetadata(walletId, { backedUp: true, backupVerifiedAt: Date.now() })
+          log(`[MnemonicRevealService] Backup of wallet ${walletId} verified`)
+        }
+        return passed
+      },
+    }
+  }
+
+  /**
+   * End every reveal session and backup quiz. Runs on app background and on
+   * lock.
+   */
+  static endAll(): void {
+    if (sessions.size === 0 && quizzes.size === 0) {
+      return
+    }
+    for (const id of [...sessions.keys()]) {
+      endSession(id)
+    }
+    quizzes.clear()
+    unwatchAppStateIfIdle()
+    log('[MnemonicRevealService] Ended all reveal sessions')
+  }
+}
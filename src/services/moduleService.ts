@@ -18,17 +18,15 @@
  * Host-side gateway to worklet modules: calls them by name (callModule / events).
  */
 
+import { getWorkletStore } from '../store/workletStore'
+import type { HRPC, ModuleRpcs } from '../types'
+import { runWithCallOptions, type CallOptions } from '../utils/callOptions'
+import { UnsupportedByBundleError } from '../utils/errors'
 import { handleServiceError } from '../utils/errorHandling'
 import { requireInitialized } from '../utils/storeHelpers'
 import { safeStringify } from '../utils/jsonUtils'
 import { validateModuleName } from '../utils/validation'
-
-// Module RPC surface, declared locally so rn-core compiles against the current
-// published HRPC type until @tetherto/pear-wrk-wdk is bumped.
-interface ModuleRpc {
-  callModule: (req: { module: string, method: string, args?: string }) => Promise<{ result?: string | null }>
-  onModuleEvent: (cb: (evt: { module: string, event: string, payload?: string | null }) => void) => void
-}
+import { assertRpcSupported } from '../utils/workletCapabilities'
 
 export type ModuleEventListener = (payload: unknown) => void
 
@@ -42,7 +40,21 @@ function listenerKey (moduleName: string, event: string): string {
   return `${moduleName}::${event}`
 }
 
-function ensureEventDispatcher (rpc: ModuleRpc): void {
+function hasModuleRpcs (rpc: HRPC): rpc is HRPC & ModuleRpcs {
+  return typeof rpc.callModule === 'function' && typeof rpc.onModuleEvent === 'function'
+}
+
+// The initialized HRPC, narrowed to the module RPCs the bundle ships.
+async function requireModuleRpcs (): Promise<ModuleRpcs> {
+  const rpc = await requireInitialized()
+  assertRpcSupported(getWorkletStore().getState().capabilities, 'callModule')
+  if (!hasModuleRpcs(rpc)) {
+    throw new UnsupportedByBundleError('callModule')
+  }
+  return rpc
+}
+
+function ensureEventDispatcher (rpc: ModuleRpcs): void {
   if (wiredInstances.has(rpc as object)) {
     return
   }
@@ -75,14 +87,24 @@ function ensureEventDispatcher (rpc: ModuleRpc): void {
  */
 export class ModuleService {
   static async callModule (moduleName: string, method: string, ...args: unknown[]): Promise<unknown> {
+    return this.callModuleWithOptions({}, moduleName, method, ...args)
+  }
+
+  // callModule with a per-call timeout and/or AbortSignal. Rejects with
+  // WdkTimeoutError / WdkAbortError; a result arriving afterwards is discarded.
+  static async callModuleWithOptions (options: CallOptions, moduleName: string, method: string, ...args: unknown[]): Promise<unknown> {
     validateModuleName(moduleName)
     if (typeof method !== 'string' || method.trim().length === 0) {
       throw new Error('method must be a non-empty string')
     }
-    const rpc = (await requireInitialized()) as unknown as ModuleRpc
+    const rpc = await requireModuleRpcs()
 
     try {
-      const response = await rpc.callModule({ module: moduleName, method, args: safeStringify(args) })
+      const response = await runWithCallOptions(
+        `callModule:${moduleName}.${method}`,
+        () => rpc.callModule({ module: moduleName, method, args: safeStringify(args) }),
+        options
+      )
       if (response?.result === undefined || response?.result === null || response.result === '') {
         return undefined
       }
@@ -104,8 +126,8 @@ export class ModuleService {
     }
     set.add(listener)
 
-    void requireInitialized()
-      .then((rpc) => { ensureEventDispatcher(rpc as unknown as ModuleRpc) })
+    void requireModuleRpcs()
+      .then((rpc) => { ensureEventDispatcher(rpc) })
       .catch(() => { /* worklet not ready yet; init will attach the dispatcher */ })
 
     return () => {
@@ -14,13 +14,97 @@
 
 import type { SecureStorage } from '@tetherto/wdk-react-native-secure-storage'
 
+import { AccountService } from './accountService'
+import { AuthPolicyService } from './authPolicyService'
 import { WorkletLifecycleService } from './workletLifecycleService'
-import { DEFAULT_MNEMONIC_WORD_COUNT } from '../utils/constants'
-import { log, logError } from '../utils/logger'
+import { getWalletStore, type WatchOnlyAccounts } from '../store/walletStore'
+import { getWorkletStore } from '../store/workletStore'
+import { DEFAULT_MNEMONIC_WORD_COUNT, DEFAULT_WALLET_IDENTIFIER } from '../utils/constants'
+import { DuplicateWalletError, PassphraseRequiredError } from '../utils/errors'
+import { log, logError, logWarn } from '../utils/logger'
+import {
+  assertShareSplitOptions,
+  type ShareSplitOptions,
+  type ShareValidationResult,
+} from '../utils/shamirShares'
+import {
+  computeWalletFingerprint,
+  findWalletByFingerprint,
+  type WalletFingerprint,
+} from '../utils/walletFingerprint'
+import {
+  decryptWalletBackup,
+  encryptWalletBackup,
+  type WalletBackupEntry,
+  type WalletBackupImportResult,
+  type WalletBackupMetadata,
+} from '../utils/walletBackup'
+
+/**
+ * What secure storage holds for one wallet identifier
+ */
+export interface StoredWalletStatus {
+  walletId: string
+  /** absent: nothing stored; unreadable: a read failed or entries are missing */
+  state: 'ok' | 'absent' | 'unreadable'
+  /** The seed isn't stored, only the entropy (a BIP-39 passphrase wallet) */
+  passphraseRequired?: boolean
+  /** Why the wallet is unreadable */
+  error?: string
+}
+
+/**
+ * How a restore treats a seed that is already on the device
+ */
+export interface DuplicateWalletOptions {
+  /** Restore even if another wallet ID holds the same seed */
+  allowDuplicate?: boolean
+  /** Fingerprints not in the store yet to check too (walletId -> fingerprint) */
+  pendingFingerprints?: Record<string, WalletFingerprint>
+}
+
+/**
+ * Credentials of a restored wallet, and its fingerprint when it could be
+ * computed
+ */
+export interface RecoveredWallet {
+  encryptionKey: string
+  encryptedSeed: string
+  encryptedEntropy: string
+  fingerprint?: WalletFingerprint
+}
+
+/**
+ * The encrypted credentials of the temporary wallet session, kept in
+ * memory only until it is committed or cleared
+ */
+export interface TemporaryWalletCredentials {
+  encryptionKey: string
+  encryptedSeed: string
+  encryptedEntropy: string
+  /** Created with a BIP-39 passphrase; the seed won't be stored */
+  passphraseRequired?: boolean
+  /** Built from an existing mnemonic rather than generated */
+  restored?: boolean
+}
+
+/**
+ * SecureStorage implementations may be able to list what they hold; the
+ * keychain-backed default can't, so identifiers are probed instead
+ */
+type EnumerableSecureStorage = SecureStorage & {
+  getWalletIds?: () => string[] | Promise<string[]>
+}
 
 /**
  * Wallet setup service
- * Handles creating new wallets and loading existing wallets with biometric authentication
+ * Handles creating new wallets and loading existing wallets. Unlocking,
+ * reading the mnemonic or key and deleting go through the AuthPolicyService
+ * first; keychain reads themselves don't prompt, so the policy decides.
+ *
+ * A BIP-39 passphrase is never stored, and neither is the seed derived from
+ * it: passphrase wallets keep only the key and the encrypted entropy, and
+ * the seed is re-derived from mnemonic plus passphrase on every unlock.
  */
 export class WalletSetupService {
 
@@ -30,6 +114,11 @@ export class WalletSetupService {
    */
   private static secureStorageInstance: SecureStorage | null = null
 
+  /**
+   * Credentials of the temporary wallet session, by walletId
+   */
+  private static temporaryWallet: { walletId: string, credentials: TemporaryWalletCredentials } | null = null
+
   /**
    * Set the secureStorage singleton instance
    * Called by WdkAppProvider during initialization
@@ -39,6 +128,7 @@ export class WalletSetupService {
       log('SecureStorage already set - multiple WdkAppProviders may be mounted')
     }
     this.secureStorageInstance = secureStorage
+    AuthPolicyService.setBiometricPrompt(() => secureStorage.authenticate())
   }
 
   /**
@@ -60,7 +150,8 @@ export class WalletSetupService {
   }
 
   static async createNewWallet(
-    walletId?: string
+    walletId?: string,
+    passphrase?: string
   ): Promise<{
     encryptionKey: string
     encryptedSeed: string
@@ -69,7 +160,10 @@ export class WalletSetupService {
 
     const secureStorage = this.getSecureStorage()
 
-    const result = await WorkletLifecycleService.generateEntropyAndEncrypt(DEFAULT_MNEMONIC_WORD_COUNT)
+    const result = await WorkletLifecycleService.generateEntropyAndEncrypt(
+      DEFAULT_MNEMONIC_WORD_COUNT,
+      passphrase
+    )
 
     try {
       await WorkletLifecycleService.initializeWDK({
@@ -94,7 +188,9 @@ export class WalletSetupService {
 
     try {
       await secureStorage.setEncryptionKey(result.encryptionKey, walletId, { requireBiometrics: false })
-      await secureStorage.setEncryptedSeed(result.encryptedSeedBuffer, walletId)
+      if (!passphrase) {
+        await secureStorage.setEncryptedSeed(result.encryptedSeedBuffer, walletId)
+      }
       await secureStorage.setEncryptedEntropy(result.encryptedEntropyBuffer, walletId)
     } catch (error) {
       try {
@@ -113,14 +209,29 @@ export class WalletSetupService {
     }
   }
 
+  /**
+   * Read a wallet's credentials. With a passphrase the seed is derived from
+   * the stored entropy plus the passphrase instead of being read from
+   * storage; any passphrase works (BIP-39 has no wrong passphrase, only a
+   * different wallet).
+   *
+   * @throws PassphraseRequiredError for a passphrase wallet without one
+   */
   static async loadExistingWallet(
-    walletId?: string
+    walletId?: string,
+    passphrase?: string
   ): Promise<{
     encryptionKey: string
     encryptedSeed: string
   }> {
     const secureStorage = this.getSecureStorage()
 
+    await AuthPolicyService.authorize('unlock', walletId)
+
+    if (passphrase) {
+      return this.deriveSeedWithPassphrase(walletId, passphrase)
+    }
+
     const encryptedSeed = await secureStorage.getEncryptedSeed(walletId)
     const encryptionKey = await secureStorage.getEncryptionKey(walletId, { requireBiometrics: false })
 
@@ -129,6 +240,9 @@ export class WalletSetupService {
     }
 
     if (!encryptedSeed) {
+      if (await secureStorage.getEncryptedEntropy(walletId)) {
+        throw new PassphraseRequiredError(walletId)
+      }
       throw new Error('Encrypted seed not found. Authentication may have failed or wallet does not exist.')
     }
 
@@ -138,27 +252,97 @@ export class WalletSetupService {
     }
   }
 
+  private static async deriveSeedWithPassphrase(
+    walletId: string | undefined,
+    passphrase: string
+  ): Promise<{
+    encryptionKey: string
+    encryptedSeed: string
+  }> {
+    const encryptedEntropy = await this.getEncryptedEntropy(walletId)
+    const encryptionKey = await this.readEncryptionKey(walletId)
+
+    if (!encryptionKey) {
+      throw new Error('Encryption key not found. Authentication may have failed or wallet does not exist.')
+    }
+
+    if (!encryptedEntropy) {
+      throw new Error('Encrypted entropy not found. A passphrase can only be applied to wallets that kept their entropy.')
+    }
+
+    // Derived in the worklet, so the mnemonic never comes back to JS
+    const { encryptedSeedBuffer } = await WorkletLifecycleService.getSeedFromEntropy(
+      encryptedEntropy,
+      encryptionKey,
+      passphrase
+    )
+
+    return {
+      encryptionKey,
+      encryptedSeed: encryptedSeedBuffer,
+    }
+  }
+
   static async hasWallet(walletId?: string): Promise<boolean> {
     const secureStorage = this.getSecureStorage()
     return await secureStorage.hasWallet(walletId)
   }
 
   /**
-   * Initialize WDK from an existing mnemonic phrase
+   * Initialize WDK from an existing mnemonic phrase, optionally with a
+   * BIP-39 passphrase (not stored)
    */
   static async initializeFromMnemonic(
     mnemonic: string,
-    walletId?: string
-  ): Promise<{
-    encryptionKey: string
-    encryptedSeed: string
-    encryptedEntropy: string
-  }> {
+    walletId?: string,
+    passphrase?: string,
+    options: DuplicateWalletOptions = {}
+  ): Promise<RecoveredWallet> {
     await WorkletLifecycleService.ensureWorkletStarted()
 
-    const secureStorage = this.getSecureStorage()
+    this.getSecureStorage()
+
+    const result = await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(mnemonic, passphrase)
+
+    return this.storeRecovered(result, walletId, passphrase, options)
+  }
+
+  /**
+   * Initialize WDK from SLIP-39 shares, optionally with the BIP-39
+   * passphrase (not stored) of the wallet they were split from
+   */
+  static async initializeFromShares(
+    shares: string[],
+    walletId?: string,
+    passphrase?: string,
+    options: DuplicateWalletOptions = {}
+  ): Promise<RecoveredWallet> {
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    this.getSecureStorage()
 
-    const result = await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(mnemonic)
+    const result = await WorkletLifecycleService.getSeedAndEntropyFromShares(shares, passphrase)
+
+    return this.storeRecovered(result, walletId, passphrase, options)
+  }
+
+  /**
+   * Check the recovered credentials load and aren't a seed already on the
+   * device, store them, and load the wallet
+   *
+   * @throws DuplicateWalletError if another wallet has the same fingerprint
+   */
+  private static async storeRecovered(
+    result: {
+      encryptionKey: string
+      encryptedSeedBuffer: string
+      encryptedEntropyBuffer: string
+    },
+    walletId?: string,
+    passphrase?: string,
+    options: DuplicateWalletOptions = {}
+  ): Promise<RecoveredWallet> {
+    const secureStorage = this.getSecureStorage()
 
     try {
       await WorkletLifecycleService.initializeWDK({
@@ -181,15 +365,32 @@ export class WalletSetupService {
       throw error
     }
 
+    const fingerprint = await this.getLoadedWalletFingerprint()
+    const existingWalletId = fingerprint
+      ? findWalletByFingerprint(fingerprint, walletId, options.pendingFingerprints)
+      : null
+    if (existingWalletId) {
+      if (!options.allowDuplicate) {
+        // Don't leave a seed loaded that nothing will use
+        WorkletLifecycleService.reset()
+        throw new DuplicateWalletError(existingWalletId, walletId)
+      }
+      logWarn(`[WalletSetupService] Wallet ${walletId} has the same seed as ${existingWalletId}`)
+    }
+
     try {
       await secureStorage.setEncryptionKey(result.encryptionKey, walletId, { requireBiometrics: false })
-      await secureStorage.setEncryptedSeed(result.encryptedSeedBuffer, walletId)
+      if (!passphrase) {
+        await secureStorage.setEncryptedSeed(result.encryptedSeedBuffer, walletId)
+      }
       await secureStorage.setEncryptedEntropy(result.encryptedEntropyBuffer, walletId)
     } catch (error) {
       try {
         await secureStorage.deleteWallet(walletId)
       } catch (cleanupError) {
         logError('Failed to cleanup partial wallet import:', cleanupError)
+      } finally {
+        WorkletLifecycleService.reset()
       }
       throw error
     }
@@ -203,6 +404,101 @@ export class WalletSetupService {
       encryptionKey: result.encryptionKey,
       encryptedSeed: result.encryptedSeedBuffer,
       encryptedEntropy: result.encryptedEntropyBuffer,
+      ...(fingerprint ? { fingerprint } : {}),
+    }
+  }
+
+  /**
+   * Fingerprint of the wallet loaded in the worklet, from the first
+   * account's address on each configured network. Networks whose address
+   * can't be derived are left out; null when none is left.
+   */
+  static async getLoadedWalletFingerprint(): Promise<WalletFingerprint | null> {
+    const networks = Object.keys(getWorkletStore().getState().wdkConfigs?.networks ?? {})
+
+    const addresses: Record<string, string> = {}
+    for (const network of networks) {
+      try {
+        addresses[network] = await AccountService.callAccountMethod(network, 0, 'getAddress')
+      } catch (error) {
+        logError(`[WalletSetupService] Failed to fingerprint the loaded wallet on ${network}:`, error)
+      }
+    }
+
+    try {
+      return await computeWalletFingerprint(addresses)
+    } catch (error) {
+      logError('[WalletSetupService] Failed to fingerprint the loaded wallet:', error)
+      return null
+    }
+  }
+
+  /**
+   * Keep the credentials of a temporary wallet session so it can be
+   * committed later. Replaces any previous session.
+   */
+  static holdTemporaryWallet(walletId: string, credentials: TemporaryWalletCredentials): void {
+    this.temporaryWallet = { walletId, credentials }
+  }
+
+  /**
+   * Forget the temporary wallet session's credentials
+   */
+  static discardTemporaryWallet(): void {
+    this.temporaryWallet = null
+  }
+
+  /**
+   * Persist the temporary wallet session to secure storage as it is, without
+   * deriving anything again. The wallet stays loaded.
+   *
+   * @throws DuplicateWalletError if another wallet has the same fingerprint
+   */
+  static async commitTemporaryWallet(
+    walletId: string,
+    options: DuplicateWalletOptions = {}
+  ): Promise<Pick<TemporaryWalletCredentials, 'passphraseRequired' | 'restored'> & { fingerprint?: WalletFingerprint }> {
+    const secureStorage = this.getSecureStorage()
+
+    if (this.temporaryWallet?.walletId !== walletId) {
+      throw new Error(`No temporary wallet session for "${walletId}" to commit`)
+    }
+    const { credentials } = this.temporaryWallet
+
+    if (await this.hasWallet(walletId)) {
+      throw new Error(`A wallet with the ID "${walletId}" already exists.`)
+    }
+
+    const fingerprint = await this.getLoadedWalletFingerprint()
+    const existingWalletId = fingerprint ? findWalletByFingerprint(fingerprint, walletId) : null
+    if (existingWalletId) {
+      if (!options.allowDuplicate) {
+        throw new DuplicateWalletError(existingWalletId, walletId)
+      }
+      logWarn(`[WalletSetupService] Wallet ${walletId} has the same seed as ${existingWalletId}`)
+    }
+
+    try {
+      await secureStorage.setEncryptionKey(credentials.encryptionKey, walletId, { requireBiometrics: false })
+      if (!credentials.passphraseRequired) {
+        await secureStorage.setEncryptedSeed(credentials.encryptedSeed, walletId)
+      }
+      await secureStorage.setEncryptedEntropy(credentials.encryptedEntropy, walletId)
+    } catch (error) {
+      try {
+        await secureStorage.deleteWallet(walletId)
+      } catch (cleanupError) {
+        logError('Failed to cleanup partial temporary wallet commit:', cleanupError)
+      }
+      throw error
+    }
+
+    this.temporaryWallet = null
+    log(`[WalletSetupService] Committed temporary wallet ${walletId}`)
+    return {
+      passphraseRequired: credentials.passphraseRequired,
+      restored: credentials.restored,
+      ...(fingerprint ? { fingerprint } : {}),
     }
   }
 
@@ -226,37 +522,223 @@ export class WalletSetupService {
     options: {
       createNew?: boolean
       walletId?: string
+      /** BIP-39 passphrase; used for this call only, never stored */
+      passphrase?: string
     }
   ): Promise<void> {
     let credentials: { encryptionKey: string; encryptedSeed: string }
 
     if (options.createNew) {
-      credentials = await this.createNewWallet(options.walletId)
+      credentials = await this.createNewWallet(options.walletId, options.passphrase)
     } else {
-      credentials = await this.loadExistingWallet(options.walletId)
+      credentials = await this.loadExistingWallet(options.walletId, options.passphrase)
     }
 
     // Initialize WDK with credentials
     await this.initializeWDK(credentials)
   }
 
+  /**
+   * Load a watch-only wallet's accounts into WDK. There is nothing in
+   * secure storage to read, so no authentication is asked for.
+   */
+  static async initializeWatchOnly(accounts: WatchOnlyAccounts): Promise<void> {
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    await WorkletLifecycleService.initializeWDK({ watchOnly: accounts })
+  }
+
   /**
    * Delete wallet and clear all data
    */
   static async deleteWallet(walletId?: string): Promise<void> {
     const secureStorage = this.getSecureStorage()
-    
+
+    await AuthPolicyService.authorize('deleteWallet', walletId)
+
     await secureStorage.deleteWallet(walletId)
     WorkletLifecycleService.reset()
   }
 
   /**
-   * Get encryption key (checks cache first, then secureStorage with biometrics)
+   * Delete a wallet's secure storage entries only, leaving the loaded
+   * wallet alone (for entries that can't be loaded anyway)
    */
-  static async getEncryptionKey(walletId?: string): Promise<string | null> {
+  static async removeStoredWallet(walletId: string): Promise<void> {
     const secureStorage = this.getSecureStorage()
 
-    return secureStorage.getEncryptionKey(walletId, { requireBiometrics: false })  }
+    await AuthPolicyService.authorize('deleteWallet', walletId)
+
+    await secureStorage.deleteWallet(walletId)
+  }
+
+  /**
+   * Delete every wallet from secure storage: the given identifiers, the
+   * default one and any the storage can list, then whatever else it holds.
+   * Requires whatever the authPolicy sets for deleteWallet, asked once.
+   *
+   * @throws Error listing the identifiers that could not be deleted
+   */
+  static async wipeSecureStorage(walletIds: string[]): Promise<void> {
+    const secureStorage = this.getSecureStorage() as EnumerableSecureStorage
+
+    await AuthPolicyService.authorize('deleteWallet')
+
+    let listed: string[] = []
+    if (typeof secureStorage.getWalletIds === 'function') {
+      try {
+        listed = await secureStorage.getWalletIds()
+      } catch (error) {
+        logError('Failed to list wallets in secure storage:', error)
+      }
+    }
+
+    const failed: string[] = []
+    for (const walletId of new Set([...walletIds, ...listed, DEFAULT_WALLET_IDENTIFIER])) {
+      try {
+        await secureStorage.deleteWallet(walletId)
+      } catch (error) {
+        logError(`Failed to delete wallet ${walletId} from secure storage:`, error)
+        failed.push(walletId)
+      }
+    }
+    await secureStorage.clearAll()
+    this.temporaryWallet = null
+
+    if (failed.length > 0) {
+      throw new Error(`Failed to delete wallets from secure storage: ${failed.join(', ')}`)
+    }
+    log('[WalletSetupService] Wiped secure storage')
+  }
+
+  /**
+   * Check what secure storage holds for each candidate identifier, plus
+   * every identifier the storage can list. The encryption key is only
+   * checked for presence (hasWallet) and nothing is decrypted, so no
+   * authentication is asked for.
+   */
+  static async inspectStoredWallets(candidates: string[]): Promise<StoredWalletStatus[]> {
+    const secureStorage = this.getSecureStorage() as EnumerableSecureStorage
+
+    let listed: string[] = []
+    if (typeof secureStorage.getWalletIds === 'function') {
+      try {
+        listed = await secureStorage.getWalletIds()
+      } catch (error) {
+        logError('Failed to list wallets in secure storage:', error)
+      }
+    }
+
+    const walletIds = [...new Set([...candidates, ...listed])]
+    return Promise.all(walletIds.map(async (walletId): Promise<StoredWalletStatus> => {
+      try {
+        const hasEncryptionKey = await secureStorage.hasWallet(walletId)
+        const encryptedSeed = await secureStorage.getEncryptedSeed(walletId)
+        const encryptedEntropy = await secureStorage.getEncryptedEntropy(walletId)
+
+        if (!hasEncryptionKey && !encryptedSeed && !encryptedEntropy) {
+          return { walletId, state: 'absent' }
+        }
+        if (!hasEncryptionKey) {
+          return { walletId, state: 'unreadable', error: 'Encryption key is missing' }
+        }
+        if (!encryptedSeed && !encryptedEntropy) {
+          return { walletId, state: 'unreadable', error: 'Encrypted seed and entropy are missing' }
+        }
+        return { walletId, state: 'ok', ...(encryptedSeed ? {} : { passphraseRequired: true }) }
+      } catch (error) {
+        return {
+          walletId,
+          state: 'unreadable',
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    }))
+  }
+
+  /**
+   * Re-encrypt a wallet's seed and entropy under a fresh key and swap the
+   * stored entries. The worklet decrypts, re-encrypts and checks the new
+   * ciphertexts itself, so no secret reaches JS, and if a write fails the
+   * previous entries are put back. When the wallet is the one loaded, WDK is
+   * re-initialized with the new credentials. Reads the wallet's secret, so
+   * it requires whatever the authPolicy sets for getMnemonic.
+   */
+  static async rotateEncryptionKey(walletId?: string): Promise<void> {
+    await AuthPolicyService.authorize('getMnemonic', walletId)
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    const secureStorage = this.getSecureStorage()
+
+    const previous = {
+      encryptionKey: await this.readEncryptionKey(walletId),
+      encryptedSeed: await secureStorage.getEncryptedSeed(walletId),
+      encryptedEntropy: await secureStorage.getEncryptedEntropy(walletId),
+    }
+    if (!previous.encryptionKey || !previous.encryptedEntropy) {
+      throw new Error('Encryption key or encrypted entropy not found. Wallet does not exist or cannot be rotated.')
+    }
+
+    // Passphrase wallets store no seed, so there's none to re-encrypt
+    const hasStoredSeed = previous.encryptedSeed !== null
+    const next = await WorkletLifecycleService.reencryptWallet(
+      previous.encryptionKey,
+      previous.encryptedEntropy,
+      previous.encryptedSeed ?? undefined
+    )
+    if (hasStoredSeed && !next.encryptedSeedBuffer) {
+      throw new Error('The worklet did not return the re-encrypted seed. The current key was kept.')
+    }
+
+    try {
+      await secureStorage.setEncryptionKey(next.encryptionKey, walletId, { requireBiometrics: false })
+      if (next.encryptedSeedBuffer) {
+        await secureStorage.setEncryptedSeed(next.encryptedSeedBuffer, walletId)
+      }
+      await secureStorage.setEncryptedEntropy(next.encryptedEntropyBuffer, walletId)
+    } catch (error) {
+      try {
+        await secureStorage.setEncryptionKey(previous.encryptionKey, walletId, { requireBiometrics: false })
+        if (previous.encryptedSeed) {
+          await secureStorage.setEncryptedSeed(previous.encryptedSeed, walletId)
+        }
+        await secureStorage.setEncryptedEntropy(previous.encryptedEntropy, walletId)
+      } catch (rollbackError) {
+        logError('Failed to roll back partial key rotation:', rollbackError)
+      }
+      throw error
+    }
+
+    log(`[WalletSetupService] Rotated encryption key for wallet ${walletId ?? '(default)'}`)
+
+    // A loaded passphrase wallet keeps running on its passphrase seed
+    const { activeWalletId, walletLoadingState } = getWalletStore().getState()
+    const isLoaded =
+      activeWalletId === (walletId || DEFAULT_WALLET_IDENTIFIER) &&
+      walletLoadingState.type === 'ready' &&
+      getWorkletStore().getState().isInitialized
+    if (isLoaded && next.encryptedSeedBuffer) {
+      await WorkletLifecycleService.initializeWDK({
+        encryptionKey: next.encryptionKey,
+        encryptedSeed: next.encryptedSeedBuffer,
+      })
+    }
+  }
+
+  /**
+   * Get encryption key. It unlocks the mnemonic, so it's gated by the
+   * getMnemonic requirement of the auth policy.
+   */
+  static async getEncryptionKey(walletId?: string): Promise<string | null> {
+    this.getSecureStorage()
+    await AuthPolicyService.authorize('getMnemonic', walletId)
+    return this.readEncryptionKey(walletId)
+  }
+
+  private static async readEncryptionKey(walletId?: string): Promise<string | null> {
+    const secureStorage = this.getSecureStorage()
+    return secureStorage.getEncryptionKey(walletId, { requireBiometrics: false })
+  }
 
   /**
    * Get encrypted seed (checks cache first, then secureStorage)
@@ -278,8 +760,14 @@ export class WalletSetupService {
    * Get mnemonic phrase from wallet
    */
   static async getMnemonic(walletId?: string): Promise<string | null> {
+    this.getSecureStorage()
+    await AuthPolicyService.authorize('getMnemonic', walletId)
+    return this.readMnemonic(walletId)
+  }
+
+  private static async readMnemonic(walletId?: string): Promise<string | null> {
     const encryptedEntropy = await this.getEncryptedEntropy(walletId)
-    const encryptionKey = await this.getEncryptionKey(walletId)
+    const encryptionKey = await this.readEncryptionKey(walletId)
 
     if (!encryptedEntropy || !encryptionKey) {
       return null
@@ -292,4 +780,179 @@ export class WalletSetupService {
     
     return result.mnemonic || null
   }
+
+  /**
+   * Split a wallet's entropy into M-of-N SLIP-39 shares. Any M of them
+   * recover the wallet, so it's gated by the getMnemonic requirement of the
+   * auth policy. A BIP-39 passphrase is not part of the shares.
+   */
+  static async splitIntoShares(
+    walletId: string | undefined,
+    options: ShareSplitOptions
+  ): Promise<string[]> {
+    assertShareSplitOptions(options)
+    this.getSecureStorage()
+    await AuthPolicyService.authorize('getMnemonic', walletId)
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    const encryptedEntropy = await this.getEncryptedEntropy(walletId)
+    const encryptionKey = await this.readEncryptionKey(walletId)
+    if (!encryptedEntropy || !encryptionKey) {
+      throw new Error(`Wallet ${walletId ?? '(default)'} has no stored entropy to split`)
+    }
+
+    const { shares } = await WorkletLifecycleService.getSharesFromEntropy(
+      encryptedEntropy,
+      encryptionKey,
+      options.threshold,
+      options.shareCount
+    )
+    return shares
+  }
+
+  /**
+   * Check SLIP-39 shares and report how many more are needed
+   */
+  static async validateShares(shares: string[]): Promise<ShareValidationResult> {
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    return WorkletLifecycleService.validateShares(shares)
+  }
+
+  /**
+   * Export wallets as a password-encrypted backup (see walletBackup.ts).
+   * The worklet re-encrypts each wallet's entropy under the backup's entropy
+   * key, so no mnemonic reaches JS. It exports every secret, so it's gated,
+   * once, by the getMnemonic requirement of the auth policy.
+   *
+   * @param wallets - The wallets to include, with the metadata to carry over
+   * @returns The backup blob
+   */
+  static async exportBackup(
+    wallets: WalletBackupMetadata[],
+    password: string
+  ): Promise<string> {
+    this.getSecureStorage()
+    if (wallets.length === 0) {
+      throw new Error('No wallets to back up')
+    }
+
+    await AuthPolicyService.authorize(
+      'getMnemonic',
+      wallets.length === 1 ? wallets[0]!.identifier : undefined
+    )
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    const blob = await encryptWalletBackup(password, async (entropyKey) => {
+      const entries: WalletBackupEntry[] = []
+      for (const wallet of wallets) {
+        const encryptedEntropy = await this.getEncryptedEntropy(wallet.identifier)
+        const encryptionKey = await this.readEncryptionKey(wallet.identifier)
+        if (!encryptedEntropy || !encryptionKey) {
+          throw new Error(`Wallet ${wallet.identifier} has no entropy to back up`)
+        }
+        const { encryptedBackupEntropy } = await WorkletLifecycleService.getBackupEntropy(
+          encryptedEntropy,
+          encryptionKey,
+          entropyKey
+        )
+        entries.push({ ...wallet, encryptedEntropy: encryptedBackupEntropy })
+      }
+      return entries
+    })
+    log(`[WalletSetupService] Exported backup of ${wallets.length} wallet(s)`)
+    return blob
+  }
+
+  /**
+   * Restore the wallets in a backup. The worklet opens each wallet's entropy
+   * with the backup's entropy key and returns it under a new wallet key, so
+   * no mnemonic reaches JS; from there it's stored as initializeFromMnemonic
+   * would. Passphrase wallets keep only the key and the entropy, as when
+   * they were created. Identifiers that already exist are skipped, seeds already on
+   * the device (or earlier in the backup) fail with DuplicateWalletError,
+   * and a wallet that fails doesn't stop the others. No wallet is left
+   * loaded.
+   *
+   * @throws WalletBackupError if the backup is malformed or the password is wrong
+   */
+  static async importBackup(
+    blob: string,
+    password: string
+  ): Promise<WalletBackupImportResult> {
+    this.getSecureStorage()
+    const { wallets, entropyKey } = await decryptWalletBackup(blob, password)
+    await WorkletLifecycleService.ensureWorkletStarted()
+
+    const result: WalletBackupImportResult = { restored: [], skipped: [], failed: [] }
+    const pendingFingerprints: Record<string, WalletFingerprint> = {}
+    try {
+      for (const { encryptedEntropy, ...metadata } of wallets) {
+        const walletId = metadata.identifier
+        if (await this.hasWallet(walletId)) {
+          result.skipped.push(walletId)
+          continue
+        }
+
+        try {
+          const restored = await WorkletLifecycleService.getSeedAndEntropyFromBackup(
+            encryptedEntropy,
+            entropyKey
+          )
+          if (metadata.passphraseRequired) {
+            await this.storeWithoutSeed(restored, walletId)
+            result.restored.push(metadata)
+          } else {
+            const { fingerprint } = await this.storeRecovered(
+              restored,
+              walletId,
+              undefined,
+              { pendingFingerprints }
+            )
+            if (fingerprint) {
+              pendingFingerprints[walletId] = fingerprint
+            }
+            result.restored.push({ ...metadata, ...(fingerprint ? { fingerprint } : {}) })
+          }
+        } catch (error) {
+          logError(`[WalletSetupService] Failed to restore wallet ${walletId} from backup:`, error)
+          result.failed.push({
+            identifier: walletId,
+            error: error instanceof Error ? error : new Error(String(error)),
+          })
+        }
+      }
+    } finally {
+      WorkletLifecycleService.reset()
+    }
+
+    log(
+      `[WalletSetupService] Imported backup: ${result.restored.length} restored, ` +
+      `${result.skipped.length} skipped, ${result.failed.length} failed`
+    )
+    return result
+  }
+
+  /**
+   * Store the key and entropy of a restored passphrase wallet, but not the
+   * seed
+   */
+  private static async storeWithoutSeed(
+    result: { encryptionKey: string, encryptedEntropyBuffer: string },
+    walletId: string
+  ): Promise<void> {
+    const secureStorage = this.getSecureStorage()
+
+    try {
+      await secureStorage.setEncryptionKey(result.encryptionKey, walletId, { requireBiometrics: false })
+      await secureStorage.setEncryptedEntropy(result.encryptedEntropyBuffer, walletId)
+    } catch (error) {
+      try {
+        await secureStorage.deleteWallet(walletId)
+      } catch (cleanupError) {
+        logError('Failed to cleanup partial wallet import:', cleanupError)
+      }
+      throw error
+    }
+  }
 }
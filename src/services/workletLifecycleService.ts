@@ -19,19 +19,81 @@
  * This service is focused solely on worklet lifecycle management.
  */
 
-import { Worklet } from 'react-native-bare-kit'
+import { produce } from 'immer'
+import type { Worklet } from 'react-native-bare-kit'
 
 import { getWalletStore } from '../store/walletStore'
+import type { WalletState, WatchOnlyAccounts } from '../store/walletStore'
 import { getWorkletStore } from '../store/workletStore'
-import { DEFAULT_MNEMONIC_WORD_COUNT } from '../utils/constants'
+import { diffWdkConfigs } from '../utils/configDiff'
+import type { WdkConfigsDiff } from '../utils/configDiff'
+import {
+  DEFAULT_MNEMONIC_WORD_COUNT,
+  WORKLET_FEATURE_BIP39_PASSPHRASE,
+  WORKLET_FEATURE_WATCH_ONLY,
+} from '../utils/constants'
+import { verifyBundleIntegrity } from '../utils/bundleIntegrity'
 import { handleServiceError } from '../utils/errorHandling'
+import { isBundleRejectionError } from '../utils/errors'
+import { clearInFlightCalls, instrumentHrpc } from '../utils/hrpcInstrumentation'
 import { normalizeError } from '../utils/errorUtils'
 import { log, logWarn } from '../utils/logger'
-import type { WdkConfigs, BundleConfig } from '../types'
+import type { WdkConfigs, BundleConfig, HRPC } from '../types'
 import type { WorkletState } from '../store/workletStore'
-import HRPC from '@tetherto/pear-wrk-wdk/hrpc'
 import { createResolvablePromise } from '../utils/promise'
 import { bumpEpoch } from '../utils/workletEpoch'
+import { StartupStage } from '../utils/initializationState'
+import {
+  assertBundleCompatible,
+  assertBundleHasFeature,
+  assertBundleHasRpc,
+  parseWorkletHandshake,
+} from '../utils/workletCapabilities'
+import {
+  backupEntropyResponseSchema,
+  encryptedSeedResponseSchema,
+  encryptedWalletResponseSchema,
+  reencryptedWalletResponseSchema,
+  sharesResponseSchema,
+} from '../utils/schemas'
+import { toShareValidationResult } from '../utils/shamirShares'
+import type { ShareValidationResult } from '../utils/shamirShares'
+import type { StartupStageTiming } from '../utils/initializationState'
+import { createBareWorkletTransport } from './workletTransport'
+import type { WorkletTransport, WorkletTransportFactory } from './workletTransport'
+
+/**
+ * Close the timing of the stage still running, if any
+ */
+function closeRunningTiming(
+  timings: StartupStageTiming[],
+  failed: boolean,
+): StartupStageTiming[] {
+  const now = Date.now()
+  return timings.map((timing) =>
+    timing.durationMs === null
+      ? { ...timing, durationMs: now - timing.startedAt, failed }
+      : timing,
+  )
+}
+
+/**
+ * Resolve once no initializeWDK() or resetWallets() is loading
+ */
+function waitForWorkletIdle(store: ReturnType<typeof getWorkletStore>): Promise<void> {
+  if (!store.getState().isLoading) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve) => {
+    const unsubscribe = store.subscribe((state) => {
+      if (!state.isLoading) {
+        unsubscribe()
+        resolve()
+      }
+    })
+  })
+}
 
 /**
  * Worklet Lifecycle Service
@@ -39,6 +101,69 @@ import { bumpEpoch } from '../utils/workletEpoch'
  * Provides methods for managing worklet lifecycle: start, initialize, cleanup, reset.
  */
 export class WorkletLifecycleService {
+  /** Creates the transport on every (re)start; see setTransport() */
+  private static transportFactory: WorkletTransportFactory = createBareWorkletTransport
+
+  /** Dispose hook of the transport currently in use */
+  private static disposeTransport: WorkletTransport['dispose'] | null = null
+
+  /**
+   * Use a custom transport for subsequent worklet starts (WdkAppProvider
+   * `transport` prop). Omit to go back to the default Bare worklet.
+   */
+  static setTransport(factory?: WorkletTransportFactory): void {
+    this.transportFactory = factory ?? createBareWorkletTransport
+  }
+
+  /**
+   * Whether startup stages are being tracked: from startWorklet() until the
+   * first wallet loaded after it has its first address (or fails). Later
+   * unlocks, switches and re-inits are not startup and leave stages alone.
+   */
+  private static isStartupRun = false
+
+  /**
+   * Mark the start of a startup stage, closing the previous one
+   */
+  private static enterStartupStage(stage: StartupStage): void {
+    if (!this.isStartupRun) {
+      return
+    }
+    const store = getWorkletStore()
+    store.setState({
+      startupStage: stage,
+      startupTimings: [
+        ...closeRunningTiming(store.getState().startupTimings, false),
+        { stage, startedAt: Date.now(), durationMs: null, failed: false },
+      ],
+    })
+  }
+
+  /**
+   * Close the running startup stage, if any, and unless `endRun` is false
+   * stop tracking stages
+   */
+  private static finishStartupStage(failed = false, endRun = true): void {
+    if (endRun) {
+      this.isStartupRun = false
+    }
+    const store = getWorkletStore()
+    store.setState({
+      startupStage: null,
+      startupTimings: closeRunningTiming(store.getState().startupTimings, failed),
+    })
+  }
+
+  /**
+   * Close the given startup stage if it is the one running. AddressService
+   * calls this once the first address of the loaded wallet is available.
+   */
+  static completeStartupStage(stage: StartupStage): void {
+    if (getWorkletStore().getState().startupStage === stage) {
+      this.finishStartupStage()
+    }
+  }
+
   /**
    * Cleanup a resource by trying cleanup methods in order
    * Handles cleanup gracefully, continuing even if individual steps fail
@@ -74,6 +199,10 @@ export class WorkletLifecycleService {
 
       // Cleanup worklet - try cleanup, destroy, or stop in that order
       await this.cleanupResource(worklet, ['cleanup', 'destroy', 'stop'])
+
+      const dispose = this.disposeTransport
+      this.disposeTransport = null
+      await dispose?.()
     } catch (error) {
       logWarn('Error cleaning up worklet resources:', error)
       // Continue even if cleanup fails
@@ -98,51 +227,73 @@ export class WorkletLifecycleService {
     }
     
     try {
-      store.setState({ error: null, isLoading: true })
+      store.setState({ error: null, bundleError: null, isLoading: true, startupTimings: [] })
+      this.isStartupRun = true
+      this.enterStartupStage(StartupStage.LOADING_BUNDLE)
+
+      // Refuse a tampered or truncated bundle before it runs
+      await verifyBundleIntegrity(bundleConfig)
 
       // Cleanup existing worklet if present
       const { worklet: existingWorklet, hrpc: existingHrpc } = store.getState()
-      if (existingWorklet || existingHrpc) {
+      if (existingWorklet || existingHrpc || this.disposeTransport) {
         await this.cleanupWorkletResources(existingHrpc, existingWorklet)
       }
 
-      const worklet = new Worklet()
+      // The default transport loads the bundle into a Bare worklet
+      const transport = await this.transportFactory({ bundleConfig, wdkConfigs })
+      this.disposeTransport = transport.dispose ?? null
 
-      // Get bundle and HRPC class from bundleConfig (passed from WdkAppProvider)
-      const { bundle } = bundleConfig
-
-      worklet.start('wdk-worklet.bundle', bundle)
-
-      const { IPC } = worklet
-
-      if (!IPC) {
-        throw new Error('IPC not available from worklet')
+      this.enterStartupStage(StartupStage.IPC_HANDSHAKE)
+      if (!transport.hrpc) {
+        throw new Error('HRPC not available from transport')
       }
 
-      const hrpcInstance = new HRPC(IPC)
+      const worklet = transport.worklet ?? null
+      const ipc = transport.ipc ?? null
+      const hrpcInstance = instrumentHrpc(transport.hrpc)
 
+      this.enterStartupStage(StartupStage.WORKLET_START)
       const result = await hrpcInstance.workletStart({
         config: JSON.stringify(wdkConfigs),
       })
 
+      const capabilities = parseWorkletHandshake(result)
+      if (capabilities) {
+        try {
+          assertBundleCompatible(capabilities, wdkConfigs)
+        } catch (error) {
+          // Running, but must not be used
+          await this.cleanupWorkletResources(hrpcInstance, worklet)
+          throw error
+        }
+      }
+      // The first wallet load still belongs to the startup run
+      this.finishStartupStage(false, false)
+
       store.setState({
         worklet,
         hrpc: hrpcInstance,
-        ipc: IPC,
+        ipc,
         isWorkletStarted: true,
         isLoading: false,
         wdkConfigs: wdkConfigs,
+        bundleConfig,
         workletStartResult: result,
+        capabilities,
         error: null,
       })
       store.getState().isWorkletStartedPromise.resolve(true)
     } catch (error) {
+      this.finishStartupStage(true)
       store.getState().isWorkletStartedPromise.reject(error)
       this.handleErrorWithStateUpdate(
         error,
         'startWorklet',
         (normalizedError) => ({
           error: normalizedError.message,
+          bundleError: isBundleRejectionError(error) ? error : null,
+          capabilities: null,
           isLoading: false,
           worklet: null,
           hrpc: null,
@@ -169,11 +320,18 @@ export class WorkletLifecycleService {
   }
 
   /**
-   * Initialize WDK with encrypted seed (ONLY encrypted approach)
+   * Initialize WDK with encrypted seed (ONLY encrypted approach), or with
+   * the watched accounts of a watch-only wallet, which the worklet loads as
+   * read-only accounts
+   *
+   * @throws UnsupportedByBundleError for watched accounts, if the bundle
+   * doesn't list the watchOnly feature
    */
   static async initializeWDK(options?: {
     encryptionKey: string
     encryptedSeed: string
+  } | {
+    watchOnly: WatchOnlyAccounts
   }): Promise<void> {
     await WorkletLifecycleService.ensureWorkletStarted()
 
@@ -183,6 +341,9 @@ export class WorkletLifecycleService {
     if (!state.isWorkletStarted) {
       throw new Error('Worklet must be started before initializing WDK')
     }
+    if (options && 'watchOnly' in options) {
+      assertBundleHasFeature(state.capabilities, WORKLET_FEATURE_WATCH_ONLY)
+    }
 
     // Also bump here, not just in reset(): this is the moment the worklet
     // actually gets a new seed, so a fetch started after reset() but before
@@ -191,6 +352,7 @@ export class WorkletLifecycleService {
 
     try {
       store.setState({ error: null, isLoading: true })
+      this.enterStartupStage(StartupStage.INITIALIZE_WDK)
 
       // Get HRPC directly from store instead of using requireExtendedHRPC()
       // requireExtendedHRPC() requires isInitialized to be true, but we're setting it here
@@ -200,11 +362,18 @@ export class WorkletLifecycleService {
           'HRPC instance not available. Worklet may not be fully started.',
         )
       }
-      const result = await currentState.hrpc.initializeWDK({
-        encryptionKey: options?.encryptionKey,
-        encryptedSeed: options?.encryptedSeed,
-        config: JSON.stringify(currentState.wdkConfigs),
-      })
+      const result = await currentState.hrpc.initializeWDK(
+        options && 'watchOnly' in options
+          ? {
+              watchOnly: JSON.stringify(options.watchOnly),
+              config: JSON.stringify(currentState.wdkConfigs),
+            }
+          : {
+              encryptionKey: options?.encryptionKey,
+              encryptedSeed: options?.encryptedSeed,
+              config: JSON.stringify(currentState.wdkConfigs),
+            },
+      )
 
       const wdkInitResult = this.extractWdkInitResult(result)
 
@@ -215,8 +384,11 @@ export class WorkletLifecycleService {
         wdkInitResult,
         error: null,
       })
+      // Closed by AddressService once the first address is derived
+      this.enterStartupStage(StartupStage.DERIVING_ADDRESSES)
       store.getState().isWorkletInitializedPromise.resolve(true)
     } catch (error) {
+      this.finishStartupStage(true)
       store.getState().isWorkletInitializedPromise.reject(error)
       this.handleErrorWithStateUpdate(
         error,
@@ -264,6 +436,7 @@ export class WorkletLifecycleService {
       )
       
       if (targetNetworks.length === 0) {
+        store.getState().isWorkletInitializedPromise.resolve(currentState.isInitialized)
         return
       }
 
@@ -300,8 +473,113 @@ export class WorkletLifecycleService {
     }
   }
 
+  /**
+   * Apply a changed WdkConfigs to the worklet
+   *
+   * Blockchains whose config changed are re-initialised through
+   * resetWallets(); protocol, module, removed-network or other structural
+   * changes fall back to a full initializeWDK(). Cached addresses and
+   * balances of the changed networks are dropped either way. When no wallet
+   * is loaded the new config is only stored and picked up by the next
+   * initializeWDK() or restart(). A load already in progress is waited out
+   * first.
+   *
+   * @returns The applied diff, or null if the worklet was never started
+   */
+  static async applyConfigs(wdkConfigs: WdkConfigs): Promise<WdkConfigsDiff | null> {
+    const store = getWorkletStore()
+    // resetWallets() skips while loading, which would leave the promise
+    // re-armed below unsettled; let the running load finish first
+    await waitForWorkletIdle(store)
+    const { wdkConfigs: currentConfigs, isWorkletStarted, isInitialized } =
+      store.getState()
+
+    // Never started: startWorklet() will store whatever config it is given
+    if (!currentConfigs) {
+      return null
+    }
+
+    const diff = diffWdkConfigs(currentConfigs, wdkConfigs)
+    if (!diff.hasChanges) {
+      return diff
+    }
+
+    // Refuse networks/protocols/modules the running bundle doesn't ship
+    const { capabilities } = store.getState()
+    if (capabilities) {
+      assertBundleCompatible(capabilities, wdkConfigs)
+    }
+
+    log('Applying WDK config changes', {
+      changedNetworks: diff.changedNetworks,
+      requiresFullReinit: diff.requiresFullReinit,
+    })
+
+    store.setState({ wdkConfigs })
+    this.clearNetworkData(diff.changedNetworks)
+
+    if (!isWorkletStarted || !isInitialized) {
+      return diff
+    }
+
+    if (diff.requiresFullReinit) {
+      store.setState({
+        isInitialized: false,
+        isReinitialized: true,
+        wdkInitResult: null,
+        isWorkletInitializedPromise: createResolvablePromise<boolean>(),
+      })
+      await this.initializeWDK()
+    } else {
+      store.setState({
+        isWorkletInitializedPromise: createResolvablePromise<boolean>(),
+      })
+      await this.resetWallets(diff.changedNetworks)
+    }
+
+    return diff
+  }
+
+  /**
+   * Drop cached addresses and balances of the given networks for every wallet
+   */
+  private static clearNetworkData(networks: string[]): void {
+    if (networks.length === 0) {
+      return
+    }
+
+    // Bump so an address/balance fetch in flight for the old network config
+    // can't write its result back after being cleared here.
+    bumpEpoch()
+
+    getWalletStore().setState(
+      produce((state: WalletState) => {
+        for (const sections of [
+          state.addresses,
+          state.balances,
+          state.lastBalanceUpdate,
+        ]) {
+          for (const walletData of Object.values(sections)) {
+            for (const network of networks) {
+              delete (walletData as Record<string, unknown>)[network]
+            }
+          }
+        }
+      }),
+    )
+  }
+
+  /**
+   * Generate a new mnemonic inside the worklet and return it encrypted. With
+   * a BIP-39 passphrase the returned seed is derived from mnemonic plus
+   * passphrase; the entropy (and so the mnemonic) doesn't depend on it.
+   *
+   * @throws UnsupportedByBundleError for a passphrase, if the bundle doesn't
+   * list the bip39Passphrase feature
+   */
   static async generateEntropyAndEncrypt(
     wordCount: 12 | 24 = DEFAULT_MNEMONIC_WORD_COUNT,
+    passphrase?: string,
   ): Promise<{
     encryptionKey: string
     encryptedSeedBuffer: string
@@ -309,6 +587,9 @@ export class WorkletLifecycleService {
   }> {
     await WorkletLifecycleService.ensureWorkletStarted()
     const store = getWorkletStore()
+    if (passphrase) {
+      assertBundleHasFeature(store.getState().capabilities, WORKLET_FEATURE_BIP39_PASSPHRASE)
+    }
 
     try {
       // Get HRPC directly from store instead of using requireExtendedHRPC()
@@ -321,6 +602,7 @@ export class WorkletLifecycleService {
       }
       const result = await currentState.hrpc.generateEntropyAndEncrypt({
         wordCount,
+        ...(passphrase ? { passphrase } : {}),
       })
 
       return {
@@ -376,7 +658,17 @@ export class WorkletLifecycleService {
     }
   }
 
-  static async getSeedAndEntropyFromMnemonic(mnemonic: string): Promise<{
+  /**
+   * Encrypt the seed and entropy of an existing mnemonic. The seed is derived
+   * with the BIP-39 passphrase when one is given.
+   *
+   * @throws UnsupportedByBundleError for a passphrase, if the bundle doesn't
+   * list the bip39Passphrase feature
+   */
+  static async getSeedAndEntropyFromMnemonic(
+    mnemonic: string,
+    passphrase?: string,
+  ): Promise<{
     encryptionKey: string
     encryptedSeedBuffer: string
     encryptedEntropyBuffer: string
@@ -389,6 +681,9 @@ export class WorkletLifecycleService {
         'Worklet must be started before getting seed and entropy from mnemonic',
       )
     }
+    if (passphrase) {
+      assertBundleHasFeature(state.capabilities, WORKLET_FEATURE_BIP39_PASSPHRASE)
+    }
 
     try {
       // Get HRPC directly from store instead of using requireExtendedHRPC()
@@ -401,6 +696,7 @@ export class WorkletLifecycleService {
       }
       const result = await currentState.hrpc.getSeedAndEntropyFromMnemonic({
         mnemonic,
+        ...(passphrase ? { passphrase } : {}),
       })
 
       return {
@@ -417,6 +713,309 @@ export class WorkletLifecycleService {
     }
   }
 
+  /**
+   * Derive a wallet's seed from its stored entropy and a BIP-39 passphrase.
+   * The entropy is decrypted inside the worklet and the seed comes back
+   * encrypted under the same key; the mnemonic never reaches JS.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks getSeedFromEntropy
+   */
+  static async getSeedFromEntropy(
+    encryptedEntropy: string,
+    encryptionKey: string,
+    passphrase: string,
+  ): Promise<{
+    encryptedSeedBuffer: string
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before deriving a seed from entropy')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'getSeedFromEntropy')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.getSeedFromEntropy({
+        encryptedEntropy,
+        encryptionKey,
+        passphrase,
+      })
+
+      return encryptedSeedResponseSchema.parse(result)
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'getSeedFromEntropy',
+        'Failed to derive seed from entropy',
+      )
+    }
+  }
+
+  /**
+   * Re-encrypt a wallet's entropy, and its seed when given, under a fresh
+   * key. The worklet decrypts them with the current key, checks the new
+   * ciphertexts decrypt to the same secrets, and returns only ciphertexts.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks reencryptWallet
+   */
+  static async reencryptWallet(
+    encryptionKey: string,
+    encryptedEntropy: string,
+    encryptedSeed?: string,
+  ): Promise<{
+    encryptionKey: string
+    encryptedEntropyBuffer: string
+    encryptedSeedBuffer?: string
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before re-encrypting a wallet')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'reencryptWallet')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.reencryptWallet({
+        encryptionKey,
+        encryptedEntropy,
+        ...(encryptedSeed ? { encryptedSeed } : {}),
+      })
+
+      return reencryptedWalletResponseSchema.parse(result)
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'reencryptWallet',
+        'Failed to re-encrypt wallet',
+      )
+    }
+  }
+
+  /**
+   * Re-encrypt a wallet's entropy under a backup key. The entropy is
+   * decrypted inside the worklet; only the re-encrypted copy comes back.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks getBackupEntropy
+   */
+  static async getBackupEntropy(
+    encryptedEntropy: string,
+    encryptionKey: string,
+    backupKey: string,
+  ): Promise<{
+    encryptedBackupEntropy: string
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before exporting entropy')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'getBackupEntropy')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.getBackupEntropy({
+        encryptedEntropy,
+        encryptionKey,
+        backupKey,
+      })
+
+      return backupEntropyResponseSchema.parse(result)
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'getBackupEntropy',
+        'Failed to export entropy',
+      )
+    }
+  }
+
+  /**
+   * Restore a wallet from entropy exported by getBackupEntropy. It is
+   * decrypted with the backup key inside the worklet and comes back
+   * encrypted under a new wallet key, like getSeedAndEntropyFromMnemonic.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks getSeedAndEntropyFromBackup
+   */
+  static async getSeedAndEntropyFromBackup(
+    encryptedBackupEntropy: string,
+    backupKey: string,
+  ): Promise<{
+    encryptionKey: string
+    encryptedSeedBuffer: string
+    encryptedEntropyBuffer: string
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before restoring entropy from a backup')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'getSeedAndEntropyFromBackup')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.getSeedAndEntropyFromBackup({
+        encryptedBackupEntropy,
+        backupKey,
+      })
+
+      return encryptedWalletResponseSchema.parse(result)
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'getSeedAndEntropyFromBackup',
+        'Failed to restore entropy from backup',
+      )
+    }
+  }
+
+  /**
+   * Split a wallet's entropy into M-of-N SLIP-39 shares. The entropy is
+   * decrypted inside the worklet; only the shares come back.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks getSharesFromEntropy
+   */
+  static async getSharesFromEntropy(
+    encryptedEntropy: string,
+    encryptionKey: string,
+    threshold: number,
+    shareCount: number,
+  ): Promise<{
+    shares: string[]
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before splitting entropy into shares')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'getSharesFromEntropy')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.getSharesFromEntropy({
+        encryptedEntropy,
+        encryptionKey,
+        threshold,
+        shareCount,
+      })
+
+      return sharesResponseSchema.parse(result)
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'getSharesFromEntropy',
+        'Failed to split entropy into shares',
+      )
+    }
+  }
+
+  /**
+   * Check SLIP-39 shares without recovering anything
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks validateShares
+   */
+  static async validateShares(shares: string[]): Promise<ShareValidationResult> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before validating shares')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'validateShares')
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.validateShares({ shares })
+
+      return toShareValidationResult(result)
+    } catch (error) {
+      this.handleAndThrowError(error, 'validateShares', 'Failed to validate shares')
+    }
+  }
+
+  /**
+   * Combine SLIP-39 shares and encrypt the recovered seed and entropy, like
+   * getSeedAndEntropyFromMnemonic. The seed is derived with the BIP-39
+   * passphrase when one is given.
+   *
+   * @throws UnsupportedByBundleError if the bundle lacks
+   * getSeedAndEntropyFromShares, or for a passphrase, if it doesn't list the
+   * bip39Passphrase feature
+   */
+  static async getSeedAndEntropyFromShares(
+    shares: string[],
+    passphrase?: string,
+  ): Promise<{
+    encryptionKey: string
+    encryptedSeedBuffer: string
+    encryptedEntropyBuffer: string
+  }> {
+    const store = getWorkletStore()
+
+    if (!store.getState().isWorkletStarted) {
+      throw new Error('Worklet must be started before recovering from shares')
+    }
+    assertBundleHasRpc(store.getState().capabilities, 'getSeedAndEntropyFromShares')
+    if (passphrase) {
+      assertBundleHasFeature(store.getState().capabilities, WORKLET_FEATURE_BIP39_PASSPHRASE)
+    }
+
+    try {
+      const currentState = store.getState()
+      if (!currentState.hrpc) {
+        throw new Error(
+          'HRPC instance not available. Worklet may not be fully started.',
+        )
+      }
+      const result = await currentState.hrpc.getSeedAndEntropyFromShares({
+        shares,
+        ...(passphrase ? { passphrase } : {}),
+      })
+
+      return {
+        encryptionKey: result.encryptionKey,
+        encryptedSeedBuffer: result.encryptedSeedBuffer,
+        encryptedEntropyBuffer: result.encryptedEntropyBuffer,
+      }
+    } catch (error) {
+      this.handleAndThrowError(
+        error,
+        'getSeedAndEntropyFromShares',
+        'Failed to recover seed and entropy from shares',
+      )
+    }
+  }
+
   /**
    * Initialize both worklet and WDK in one call (convenience method) - ONLY encrypted
    */
@@ -509,6 +1108,7 @@ export class WorkletLifecycleService {
       wdkConfigs: null,
       workletStartResult: null,
       wdkInitResult: null,
+      capabilities: null,
     })
     walletStore.setState({
       addresses: {},
@@ -535,6 +1135,9 @@ export class WorkletLifecycleService {
       isInitialized: false,
       wdkInitResult: null,
     })
+    if (workletStore.getState().startupStage) {
+      this.finishStartupStage()
+    }
 
     workletStore.setState({ isWorkletInitializedPromise: createResolvablePromise<boolean>() })
 
@@ -550,11 +1153,107 @@ export class WorkletLifecycleService {
     })
   }
 
+  /**
+   * Tear down the running worklet
+   *
+   * Releases the HRPC and Worklet instances, marks the worklet as stopped and
+   * re-arms both lifecycle promises so callers awaiting them block until a
+   * new worklet is started. wdkConfigs and bundleConfig are kept so the
+   * worklet can be started again with the same configuration.
+   *
+   * The seed lives only inside the worklet, so the loaded wallet drops back
+   * to LOCKED; a persisted activeWalletId is kept as the unlock hint while a
+   * temporary wallet is forgotten.
+   */
+  static async teardownWorklet(): Promise<void> {
+    const workletStore = getWorkletStore()
+    const walletStore = getWalletStore()
+    const { worklet, hrpc } = workletStore.getState()
+
+    this.isStartupRun = false
+    workletStore.setState({
+      worklet: null,
+      hrpc: null,
+      ipc: null,
+      isWorkletStarted: false,
+      isInitialized: false,
+      isReinitialized: false,
+      isLoading: false,
+      workletStartResult: null,
+      wdkInitResult: null,
+      capabilities: null,
+      startupStage: null,
+      isWorkletStartedPromise: createResolvablePromise<boolean>(),
+      isWorkletInitializedPromise: createResolvablePromise<boolean>(),
+    })
+
+    // Anything still in flight against the old worklet must not commit.
+    bumpEpoch()
+    // ...and will never answer, so stop counting it as in flight.
+    clearInFlightCalls()
+
+    walletStore.setState((state) => {
+      const lostTemporary =
+        state.tempWalletId !== null &&
+        state.activeWalletId === state.tempWalletId
+      return {
+        addresses: {},
+        activeWalletId: lostTemporary ? null : state.activeWalletId,
+        tempWalletId: lostTemporary ? null : state.tempWalletId,
+        walletLoadingState: { type: 'not_loaded' },
+      }
+    })
+
+    await this.cleanupWorkletResources(hrpc, worklet)
+  }
+
+  /**
+   * Shut the worklet down completely to free its memory
+   *
+   * Unlike reset(), this stops the Worklet and disposes HRPC. The worklet
+   * stays down - WdkAppProvider will not auto-start it - until restart() is
+   * called.
+   */
+  static async shutdown(): Promise<void> {
+    const store = getWorkletStore()
+
+    // Set before teardown so nothing auto-starts the worklet in between.
+    store.setState({ isShutdown: true, recovery: null })
+    await this.teardownWorklet()
+    store.setState({ error: null })
+
+    log('Worklet shut down')
+  }
+
+  /**
+   * Start the worklet again with the configuration it was last started with
+   *
+   * Tears the current worklet down first if it is still running. Wallets
+   * must be unlocked again afterwards.
+   *
+   * @throws Error if the worklet was never started (no stored configuration)
+   */
+  static async restart(): Promise<void> {
+    const store = getWorkletStore()
+    const { wdkConfigs, bundleConfig, isWorkletStarted } = store.getState()
+
+    if (!wdkConfigs || !bundleConfig) {
+      throw new Error('Worklet cannot be restarted: no stored configuration')
+    }
+
+    if (isWorkletStarted) {
+      await this.teardownWorklet()
+    }
+
+    store.setState({ isShutdown: false })
+    await this.startWorklet(wdkConfigs, bundleConfig)
+  }
+
   /**
    * Clear error state
    */
   static clearError(): void {
     const store = getWorkletStore()
-    store.setState({ error: null })
+    store.setState({ error: null, bundleError: null })
   }
 }
@@ -0,0 +1,369 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Worklet Supervisor Service
+ *
+ * Watches a running worklet for death (IPC close/error events plus a periodic
+ * heartbeat RPC) and restarts it with the stored wdkConfigs and bundleConfig,
+ * following a backoff policy. Restarting never unlocks a wallet: the
+ * previously active walletId is kept as the LOCKED hint so the app can call
+ * useWalletManager().unlock() again once the worklet is back.
+ */
+
+import { getWorkletStore, type WorkletState } from '../store/workletStore'
+import {
+  DEFAULT_WORKLET_HEARTBEAT_INTERVAL_MS,
+  DEFAULT_WORKLET_HEARTBEAT_TIMEOUT_MS,
+  DEFAULT_WORKLET_RESTART_POLICY,
+} from '../utils/constants'
+import { normalizeError } from '../utils/errorUtils'
+import { isBundleRejectionError } from '../utils/errors'
+import { getUninstrumentedHrpc } from '../utils/hrpcInstrumentation'
+import { log, logError, logWarn } from '../utils/logger'
+import { createResolvablePromise } from '../utils/promise'
+import { bundleHasRpc } from '../utils/workletCapabilities'
+import { WorkletLifecycleService } from './workletLifecycleService'
+
+/**
+ * Backoff policy for supervised worklet restarts
+ */
+export interface WorkletRestartPolicy {
+  /** Restart attempts before giving up and surfacing an ERROR state */
+  maxAttempts: number
+  /** Delay before the first restart attempt */
+  initialDelayMs: number
+  /** Upper bound for the delay between attempts */
+  maxDelayMs: number
+  /** Factor applied to the delay after every failed attempt */
+  backoffMultiplier: number
+}
+
+/**
+ * Worklet supervisor configuration (WdkAppProvider `supervisor` prop)
+ */
+export interface WorkletSupervisorConfig {
+  /** Heartbeat interval; 0 disables the heartbeat and relies on IPC events only */
+  heartbeatIntervalMs?: number
+  /** How long a heartbeat may go unanswered before the worklet is considered dead */
+  heartbeatTimeoutMs?: number
+  /** Restart backoff policy, merged over DEFAULT_WORKLET_RESTART_POLICY */
+  restartPolicy?: Partial<WorkletRestartPolicy>
+}
+
+interface ResolvedSupervisorConfig {
+  heartbeatIntervalMs: number
+  heartbeatTimeoutMs: number
+  restartPolicy: WorkletRestartPolicy
+}
+
+interface EventSource {
+  on: (event: string, listener: (...args: unknown[]) => void) => void
+}
+
+const IPC_FAILURE_EVENTS = ['close', 'end', 'error'] as const
+
+let activeConfig: ResolvedSupervisorConfig | null = null
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+let restartTimer: ReturnType<typeof setTimeout> | null = null
+let heartbeatInFlight = false
+let unsubscribeStore: (() => void) | null = null
+// IPC instances we've already attached failure listeners to.
+const watchedIpcs = new WeakSet<object>()
+
+/**
+ * Delay before the given restart attempt (1-based) under the given policy
+ */
+export function getRestartDelay(
+  attempt: number,
+  policy: WorkletRestartPolicy,
+): number {
+  const delay =
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+  return Math.min(delay, policy.maxDelayMs)
+}
+
+function resolveConfig(config: WorkletSupervisorConfig): ResolvedSupervisorConfig {
+  return {
+    heartbeatIntervalMs:
+      config.heartbeatIntervalMs ?? DEFAULT_WORKLET_HEARTBEAT_INTERVAL_MS,
+    heartbeatTimeoutMs:
+      config.heartbeatTimeoutMs ?? DEFAULT_WORKLET_HEARTBEAT_TIMEOUT_MS,
+    restartPolicy: {
+      ...DEFAULT_WORKLET_RESTART_POLICY,
+      ...config.restartPolicy,
+    },
+  }
+}
+
+function isEventSource(value: unknown): value is EventSource {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { on?: unknown }).on === 'function'
+  )
+}
+
+function watchIpc(ipc: unknown): void {
+  if (!isEventSource(ipc) || watchedIpcs.has(ipc)) {
+    return
+  }
+  watchedIpcs.add(ipc)
+
+  for (const event of IPC_FAILURE_EVENTS) {
+    ipc.on(event, () => {
+      // Events from an IPC we already replaced (e.g. the old worklet being
+      // destroyed during a restart) are expected and must not re-trigger.
+      if (getWorkletStore().getState().ipc !== ipc) {
+        return
+      }
+      void WorkletSupervisorService.handleWorkletFailure(`IPC ${event}`)
+    })
+  }
+}
+
+/**
+ * The RPC a heartbeat sends: `ping` when the bundle lists it, otherwise the
+ * account 0 address on the first network, which the worklet answers from
+ * the loaded wallet without going to the network. Null (IPC events only)
+ * for a bundle without ping until a wallet is loaded.
+ */
+function getHeartbeatProbe(
+  state: WorkletState,
+): (() => Promise<unknown>) | null {
+  if (!state.hrpc) {
+    return null
+  }
+  // Probes bypass the instrumentation so they don't skew the diagnostics
+  const rpc = getUninstrumentedHrpc(state.hrpc)
+  if (bundleHasRpc(state.capabilities, 'ping') && rpc.ping) {
+    return rpc.ping.bind(rpc)
+  }
+
+  const network = Object.keys(state.wdkConfigs?.networks ?? {})[0]
+  if (state.isInitialized && network) {
+    return () => rpc.callMethod({ methodName: 'getAddress', network, accountIndex: 0 })
+  }
+  return null
+}
+
+async function runHeartbeat(config: ResolvedSupervisorConfig): Promise<void> {
+  const state = getWorkletStore().getState()
+  if (
+    heartbeatInFlight ||
+    !state.isWorkletStarted ||
+    state.isLoading ||
+    state.recovery ||
+    !state.hrpc
+  ) {
+    return
+  }
+
+  const probe = getHeartbeatProbe(state)
+  if (!probe) {
+    return
+  }
+
+  heartbeatInFlight = true
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+  try {
+    const timedOut = await Promise.race([
+      // Any answer - even an error - proves the worklet's IPC loop is alive.
+      probe().then(
+        () => false,
+        () => false,
+      ),
+      new Promise<boolean>((resolve) => {
+        timeoutId = setTimeout(() => resolve(true), config.heartbeatTimeoutMs)
+      }),
+    ])
+
+    if (timedOut && getWorkletStore().getState().hrpc === state.hrpc) {
+      await WorkletSupervisorService.handleWorkletFailure('heartbeat timeout')
+    }
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId)
+    heartbeatInFlight = false
+  }
+}
+
+/**
+ * Worklet Supervisor Service
+ *
+ * Started by WdkAppProvider when the `supervisor` prop is set.
+ */
+export class WorkletSupervisorService {
+  /**
+   * Start supervising the worklet. Restarting with a new config replaces the
+   * previous one.
+   */
+  static start(config: WorkletSupervisorConfig = {}): void {
+    this.stop()
+
+    const resolved = resolveConfig(config)
+    activeConfig = resolved
+
+    const store = getWorkletStore()
+    watchIpc(store.getState().ipc)
+    unsubscribeStore = store.subscribe((state, prevState) => {
+      if (state.ipc !== prevState.ipc) {
+        watchIpc(state.ipc)
+      }
+    })
+
+    if (resolved.heartbeatIntervalMs > 0) {
+      heartbeatTimer = setInterval(() => {
+        void runHeartbeat(resolved)
+      }, resolved.heartbeatIntervalMs)
+    }
+
+    log('[WorkletSupervisor] Supervision started', {
+      heartbeatIntervalMs: resolved.heartbeatIntervalMs,
+      restartPolicy: resolved.restartPolicy,
+    })
+  }
+
+  /**
+   * Stop supervising. A pending restart is cancelled and any recovery state
+   * is cleared; the worklet itself is left as-is.
+   */
+  static stop(): void {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer)
+      heartbeatTimer = null
+    }
+    if (restartTimer) {
+      clearTimeout(restartTimer)
+      restartTimer = null
+    }
+    unsubscribeStore?.()
+    unsubscribeStore = null
+    heartbeatInFlight = false
+
+    if (activeConfig && getWorkletStore().getState().recovery) {
+      getWorkletStore().setState({ recovery: null })
+    }
+    activeConfig = null
+  }
+
+  /**
+   * Whether supervision is currently active
+   */
+  static isRunning(): boolean {
+    return activeConfig !== null
+  }
+
+  /**
+   * Treat the current worklet as dead: tear it down, drop the unlocked
+   * wallet back to LOCKED and schedule a restart. No-op when supervision is
+   * off or a restart is already underway.
+   */
+  static async handleWorkletFailure(reason: string): Promise<void> {
+    const store = getWorkletStore()
+    if (!activeConfig || store.getState().recovery) {
+      return
+    }
+
+    logWarn(`[WorkletSupervisor] Worklet considered dead (${reason}), restarting`)
+    store.setState({ recovery: { attempt: 1, reason } })
+
+    await WorkletLifecycleService.teardownWorklet()
+    this.scheduleRestart(1, reason)
+  }
+
+  private static scheduleRestart(attempt: number, reason: string): void {
+    const config = activeConfig
+    if (!config) {
+      return
+    }
+
+    const store = getWorkletStore()
+    const { restartPolicy } = config
+
+    if (attempt > restartPolicy.maxAttempts) {
+      logError(
+        `[WorkletSupervisor] Giving up after ${restartPolicy.maxAttempts} restart attempts`,
+      )
+      store.setState({
+        recovery: null,
+        error: `Worklet restart failed after ${restartPolicy.maxAttempts} attempts (${reason})`,
+      })
+      return
+    }
+
+    store.setState({ recovery: { attempt, reason } })
+    const delay = getRestartDelay(attempt, restartPolicy)
+    log(`[WorkletSupervisor] Restart attempt ${attempt} in ${delay}ms`)
+
+    restartTimer = setTimeout(() => {
+      restartTimer = null
+      void this.attemptRestart(attempt, reason)
+    }, delay)
+  }
+
+  private static async attemptRestart(
+    attempt: number,
+    reason: string,
+  ): Promise<void> {
+    const store = getWorkletStore()
+    const { wdkConfigs, bundleConfig, isShutdown } = store.getState()
+
+    // shutdown() during recovery means the app wants the worklet down.
+    if (isShutdown) {
+      store.setState({ recovery: null })
+      return
+    }
+
+    if (!wdkConfigs || !bundleConfig) {
+      store.setState({
+        recovery: null,
+        error: 'Worklet cannot be restarted: no stored configuration',
+      })
+      return
+    }
+
+    try {
+      await WorkletLifecycleService.startWorklet(wdkConfigs, bundleConfig)
+      if (!activeConfig) {
+        return
+      }
+      store.setState({ recovery: null })
+      log(`[WorkletSupervisor] Worklet restarted on attempt ${attempt}`)
+    } catch (error) {
+      if (!activeConfig) {
+        return
+      }
+      // Retrying can't fix a refused bundle
+      if (isBundleRejectionError(error)) {
+        logError('[WorkletSupervisor] Bundle rejected, not retrying:', error.message)
+        store.setState({ recovery: null })
+        return
+      }
+      const err = normalizeError(error, false, {
+        component: 'WorkletSupervisor',
+        operation: 'restart',
+      })
+      logWarn(`[WorkletSupervisor] Restart attempt ${attempt} failed:`, err.message)
+
+      // startWorklet rejected the started promise; callers arriving during
+      // the next backoff window need a fresh one to wait on.
+      if (attempt < activeConfig.restartPolicy.maxAttempts) {
+        store.setState({
+          isWorkletStartedPromise: createResolvablePromise<boolean>(),
+        })
+      }
+      this.scheduleRestart(attempt + 1, reason)
+    }
+  }
+}
@@ -0,0 +1,86 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Worklet Transport
+ *
+ * How WorkletLifecycleService reaches the WDK engine. A transport factory
+ * returns an object implementing the HRPC surface (workletStart,
+ * initializeWDK, callMethod, callModule, ...); every service talks to that
+ * object and never to the runtime behind it. The default transport runs the
+ * bundle in a Bare worklet; an in-process implementation lets the same
+ * services run on Node (Jest integration tests, Storybook, Electron).
+ */
+
+import type { Worklet } from 'react-native-bare-kit'
+
+import type { BundleConfig, WdkConfigs } from '../types'
+import type { HRPC as HrpcSurface } from '../types'
+
+/**
+ * A connected transport
+ */
+export interface WorkletTransport {
+  /** HRPC surface the services call */
+  hrpc: HrpcSurface
+  /**
+   * Underlying channel, if any. When it emits 'close', 'end' or 'error'
+   * the worklet supervisor treats the engine as dead.
+   */
+  ipc?: unknown
+  /** Native worklet handle (Bare transport only) */
+  worklet?: Worklet | null
+  /** Release the transport; called when the worklet is torn down or replaced */
+  dispose?: () => Promise<void> | void
+}
+
+/**
+ * What a transport factory is started with
+ */
+export interface WorkletTransportOptions {
+  bundleConfig: BundleConfig
+  wdkConfigs: WdkConfigs
+}
+
+/**
+ * Creates a transport. Called on every worklet (re)start.
+ */
+export type WorkletTransportFactory = (
+  options: WorkletTransportOptions,
+) => WorkletTransport | Promise<WorkletTransport>
+
+/**
+ * Default transport: runs the bundle in a Bare worklet and talks HRPC over
+ * its IPC channel. Cleanup of the worklet and HRPC instances is handled by
+ * WorkletLifecycleService, so no dispose is needed.
+ *
+ * The Bare runtime and the HRPC client are loaded on first use, so apps
+ * (and tests) that pass their own transport never load either.
+ */
+export const createBareWorkletTransport: WorkletTransportFactory = async ({
+  bundleConfig,
+}) => {
+  const { Worklet } = await import('react-native-bare-kit')
+  const { default: HRPC } = await import('@tetherto/pear-wrk-wdk/hrpc')
+
+  const worklet = new Worklet()
+  worklet.start('wdk-worklet.bundle', bundleConfig.bundle)
+
+  const { IPC } = worklet
+  if (!IPC) {
+    throw new Error('IPC not available from worklet')
+  }
+
+  return { hrpc: new HRPC(IPC), ipc: IPC, worklet }
+}
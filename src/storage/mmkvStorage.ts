@@ -115,6 +115,24 @@ export async function createMMKVStorage(accountIdentifier?: string): Promise<MMK
   return storage
 }
 
+/**
+ * Erase everything in MMKV storage and drop the cached instances, so the
+ * next createMMKVStorage derives its key and opens the storage again.
+ * Adapters already handed out keep writing to the (now empty) storage.
+ */
+export async function clearMMKVStorage(): Promise<void> {
+  const storages = new Set(storageCache.values())
+  storages.add(await createMMKVStorage())
+
+  for (const storage of storages) {
+    storage.clearAll()
+  }
+
+  storageCache.clear()
+  storageAccessOrder.clear()
+  storageAccessCounter = 0
+}
+
 /**
  * Maximum number of storage adapters to cache before evicting least recently used
  * This prevents unbounded memory growth while maintaining performance
@@ -0,0 +1,126 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Diagnostics Store - HRPC call metrics
+ *
+ * Filled by the HRPC instrumentation (utils/hrpcInstrumentation.ts) and read
+ * through useWdkDiagnostics(). Only call metadata is kept - method name,
+ * network, timings, payload sizes and outcome - never argument or result
+ * values, so nothing secret ends up here.
+ *
+ * Runtime-only, like workletStore: everything resets on app restart.
+ */
+
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+
+/**
+ * A single completed HRPC call
+ */
+export interface HrpcCallSample {
+  durationMs: number
+  /** Serialized request size in characters */
+  requestBytes: number
+  /** Serialized response size in characters (0 for failed calls) */
+  responseBytes: number
+  ok: boolean
+}
+
+/**
+ * Rolling metrics for one method on one network
+ */
+export interface HrpcMethodStats {
+  method: string
+  /** Network the call targeted; null for calls that aren't network-scoped */
+  network: string | null
+  /** Most recent samples, oldest first (bounded by DIAGNOSTICS_SAMPLE_WINDOW) */
+  samples: HrpcCallSample[]
+  totalCalls: number
+  totalFailures: number
+}
+
+/**
+ * A failed HRPC call
+ */
+export interface HrpcCallFailure {
+  method: string
+  network: string | null
+  durationMs: number
+  /** Error code, or else error class name; never the message */
+  error: string
+  timestamp: number
+}
+
+/**
+ * An HRPC call that hasn't settled yet
+ */
+export interface HrpcInFlightCall {
+  method: string
+  network: string | null
+  startedAt: number
+}
+
+export interface DiagnosticsState {
+  /** Keyed by `${method}@${network}` */
+  methods: Record<string, HrpcMethodStats>
+  /** Keyed by call id */
+  inFlight: Record<number, HrpcInFlightCall>
+  /** Most recent failures, newest last */
+  recentFailures: HrpcCallFailure[]
+}
+
+export type DiagnosticsStore = DiagnosticsState
+
+type DiagnosticsStoreInstance = ReturnType<ReturnType<typeof create<DiagnosticsStore>>>
+
+const initialState: DiagnosticsState = {
+  methods: {},
+  inFlight: {},
+  recentFailures: [],
+}
+
+let diagnosticsStoreInstance: DiagnosticsStoreInstance | null = null
+
+/**
+ * Creates singleton diagnostics store instance.
+ */
+export function createDiagnosticsStore(): DiagnosticsStoreInstance {
+  if (diagnosticsStoreInstance) {
+    return diagnosticsStoreInstance
+  }
+
+  const store = create<DiagnosticsStore>()(
+    devtools(
+      () => ({
+        ...initialState,
+      }),
+      { name: 'DiagnosticsStore', enabled: __DEV__ },
+    ),
+  )
+
+  diagnosticsStoreInstance = store
+  return store
+}
+
+export function getDiagnosticsStore() {
+  return createDiagnosticsStore()
+}
+
+/**
+ * Reset the diagnostics store instance (useful for testing)
+ */
+export function resetDiagnosticsStore(): void {
+  diagnosticsStoreInstance = null
+}
@@ -26,7 +26,9 @@
  * - Balance loading states: { [walletId]: { [network-accountIndex-assetId]: boolean } }
  * - Last balance update timestamps: { [walletId]: { [network]: { [accountIndex]: timestamp } } }
  * - Account list: { [walletId]: Array of account info }
- * - Wallet list: Array of wallet info (multiple wallets)
+ * - Wallet list: Array of wallet info (multiple wallets), in display order
+ * - Wallet metadata: { [walletId]: name, icon, origin, timestamps... }
+ * - Watch-only wallets: { [walletId]: { [network]: [{ address } | { xpub }] } }
  * - Active wallet ID: Currently active wallet identifier
  *
  * Note: Loading states for wallet list operations are managed locally in hooks
@@ -70,6 +72,7 @@ import type {
 } from '../types'
 import { createMMKVStorageAdapter } from '../storage/mmkvStorage'
 import { log, logError } from '../utils/logger'
+import type { WalletFingerprint } from '../utils/walletFingerprint'
 
 export interface WalletLoadingStates {
   [key: string]: boolean
@@ -87,6 +90,64 @@ export interface WalletInfo {
   identifier: string
   /** Whether wallet exists in secure storage */
   exists: boolean
+  /**
+   * Whether the wallet was created or restored with a BIP-39 passphrase and
+   * needs it on every unlock. The passphrase itself is never stored.
+   */
+  passphraseRequired?: boolean
+  /**
+   * Whether the wallet has no seed, only the addresses or xpubs in
+   * watchOnlyWallets. It can read balances but not send or sign.
+   */
+  watchOnly?: boolean
+}
+
+/**
+ * One account of a watch-only wallet: a single address, or an extended
+ * public key the worklet derives the address from
+ */
+export type WatchOnlyAccount =
+  | { address: string, xpub?: undefined }
+  | { xpub: string, address?: undefined }
+
+/**
+ * Watched accounts by network; the position in each list is the account index
+ */
+export type WatchOnlyAccounts = Record<string, WatchOnlyAccount[]>
+
+/**
+ * How a wallet came to be on this device
+ */
+export type WalletOrigin = 'created' | 'restored' | 'imported' | 'watched'
+
+/**
+ * Display and bookkeeping data for a wallet, persisted with the wallet list.
+ * Nothing here is secret. createdAt and origin are unknown for wallets that
+ * predate metadata.
+ */
+export interface WalletMetadata {
+  /** Display name */
+  name?: string
+  /** App-defined icon key */
+  icon?: string
+  /** App-defined colour (e.g. a hex string) */
+  color?: string
+  /** When the wallet was added to this device (ms) */
+  createdAt?: number
+  /** When the wallet was last unlocked (ms) */
+  lastUnlockedAt?: number
+  origin?: WalletOrigin
+  /** Whether the user has backed up the recovery phrase */
+  backedUp: boolean
+  /** When the recovery phrase was last revealed with revealMnemonic (ms) */
+  mnemonicRevealedAt?: number
+  /** When the user last passed a backup quiz (ms) */
+  backupVerifiedAt?: number
+  /**
+   * Non-secret seed fingerprint (see walletFingerprint), used to spot the
+   * same seed restored under another wallet ID
+   */
+  fingerprint?: WalletFingerprint
 }
 
 /**
@@ -113,6 +174,8 @@ export interface WalletState {
   accountList: Record<string, AccountInfo[]> // walletId -> account list
   // Wallet list management
   walletList: WalletInfo[]
+  walletMetadata: Record<string, WalletMetadata> // walletId -> metadata
+  watchOnlyWallets: Record<string, WatchOnlyAccounts> // walletId -> watched accounts
   activeWalletId: string | null
   // SOURCE OF TRUTH - wallet loading state (replaces React reducer)
   walletLoadingState: WalletLoadingState
@@ -134,6 +197,8 @@ const initialState: WalletState = {
   lastBalanceUpdate: {}, // walletId -> network -> accountIndex -> timestamp
   accountList: {}, // walletId -> account list
   walletList: [],
+  walletMetadata: {}, // walletId -> metadata
+  watchOnlyWallets: {}, // walletId -> watched accounts
   activeWalletId: null,
   walletLoadingState: { type: 'not_loaded' },
   isOperationInProgress: false,
@@ -170,6 +235,8 @@ export function createWalletStore(): WalletStoreInstance {
             lastBalanceUpdate: state.lastBalanceUpdate,
             accountList: state.accountList,
             walletList: state.walletList,
+            walletMetadata: state.walletMetadata,
+            watchOnlyWallets: state.watchOnlyWallets,
             // Don't persist loading state or operation mutex - these are runtime-only
           }),
           onRehydrateStorage: () => {
@@ -199,6 +266,19 @@ export function getWalletStore() {
   return createWalletStore()
 }
 
+/**
+ * Put the wallet store back to its initial state; the persisted copy follows.
+ * The operation mutex is left as it is, since the caller may hold it.
+ */
+export function resetWalletState(): void {
+  const walletStore = getWalletStore()
+  walletStore.setState((state) => ({
+    ...initialState,
+    isOperationInProgress: state.isOperationInProgress,
+    currentOperation: state.currentOperation,
+  }))
+}
+
 /**
  * Wallet state actions - helper functions for updating wallet loading state
  * These provide a clean API for state transitions with validation
@@ -20,9 +20,13 @@
  * ## Store Boundaries
  *
  * **workletStore** (this file):
- * - Worklet lifecycle state (isWorkletStarted, isInitialized, isLoading)
+ * - Worklet lifecycle state (isWorkletStarted, isInitialized, isLoading, isShutdown)
  * - Worklet runtime instances (worklet, hrpc, ipc)
- * - Worklet configuration (networkConfigs)
+ * - Worklet configuration (networkConfigs, bundleConfig)
+ * - Supervised restart progress (recovery)
+ * - Startup progress (startupStage, startupTimings)
+ * - Why the bundle was refused, if it was (bundleError)
+ * - What the running bundle supports (capabilities)
  * - Worklet initialization results (workletStartResult, wdkInitResult)
  *
  * **walletStore** (walletStore.ts):
@@ -52,14 +56,29 @@
 
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
-import { Worklet } from 'react-native-bare-kit'
+import type { Worklet } from 'react-native-bare-kit'
 
 import type {
   WdkConfigs,
+  BundleConfig,
   HRPC,
   WorkletStartResponse,
 } from '../types'
 import { createResolvablePromise, ResolvablePromise } from '../utils/promise'
+import type { StartupStage, StartupStageTiming } from '../utils/initializationState'
+import type { BundleRejectionError } from '../utils/errors'
+import type { WdkCapabilities } from '../utils/workletCapabilities'
+
+/**
+ * Progress of a supervised worklet restart (see WorkletSupervisorService).
+ * Non-null only while the supervisor is bringing a dead worklet back up.
+ */
+export interface WorkletRecoveryState {
+  /** Restart attempt currently scheduled or running (1-based) */
+  attempt: number
+  /** Why the worklet was considered dead (e.g. 'IPC close', 'heartbeat timeout') */
+  reason: string
+}
 
 export interface WorkletState {
   worklet: Worklet | null
@@ -69,8 +88,20 @@ export interface WorkletState {
   isInitialized: boolean
   isReinitialized: boolean
   isLoading: boolean
+  /** Set by WorkletLifecycleService.shutdown(); blocks auto-start until restart() */
+  isShutdown: boolean
   error: string | null
   wdkConfigs: WdkConfigs | null
+  bundleConfig: BundleConfig | null
+  recovery: WorkletRecoveryState | null
+  /** Startup stage currently running (see WorkletLifecycleService), null when idle */
+  startupStage: StartupStage | null
+  /** Timings of the stages run since the worklet was last started */
+  startupTimings: StartupStageTiming[]
+  /** Set when the bundle was refused (integrity or compatibility) on the last start */
+  bundleError: BundleRejectionError | null
+  /** Handshake of the running bundle; null when stopped or for pre-handshake bundles */
+  capabilities: WdkCapabilities | null
   workletStartResult: WorkletStartResponse | null
   wdkInitResult: { status?: string | null } | null
   isWorkletStartedPromise: ResolvablePromise<boolean>
@@ -89,8 +120,15 @@ const initialState: WorkletState = {
   isInitialized: false,
   isReinitialized: false,
   isLoading: false,
+  isShutdown: false,
   error: null,
   wdkConfigs: null,
+  bundleConfig: null,
+  recovery: null,
+  startupStage: null,
+  startupTimings: [],
+  bundleError: null,
+  capabilities: null,
   workletStartResult: null,
   wdkInitResult: null,
   isWorkletStartedPromise: createResolvablePromise<boolean>(),
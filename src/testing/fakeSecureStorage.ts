@@ -0,0 +1,136 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Fake Secure Storage
+ *
+ * In-memory SecureStorage for app test suites, keyed by wallet identifier
+ * like the real keychain-backed implementation. Has no test-runner
+ * dependency; wrap methods in jest.spyOn to assert on calls.
+ */
+
+import type { SecureStorage } from '@tetherto/wdk-react-native-secure-storage'
+
+import { DEFAULT_WALLET_IDENTIFIER } from '../utils/constants'
+
+/**
+ * What is stored for one wallet identifier
+ */
+export interface FakeSecureStorageEntry {
+  encryptionKey: string | null
+  encryptedSeed: string | null
+  encryptedEntropy: string | null
+}
+
+export interface FakeSecureStorageOptions {
+  /** Result of authenticate() (default true) */
+  authenticate?: boolean
+  /** Result of isBiometricAvailable() (default true) */
+  biometricsAvailable?: boolean
+  /** Result of isDeviceSecurityEnabled() (default true) */
+  deviceSecurityEnabled?: boolean
+  /** Wallets present before the first call, by identifier */
+  wallets?: Record<string, Partial<FakeSecureStorageEntry>>
+}
+
+/**
+ * A SecureStorage that can also be inspected by the test
+ */
+export interface FakeSecureStorage extends SecureStorage {
+  /** Identifiers that currently hold an encryption key */
+  getWalletIds: () => string[]
+  /** Copy of what is stored for an identifier, null when nothing is */
+  getEntry: (identifier?: string) => FakeSecureStorageEntry | null
+}
+
+/**
+ * Create an in-memory secure storage
+ */
+export function createFakeSecureStorage(
+  options: FakeSecureStorageOptions = {},
+): FakeSecureStorage {
+  const entries = new Map<string, FakeSecureStorageEntry>()
+  for (const [identifier, entry] of Object.entries(options.wallets ?? {})) {
+    entries.set(identifier, {
+      encryptionKey: entry.encryptionKey ?? null,
+      encryptedSeed: entry.encryptedSeed ?? null,
+      encryptedEntropy: entry.encryptedEntropy ?? null,
+    })
+  }
+
+  const keyOf = (identifier?: string) => identifier || DEFAULT_WALLET_IDENTIFIER
+
+  const entryFor = (identifier?: string): FakeSecureStorageEntry => {
+    const key = keyOf(identifier)
+    let entry = entries.get(key)
+    if (!entry) {
+      entry = { encryptionKey: null, encryptedSeed: null, encryptedEntropy: null }
+      entries.set(key, entry)
+    }
+    return entry
+  }
+
+  const read = (identifier?: string): FakeSecureStorageEntry | null => {
+    const entry = entries.get(keyOf(identifier))
+    return entry ? { ...entry } : null
+  }
+
+  return {
+    authenticate: async () => options.authenticate ?? true,
+
+    hasWallet: async (identifier?: string) => Boolean(read(identifier)?.encryptionKey),
+
+    setEncryptionKey: async (key: string, identifier?: string) => {
+      entryFor(identifier).encryptionKey = key
+    },
+
+    getEncryptionKey: async (identifier?: string) => read(identifier)?.encryptionKey ?? null,
+
+    setEncryptedSeed: async (seed: string, identifier?: string) => {
+      entryFor(identifier).encryptedSeed = seed
+    },
+
+    getEncryptedSeed: async (identifier?: string) => read(identifier)?.encryptedSeed ?? null,
+
+    setEncryptedEntropy: async (entropy: string, identifier?: string) => {
+      entryFor(identifier).encryptedEntropy = entropy
+    },
+
+    getEncryptedEntropy: async (identifier?: string) => read(identifier)?.encryptedEntropy ?? null,
+
+    getAllEncrypted: async (identifier?: string) =>
+      read(identifier) ?? { encryptionKey: null, encryptedSeed: null, encryptedEntropy: null },
+
+    deleteWallet: async (identifier?: string) => {
+      entries.delete(keyOf(identifier))
+    },
+
+    clearAll: async () => {
+      entries.clear()
+    },
+
+    isBiometricAvailable: async () => options.biometricsAvailable ?? true,
+
+    isDeviceSecurityEnabled: async () => options.deviceSecurityEnabled ?? true,
+
+    cleanup: () => {},
+
+    getWalletIds: () =>
+      [...entries.entries()]
+        .filter(([, entry]) => entry.encryptionKey !== null)
+        .map(([identifier]) => identifier),
+
+    getEntry: read,
+  }
+}
@@ -0,0 +1,669 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Fake WDK Engine
+ *
+ * Deterministic, in-memory stand-in for the worklet HRPC surface, for app
+ * test suites. Plug it in through the WdkAppProvider `transport` prop (or
+ * renderWithWdk) and every hook and service runs against it unchanged:
+ * addresses are stable per wallet, network and account index, balances come
+ * from a ledger the test controls, and sendTransaction/transfer debit that
+ * ledger. Nothing here is cryptographically meaningful.
+ */
+
+import type { HRPC, WdkConfigs } from '../types'
+import type { WatchOnlyAccounts } from '../store/walletStore'
+import type { WorkletTransportFactory } from '../services/workletTransport'
+import {
+  MAX_WORKLET_PROTOCOL_VERSION,
+  WORKLET_FEATURE_BIP39_PASSPHRASE,
+  WORKLET_FEATURE_WATCH_ONLY,
+} from '../utils/constants'
+
+/**
+ * Standard BIP-39 test vectors, handed out in order by
+ * generateEntropyAndEncrypt
+ */
+export const FAKE_TEST_MNEMONICS: readonly string[] = [
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+  'legal winner thank year wave sausage worth useful legal winner thank yellow',
+  'letter advice cage absurd amount doctor acoustic avoid letter advice cage above',
+  'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong',
+]
+
+/**
+ * Config renderWithWdk uses when none is passed: a single EVM network named
+ * 'ethereum'
+ */
+export const FAKE_WDK_CONFIGS: WdkConfigs = {
+  networks: {
+    ethereum: {
+      blockchain: 'ethereum',
+      config: { chainId: 1 },
+    },
+  },
+}
+
+/**
+ * A transaction recorded by sendTransaction or transfer
+ */
+export interface FakeTransaction {
+  hash: string
+  method: 'sendTransaction' | 'transfer'
+  network: string
+  accountIndex: number
+  from: string
+  to: string
+  amount: string
+  /** Token address for transfer, null for native sends */
+  token: string | null
+  fee: string
+}
+
+/**
+ * Context passed to custom account method handlers
+ */
+export interface FakeAccountContext {
+  network: string
+  accountIndex: number
+  address: string
+}
+
+export type FakeAccountMethodHandler = (
+  context: FakeAccountContext,
+  ...args: unknown[]
+) => unknown
+
+export type FakeModuleMethodHandler = (...args: unknown[]) => unknown
+
+export interface FakeWdkEngineOptions {
+  /** Mnemonics handed out by wallet creation (default FAKE_TEST_MNEMONICS) */
+  mnemonics?: readonly string[]
+  /** Fee charged and quoted for every transaction, in base units (default '0') */
+  fee?: string
+  /** Delay applied to every RPC (default 0) */
+  latencyMs?: number
+  /** Extra or overriding account methods, by method name */
+  accountMethods?: Record<string, FakeAccountMethodHandler>
+  /** Worklet modules, by module name then method name */
+  modules?: Record<string, Record<string, FakeModuleMethodHandler>>
+  /**
+   * Protocol version reported from workletStart (default: the newest this
+   * core supports); null simulates a bundle that predates the handshake
+   */
+  protocolVersion?: number | null
+  /**
+   * Features reported from workletStart (default: watchOnly and
+   * bip39Passphrase, both of which the fake serves)
+   */
+  features?: string[]
+}
+
+export interface FakeWdkEngine {
+  /** The fake HRPC surface */
+  hrpc: HRPC
+  /** Transport factory for the WdkAppProvider `transport` prop */
+  transport: WorkletTransportFactory
+  /** Set a balance in base units; omit token for the native balance */
+  setBalance: (
+    network: string,
+    accountIndex: number,
+    amount: string | number | bigint,
+    token?: string,
+  ) => void
+  /** Current ledger balance in base units ('0' when never set) */
+  getBalance: (network: string, accountIndex: number, token?: string) => string
+  /** Address the loaded (or watched) wallet, or else the first mnemonic, derives */
+  getAddress: (network: string, accountIndex: number) => string
+  /** Transactions sent so far, oldest first */
+  getTransactions: () => FakeTransaction[]
+  /** Fail the next call to `method` (HRPC name, account method or 'module.method') */
+  failNext: (method: string, error?: Error) => void
+  /** Fail every call to `method` until cleared with null */
+  setFailure: (method: string, error: Error | null) => void
+  /** Delay every RPC, or only `method`, by `ms` */
+  setLatency: (ms: number, method?: string) => void
+  /** Add or replace a module's methods */
+  registerModule: (name: string, methods: Record<string, FakeModuleMethodHandler>) => void
+  /** Deliver a module event to onModuleEvent subscribers */
+  emitModuleEvent: (module: string, event: string, payload?: unknown) => void
+  /** Simulate the worklet dying: the transport's IPC emits 'close' */
+  crash: () => void
+  /** Forget the loaded wallet, ledger, transactions, failures and latency */
+  reset: () => void
+}
+
+type IpcListener = (...args: unknown[]) => void
+
+/**
+ * 32-bit FNV-1a
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic hex string of the given length derived from input
+ */
+function deterministicHex(input: string, length: number): string {
+  let hex = ''
+  for (let round = 0; hex.length < length; round++) {
+    hex += fnv1a(`${round}:${input}`).toString(16).padStart(8, '0')
+  }
+  return hex.slice(0, length)
+}
+
+function parseArgs(args: string | null | undefined): unknown[] {
+  if (!args) {
+    return []
+  }
+  const parsed: unknown = JSON.parse(args)
+  return Array.isArray(parsed) ? parsed : [parsed]
+}
+
+function toBigInt(amount: unknown, field: string): bigint {
+  try {
+    if (typeof amount === 'bigint') return amount
+    if (typeof amount === 'number' || typeof amount === 'string') return BigInt(amount)
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid ${field}: ${String(amount)}`)
+}
+
+/**
+ * Create a fake WDK engine
+ *
+ * @example
+ * ```typescript
+ * const engine = createFakeWdkEngine()
+ * engine.setBalance('ethereum', 0, '1000000000000000000')
+ *
+ * render(
+ *   <WdkAppProvider bundle={{ bundle: 'fake' }} wdkConfigs={configs} transport={engine.transport}>
+ *     <App />
+ *   </WdkAppProvider>
+ * )
+ * ```
+ */
+export function createFakeWdkEngine(options: FakeWdkEngineOptions = {}): FakeWdkEngine {
+  const mnemonics = options.mnemonics ?? FAKE_TEST_MNEMONICS
+  if (mnemonics.length === 0) {
+    throw new Error('FakeWdkEngine needs at least one mnemonic')
+  }
+  const fee = toBigInt(options.fee ?? '0', 'fee')
+  const accountMethods = { ...options.accountMethods }
+  const modules = new Map(Object.entries(options.modules ?? {}))
+
+  const ledger = new Map<string, bigint>()
+  const transactions: FakeTransaction[] = []
+  const pendingFailures = new Map<string, Error[]>()
+  const failures = new Map<string, Error>()
+  const latencies = new Map<string, number>()
+  let defaultLatencyMs = options.latencyMs ?? 0
+  let generatedCount = 0
+  let loadedSeed: string | null = null
+  let watched: WatchOnlyAccounts | null = null
+  let moduleEventCallback: ((evt: { module: string, event: string, payload?: string | null }) => void) | null = null
+  const ipcListeners = new Map<string, Set<IpcListener>>()
+
+  const ledgerKey = (network: string, accountIndex: number, token?: string | null) =>
+    `${network}:${accountIndex}:${token ? token.toLowerCase() : 'native'}`
+
+  const readBalance = (network: string, accountIndex: number, token?: string | null) =>
+    ledger.get(ledgerKey(network, accountIndex, token)) ?? 0n
+
+  const addressOf = (seed: string, network: string, accountIndex: number) =>
+    `0x${deterministicHex(`${seed}:${network}:${accountIndex}`, 40)}`
+
+  // Fake "encryption": the key is tied to the mnemonic so a mismatched
+  // key/seed pair fails like a real decryption would.
+  const encryptionKeyOf = (mnemonic: string) => `fake-key:${deterministicHex(mnemonic, 16)}`
+  const encrypt = (kind: 'seed' | 'entropy', mnemonic: string) =>
+    `fake-${kind}:${encodeURIComponent(mnemonic)}`
+  const decrypt = (kind: 'seed' | 'entropy', encrypted: string | undefined, encryptionKey: string | undefined) => {
+    const prefix = `fake-${kind}:`
+    if (!encrypted?.startsWith(prefix)) {
+      throw new Error(`Decryption failed: not a fake ${kind}`)
+    }
+    const secret = decodeURIComponent(encrypted.slice(prefix.length))
+    if (encryptionKey !== encryptionKeyOf(secret.split('|')[0]!)) {
+      throw new Error('Decryption failed: encryption key does not match')
+    }
+    return secret
+  }
+  // A BIP-39 passphrase changes the seed (and so every address) but not the
+  // entropy or the key, like the real derivation.
+  const encryptedBundle = (mnemonic: string, passphrase?: string) => ({
+    encryptionKey: encryptionKeyOf(mnemonic),
+    encryptedSeedBuffer: encrypt('seed', passphrase ? `${mnemonic}|${passphrase}` : mnemonic),
+    encryptedEntropyBuffer: encrypt('entropy', mnemonic),
+  })
+
+  // Backup entropy carries the mnemonic in the clear, tagged with a hash of
+  // the backup key so the wrong key fails
+  const backupEntropyOf = (mnemonic: string, backupKey: string) =>
+    `fake-backup:${deterministicHex(backupKey, 16)}:${encodeURIComponent(mnemonic)}`
+  const openBackupEntropy = (encrypted: string, backupKey: string) => {
+    const match = /^fake-backup:([0-9a-f]{16}):(.+)$/.exec(encrypted)
+    if (!match) {
+      throw new Error('Decryption failed: not a fake backup entropy')
+    }
+    if (match[1] !== deterministicHex(backupKey, 16)) {
+      throw new Error('Decryption failed: backup key does not match')
+    }
+    return decodeURIComponent(match[2]!)
+  }
+
+  // Fake SLIP-39 shares carry the mnemonic in the clear, tagged with a set
+  // ID, the threshold and the member index
+  const shareOf = (mnemonic: string, threshold: number, index: number) =>
+    `fake-share:${deterministicHex(mnemonic, 8)}:${threshold}:${index}:${encodeURIComponent(mnemonic)}`
+
+  function inspectShares(shares: string[]) {
+    let set: { id: string, threshold: number, mnemonic: string } | null = null
+    const seen = new Set<string>()
+    const invalidShares: { index: number, error: string }[] = []
+    for (const [index, share] of shares.entries()) {
+      const match = /^fake-share:([0-9a-f]{8}):(\d+):(\d+):(.+)$/.exec(share.trim())
+      if (!match) {
+        invalidShares.push({ index, error: 'Invalid share' })
+        continue
+      }
+      const [, id, threshold, member, mnemonic] = match
+      if (set && set.id !== id) {
+        invalidShares.push({ index, error: 'Share belongs to a different set' })
+        continue
+      }
+      if (seen.has(member!)) {
+        invalidShares.push({ index, error: 'Duplicate share' })
+        continue
+      }
+      set ??= { id: id!, threshold: Number(threshold), mnemonic: decodeURIComponent(mnemonic!) }
+      seen.add(member!)
+    }
+    return { set, validShares: seen.size, invalidShares }
+  }
+
+  /**
+   * Apply latency and configured failures, then run the call
+   */
+  async function run<T>(method: string, call: () => T): Promise<T> {
+    const delay = latencies.get(method) ?? defaultLatencyMs
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+
+    const queued = pendingFailures.get(method)
+    const next = queued?.shift()
+    if (queued && queued.length === 0) {
+      pendingFailures.delete(method)
+    }
+    if (next) throw next
+    const persistent = failures.get(method)
+    if (persistent) throw persistent
+
+    return call()
+  }
+
+  function requireWallet(): string {
+    if (!loadedSeed) {
+      throw new Error('WDK not initialized')
+    }
+    return loadedSeed
+  }
+
+  /**
+   * Address of a watched account; an xpub stands in for a derived one
+   */
+  function watchedAddress(accounts: WatchOnlyAccounts, network: string, accountIndex: number): string {
+    const account = accounts[network]?.[accountIndex]
+    if (!account) {
+      throw new Error(`No watched account ${accountIndex} for network ${network}`)
+    }
+    return account.address ?? `0x${deterministicHex(`${account.xpub}:${network}`, 40)}`
+  }
+
+  function debit(network: string, accountIndex: number, token: string | null, amount: bigint): void {
+    const native = readBalance(network, accountIndex)
+    if (token === null) {
+      if (native < amount + fee) {
+        throw new Error('Insufficient balance')
+      }
+      ledger.set(ledgerKey(network, accountIndex), native - amount - fee)
+      return
+    }
+
+    const tokenBalance = readBalance(network, accountIndex, token)
+    if (tokenBalance < amount) {
+      throw new Error(`Insufficient ${token} balance`)
+    }
+    if (native < fee) {
+      throw new Error('Insufficient balance for fee')
+    }
+    ledger.set(ledgerKey(network, accountIndex, token), tokenBalance - amount)
+    ledger.set(ledgerKey(network, accountIndex), native - fee)
+  }
+
+  function recordTransaction(tx: Omit<FakeTransaction, 'hash' | 'fee'>): { hash: string, fee: string } {
+    const hash = `0x${deterministicHex(`${transactions.length}:${tx.from}:${tx.to}:${tx.amount}`, 64)}`
+    transactions.push({ ...tx, hash, fee: fee.toString() })
+    return { hash, fee: fee.toString() }
+  }
+
+  function callAccountMethod(methodName: string, network: string, accountIndex: number, args: unknown[]): unknown {
+    const address = watched
+      ? watchedAddress(watched, network, accountIndex)
+      : addressOf(requireWallet(), network, accountIndex)
+    if (watched && ['sign', 'sendTransaction', 'transfer'].includes(methodName)) {
+      throw new Error(`Method ${methodName} is not available on a read-only account`)
+    }
+
+    const custom = accountMethods[methodName]
+    if (custom) {
+      return custom({ network, accountIndex, address }, ...args)
+    }
+
+    switch (methodName) {
+      case 'getAddress':
+        return address
+      case 'getBalance':
+        return readBalance(network, accountIndex).toString()
+      case 'getTokenBalance':
+        return readBalance(network, accountIndex, String(args[0])).toString()
+      case 'getTokenBalances': {
+        const tokens = Array.isArray(args[0]) ? (args[0] as unknown[]) : []
+        const balances: Record<string, string> = {}
+        for (const token of tokens) {
+          balances[String(token)] = readBalance(network, accountIndex, String(token)).toString()
+        }
+        return balances
+      }
+      case 'sign':
+        return `0x${deterministicHex(`${address}:${String(args[0])}`, 130)}`
+      case 'verify':
+        return args[1] === `0x${deterministicHex(`${address}:${String(args[0])}`, 130)}`
+      case 'quoteSendTransaction':
+      case 'quoteTransfer':
+        return { fee: fee.toString() }
+      case 'sendTransaction': {
+        const tx = (args[0] ?? {}) as { to?: string, value?: unknown }
+        const amount = toBigInt(tx.value, 'value')
+        debit(network, accountIndex, null, amount)
+        return recordTransaction({
+          method: 'sendTransaction',
+          network,
+          accountIndex,
+          from: address,
+          to: String(tx.to),
+          amount: amount.toString(),
+          token: null,
+        })
+      }
+      case 'transfer': {
+        const tx = (args[0] ?? {}) as { recipient?: string, amount?: unknown, token?: string }
+        const amount = toBigInt(tx.amount, 'amount')
+        const token = String(tx.token)
+        debit(network, accountIndex, token, amount)
+        return recordTransaction({
+          method: 'transfer',
+          network,
+          accountIndex,
+          from: address,
+          to: String(tx.recipient),
+          amount: amount.toString(),
+          token,
+        })
+      }
+      default:
+        // Same wording as the worklet, which BalanceService relies on
+        throw new Error(`Method ${methodName} not found on account for network ${network}`)
+    }
+  }
+
+  const hrpc = {
+    // Reports every configured network, protocol and module as registered
+    workletStart: (req: { config?: string }) =>
+      run('workletStart', () => {
+        const protocolVersion =
+          options.protocolVersion === undefined ? MAX_WORKLET_PROTOCOL_VERSION : options.protocolVersion
+        if (protocolVersion === null) {
+          return { status: 'started' }
+        }
+        const config = (req.config ? JSON.parse(req.config) : {}) as {
+          networks?: Record<string, unknown>
+          protocols?: Record<string, unknown>
+          modules?: Record<string, unknown>
+        }
+        return {
+          status: 'started',
+          protocolVersion,
+          capabilities: {
+            rpcs: Object.keys(hrpc),
+            networks: Object.keys(config.networks ?? {}),
+            protocols: Object.keys(config.protocols ?? {}),
+            modules: [...new Set([...Object.keys(config.modules ?? {}), ...modules.keys()])],
+            features: options.features ?? [WORKLET_FEATURE_WATCH_ONLY, WORKLET_FEATURE_BIP39_PASSPHRASE],
+          },
+        }
+      }),
+
+    // A watchOnly request loads read-only accounts instead of a seed
+    initializeWDK: (req: { encryptionKey?: string, encryptedSeed?: string, watchOnly?: string, config?: string }) =>
+      run('initializeWDK', () => {
+        if (req.watchOnly) {
+          watched = JSON.parse(req.watchOnly) as WatchOnlyAccounts
+          loadedSeed = null
+        } else {
+          loadedSeed = decrypt('seed', req.encryptedSeed, req.encryptionKey)
+          watched = null
+        }
+        return { status: 'initialized' }
+      }),
+
+    resetWdkWallets: () =>
+      run('resetWdkWallets', () => ({})),
+
+    generateEntropyAndEncrypt: (req?: { wordCount?: number, passphrase?: string }) =>
+      run('generateEntropyAndEncrypt', () => {
+        const mnemonic = mnemonics[generatedCount % mnemonics.length]!
+        generatedCount++
+        return encryptedBundle(mnemonic, req?.passphrase)
+      }),
+
+    getMnemonicFromEntropy: (req: { encryptedEntropy?: string, encryptionKey?: string }) =>
+      run('getMnemonicFromEntropy', () => ({
+        mnemonic: decrypt('entropy', req.encryptedEntropy, req.encryptionKey),
+      })),
+
+    getSeedAndEntropyFromMnemonic: (req: { mnemonic: string, passphrase?: string }) =>
+      run('getSeedAndEntropyFromMnemonic', () => encryptedBundle(req.mnemonic.trim(), req.passphrase)),
+
+    getSeedFromEntropy: (req: { encryptedEntropy?: string, encryptionKey?: string, passphrase: string }) =>
+      run('getSeedFromEntropy', () => {
+        const mnemonic = decrypt('entropy', req.encryptedEntropy, req.encryptionKey)
+        return { encryptedSeedBuffer: encryptedBundle(mnemonic, req.passphrase).encryptedSeedBuffer }
+      }),
+
+    // Fake keys are tied to the mnemonic, so the "new" key is the old one
+    reencryptWallet: (req: { encryptionKey?: string, encryptedEntropy?: string, encryptedSeed?: string }) =>
+      run('reencryptWallet', () => {
+        const mnemonic = decrypt('entropy', req.encryptedEntropy, req.encryptionKey)
+        const seed = req.encryptedSeed ? decrypt('seed', req.encryptedSeed, req.encryptionKey) : null
+        const encryptionKey = encryptionKeyOf(mnemonic)
+        const encryptedEntropyBuffer = encrypt('entropy', mnemonic)
+        const encryptedSeedBuffer = seed === null ? undefined : encrypt('seed', seed)
+        if (
+          decrypt('entropy', encryptedEntropyBuffer, encryptionKey) !== mnemonic ||
+          (encryptedSeedBuffer !== undefined && decrypt('seed', encryptedSeedBuffer, encryptionKey) !== seed)
+        ) {
+          throw new Error('Re-encrypted wallet does not decrypt to the same secrets')
+        }
+        return { encryptionKey, encryptedEntropyBuffer, ...(encryptedSeedBuffer ? { encryptedSeedBuffer } : {}) }
+      }),
+
+    getBackupEntropy: (req: { encryptedEntropy?: string, encryptionKey?: string, backupKey: string }) =>
+      run('getBackupEntropy', () => {
+        const mnemonic = decrypt('entropy', req.encryptedEntropy, req.encryptionKey)
+        return { encryptedBackupEntropy: backupEntropyOf(mnemonic, req.backupKey) }
+      }),
+
+    getSeedAndEntropyFromBackup: (req: { encryptedBackupEntropy: string, backupKey: string }) =>
+      run('getSeedAndEntropyFromBackup', () =>
+        encryptedBundle(openBackupEntropy(req.encryptedBackupEntropy, req.backupKey)),
+      ),
+
+    getSharesFromEntropy: (req: {
+      encryptedEntropy?: string
+      encryptionKey?: string
+      threshold: number
+      shareCount: number
+    }) =>
+      run('getSharesFromEntropy', () => {
+        const mnemonic = decrypt('entropy', req.encryptedEntropy, req.encryptionKey)
+        return {
+          shares: Array.from({ length: req.shareCount }, (_, index) =>
+            shareOf(mnemonic, req.threshold, index),
+          ),
+        }
+      }),
+
+    validateShares: (req: { shares: string[] }) =>
+      run('validateShares', () => {
+        const { set, validShares, invalidShares } = inspectShares(req.shares)
+        return { threshold: set?.threshold ?? null, validShares, invalidShares }
+      }),
+
+    getSeedAndEntropyFromShares: (req: { shares: string[], passphrase?: string }) =>
+      run('getSeedAndEntropyFromShares', () => {
+        const { set, validShares, invalidShares } = inspectShares(req.shares)
+        if (!set || invalidShares.length > 0) {
+          throw new Error('Invalid share set')
+        }
+        if (validShares < set.threshold) {
+          throw new Error(`Not enough shares: ${validShares} of ${set.threshold}`)
+        }
+        return encryptedBundle(set.mnemonic, req.passphrase)
+      }),
+
+    callMethod: (req: { methodName: string, network: string, accountIndex: number, args?: string | null }) =>
+      run(req.methodName, () => ({
+        result: JSON.stringify(
+          callAccountMethod(req.methodName, req.network, req.accountIndex, parseArgs(req.args)),
+        ),
+      })),
+
+    callModule: (req: { module: string, method: string, args?: string | null }) =>
+      run(`${req.module}.${req.method}`, async () => {
+        const handler = modules.get(req.module)?.[req.method]
+        if (!handler) {
+          throw new Error(`Module method ${req.module}.${req.method} not found`)
+        }
+        const result = await handler(...parseArgs(req.args))
+        return { result: result === undefined ? null : JSON.stringify(result) }
+      }),
+
+    onModuleEvent: (callback: (evt: { module: string, event: string, payload?: string | null }) => void) => {
+      moduleEventCallback = callback
+    },
+
+    ping: () => run('ping', () => ({})),
+  }
+
+  const ipc = {
+    on: (event: string, listener: IpcListener) => {
+      const set = ipcListeners.get(event) ?? new Set<IpcListener>()
+      set.add(listener)
+      ipcListeners.set(event, set)
+    },
+  }
+
+  return {
+    hrpc: hrpc as unknown as HRPC,
+
+    transport: () => ({ hrpc: hrpc as unknown as HRPC, ipc }),
+
+    setBalance: (network, accountIndex, amount, token) => {
+      ledger.set(ledgerKey(network, accountIndex, token), toBigInt(amount, 'amount'))
+    },
+
+    getBalance: (network, accountIndex, token) =>
+      readBalance(network, accountIndex, token).toString(),
+
+    getAddress: (network, accountIndex) =>
+      watched
+        ? watchedAddress(watched, network, accountIndex)
+        : addressOf(loadedSeed ?? mnemonics[0]!, network, accountIndex),
+
+    getTransactions: () => transactions.map((tx) => ({ ...tx })),
+
+    failNext: (method, error = new Error(`Simulated ${method} failure`)) => {
+      const queue = pendingFailures.get(method) ?? []
+      queue.push(error)
+      pendingFailures.set(method, queue)
+    },
+
+    setFailure: (method, error) => {
+      if (error) {
+        failures.set(method, error)
+      } else {
+        failures.delete(method)
+      }
+    },
+
+    setLatency: (ms, method) => {
+      if (method === undefined) {
+        defaultLatencyMs = ms
+      } else {
+        latencies.set(method, ms)
+      }
+    },
+
+    registerModule: (name, methods) => {
+      modules.set(name, { ...methods })
+    },
+
+    emitModuleEvent: (module, event, payload) => {
+      moduleEventCallback?.({
+        module,
+        event,
+        payload: payload === undefined ? null : JSON.stringify(payload),
+      })
+    },
+
+    crash: () => {
+      for (const listener of ipcListeners.get('close') ?? []) {
+        listener()
+      }
+    },
+
+    reset: () => {
+      loadedSeed = null
+      watched = null
+      generatedCount = 0
+      ledger.clear()
+      transactions.length = 0
+      pendingFailures.clear()
+      failures.clear()
+      latencies.clear()
+      defaultLatencyMs = options.latencyMs ?? 0
+    },
+  }
+}
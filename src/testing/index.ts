@@ -0,0 +1,39 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * @tetherto/wdk-react-native-core/testing
+ *
+ * Test doubles for apps built on the core: a fake WDK engine and a fake
+ * secure storage. The render helper that mounts WdkAppProvider on top of
+ * both lives in @tetherto/wdk-react-native-core/testing/render, as it needs
+ * @testing-library/react-native.
+ */
+
+export { createFakeWdkEngine, FAKE_TEST_MNEMONICS, FAKE_WDK_CONFIGS } from './fakeWdkEngine'
+export type {
+  FakeWdkEngine,
+  FakeWdkEngineOptions,
+  FakeTransaction,
+  FakeAccountContext,
+  FakeAccountMethodHandler,
+  FakeModuleMethodHandler,
+} from './fakeWdkEngine'
+
+export { createFakeSecureStorage } from './fakeSecureStorage'
+export type {
+  FakeSecureStorage,
+  FakeSecureStorageEntry,
+  FakeSecureStorageOptions,
+} from './fakeSecureStorage'
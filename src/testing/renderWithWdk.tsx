@@ -0,0 +1,91 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * renderWithWdk
+ *
+ * Renders a component tree inside a WdkAppProvider wired to a fake engine
+ * and fake secure storage, using @testing-library/react-native. Exported
+ * from @tetherto/wdk-react-native-core/testing/render so that the rest of
+ * the testing entry doesn't need the testing library.
+ */
+
+import React from 'react'
+import { render } from '@testing-library/react-native'
+import type { RenderOptions, RenderResult } from '@testing-library/react-native'
+
+import { WdkAppProvider } from '../provider/WdkAppProvider'
+import type { WdkAppProviderProps } from '../provider/WdkAppProvider'
+import type { BundleConfig, WdkConfigs } from '../types'
+import { createFakeSecureStorage } from './fakeSecureStorage'
+import type { FakeSecureStorage } from './fakeSecureStorage'
+import { createFakeWdkEngine, FAKE_WDK_CONFIGS } from './fakeWdkEngine'
+import type { FakeWdkEngine } from './fakeWdkEngine'
+
+const FAKE_BUNDLE: BundleConfig = { bundle: 'fake-wdk-bundle' }
+
+export interface RenderWithWdkOptions extends Omit<RenderOptions, 'wrapper'> {
+  /** Engine to render against (default: a new createFakeWdkEngine()) */
+  engine?: FakeWdkEngine
+  /** Secure storage to render against (default: a new createFakeSecureStorage()) */
+  secureStorage?: FakeSecureStorage
+  /** Default FAKE_WDK_CONFIGS */
+  wdkConfigs?: WdkConfigs
+  /** Any other WdkAppProvider props (supervisor, autoLock, ...) */
+  providerProps?: Partial<
+    Omit<WdkAppProviderProps, 'children' | 'wdkConfigs' | 'transport' | 'secureStorage'>
+  >
+}
+
+export type RenderWithWdkResult = RenderResult & {
+  engine: FakeWdkEngine
+  secureStorage: FakeSecureStorage
+}
+
+/**
+ * Render `ui` under a WdkAppProvider backed by the fake engine
+ *
+ * @example
+ * ```typescript
+ * const { engine, findByText } = renderWithWdk(<WalletScreen />)
+ * engine.setBalance('ethereum', 0, '5000')
+ * ```
+ */
+export function renderWithWdk(
+  ui: React.ReactElement,
+  options: RenderWithWdkOptions = {},
+): RenderWithWdkResult {
+  const {
+    engine = createFakeWdkEngine(),
+    secureStorage = createFakeSecureStorage(),
+    wdkConfigs = FAKE_WDK_CONFIGS,
+    providerProps,
+    ...renderOptions
+  } = options
+
+  const Wrapper = ({ children }: { children: React.ReactNode }) => (
+    <WdkAppProvider
+      bundle={FAKE_BUNDLE}
+      {...providerProps}
+      wdkConfigs={wdkConfigs}
+      transport={engine.transport}
+      secureStorage={secureStorage}
+    >
+      {children}
+    </WdkAppProvider>
+  )
+
+  const result = render(ui, { ...renderOptions, wrapper: Wrapper })
+  return { ...result, engine, secureStorage }
+}
@@ -161,7 +161,10 @@ export {
   type CallMethodRequest,
   type CallMethodResponse,
   type HRPC,
+  type ModuleRpcs,
+  type HeartbeatRpcs,
   type BundleConfig,
+  type BundleSignatureVerifier,
 } from './types/hrpc'
 
 type AddressIdentifier = {
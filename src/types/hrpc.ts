@@ -20,7 +20,7 @@
  * app and the worklet runtime.
  */
 
-import { HRPC as PearHRPC } from '@tetherto/pear-wrk-wdk'
+import type { HRPC as PearHRPC } from '@tetherto/pear-wrk-wdk'
 
 // Re-export types from pear-wrk-wdk
 export {
@@ -36,8 +36,25 @@ export {
   type ProtocolConfig,
 } from '@tetherto/pear-wrk-wdk'
 
-// Re-export HRPC class/interface
-export type HRPC = PearHRPC
+/**
+ * RPCs for worklet modules (see ModuleService). Only bundles that list
+ * `callModule` in their capabilities have them.
+ */
+export interface ModuleRpcs {
+  callModule: (request: { module: string; method: string; args?: string | null }) => Promise<{ result?: string | null }>
+  onModuleEvent: (callback: (event: { module: string; event: string; payload?: string | null }) => void) => void
+}
+
+/**
+ * Liveness RPC the worklet supervisor sends. Only bundles that list `ping`
+ * in their capabilities have it.
+ */
+export interface HeartbeatRpcs {
+  ping: () => Promise<unknown>
+}
+
+// Re-export HRPC class/interface, with the RPCs not every bundle has
+export type HRPC = PearHRPC & Partial<ModuleRpcs> & Partial<HeartbeatRpcs>
 
 // ============================================================================
 // Bundle Configuration
@@ -64,4 +81,25 @@ export type HRPC = PearHRPC
 export interface BundleConfig {
   /** The worklet bundle (compiled JavaScript for the worklet runtime) */
   bundle: string
-}
\ No newline at end of file
+  /**
+   * Expected SHA-256 of `bundle` (hex). When set, the worklet is not started
+   * unless the bundle hashes to this value.
+   */
+  sha256?: string
+  /** Bundle version, passed to verifySignature and reported on failure */
+  version?: string
+  /** Signature over the bundle's SHA-256; requires verifySignature */
+  signature?: string
+  /** Checks `signature`; the worklet is not started unless it returns true */
+  verifySignature?: BundleSignatureVerifier
+}
+
+/**
+ * Verifies a bundle signature. Receives the SHA-256 computed from the
+ * bundle itself, never the one declared in BundleConfig.
+ */
+export type BundleSignatureVerifier = (payload: {
+  sha256: string
+  version?: string
+  signature: string
+}) => boolean | Promise<boolean>
\ No newline at end of file
@@ -0,0 +1,196 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Account Discovery
+ *
+ * BIP-44 style account discovery for a loaded wallet: on each network,
+ * account indices are probed in order until `gapLimit` accounts in a row
+ * turn out unused. The accounts found are written to the wallet's
+ * accountList. Callers are responsible for holding the operation mutex.
+ */
+
+import { produce } from 'immer'
+
+import { AccountService } from '../services/accountService'
+import { AddressService } from '../services/addressService'
+import { getWalletStore, type AccountInfo } from '../store/walletStore'
+import { getWorkletStore } from '../store/workletStore'
+import { WdkAbortError, isWdkError } from './errors'
+import { log, logError } from './logger'
+
+/**
+ * Unused accounts in a row after which a network stops being scanned
+ */
+export const DEFAULT_ACCOUNT_GAP_LIMIT = 3
+
+/**
+ * Highest number of accounts scanned per network
+ */
+export const DEFAULT_MAX_DISCOVERED_ACCOUNTS = 50
+
+/**
+ * Decides whether an account has been used. Throwing stops the scan of that
+ * network.
+ */
+export type AccountUsageProbe = (
+  network: string,
+  accountIndex: number,
+  address: string,
+) => Promise<boolean>
+
+/**
+ * Reported after each account is probed
+ */
+export interface AccountDiscoveryProgress {
+  network: string
+  accountIndex: number
+  used: boolean
+  /** Accounts probed so far, over all networks */
+  scanned: number
+}
+
+export interface AccountDiscoveryOptions {
+  /** Networks to scan; defaults to every configured network */
+  networks?: string[]
+  /** Unused accounts in a row that end a network's scan (default 3) */
+  gapLimit?: number
+  /** Most accounts scanned per network (default 50) */
+  maxAccounts?: number
+  /**
+   * Whether an account has been used. Defaults to a non-zero native
+   * balance; pass a probe that checks transaction history (or token
+   * balances) to also find emptied accounts.
+   */
+  isAccountUsed?: AccountUsageProbe
+  onProgress?: (progress: AccountDiscoveryProgress) => void
+  /** Stops the scan with WdkAbortError; nothing is persisted then */
+  signal?: AbortSignal
+}
+
+/**
+ * A network whose scan stopped on an error
+ */
+export interface AccountDiscoveryFailure {
+  network: string
+  accountIndex: number
+  error: string
+}
+
+export interface AccountDiscoveryResult {
+  walletId: string
+  /** The wallet's accountList after discovery, account 0 included */
+  accounts: AccountInfo[]
+  /** Used account indices per network */
+  usedAccounts: Record<string, number[]>
+  failed: AccountDiscoveryFailure[]
+}
+
+/**
+ * Scan the accounts of a loaded wallet and add the used ones (and account
+ * 0) to its accountList. Accounts already listed are kept.
+ */
+export async function discoverAccounts(
+  walletId: string,
+  options: AccountDiscoveryOptions = {},
+): Promise<AccountDiscoveryResult> {
+  const {
+    networks = Object.keys(getWorkletStore().getState().wdkConfigs?.networks ?? {}),
+    gapLimit = DEFAULT_ACCOUNT_GAP_LIMIT,
+    maxAccounts = DEFAULT_MAX_DISCOVERED_ACCOUNTS,
+    onProgress,
+    signal,
+  } = options
+  const isAccountUsed: AccountUsageProbe =
+    options.isAccountUsed ??
+    (async (network, accountIndex) => {
+      const balance = await AccountService.callAccountMethodWithOptions(
+        { signal },
+        network,
+        accountIndex,
+        'getBalance',
+      )
+      return BigInt(balance) > 0n
+    })
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new Error('gapLimit must be a positive integer')
+  }
+  if (!Number.isInteger(maxAccounts) || maxAccounts < 1) {
+    throw new Error('maxAccounts must be a positive integer')
+  }
+
+  const usedAccounts: Record<string, number[]> = {}
+  const addresses: Record<number, Record<string, string>> = {}
+  const failed: AccountDiscoveryFailure[] = []
+  let scanned = 0
+
+  for (const network of networks) {
+    usedAccounts[network] = []
+    let unused = 0
+
+    for (let accountIndex = 0; accountIndex < maxAccounts && unused < gapLimit; accountIndex++) {
+      if (signal?.aborted) {
+        throw new WdkAbortError('discoverAccounts')
+      }
+
+      let used: boolean
+      try {
+        const address = await AddressService.getAddress(network, accountIndex, walletId)
+        ;(addresses[accountIndex] ??= {})[network] = address
+        used = await isAccountUsed(network, accountIndex, address)
+      } catch (error) {
+        if (isWdkError(error, 'ABORTED')) {
+          throw error
+        }
+        logError(`[accountDiscovery] Failed to probe ${network} account ${accountIndex}:`, error)
+        failed.push({
+          network,
+          accountIndex,
+          error: error instanceof Error ? error.message : String(error),
+        })
+        break
+      }
+
+      scanned++
+      if (used) {
+        usedAccounts[network].push(accountIndex)
+        unused = 0
+      } else {
+        unused++
+      }
+      onProgress?.({ network, accountIndex, used, scanned })
+    }
+  }
+
+  const discovered = new Set([0, ...Object.values(usedAccounts).flat()])
+  getWalletStore().setState((prev) =>
+    produce(prev, (state) => {
+      const accounts = state.accountList[walletId] ?? []
+      for (const accountIndex of discovered) {
+        let account = accounts.find((entry) => entry.accountIndex === accountIndex)
+        if (!account) {
+          account = { accountIndex, addresses: {} }
+          accounts.push(account)
+        }
+        Object.assign(account.addresses, addresses[accountIndex])
+      }
+      accounts.sort((a, b) => a.accountIndex - b.accountIndex)
+      state.accountList[walletId] = accounts
+    }),
+  )
+
+  const accounts = getWalletStore().getState().accountList[walletId] ?? []
+  log(`[accountDiscovery] Discovered ${accounts.length} account(s) for wallet ${walletId}`, usedAccounts)
+  return { walletId, accounts, usedAccounts, failed }
+}
@@ -0,0 +1,88 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Bundle Integrity
+ *
+ * Checks a worklet bundle against the sha256/signature declared in its
+ * BundleConfig before it is started, so a tampered or truncated bundle
+ * never gets to load a seed.
+ */
+
+import * as Crypto from 'expo-crypto'
+
+import type { BundleConfig } from '../types'
+import { BundleIntegrityError } from './errors'
+import { log } from './logger'
+
+/**
+ * SHA-256 of the bundle source (UTF-8), as lowercase hex
+ */
+export async function computeBundleSha256(bundle: string): Promise<string> {
+  const digest = await Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    bundle,
+  )
+  return digest.toLowerCase()
+}
+
+/**
+ * Verify the bundle against its declared sha256 and signature. Bundles
+ * declaring neither are accepted unchecked.
+ *
+ * @throws BundleIntegrityError when a declared check fails
+ */
+export async function verifyBundleIntegrity(bundleConfig: BundleConfig): Promise<void> {
+  const { bundle, sha256, version, signature, verifySignature } = bundleConfig
+  if (sha256 === undefined && signature === undefined) {
+    return
+  }
+
+  const actual = await computeBundleSha256(bundle)
+
+  if (sha256 !== undefined && actual !== sha256.trim().toLowerCase()) {
+    throw new BundleIntegrityError(
+      'hash_mismatch',
+      `Bundle hash mismatch: expected ${sha256}, got ${actual}`,
+      version,
+    )
+  }
+
+  if (signature !== undefined) {
+    if (!verifySignature) {
+      throw new BundleIntegrityError(
+        'signature_unverifiable',
+        'Bundle declares a signature but no verifySignature was provided',
+        version,
+      )
+    }
+
+    let valid = false
+    try {
+      valid = (await verifySignature({ sha256: actual, version, signature })) === true
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new BundleIntegrityError(
+        'signature_invalid',
+        `Bundle signature check failed: ${message}`,
+        version,
+      )
+    }
+    if (!valid) {
+      throw new BundleIntegrityError('signature_invalid', 'Bundle signature is invalid', version)
+    }
+  }
+
+  log('[BundleIntegrity] Bundle verified', { version, sha256: actual })
+}
@@ -0,0 +1,109 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Call Options
+ *
+ * Per-call timeout and cancellation for worklet RPCs. The worklet itself
+ * can't be interrupted, so a timed-out or aborted call keeps running there;
+ * its eventual result is discarded instead of being handed to the caller.
+ * Like RequestCoordinator, a read that answers after the loaded wallet
+ * changed is discarded too. A completed write always reaches the caller:
+ * the worklet may already have broadcast it.
+ */
+
+import { WdkAbortError, WdkStaleResultError, WdkTimeoutError } from './errors'
+import { log } from './logger'
+import { getEpoch } from './workletEpoch'
+
+/**
+ * Options accepted by account, protocol and module calls
+ */
+export interface CallOptions {
+  /** Reject with WdkTimeoutError if the worklet hasn't answered in time */
+  timeoutMs?: number
+  /** Reject with WdkAbortError once this signal aborts */
+  signal?: AbortSignal
+}
+
+/**
+ * Run a worklet call under the given call options
+ *
+ * @param operation - Operation name used in error messages and logs
+ * @param call - Starts the call; not invoked if the signal is already aborted
+ * @param options - Timeout and abort signal (no-op when empty)
+ * @param discardStale - Reject with WdkStaleResultError if the loaded wallet
+ * changed before the call answered; only for reads, never for writes
+ * @throws WdkTimeoutError, WdkAbortError, or WdkStaleResultError
+ */
+export async function runWithCallOptions<T>(
+  operation: string,
+  call: () => Promise<T>,
+  options?: CallOptions,
+  discardStale = false,
+): Promise<T> {
+  const { timeoutMs, signal } = options ?? {}
+
+  if (signal?.aborted) {
+    throw new WdkAbortError(operation)
+  }
+
+  const epoch = getEpoch()
+  const promise = call().then((result) => {
+    if (discardStale && epoch !== getEpoch()) {
+      log('[callOptions] Discarding stale result', { operation })
+      throw new WdkStaleResultError(operation)
+    }
+    return result
+  })
+
+  if (timeoutMs === undefined && !signal) {
+    return promise
+  }
+
+  let cancelled = false
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+  let onAbort: (() => void) | null = null
+
+  const cancellation = new Promise<never>((_, reject) => {
+    if (timeoutMs !== undefined) {
+      timeoutId = setTimeout(() => {
+        cancelled = true
+        reject(new WdkTimeoutError(operation, timeoutMs))
+      }, timeoutMs)
+    }
+    if (signal) {
+      onAbort = () => {
+        cancelled = true
+        reject(new WdkAbortError(operation))
+      }
+      signal.addEventListener('abort', onAbort)
+    }
+  })
+
+  try {
+    return await Promise.race([promise, cancellation])
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId)
+    if (signal && onAbort) signal.removeEventListener('abort', onAbort)
+
+    // If cancellation won, whatever the worklet answers later is dropped.
+    if (cancelled) {
+      promise.then(
+        () => log('[callOptions] Discarding late result', { operation }),
+        () => {},
+      )
+    }
+  }
+}
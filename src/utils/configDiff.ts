@@ -0,0 +1,117 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * WDK Config Diff
+ *
+ * Compares two WdkConfigs to decide how much of the worklet has to be
+ * re-initialised when the wdkConfigs prop changes.
+ */
+
+import type { WdkConfigs } from '../types'
+
+/**
+ * Result of comparing two WdkConfigs
+ */
+export interface WdkConfigsDiff {
+  /** Networks that were added, removed or whose config changed */
+  changedNetworks: string[]
+  /** Networks present before but missing from the new config */
+  removedNetworks: string[]
+  /** Whether any protocol was added, removed or changed */
+  protocolsChanged: boolean
+  /** Whether any module was added, removed or changed */
+  modulesChanged: boolean
+  /**
+   * Whether the change can't be applied per blockchain through
+   * resetWallets() and needs a full initializeWDK(): protocol or module
+   * changes, removed networks, or changes outside networks/protocols/modules.
+   */
+  requiresFullReinit: boolean
+  /** Whether the configs differ at all */
+  hasChanges: boolean
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Structural equality for JSON-like config values (key order ignored)
+ */
+function isConfigEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isConfigEqual(item, b[i]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a).filter((key) => a[key] !== undefined)
+    const bKeys = Object.keys(b).filter((key) => b[key] !== undefined)
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every((key) => isConfigEqual(a[key], b[key]))
+    )
+  }
+  return false
+}
+
+function changedKeys(
+  prev: Record<string, unknown> = {},
+  next: Record<string, unknown> = {},
+): string[] {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)])
+  return [...keys].filter((key) => !isConfigEqual(prev[key], next[key]))
+}
+
+const DIFFED_SECTIONS = ['networks', 'protocols', 'modules']
+
+function withoutDiffedSections(configs: WdkConfigs): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(configs).filter(([key]) => !DIFFED_SECTIONS.includes(key)),
+  )
+}
+
+/**
+ * Diff two WdkConfigs
+ *
+ * @param prev - Config the worklet is currently running with
+ * @param next - Config to apply
+ */
+export function diffWdkConfigs(prev: WdkConfigs, next: WdkConfigs): WdkConfigsDiff {
+  const changedNetworks = changedKeys(prev.networks, next.networks)
+  const removedNetworks = changedNetworks.filter(
+    (network) => !(network in next.networks),
+  )
+  const protocolsChanged = changedKeys(prev.protocols, next.protocols).length > 0
+  const modulesChanged = changedKeys(prev.modules, next.modules).length > 0
+
+  const otherChanged = changedKeys(
+    withoutDiffedSections(prev),
+    withoutDiffedSections(next),
+  ).length > 0
+
+  const requiresFullReinit =
+    protocolsChanged || modulesChanged || otherChanged || removedNetworks.length > 0
+
+  return {
+    changedNetworks,
+    removedNetworks,
+    protocolsChanged,
+    modulesChanged,
+    requiresFullReinit,
+    hasChanges: requiresFullReinit || changedNetworks.length > 0,
+  }
+}
@@ -47,6 +47,35 @@ export const MNEMONIC_WORD_COUNTS = {
  */
 export const DEFAULT_MNEMONIC_WORD_COUNT = MNEMONIC_WORD_COUNTS.TWELVE
 
+/**
+ * Worklet protocol versions this core can talk to, checked against the
+ * protocolVersion a bundle reports from workletStart
+ */
+export const MIN_WORKLET_PROTOCOL_VERSION = 1
+export const MAX_WORKLET_PROTOCOL_VERSION = 1
+
+/**
+ * RPCs the core calls on every bundle; a bundle reporting its RPCs must
+ * include all of them
+ */
+export const REQUIRED_WORKLET_RPCS = [
+  'workletStart',
+  'initializeWDK',
+  'callMethod',
+  'generateEntropyAndEncrypt',
+  'getMnemonicFromEntropy',
+  'getSeedAndEntropyFromMnemonic',
+] as const
+
+/**
+ * Request fields newer than the pinned bundle, sent only to bundles that
+ * list them in capabilities.features: `watchOnly` on initializeWDK, and
+ * `passphrase` on generateEntropyAndEncrypt, getSeedAndEntropyFromMnemonic
+ * and getSeedAndEntropyFromShares
+ */
+export const WORKLET_FEATURE_WATCH_ONLY = 'watchOnly'
+export const WORKLET_FEATURE_BIP39_PASSPHRASE = 'bip39Passphrase'
+
 /**
  * Account method names for balance operations
  */
@@ -115,3 +144,48 @@ export const QUERY_KEY_TAGS = {
   NETWORK: 'network',
   TOKEN: 'token',
 } as const
+
+/**
+ * Default worklet heartbeat interval in milliseconds
+ *
+ * How often the worklet supervisor pings the worklet to confirm its IPC loop
+ * is still answering. 15 seconds keeps detection reasonably quick without
+ * adding noticeable IPC traffic.
+ */
+export const DEFAULT_WORKLET_HEARTBEAT_INTERVAL_MS = 15 * 1000
+
+/**
+ * Default worklet heartbeat timeout in milliseconds
+ *
+ * How long a single heartbeat may go unanswered before the worklet is
+ * considered dead and a supervised restart begins.
+ */
+export const DEFAULT_WORKLET_HEARTBEAT_TIMEOUT_MS = 10 * 1000
+
+/**
+ * Default worklet restart policy
+ *
+ * Exponential backoff used by the worklet supervisor: 1s, 2s, 4s, 8s, 16s,
+ * capped at 30s, giving up after 5 attempts.
+ */
+export const DEFAULT_WORKLET_RESTART_POLICY = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  backoffMultiplier: 2,
+} as const
+
+/**
+ * HRPC diagnostics sample window
+ *
+ * Number of most recent calls per method and network that latency
+ * percentiles are computed from.
+ */
+export const DIAGNOSTICS_SAMPLE_WINDOW = 100
+
+/**
+ * HRPC diagnostics failure history
+ *
+ * Number of most recent failed calls kept for useWdkDiagnostics().
+ */
+export const DIAGNOSTICS_RECENT_FAILURES_LIMIT = 20
@@ -0,0 +1,122 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Data Wipe
+ *
+ * Removes every trace of the wallets from the device: secure storage, MMKV
+ * and its derived keys, the stores, query caches and the running worklet.
+ * Each step runs even if an earlier one failed, so as much as possible is
+ * gone. Callers are responsible for holding the operation mutex.
+ */
+
+import type { QueryClient } from '@tanstack/react-query'
+
+import { MnemonicRevealService } from '../services/mnemonicRevealService'
+import { WalletSetupService } from '../services/walletSetupService'
+import { WorkletLifecycleService } from '../services/workletLifecycleService'
+import { clearMMKVStorage } from '../storage/mmkvStorage'
+import { getWalletStore, resetWalletState } from '../store/walletStore'
+import { getWorkletStore } from '../store/workletStore'
+import { isWdkError } from './errors'
+import { log, logError } from './logger'
+import { clearKeyCache } from './mmkvKeyManager'
+
+export type WipeStep = 'secureStorage' | 'worklet' | 'mmkv' | 'stores' | 'queryCache'
+
+export interface WipeStepResult {
+  step: WipeStep
+  ok: boolean
+  error?: Error
+}
+
+/**
+ * What wipeAllData did; ok only when every step succeeded
+ */
+export interface WipeReport {
+  ok: boolean
+  steps: WipeStepResult[]
+}
+
+/**
+ * Wipe all wallet data on the device. The worklet is left shut down;
+ * restart() it to onboard again.
+ *
+ * @throws The authentication error if the deleteWallet requirement of the
+ * authPolicy isn't met - nothing is wiped then
+ */
+export async function wipeAllData(queryClient?: QueryClient): Promise<WipeReport> {
+  const steps: WipeStepResult[] = []
+  const run = async (step: WipeStep, action: () => Promise<void> | void) => {
+    try {
+      await action()
+      steps.push({ step, ok: true })
+    } catch (error) {
+      logError(`[dataWipe] Failed to wipe ${step}:`, error)
+      steps.push({
+        step,
+        ok: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      })
+    }
+  }
+
+  const walletIds = getWalletStore()
+    .getState()
+    .walletList.map(({ identifier }) => identifier)
+
+  // Authentication comes first, so a refusal leaves everything in place
+  try {
+    await WalletSetupService.wipeSecureStorage(walletIds)
+    steps.push({ step: 'secureStorage', ok: true })
+  } catch (error) {
+    if (isWdkError(error) && error.code.startsWith('AUTH_')) {
+      throw error
+    }
+    logError('[dataWipe] Failed to wipe secureStorage:', error)
+    steps.push({
+      step: 'secureStorage',
+      ok: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    })
+  }
+
+  await run('worklet', () => WorkletLifecycleService.shutdown())
+
+  await run('mmkv', async () => {
+    clearKeyCache()
+    await clearMMKVStorage()
+  })
+
+  await run('stores', () => {
+    MnemonicRevealService.endAll()
+    resetWalletState()
+    // shutdown() already reset the worklet's runtime state; keep the
+    // configuration so restart() still works
+    getWorkletStore().setState({
+      error: null,
+      bundleError: null,
+      recovery: null,
+      startupTimings: [],
+    })
+  })
+
+  if (queryClient) {
+    await run('queryCache', () => queryClient.clear())
+  }
+
+  const ok = steps.every((result) => result.ok)
+  log(`[dataWipe] Wiped all data${ok ? '' : ' with failures'}`, steps)
+  return { ok, steps }
+}
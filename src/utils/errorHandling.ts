@@ -47,6 +47,7 @@
  * ```
  */
 
+import { WdkError } from './errors'
 import { normalizeError } from './errorUtils'
 import { logError } from './logger'
 
@@ -60,7 +61,7 @@ import { logError } from './logger'
  * @param component - Component/service name where error occurred
  * @param operation - Operation name that failed
  * @param context - Additional context for error
- * @throws Normalized error
+ * @throws Normalized error (typed WdkErrors are rethrown as-is)
  */
 export function handleServiceError(
   error: unknown,
@@ -68,6 +69,13 @@ export function handleServiceError(
   operation: string,
   context?: Record<string, unknown> & { silent?: boolean }
 ): never {
+  if (error instanceof WdkError) {
+    if (!context?.silent) {
+      logError(`[${component}] ${operation} failed:`, error)
+    }
+    throw error
+  }
+
   const normalized = normalizeError(error, false, { component, operation, ...context })
   if (!context?.silent) {
     logError(`[${component}] ${operation} failed:`, normalized)
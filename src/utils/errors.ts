@@ -0,0 +1,292 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Typed WDK errors
+ *
+ * Errors callers are expected to branch on. Each class sets a stable `name`
+ * and `code`, and handleServiceError rethrows them as-is (instead of
+ * normalizing them into a plain Error) so both `instanceof` and `code`
+ * checks keep working across service and hook boundaries.
+ */
+
+/**
+ * Base class for typed WDK errors
+ */
+export class WdkError extends Error {
+  readonly code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    // Keep instanceof working when classes are down-levelled
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    this.code = code
+  }
+}
+
+/**
+ * A worklet call did not answer within its `timeoutMs`
+ */
+export class WdkTimeoutError extends WdkError {
+  readonly operation: string
+  readonly timeoutMs: number
+
+  constructor(operation: string, timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs}ms`, 'TIMEOUT')
+    this.operation = operation
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * A worklet call was cancelled through its AbortSignal
+ */
+export class WdkAbortError extends WdkError {
+  readonly operation: string
+
+  constructor(operation: string) {
+    super(`${operation} was aborted`, 'ABORTED')
+    this.operation = operation
+  }
+}
+
+/**
+ * A worklet read answered after the loaded wallet changed (lock, switch,
+ * delete), so its result belongs to another wallet and was dropped
+ */
+export class WdkStaleResultError extends WdkError {
+  readonly operation: string
+
+  constructor(operation: string) {
+    super(`${operation} answered for a wallet that is no longer loaded`, 'STALE_RESULT')
+    this.operation = operation
+  }
+}
+
+export type BundleIntegrityFailure =
+  | 'hash_mismatch'
+  | 'signature_invalid'
+  | 'signature_unverifiable'
+
+/**
+ * The worklet bundle failed its integrity check and was not started
+ */
+export class BundleIntegrityError extends WdkError {
+  readonly reason: BundleIntegrityFailure
+  /** Version declared in BundleConfig, if any */
+  readonly version?: string
+
+  constructor(reason: BundleIntegrityFailure, message: string, version?: string) {
+    super(message, 'BUNDLE_INTEGRITY')
+    this.reason = reason
+    this.version = version
+  }
+}
+
+export type BundleIncompatibility =
+  | 'invalid_handshake'
+  | 'protocol_version'
+  | 'missing_rpcs'
+  | 'unsupported_config'
+
+/**
+ * The worklet bundle can't work with this core or with the given
+ * wdkConfigs (see the workletStart handshake)
+ */
+export class BundleIncompatibleError extends WdkError {
+  readonly reason: BundleIncompatibility
+  /** What is missing: RPC names, or network/protocol/module config keys */
+  readonly missing: string[]
+
+  constructor(reason: BundleIncompatibility, message: string, missing: string[] = []) {
+    super(message, 'BUNDLE_INCOMPATIBLE')
+    this.reason = reason
+    this.missing = missing
+  }
+}
+
+/**
+ * The running worklet bundle doesn't provide an RPC or feature a call needs.
+ * Unlike BundleIncompatibleError the bundle stays usable; only this call
+ * is refused.
+ */
+export class UnsupportedByBundleError extends WdkError {
+  /** RPC or feature name, as in the bundle's capabilities */
+  readonly feature: string
+
+  constructor(feature: string) {
+    super(`The running worklet bundle does not support ${feature}`, 'UNSUPPORTED_BY_BUNDLE')
+    this.feature = feature
+  }
+}
+
+/**
+ * Why a worklet bundle was refused
+ */
+export type BundleRejectionError = BundleIntegrityError | BundleIncompatibleError
+
+/**
+ * Check if an error means the worklet bundle was refused
+ */
+export function isBundleRejectionError(error: unknown): error is BundleRejectionError {
+  return error instanceof BundleIntegrityError || error instanceof BundleIncompatibleError
+}
+
+/**
+ * The wallet was created with a BIP-39 passphrase, whose seed is never
+ * stored; unlock it with the passphrase
+ */
+export class PassphraseRequiredError extends WdkError {
+  readonly walletId?: string
+
+  constructor(walletId?: string) {
+    super(
+      `Wallet ${walletId ?? '(default)'} is protected by a passphrase; pass it to unlock()`,
+      'PASSPHRASE_REQUIRED',
+    )
+    this.walletId = walletId
+  }
+}
+
+/**
+ * The active wallet is watch-only (addresses or xpubs, no seed), so it can't
+ * send, sign or run other write calls
+ */
+export class WatchOnlyWalletError extends WdkError {
+  /** The refused account or protocol method */
+  readonly operation: string
+  readonly walletId?: string
+
+  constructor(operation: string, walletId?: string) {
+    super(
+      `Wallet ${walletId ?? '(active)'} is watch-only and can't call ${operation}`,
+      'WATCH_ONLY',
+    )
+    this.operation = operation
+    this.walletId = walletId
+  }
+}
+
+/**
+ * The seed being restored is already on this device under another wallet
+ * ID (same fingerprint). Offer to switch to existingWalletId, or restore
+ * again with allowDuplicate.
+ */
+export class DuplicateWalletError extends WdkError {
+  /** The wallet that already holds this seed */
+  readonly existingWalletId: string
+  readonly walletId?: string
+
+  constructor(existingWalletId: string, walletId?: string) {
+    super(
+      `Wallet ${walletId ?? '(default)'} has the same seed as wallet ${existingWalletId}`,
+      'DUPLICATE_WALLET',
+    )
+    this.existingWalletId = existingWalletId
+    this.walletId = walletId
+  }
+}
+
+export type WalletBackupFailure =
+  | 'invalid_format'
+  | 'unsupported_version'
+  | 'wrong_password'
+
+/**
+ * A wallet backup could not be opened
+ */
+export class WalletBackupError extends WdkError {
+  readonly reason: WalletBackupFailure
+
+  constructor(reason: WalletBackupFailure, message: string) {
+    super(message, 'WALLET_BACKUP')
+    this.reason = reason
+  }
+}
+
+/**
+ * A mnemonic reveal session (or a backup quiz made from it) was read after
+ * it ended: it expired, was closed, or the app went to the background or
+ * locked. Reveal the phrase again.
+ */
+export class MnemonicRevealEndedError extends WdkError {
+  readonly walletId: string
+
+  constructor(walletId: string) {
+    super(`The recovery phrase reveal for wallet ${walletId} has ended`, 'MNEMONIC_REVEAL_ENDED')
+    this.walletId = walletId
+  }
+}
+
+/**
+ * Operations an AuthPolicy can put behind authentication
+ */
+export type AuthOperation = 'unlock' | 'getMnemonic' | 'send' | 'sign' | 'deleteWallet'
+
+/**
+ * The user dismissed the authentication prompt. Doesn't count as a failed
+ * attempt.
+ */
+export class AuthenticationCancelledError extends WdkError {
+  readonly operation: AuthOperation
+
+  constructor(operation: AuthOperation) {
+    super(`Authentication for ${operation} was cancelled`, 'AUTH_CANCELLED')
+    this.operation = operation
+  }
+}
+
+/**
+ * Authentication was attempted and rejected
+ */
+export class AuthenticationFailedError extends WdkError {
+  readonly operation: AuthOperation
+  /** Failed attempts left before authentication locks out */
+  readonly attemptsRemaining: number
+
+  constructor(operation: AuthOperation, attemptsRemaining: number, detail?: string) {
+    super(
+      `Authentication for ${operation} failed` + (detail ? `: ${detail}` : ''),
+      'AUTH_FAILED',
+    )
+    this.operation = operation
+    this.attemptsRemaining = attemptsRemaining
+  }
+}
+
+/**
+ * Too many failed attempts; authentication is refused until the lockout ends
+ */
+export class AuthenticationLockoutError extends WdkError {
+  readonly operation: AuthOperation
+  /** How long until authentication can be tried again */
+  readonly retryAfterMs: number
+
+  constructor(operation: AuthOperation, retryAfterMs: number) {
+    super(
+      `Authentication for ${operation} is locked out; try again in ${Math.ceil(retryAfterMs / 1000)}s`,
+      'AUTH_LOCKOUT',
+    )
+    this.operation = operation
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Check if an error is a typed WDK error, optionally with a specific code
+ */
+export function isWdkError(error: unknown, code?: string): error is WdkError {
+  return error instanceof WdkError && (code === undefined || error.code === code)
+}
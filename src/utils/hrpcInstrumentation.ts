@@ -0,0 +1,360 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * HRPC Instrumentation
+ *
+ * Wraps the HRPC instance created by WorkletLifecycleService so every
+ * asynchronous call - from AccountService, AddressService, ModuleService,
+ * the lifecycle service itself or anything else holding the store's hrpc -
+ * is timed and recorded in the diagnostics store. Argument and result values
+ * are only measured, never stored.
+ */
+
+import {
+  getDiagnosticsStore,
+  type DiagnosticsState,
+  type HrpcCallFailure,
+  type HrpcCallSample,
+} from '../store/diagnosticsStore'
+import {
+  DIAGNOSTICS_RECENT_FAILURES_LIMIT,
+  DIAGNOSTICS_SAMPLE_WINDOW,
+} from './constants'
+
+interface CallDescriptor {
+  method: string
+  network: string | null
+}
+
+/**
+ * Latency and payload summary for one method on one network
+ */
+export interface HrpcMethodDiagnostics {
+  method: string
+  network: string | null
+  /** Calls recorded since start (or the last reset) */
+  totalCalls: number
+  totalFailures: number
+  /** Calls currently awaiting an answer */
+  inFlight: number
+  /** Latency percentiles over the rolling sample window; null before the first call */
+  p50Ms: number | null
+  p90Ms: number | null
+  p99Ms: number | null
+  /** Average serialized payload sizes over the rolling sample window */
+  avgRequestBytes: number
+  avgResponseBytes: number
+}
+
+/**
+ * Point-in-time view of the diagnostics store
+ */
+export interface WdkDiagnosticsSnapshot {
+  /** Sorted by p90 latency, slowest first */
+  methods: HrpcMethodDiagnostics[]
+  /** Total calls awaiting an answer */
+  inFlight: number
+  /** Most recent failures, newest first */
+  recentFailures: HrpcCallFailure[]
+}
+
+let nextCallId = 1
+
+// Instrumented proxy -> the HRPC instance it wraps
+const uninstrumentedInstances = new WeakMap<object, object>()
+
+function statsKey(call: CallDescriptor): string {
+  return `${call.method}@${call.network ?? '-'}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object'
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return isRecord(value) && typeof (value as { then?: unknown }).then === 'function'
+}
+
+/**
+ * Name the call after the account/module method it carries, so e.g. every
+ * getBalance lands in one bucket instead of all under callMethod.
+ */
+function describeCall(rpcMethod: string, request: unknown): CallDescriptor {
+  if (!isRecord(request)) {
+    return { method: rpcMethod, network: null }
+  }
+
+  const network = typeof request.network === 'string' ? request.network : null
+
+  if (rpcMethod === 'callMethod' && typeof request.methodName === 'string') {
+    return { method: `callMethod:${request.methodName}`, network }
+  }
+  if (
+    rpcMethod === 'callModule' &&
+    typeof request.module === 'string' &&
+    typeof request.method === 'string'
+  ) {
+    return { method: `callModule:${request.module}.${request.method}`, network }
+  }
+  return { method: rpcMethod, network }
+}
+
+function payloadSize(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 0
+  }
+  if (typeof value === 'string') {
+    return value.length
+  }
+  try {
+    return JSON.stringify(value)?.length ?? 0
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Error code, or else class name, of a failed call. Messages are left out:
+ * worklet errors can quote addresses, amounts or other call arguments.
+ */
+function describeError(error: unknown): string {
+  if (isRecord(error) && typeof error.code === 'string' && error.code) {
+    return error.code
+  }
+  if (error instanceof Error) {
+    return error.name
+  }
+  return typeof error
+}
+
+function recordStart(callId: number, call: CallDescriptor): void {
+  getDiagnosticsStore().setState((state) => ({
+    inFlight: {
+      ...state.inFlight,
+      [callId]: { ...call, startedAt: Date.now() },
+    },
+  }))
+}
+
+function recordEnd(
+  callId: number,
+  call: CallDescriptor,
+  sample: HrpcCallSample,
+  error?: unknown,
+): void {
+  getDiagnosticsStore().setState((state) => {
+    const key = statsKey(call)
+    const previous = state.methods[key]
+    const samples = [...(previous?.samples ?? []), sample].slice(
+      -DIAGNOSTICS_SAMPLE_WINDOW,
+    )
+
+    const inFlight = { ...state.inFlight }
+    delete inFlight[callId]
+
+    const recentFailures = sample.ok
+      ? state.recentFailures
+      : [
+          ...state.recentFailures,
+          {
+            ...call,
+            durationMs: sample.durationMs,
+            error: describeError(error),
+            timestamp: Date.now(),
+          },
+        ].slice(-DIAGNOSTICS_RECENT_FAILURES_LIMIT)
+
+    return {
+      methods: {
+        ...state.methods,
+        [key]: {
+          ...call,
+          samples,
+          totalCalls: (previous?.totalCalls ?? 0) + 1,
+          totalFailures: (previous?.totalFailures ?? 0) + (sample.ok ? 0 : 1),
+        },
+      },
+      inFlight,
+      recentFailures,
+    }
+  })
+}
+
+/**
+ * Wrap an HRPC instance so its asynchronous calls are recorded in the
+ * diagnostics store. Synchronous members (event registration, cleanup
+ * helpers) pass through untouched.
+ */
+export function instrumentHrpc<T extends object>(hrpc: T): T {
+  const wrappers = new Map<string, (...args: unknown[]) => unknown>()
+
+  const instrumented = new Proxy(hrpc, {
+    get(target, prop) {
+      const value: unknown = Reflect.get(target, prop, target)
+      if (typeof prop !== 'string' || typeof value !== 'function') {
+        return value
+      }
+
+      const cached = wrappers.get(prop)
+      if (cached) {
+        return cached
+      }
+
+      const wrapper = (...args: unknown[]): unknown => {
+        const startedAt = Date.now()
+        const result: unknown = value.apply(target, args)
+        if (!isPromiseLike(result)) {
+          return result
+        }
+
+        const call = describeCall(prop, args[0])
+        const requestBytes = payloadSize(args[0])
+        const callId = nextCallId++
+        recordStart(callId, call)
+
+        return Promise.resolve(result).then(
+          (response) => {
+            recordEnd(callId, call, {
+              durationMs: Date.now() - startedAt,
+              requestBytes,
+              responseBytes: payloadSize(response),
+              ok: true,
+            })
+            return response
+          },
+          (error: unknown) => {
+            recordEnd(
+              callId,
+              call,
+              {
+                durationMs: Date.now() - startedAt,
+                requestBytes,
+                responseBytes: 0,
+                ok: false,
+              },
+              error,
+            )
+            throw error
+          },
+        )
+      }
+
+      wrappers.set(prop, wrapper)
+      return wrapper
+    },
+  })
+  uninstrumentedInstances.set(instrumented, hrpc)
+  return instrumented
+}
+
+/**
+ * The HRPC instance behind an instrumented one, for internal traffic (such
+ * as heartbeats) that must not show up in the diagnostics
+ */
+export function getUninstrumentedHrpc<T extends object>(hrpc: T): T {
+  return (uninstrumentedInstances.get(hrpc) as T | undefined) ?? hrpc
+}
+
+/**
+ * Forget calls still in flight, e.g. when the worklet they were sent to is
+ * torn down and will never answer. Recorded metrics are kept.
+ */
+export function clearInFlightCalls(): void {
+  getDiagnosticsStore().setState({ inFlight: {} })
+}
+
+/**
+ * Drop all recorded metrics
+ */
+export function resetDiagnostics(): void {
+  getDiagnosticsStore().setState({ methods: {}, inFlight: {}, recentFailures: [] })
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null
+  }
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? null
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) {
+    return 0
+  }
+  return Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+}
+
+/**
+ * Summarize diagnostics state into per-method percentiles
+ */
+export function getDiagnosticsSnapshot(state: DiagnosticsState): WdkDiagnosticsSnapshot {
+  const inFlightCalls = Object.values(state.inFlight)
+  const inFlightByKey = new Map<string, { call: CallDescriptor, count: number }>()
+  for (const call of inFlightCalls) {
+    const key = statsKey(call)
+    const entry = inFlightByKey.get(key)
+    inFlightByKey.set(key, { call, count: (entry?.count ?? 0) + 1 })
+  }
+
+  const methods: HrpcMethodDiagnostics[] = Object.entries(state.methods).map(
+    ([key, stats]) => {
+      const durations = stats.samples
+        .map((sample) => sample.durationMs)
+        .sort((a, b) => a - b)
+      return {
+        method: stats.method,
+        network: stats.network,
+        totalCalls: stats.totalCalls,
+        totalFailures: stats.totalFailures,
+        inFlight: inFlightByKey.get(key)?.count ?? 0,
+        p50Ms: percentile(durations, 50),
+        p90Ms: percentile(durations, 90),
+        p99Ms: percentile(durations, 99),
+        avgRequestBytes: average(stats.samples.map((s) => s.requestBytes)),
+        avgResponseBytes: average(stats.samples.map((s) => s.responseBytes)),
+      }
+    },
+  )
+
+  // A method's first call has no stats entry until it settles.
+  for (const [key, { call, count }] of inFlightByKey) {
+    if (!state.methods[key]) {
+      methods.push({
+        method: call.method,
+        network: call.network,
+        totalCalls: 0,
+        totalFailures: 0,
+        inFlight: count,
+        p50Ms: null,
+        p90Ms: null,
+        p99Ms: null,
+        avgRequestBytes: 0,
+        avgResponseBytes: 0,
+      })
+    }
+  }
+
+  methods.sort((a, b) => (b.p90Ms ?? -1) - (a.p90Ms ?? -1))
+
+  return {
+    methods,
+    inFlight: inFlightCalls.length,
+    recentFailures: [...state.recentFailures].reverse(),
+  }
+}
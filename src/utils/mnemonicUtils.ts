@@ -14,36 +14,272 @@
 
 /**
  * Mnemonic utility functions
+ *
+ * BIP-39 validation against the official wordlists (word count, words and
+ * checksum), with nearest-word suggestions for typos. Runs in JS, so a
+ * restore screen can check input without a worklet round trip.
  */
 
+import { validateMnemonic as validateBip39Checksum } from '@scure/bip39'
+import { wordlist as czech } from '@scure/bip39/wordlists/czech'
+import { wordlist as english } from '@scure/bip39/wordlists/english'
+import { wordlist as french } from '@scure/bip39/wordlists/french'
+import { wordlist as italian } from '@scure/bip39/wordlists/italian'
+import { wordlist as japanese } from '@scure/bip39/wordlists/japanese'
+import { wordlist as korean } from '@scure/bip39/wordlists/korean'
+import { wordlist as portuguese } from '@scure/bip39/wordlists/portuguese'
+import { wordlist as chineseSimplified } from '@scure/bip39/wordlists/simplified-chinese'
+import { wordlist as spanish } from '@scure/bip39/wordlists/spanish'
+import { wordlist as chineseTraditional } from '@scure/bip39/wordlists/traditional-chinese'
+
+export type MnemonicLanguage =
+  | 'english'
+  | 'japanese'
+  | 'korean'
+  | 'spanish'
+  | 'chinese_simplified'
+  | 'chinese_traditional'
+  | 'french'
+  | 'italian'
+  | 'czech'
+  | 'portuguese'
+
 /**
- * Validate a mnemonic phrase
- * 
- * @param mnemonic - The mnemonic phrase to validate
- * @returns true if the mnemonic is valid (12 or 24 words, all non-empty)
- * 
+ * Official BIP-39 wordlists, in detection priority order
+ */
+const WORDLISTS: Record<MnemonicLanguage, readonly string[]> = {
+  english,
+  japanese,
+  korean,
+  spanish,
+  chinese_simplified: chineseSimplified,
+  chinese_traditional: chineseTraditional,
+  french,
+  italian,
+  czech,
+  portuguese,
+}
+
+export const MNEMONIC_LANGUAGES = Object.keys(WORDLISTS) as MnemonicLanguage[]
+
+/** Word counts BIP-39 allows (128 to 256 bits of entropy) */
+export const VALID_MNEMONIC_WORD_COUNTS: readonly number[] = [12, 15, 18, 21, 24]
+
+const DEFAULT_SUGGESTION_LIMIT = 3
+
+const wordSets = new Map<MnemonicLanguage, Set<string>>()
+
+function wordSet(language: MnemonicLanguage): Set<string> {
+  let set = wordSets.get(language)
+  if (!set) {
+    set = new Set(WORDLISTS[language])
+    wordSets.set(language, set)
+  }
+  return set
+}
+
+export type MnemonicValidationError =
+  | 'empty'
+  | 'invalid_word_count'
+  | 'invalid_words'
+  | 'invalid_checksum'
+
+export interface InvalidMnemonicWord {
+  /** Zero-based position in the phrase */
+  index: number
+  word: string
+  /** Closest words from the wordlist, best first */
+  suggestions: string[]
+}
+
+export interface MnemonicValidationResult {
+  valid: boolean
+  /** Why the phrase is invalid; null when valid */
+  error: MnemonicValidationError | null
+  /** The wordlist the phrase was checked against; null for an empty phrase */
+  language: MnemonicLanguage | null
+  wordCount: number
+  /** Words not in the wordlist, with suggestions */
+  invalidWords: InvalidMnemonicWord[]
+}
+
+export interface MnemonicValidationOptions {
+  /**
+   * Wordlist(s) to accept. Defaults to all official lists, picking the one
+   * that matches the most words.
+   */
+  language?: MnemonicLanguage | MnemonicLanguage[]
+  /** Suggestions per invalid word (default: 3) */
+  suggestionLimit?: number
+}
+
+/**
+ * NFKD, lowercase and single spaces (also for the ideographic space used
+ * by Japanese phrases), as BIP-39 expects
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').toLowerCase().trim().split(/\s+/).filter(Boolean).join(' ')
+}
+
+function toLanguages(language?: MnemonicLanguage | MnemonicLanguage[]): MnemonicLanguage[] {
+  if (!language) {
+    return MNEMONIC_LANGUAGES
+  }
+  return Array.isArray(language) ? language : [language]
+}
+
+/**
+ * The candidate wordlist matching the most words; the first one on ties
+ */
+function detectLanguage(words: string[], languages: MnemonicLanguage[]): MnemonicLanguage {
+  let best = languages[0] ?? 'english'
+  let bestMatches = -1
+  for (const language of languages) {
+    const set = wordSet(language)
+    const matches = words.filter((word) => set.has(word)).length
+    if (matches > bestMatches) {
+      best = language
+      bestMatches = matches
+    }
+  }
+  return best
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let distance = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2]! + 1)
+      }
+      current[j] = distance
+      rowMin = Math.min(rowMin, distance)
+    }
+    if (rowMin > max) {
+      return max + 1
+    }
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+/**
+ * Closest wordlist entries to a (mistyped or partial) word: words it is a
+ * prefix of come first, then words within two edits (one for inputs of up
+ * to three letters)
+ *
  * @example
- * ```ts
- * validateMnemonic("word1 word2 ... word12") // true
- * validateMnemonic("word1 word2 ... word24") // true
- * validateMnemonic("word1 word2") // false (too few words)
- * ```
+ * suggestMnemonicWords('abandn') // ['abandon']
+ * suggestMnemonicWords('zo')     // ['zone', 'zoo']
  */
-export function validateMnemonic(mnemonic: string): boolean {
-  const trimmed = mnemonic.trim()
-  
-  // Normalize whitespace first (multiple spaces become single spaces)
-  // This handles cases like "word1  word2" where multiple spaces should be normalized
-  const normalized = trimmed.replace(/\s+/g, ' ')
-  
-  // Split and validate
-  const words = normalized.split(' ')
-  const validLengths = [12, 24]
-  
-  // Check word count and that all words are non-empty
-  return validLengths.includes(words.length) && words.every(word => word.length > 0)
+export function suggestMnemonicWords(
+  word: string,
+  options: { language?: MnemonicLanguage, limit?: number } = {},
+): string[] {
+  const input = normalizeMnemonic(word)
+  const limit = options.limit ?? DEFAULT_SUGGESTION_LIMIT
+  if (!input || input.includes(' ') || limit <= 0) {
+    return []
+  }
+
+  const wordlist = WORDLISTS[options.language ?? 'english']
+  const maxDistance = input.length <= 3 ? 1 : 2
+  const ranked: { word: string, rank: number }[] = []
+  for (const candidate of wordlist) {
+    if (candidate === input) {
+      return [candidate]
+    }
+    if (candidate.startsWith(input)) {
+      ranked.push({ word: candidate, rank: 0 })
+      continue
+    }
+    const distance = editDistance(input, candidate, maxDistance)
+    if (distance <= maxDistance) {
+      ranked.push({ word: candidate, rank: distance })
+    }
+  }
+
+  // Stable sort keeps wordlist (alphabetical) order within a rank
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ word: suggestion }) => suggestion)
 }
 
+/**
+ * Validate a mnemonic phrase against the BIP-39 wordlists, with details
+ * on what is wrong
+ *
+ * @example
+ * ```ts
+ * const result = validateMnemonicDetailed(input)
+ * if (result.error === 'invalid_words') {
+ *   result.invalidWords.forEach(({ index, suggestions }) => markWord(index, suggestions))
+ * }
+ * ```
+ */
+export function validateMnemonicDetailed(
+  mnemonic: string,
+  options: MnemonicValidationOptions = {},
+): MnemonicValidationResult {
+  const normalized = normalizeMnemonic(mnemonic)
+  const words = normalized ? normalized.split(' ') : []
+  if (words.length === 0) {
+    return { valid: false, error: 'empty', language: null, wordCount: 0, invalidWords: [] }
+  }
 
+  const language = detectLanguage(words, toLanguages(options.language))
+  const set = wordSet(language)
+  const invalidWords = words.flatMap((word, index) =>
+    set.has(word)
+      ? []
+      : [{
+          index,
+          word,
+          suggestions: suggestMnemonicWords(word, { language, limit: options.suggestionLimit }),
+        }],
+  )
 
+  const result = { language, wordCount: words.length, invalidWords }
+  if (invalidWords.length > 0) {
+    return { valid: false, error: 'invalid_words', ...result }
+  }
+  if (!VALID_MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return { valid: false, error: 'invalid_word_count', ...result }
+  }
+  if (!validateBip39Checksum(normalized, WORDLISTS[language] as string[])) {
+    return { valid: false, error: 'invalid_checksum', ...result }
+  }
+  return { valid: true, error: null, ...result }
+}
 
+/**
+ * Validate a mnemonic phrase
+ *
+ * @param mnemonic - The mnemonic phrase to validate
+ * @returns true if the phrase is a valid BIP-39 mnemonic: 12, 15, 18, 21 or
+ * 24 words from one official wordlist, with a correct checksum
+ *
+ * @example
+ * ```ts
+ * validateMnemonic('abandon abandon ... abandon about') // true
+ * validateMnemonic('abandon abandon ... abandon abandon') // false (checksum)
+ * validateMnemonic('word1 word2') // false
+ * ```
+ */
+export function validateMnemonic(mnemonic: string, options?: MnemonicValidationOptions): boolean {
+  return validateMnemonicDetailed(mnemonic, options).valid
+}
@@ -184,6 +184,29 @@ export async function withOperationMutex<T>(
   }
 }
 
+/**
+ * Resolve once no wallet operation holds the mutex
+ *
+ * Useful for background work that should run after, not fail against, a
+ * user-initiated operation. Note that another operation may still grab the
+ * mutex before the caller does.
+ */
+export function waitForOperationIdle(): Promise<void> {
+  const walletStore = getWalletStore()
+  if (!walletStore.getState().isOperationInProgress) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve) => {
+    const unsubscribe = walletStore.subscribe((state) => {
+      if (!state.isOperationInProgress) {
+        unsubscribe()
+        resolve()
+      }
+    })
+  })
+}
+
 /**
  * Check if an operation is currently in progress
  */
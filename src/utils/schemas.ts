@@ -175,6 +175,121 @@ export const workletResponseSchema = z.object({
   error: z.string().optional(),
 })
 
+/**
+ * Handshake part of a workletStart response. Bundles built before the
+ * handshake existed send none of these fields.
+ */
+export const workletHandshakeSchema = z.object({
+  protocolVersion: z.number().int().nonnegative(),
+  bundleVersion: z.string().optional(),
+  capabilities: z.object({
+    rpcs: z.array(z.string()).optional(),
+    networks: z.array(z.string()).optional(),
+    protocols: z.array(z.string()).optional(),
+    modules: z.array(z.string()).optional(),
+    features: z.array(z.string()).optional(),
+  }).optional(),
+}).passthrough()
+
+const hexSchema = z.string().regex(/^([0-9a-f]{2})+$/)
+
+/**
+ * Envelope of a password-encrypted wallet backup (version 1). Check the
+ * version before parsing, so a newer backup reports as unsupported rather
+ * than malformed.
+ */
+export const walletBackupEnvelopeSchema = z.object({
+  format: z.literal('wdk-wallet-backup'),
+  version: z.number().int().positive(),
+  kdf: z.object({
+    name: z.literal('scrypt'),
+    // Capped so a crafted backup can't exhaust memory (at most 256 MiB)
+    N: z.number().int().min(2).max(2 ** 18),
+    r: z.number().int().min(1).max(8),
+    p: z.number().int().min(1).max(16),
+    salt: hexSchema,
+  }),
+  cipher: z.object({
+    name: z.literal('xchacha20-poly1305'),
+    nonce: z.string().regex(/^[0-9a-f]{48}$/),
+  }),
+  ciphertext: hexSchema,
+  createdAt: z.number().int().nonnegative(),
+})
+
+/**
+ * Decrypted contents of a wallet backup
+ */
+export const walletBackupPayloadSchema = z.object({
+  wallets: z.array(z.object({
+    identifier: z.string().min(1),
+    encryptedEntropy: z.string().min(1),
+    passphraseRequired: z.boolean().optional(),
+    accounts: z.array(z.object({
+      accountIndex: accountIndexSchema,
+      addresses: z.record(z.string(), z.string()),
+    })).optional(),
+    metadata: z.object({
+      name: z.string().optional(),
+      icon: z.string().optional(),
+      color: z.string().optional(),
+    }).optional(),
+  }).passthrough()),
+})
+
+/**
+ * Seed returned by getSeedFromEntropy, encrypted under the wallet's key
+ */
+export const encryptedSeedResponseSchema = z.object({
+  encryptedSeedBuffer: z.string().min(1),
+})
+
+/**
+ * Entropy returned by getBackupEntropy, encrypted under the backup key
+ */
+export const backupEntropyResponseSchema = z.object({
+  encryptedBackupEntropy: z.string().min(1),
+})
+
+/**
+ * Credentials of a restored wallet, encrypted under its new key
+ */
+export const encryptedWalletResponseSchema = z.object({
+  encryptionKey: z.string().min(1),
+  encryptedSeedBuffer: z.string().min(1),
+  encryptedEntropyBuffer: z.string().min(1),
+})
+
+/**
+ * Credentials returned by reencryptWallet; the seed only when one was sent
+ */
+export const reencryptedWalletResponseSchema = z.object({
+  encryptionKey: z.string().min(1),
+  encryptedEntropyBuffer: z.string().min(1),
+  encryptedSeedBuffer: z.string().min(1).optional(),
+})
+
+/**
+ * SLIP-39 shares returned by getSharesFromEntropy
+ */
+export const sharesResponseSchema = z.object({
+  shares: z.array(z.string().min(1)).min(1),
+})
+
+/**
+ * validateShares response: the member threshold read from the shares (null
+ * when none parsed), how many distinct shares are valid, and what is wrong
+ * with the others
+ */
+export const shareValidationResponseSchema = z.object({
+  threshold: z.number().int().positive().nullable(),
+  validShares: z.number().int().nonnegative(),
+  invalidShares: z.array(z.object({
+    index: z.number().int().nonnegative(),
+    error: z.string(),
+  })),
+})
+
 /**
  * Balance response schema (numeric string)
  */
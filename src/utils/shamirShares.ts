@@ -0,0 +1,85 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * SLIP-39 share helpers
+ *
+ * Splitting and combining run in the worklet, next to the entropy; this
+ * module only checks split parameters and turns the worklet's validation
+ * report into recovery progress.
+ */
+
+import { shareValidationResponseSchema } from './schemas'
+
+/** SLIP-39 allows at most 16 members in a group */
+export const MAX_SLIP39_SHARES = 16
+
+export interface ShareSplitOptions {
+  /** Shares needed to recover (M) */
+  threshold: number
+  /** Shares to create (N) */
+  shareCount: number
+}
+
+export interface InvalidShare {
+  /** Position in the input */
+  index: number
+  error: string
+}
+
+export interface ShareValidationResult {
+  /** Enough valid shares from one set to recover, and none invalid */
+  complete: boolean
+  /** Shares needed in total; null until one valid share is given */
+  threshold: number | null
+  /** Distinct valid shares given */
+  validShares: number
+  /** How many more valid shares are needed; null while threshold is unknown */
+  remaining: number | null
+  /** Shares that are malformed, duplicated or from another set */
+  invalidShares: InvalidShare[]
+}
+
+/**
+ * @throws if the M-of-N parameters aren't allowed by SLIP-39
+ */
+export function assertShareSplitOptions({ threshold, shareCount }: ShareSplitOptions): void {
+  if (!Number.isInteger(shareCount) || shareCount < 1 || shareCount > MAX_SLIP39_SHARES) {
+    throw new Error(`shareCount must be an integer from 1 to ${MAX_SLIP39_SHARES}`)
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > shareCount) {
+    throw new Error('threshold must be an integer from 1 to shareCount')
+  }
+  // SLIP-39: a 1-of-N split would just be N copies of the secret
+  if (threshold === 1 && shareCount > 1) {
+    throw new Error('A threshold of 1 only allows a single share')
+  }
+}
+
+/**
+ * Read a validateShares response into recovery progress
+ *
+ * @throws if the response is malformed
+ */
+export function toShareValidationResult(response: unknown): ShareValidationResult {
+  const { threshold, validShares, invalidShares } = shareValidationResponseSchema.parse(response)
+  const remaining = threshold === null ? null : Math.max(threshold - validShares, 0)
+  return {
+    complete: remaining === 0 && invalidShares.length === 0,
+    threshold,
+    validShares,
+    remaining,
+    invalidShares,
+  }
+}
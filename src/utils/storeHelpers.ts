@@ -24,6 +24,7 @@ import { getWalletStore } from '../store/walletStore'
 import type { HRPC } from '../types'
 import type { WalletState } from '../store/walletStore'
 import { produce } from 'immer'
+import { WatchOnlyWalletError } from './errors'
 import { logWarn } from './logger'
 
 /**
@@ -60,6 +61,24 @@ export async function requireInitialized(): Promise<HRPC> {
   return latestState.hrpc
 }
 
+/**
+ * Require that the active wallet holds a seed
+ *
+ * @param operation - The method being called, for the error
+ * @throws WatchOnlyWalletError if the active wallet is watch-only
+ */
+export function requireWritableWallet(operation: string): void {
+  const { activeWalletId, walletList } = getWalletStore().getState()
+  if (!activeWalletId) {
+    return
+  }
+
+  const active = walletList.find(({ identifier }) => identifier === activeWalletId)
+  if (active?.watchOnly) {
+    throw new WatchOnlyWalletError(operation, activeWalletId)
+  }
+}
+
 /**
  * Update balance in wallet state (helper for nested state updates)
  *
@@ -0,0 +1,229 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Wallet backup encoding
+ *
+ * A backup is a JSON envelope holding the wallets' entropy and
+ * non-sensitive metadata, encrypted with XChaCha20-Poly1305 under a key
+ * derived from the user's password with scrypt. The envelope header (format,
+ * version, KDF and cipher parameters) is authenticated as associated data,
+ * so it can't be altered to weaken the KDF without failing decryption.
+ *
+ * The same derivation yields a second key, the entropy key, that the worklet
+ * uses to re-encrypt each wallet's entropy (getBackupEntropy) and to open it
+ * again on import (getSeedAndEntropyFromBackup). The entropy is never
+ * plaintext in JS, and the device's own encryption keys never leave the
+ * keychain, so the backup opens on any device.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha'
+import { bytesToUtf8 } from '@noble/ciphers/utils'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils'
+import * as Crypto from 'expo-crypto'
+
+import { WalletBackupError } from './errors'
+import { walletBackupEnvelopeSchema, walletBackupPayloadSchema } from './schemas'
+import type { AccountInfo, WalletMetadata } from '../store/walletStore'
+import type { WalletFingerprint } from './walletFingerprint'
+
+export const WALLET_BACKUP_FORMAT = 'wdk-wallet-backup'
+export const WALLET_BACKUP_VERSION = 1
+
+/** scrypt cost: 2^15 x 8 x 128 bytes = 32 MiB per derivation */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const SALT_LENGTH = 16
+const NONCE_LENGTH = 24
+const KEY_LENGTH = 32
+
+/**
+ * One wallet in a backup
+ */
+export interface WalletBackupEntry {
+  /** walletList identifier */
+  identifier: string
+  /** Entropy encrypted by the worklet under the entropy key */
+  encryptedEntropy: string
+  /** The wallet was created with a BIP-39 passphrase (not included) */
+  passphraseRequired?: boolean
+  /** Known accounts and their addresses */
+  accounts?: AccountInfo[]
+  /** Display metadata; timestamps and origin are per device and not carried */
+  metadata?: Pick<WalletMetadata, 'name' | 'icon' | 'color'>
+}
+
+export interface WalletBackupPayload {
+  wallets: WalletBackupEntry[]
+}
+
+/**
+ * What a backup carries besides the secret
+ */
+export type WalletBackupMetadata = Omit<WalletBackupEntry, 'encryptedEntropy'>
+
+/**
+ * A decrypted backup, with the entropy key its wallets were encrypted under
+ */
+export interface OpenedWalletBackup extends WalletBackupPayload {
+  /** Hex; pass it to getSeedAndEntropyFromBackup */
+  entropyKey: string
+}
+
+export interface WalletBackupImportResult {
+  /** Wallets written to secure storage, with the fingerprint of each seed */
+  restored: (WalletBackupMetadata & { fingerprint?: WalletFingerprint })[]
+  /** Identifiers that already exist on this device; left untouched */
+  skipped: string[]
+  /** Wallets that could not be restored */
+  failed: { identifier: string, error: Error }[]
+}
+
+async function randomBytes(length: number): Promise<Uint8Array> {
+  const bytes = await Crypto.getRandomBytesAsync(length)
+  if (bytes.length !== length) {
+    throw new Error(`Expected ${length} random bytes, got ${bytes.length}`)
+  }
+  return bytes
+}
+
+/**
+ * The envelope key and the entropy key (hex), from one scrypt derivation
+ */
+async function deriveKeys(
+  password: string,
+  kdf: { N: number, r: number, p: number, salt: string },
+): Promise<{ envelopeKey: Uint8Array, entropyKey: string }> {
+  const derived = await scryptAsync(utf8ToBytes(password.normalize('NFKC')), hexToBytes(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_LENGTH * 2,
+  })
+  const envelopeKey = derived.slice(0, KEY_LENGTH)
+  const entropyKey = bytesToHex(derived.subarray(KEY_LENGTH))
+  derived.fill(0)
+  return { envelopeKey, entropyKey }
+}
+
+/**
+ * The authenticated header, serialized in a fixed field order
+ */
+function headerBytes(envelope: {
+  format: string
+  version: number
+  kdf: { name: string, N: number, r: number, p: number, salt: string }
+  cipher: { name: string, nonce: string }
+}): Uint8Array {
+  const { format, version, kdf, cipher } = envelope
+  return utf8ToBytes(JSON.stringify({
+    format,
+    version,
+    kdf: { name: kdf.name, N: kdf.N, r: kdf.r, p: kdf.p, salt: kdf.salt },
+    cipher: { name: cipher.name, nonce: cipher.nonce },
+  }))
+}
+
+/**
+ * Encrypt a backup with a password. `collectWallets` gets the entropy key
+ * and returns the entries, their entropy encrypted under it by the worklet.
+ *
+ * @returns The backup blob (a JSON string)
+ */
+export async function encryptWalletBackup(
+  password: string,
+  collectWallets: (entropyKey: string) => Promise<WalletBackupEntry[]>,
+): Promise<string> {
+  if (!password) {
+    throw new Error('A password is required to encrypt a wallet backup')
+  }
+
+  const salt = bytesToHex(await randomBytes(SALT_LENGTH))
+  const nonce = bytesToHex(await randomBytes(NONCE_LENGTH))
+  const kdf = { name: 'scrypt' as const, ...SCRYPT_PARAMS, salt }
+  const cipher = { name: 'xchacha20-poly1305' as const, nonce }
+  const header = { format: WALLET_BACKUP_FORMAT, version: WALLET_BACKUP_VERSION, kdf, cipher }
+
+  const { envelopeKey, entropyKey } = await deriveKeys(password, kdf)
+  let ciphertext: Uint8Array
+  try {
+    const payload: WalletBackupPayload = { wallets: await collectWallets(entropyKey) }
+    ciphertext = xchacha20poly1305(envelopeKey, hexToBytes(nonce), headerBytes(header))
+      .encrypt(utf8ToBytes(JSON.stringify(payload)))
+  } finally {
+    envelopeKey.fill(0)
+  }
+
+  return JSON.stringify({
+    ...header,
+    ciphertext: bytesToHex(ciphertext),
+    createdAt: Date.now(),
+  })
+}
+
+/**
+ * Decrypt a backup blob. The wallets' entropy stays encrypted under the
+ * returned entropy key.
+ *
+ * @throws WalletBackupError if the blob is malformed, from a newer version,
+ * or the password is wrong
+ */
+export async function decryptWalletBackup(
+  blob: string,
+  password: string,
+): Promise<OpenedWalletBackup> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(blob)
+  } catch {
+    throw new WalletBackupError('invalid_format', 'Wallet backup is not valid JSON')
+  }
+
+  const version = (raw as { version?: unknown } | null)?.version
+  if (typeof version === 'number' && version > WALLET_BACKUP_VERSION) {
+    throw new WalletBackupError(
+      'unsupported_version',
+      `Wallet backup version ${version} is newer than the supported version ${WALLET_BACKUP_VERSION}`,
+    )
+  }
+
+  const envelope = walletBackupEnvelopeSchema.safeParse(raw)
+  if (!envelope.success || envelope.data.version !== WALLET_BACKUP_VERSION) {
+    throw new WalletBackupError('invalid_format', 'Not a wallet backup')
+  }
+
+  const { kdf, cipher, ciphertext } = envelope.data
+  const { envelopeKey, entropyKey } = await deriveKeys(password, kdf)
+  let plaintext: Uint8Array
+  try {
+    plaintext = xchacha20poly1305(envelopeKey, hexToBytes(cipher.nonce), headerBytes(envelope.data))
+      .decrypt(hexToBytes(ciphertext))
+  } catch {
+    throw new WalletBackupError('wrong_password', 'Wrong password, or the backup was modified')
+  } finally {
+    envelopeKey.fill(0)
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(bytesToUtf8(plaintext))
+  } catch {
+    payload = null
+  }
+  const parsed = walletBackupPayloadSchema.safeParse(payload)
+  if (!parsed.success) {
+    throw new WalletBackupError('invalid_format', 'Wallet backup contents are malformed')
+  }
+  return { ...parsed.data, entropyKey }
+}
@@ -0,0 +1,89 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Wallet Fingerprint
+ *
+ * A non-secret identifier for the seed behind a wallet: per network, the
+ * SHA-256 of the first account's address on that network. Two wallet IDs
+ * whose fingerprints agree on every network they share hold the same seed
+ * (and passphrase), so adding or removing a network doesn't break the
+ * comparison.
+ */
+
+import * as Crypto from 'expo-crypto'
+
+import { getWalletStore } from '../store/walletStore'
+
+/**
+ * Fingerprint of a seed, by network: lowercase hex SHA-256 of
+ * `<network>:<account 0 address>`
+ */
+export type WalletFingerprint = Record<string, string>
+
+/**
+ * Fingerprint of a set of account 0 addresses (network -> address). Null
+ * when there are no addresses.
+ */
+export async function computeWalletFingerprint(
+  addresses: Record<string, string>,
+): Promise<WalletFingerprint | null> {
+  const networks = Object.keys(addresses).sort()
+  if (networks.length === 0) {
+    return null
+  }
+
+  const fingerprint: WalletFingerprint = {}
+  for (const network of networks) {
+    const digest = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      `${network}:${addresses[network]}`,
+    )
+    fingerprint[network] = digest.toLowerCase()
+  }
+  return fingerprint
+}
+
+/**
+ * Whether two fingerprints are of the same seed: they share at least one
+ * network and agree on every network they share
+ */
+export function fingerprintsMatch(a: WalletFingerprint, b: WalletFingerprint): boolean {
+  const shared = Object.keys(a).filter((network) => network in b)
+  return shared.length > 0 && shared.every((network) => a[network] === b[network])
+}
+
+/**
+ * The wallet whose metadata carries a matching fingerprint, other than
+ * walletId
+ *
+ * @param extra - Fingerprints not in the store yet (walletId -> fingerprint)
+ */
+export function findWalletByFingerprint(
+  fingerprint: WalletFingerprint,
+  walletId?: string,
+  extra: Record<string, WalletFingerprint> = {},
+): string | null {
+  const { walletMetadata, tempWalletId } = getWalletStore().getState()
+  const known = Object.entries(walletMetadata)
+    .filter(([id]) => id !== tempWalletId)
+    .flatMap(([id, metadata]) => (metadata.fingerprint ? [[id, metadata.fingerprint] as const] : []))
+
+  for (const [id, candidate] of [...known, ...Object.entries(extra)]) {
+    if (id !== walletId && fingerprintsMatch(candidate, fingerprint)) {
+      return id
+    }
+  }
+  return null
+}
@@ -0,0 +1,51 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Wallet Lock
+ *
+ * The single lock path shared by useWalletManager.lock() and the auto-lock
+ * subsystem. Callers are responsible for holding the operation mutex.
+ */
+
+import { MnemonicRevealService } from '../services/mnemonicRevealService'
+import { WorkletLifecycleService } from '../services/workletLifecycleService'
+import { getWalletStore } from '../store/walletStore'
+import { log } from './logger'
+
+/**
+ * Lock the active wallet: drop the seed from the worklet and clear the
+ * active wallet ID. Reveal sessions end either way; otherwise a no-op when
+ * no wallet is active.
+ *
+ * @returns The walletId that was locked, or null if nothing was active
+ */
+export function lockActiveWallet(): string | null {
+  const walletStore = getWalletStore()
+  const { activeWalletId } = walletStore.getState()
+
+  MnemonicRevealService.endAll()
+  if (!activeWalletId) {
+    return null
+  }
+
+  WorkletLifecycleService.reset()
+  walletStore.setState({
+    activeWalletId: null,
+    walletLoadingState: { type: 'not_loaded' },
+  })
+  log('[walletLock] Locked wallet and cleared active wallet ID')
+
+  return activeWalletId
+}
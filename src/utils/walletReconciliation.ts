@@ -0,0 +1,210 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Wallet Reconciliation
+ *
+ * walletList and per-wallet data are persisted in MMKV while seeds live in
+ * SecureStorage, and the two drift apart (app reinstall keeping the
+ * keychain, failed deletes, restored device backups). This compares them
+ * and optionally repairs the MMKV side. Callers are responsible for
+ * holding the operation mutex.
+ */
+
+import { produce } from 'immer'
+
+import { WalletSetupService } from '../services/walletSetupService'
+import { getWalletStore, type WalletInfo, type WalletState } from '../store/walletStore'
+import { DEFAULT_WALLET_IDENTIFIER } from './constants'
+import { log, logError } from './logger'
+
+export interface UnreadableWallet {
+  walletId: string
+  error: string
+}
+
+/**
+ * What reconcileWallets found, and what it repaired
+ */
+export interface WalletReconciliationReport {
+  /** In secure storage but not in walletList */
+  untracked: string[]
+  /** In walletList but with nothing in secure storage */
+  missing: string[]
+  /** Addresses, balances, accounts or metadata kept for unknown wallets */
+  orphaned: string[]
+  /** Stored entries that can't be read or are incomplete */
+  unreadable: UnreadableWallet[]
+  /** Wallet IDs whose MMKV or secure storage entries were changed */
+  repaired: string[]
+}
+
+export interface ReconcileWalletsOptions {
+  /**
+   * Add untracked wallets to walletList and drop orphaned data; defaults to
+   * report only
+   */
+  repair?: boolean
+  /**
+   * With repair, also remove missing wallets from walletList along with
+   * their metadata, accounts, addresses and watch-only entries
+   */
+  removeMissing?: boolean
+  /** With repair, also delete unreadable secure storage entries */
+  removeUnreadable?: boolean
+  /**
+   * Extra wallet IDs to probe; secure storage can't always list what it
+   * holds, so wallets nothing in MMKV mentions are only found this way
+   */
+  knownWalletIds?: string[]
+}
+
+/** Per-wallet records in WalletState, keyed by walletId */
+const WALLET_DATA_KEYS = [
+  'addresses',
+  'walletLoading',
+  'balances',
+  'balanceLoading',
+  'lastBalanceUpdate',
+  'accountList',
+  'walletMetadata',
+  'watchOnlyWallets',
+] as const
+
+/** Records that only exist for a wallet that was set up */
+const ORPHAN_DATA_KEYS = [
+  'addresses',
+  'balances',
+  'lastBalanceUpdate',
+  'accountList',
+  'walletMetadata',
+] as const
+
+function dropWalletData(state: WalletState, walletId: string): void {
+  for (const key of WALLET_DATA_KEYS) {
+    delete state[key][walletId]
+  }
+}
+
+/**
+ * Compare the persisted wallet list and per-wallet data with what secure
+ * storage holds
+ */
+export async function reconcileWallets(
+  options: ReconcileWalletsOptions = {},
+): Promise<WalletReconciliationReport> {
+  const walletStore = getWalletStore()
+  const state = walletStore.getState()
+  const { tempWalletId, activeWalletId } = state
+
+  const listed = new Map(state.walletList.map((wallet) => [wallet.identifier, wallet]))
+  const withData = new Set(ORPHAN_DATA_KEYS.flatMap((key) => Object.keys(state[key])))
+  const watched = new Set([
+    ...Object.keys(state.watchOnlyWallets),
+    ...state.walletList.filter((wallet) => wallet.watchOnly).map((wallet) => wallet.identifier),
+  ])
+
+  const candidates = [
+    ...new Set([
+      ...listed.keys(),
+      ...withData,
+      DEFAULT_WALLET_IDENTIFIER,
+      ...(options.knownWalletIds ?? []),
+    ]),
+  ].filter((walletId) => !watched.has(walletId) && walletId !== tempWalletId)
+
+  const stored = await WalletSetupService.inspectStoredWallets(candidates)
+  const byId = new Map(stored.map((status) => [status.walletId, status]))
+
+  const report: WalletReconciliationReport = {
+    untracked: [],
+    missing: [],
+    orphaned: [],
+    unreadable: [],
+    repaired: [],
+  }
+
+  for (const status of stored) {
+    if (watched.has(status.walletId) || status.walletId === tempWalletId) {
+      continue
+    }
+    if (status.state === 'unreadable') {
+      report.unreadable.push({
+        walletId: status.walletId,
+        error: status.error ?? 'Unreadable',
+      })
+    } else if (status.state === 'ok' && !listed.has(status.walletId)) {
+      report.untracked.push(status.walletId)
+    } else if (status.state === 'absent' && listed.has(status.walletId)) {
+      report.missing.push(status.walletId)
+    }
+  }
+
+  for (const walletId of withData) {
+    const known =
+      listed.has(walletId) ||
+      watched.has(walletId) ||
+      walletId === tempWalletId ||
+      byId.get(walletId)?.state === 'ok'
+    if (!known) {
+      report.orphaned.push(walletId)
+    }
+  }
+
+  if (!options.repair) {
+    return report
+  }
+
+  const removedFromStorage: string[] = []
+  if (options.removeUnreadable) {
+    for (const { walletId } of report.unreadable) {
+      if (walletId === activeWalletId) continue
+      try {
+        await WalletSetupService.removeStoredWallet(walletId)
+        removedFromStorage.push(walletId)
+      } catch (error) {
+        logError(`[walletReconciliation] Failed to remove unreadable wallet ${walletId}:`, error)
+      }
+    }
+  }
+
+  // The active wallet is loaded, whatever storage says; leave it alone
+  const dropped = [...(options.removeMissing ? report.missing : []), ...removedFromStorage].filter(
+    (walletId) => walletId !== activeWalletId,
+  )
+  const orphaned = report.orphaned.filter(
+    (walletId) => walletId !== activeWalletId && !dropped.includes(walletId),
+  )
+
+  walletStore.setState((prev) =>
+    produce(prev, (draft) => {
+      draft.walletList = draft.walletList.filter(
+        (wallet) => !dropped.includes(wallet.identifier),
+      )
+      for (const walletId of report.untracked) {
+        const entry: WalletInfo = { identifier: walletId, exists: true }
+        if (byId.get(walletId)?.passphraseRequired) entry.passphraseRequired = true
+        draft.walletList.push(entry)
+      }
+      for (const walletId of [...dropped, ...orphaned]) {
+        dropWalletData(draft, walletId)
+      }
+    }),
+  )
+
+  report.repaired = [...new Set([...report.untracked, ...dropped, ...orphaned])]
+  log('[walletReconciliation] Repaired wallets:', report.repaired)
+
+  return report
+}
@@ -0,0 +1,226 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Worklet Capabilities
+ *
+ * Reads the handshake a bundle returns from workletStart (protocol version
+ * plus the RPCs, networks, protocols, modules and features it ships) and
+ * checks it against this core and the app's wdkConfigs.
+ */
+
+import type { WdkConfigs } from '../types'
+import {
+  MAX_WORKLET_PROTOCOL_VERSION,
+  MIN_WORKLET_PROTOCOL_VERSION,
+  REQUIRED_WORKLET_RPCS,
+} from './constants'
+import { BundleIncompatibleError, UnsupportedByBundleError } from './errors'
+import { workletHandshakeSchema } from './schemas'
+
+/**
+ * What the running bundle reported about itself
+ */
+export interface WdkCapabilities {
+  protocolVersion: number
+  /** Bundle version, when the bundle reports one */
+  bundleVersion: string | null
+  /** RPC names; null when the bundle doesn't list them */
+  rpcs: string[] | null
+  /** Registered networks (blockchains); null when not listed */
+  networks: string[] | null
+  /** Registered protocols; null when not listed */
+  protocols: string[] | null
+  /** Registered modules; null when not listed */
+  modules: string[] | null
+  /** Optional request fields the RPCs accept; null when not listed */
+  features: string[] | null
+}
+
+/**
+ * Read the handshake from a workletStart response
+ *
+ * @returns null for bundles that predate the handshake
+ * @throws BundleIncompatibleError when the handshake is malformed
+ */
+export function parseWorkletHandshake(result: unknown): WdkCapabilities | null {
+  if (
+    !result ||
+    typeof result !== 'object' ||
+    !('protocolVersion' in result)
+  ) {
+    return null
+  }
+
+  const parsed = workletHandshakeSchema.safeParse(result)
+  if (!parsed.success) {
+    throw new BundleIncompatibleError(
+      'invalid_handshake',
+      `Worklet bundle sent an invalid handshake: ${parsed.error.message}`,
+    )
+  }
+
+  const { protocolVersion, bundleVersion, capabilities } = parsed.data
+  return {
+    protocolVersion,
+    bundleVersion: bundleVersion ?? null,
+    rpcs: capabilities?.rpcs ?? null,
+    networks: capabilities?.networks ?? null,
+    protocols: capabilities?.protocols ?? null,
+    modules: capabilities?.modules ?? null,
+    features: capabilities?.features ?? null,
+  }
+}
+
+/**
+ * Config entries (as `networks.<key>`, `protocols.<key>`, `modules.<key>`)
+ * the bundle doesn't register. Lists the bundle doesn't report aren't
+ * checked.
+ */
+export function findUnsupportedConfig(
+  capabilities: WdkCapabilities,
+  wdkConfigs: WdkConfigs,
+): string[] {
+  const unsupported: string[] = []
+
+  const check = (
+    section: 'networks' | 'protocols' | 'modules',
+    registered: string[] | null,
+    entries: Record<string, unknown> | undefined,
+    aliasOf: (entry: unknown) => unknown,
+  ) => {
+    if (!registered || !entries) {
+      return
+    }
+    for (const [key, entry] of Object.entries(entries)) {
+      const alias = aliasOf(entry)
+      if (!registered.includes(key) && !(typeof alias === 'string' && registered.includes(alias))) {
+        unsupported.push(`${section}.${key}`)
+      }
+    }
+  }
+
+  // Networks may be registered under their config key or their blockchain
+  check('networks', capabilities.networks, wdkConfigs.networks, (entry) =>
+    (entry as { blockchain?: unknown } | undefined)?.blockchain,
+  )
+  check('protocols', capabilities.protocols, wdkConfigs.protocols, (entry) =>
+    (entry as { protocolName?: unknown } | undefined)?.protocolName,
+  )
+  check('modules', capabilities.modules, wdkConfigs.modules, () => undefined)
+
+  return unsupported
+}
+
+/**
+ * Refuse a bundle this core can't drive, or that lacks what wdkConfigs uses
+ *
+ * @throws BundleIncompatibleError
+ */
+export function assertBundleCompatible(
+  capabilities: WdkCapabilities,
+  wdkConfigs: WdkConfigs,
+): void {
+  const { protocolVersion, rpcs } = capabilities
+  if (
+    protocolVersion < MIN_WORKLET_PROTOCOL_VERSION ||
+    protocolVersion > MAX_WORKLET_PROTOCOL_VERSION
+  ) {
+    throw new BundleIncompatibleError(
+      'protocol_version',
+      `Worklet bundle speaks protocol v${protocolVersion}; this core supports ` +
+        `v${MIN_WORKLET_PROTOCOL_VERSION}-v${MAX_WORKLET_PROTOCOL_VERSION}. ` +
+        'Rebuild the bundle with a matching wdk-worklet-bundler.',
+    )
+  }
+
+  if (rpcs) {
+    const missing = REQUIRED_WORKLET_RPCS.filter((rpc) => !rpcs.includes(rpc))
+    if (missing.length > 0) {
+      throw new BundleIncompatibleError(
+        'missing_rpcs',
+        `Worklet bundle is missing required RPCs: ${missing.join(', ')}`,
+        missing,
+      )
+    }
+  }
+
+  const unsupported = findUnsupportedConfig(capabilities, wdkConfigs)
+  if (unsupported.length > 0) {
+    throw new BundleIncompatibleError(
+      'unsupported_config',
+      `Worklet bundle does not include: ${unsupported.join(', ')}. ` +
+        'Add them to wdk.config.js and regenerate the bundle.',
+      unsupported,
+    )
+  }
+}
+
+/**
+ * Refuse a call the running bundle reports it can't serve. Bundles that
+ * don't list their RPCs are not refused here.
+ *
+ * @throws UnsupportedByBundleError
+ */
+export function assertRpcSupported(
+  capabilities: WdkCapabilities | null,
+  rpc: string,
+): void {
+  if (capabilities?.rpcs && !capabilities.rpcs.includes(rpc)) {
+    throw new UnsupportedByBundleError(rpc)
+  }
+}
+
+/**
+ * Whether the running bundle lists an RPC. Bundles that don't list their
+ * RPCs don't have it.
+ */
+export function bundleHasRpc(
+  capabilities: WdkCapabilities | null,
+  rpc: string,
+): boolean {
+  return capabilities?.rpcs?.includes(rpc) ?? false
+}
+
+/**
+ * Refuse a call to an RPC newer than the pinned bundle unless the running
+ * bundle lists it. Unlike assertRpcSupported, bundles that don't list their
+ * RPCs are refused too.
+ *
+ * @throws UnsupportedByBundleError
+ */
+export function assertBundleHasRpc(
+  capabilities: WdkCapabilities | null,
+  rpc: string,
+): void {
+  if (!bundleHasRpc(capabilities, rpc)) {
+    throw new UnsupportedByBundleError(rpc)
+  }
+}
+
+/**
+ * Refuse to send a request field newer than the pinned bundle unless the
+ * running bundle lists it. Bundles that don't list their features are
+ * refused.
+ *
+ * @throws UnsupportedByBundleError
+ */
+export function assertBundleHasFeature(
+  capabilities: WdkCapabilities | null,
+  feature: string,
+): void {
+  if (!capabilities?.features?.includes(feature)) {
+    throw new UnsupportedByBundleError(feature)
+  }
+}
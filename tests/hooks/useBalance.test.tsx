@@ -95,6 +95,8 @@ const mockInitialWalletState: WalletState = {
   lastBalanceUpdate: {},
   accountList: {},
   walletList: [],
+  walletMetadata: {},
+  watchOnlyWallets: {},
   activeWalletId: 'mock-active-wallet',
   walletLoadingState: { type: 'not_loaded' },
   isOperationInProgress: false,
@@ -114,6 +116,13 @@ const mockInitialWorkletState: WorkletStore = {
   workletStartResult: null,
   wdkInitResult: null,
   wdkConfigs: { networks: {} } as WdkConfigs,
+  bundleConfig: null,
+  recovery: null,
+  isShutdown: false,
+  startupStage: null,
+  startupTimings: [],
+  bundleError: null,
+  capabilities: null,
   isWorkletStartedPromise: Promise.resolve(true) as any,
   isWorkletInitializedPromise: Promise.resolve(true) as any,
 };
@@ -19,6 +19,9 @@ import { WalletSetupService } from '../../src/services/walletSetupService';
 import { WorkletLifecycleService } from '../../src/services/workletLifecycleService';
 import { getWalletStore, WalletState, WalletInfo } from '../../src/store/walletStore';
 import { getWorkletStore, WorkletStore } from '../../src/store/workletStore';
+import * as accountDiscovery from '../../src/utils/accountDiscovery';
+import { DuplicateWalletError } from '../../src/utils/errors';
+import type { WdkConfigs } from '../../src/types';
 
 jest.mock('../../src/services/walletSetupService');
 jest.mock('../../src/services/workletLifecycleService');
@@ -49,6 +52,8 @@ const mockInitialWalletState: WalletState = {
   lastBalanceUpdate: {},
   accountList: {},
   walletList: [],
+  walletMetadata: {},
+  watchOnlyWallets: {},
   activeWalletId: null,
   walletLoadingState: { type: 'not_loaded' },
   isOperationInProgress: false,
@@ -91,6 +96,13 @@ const mockInitialWorkletState: WorkletStore = {
   workletStartResult: null,
   wdkInitResult: null,
   wdkConfigs: null,
+  bundleConfig: null,
+  recovery: null,
+  isShutdown: false,
+  startupStage: null,
+  startupTimings: [],
+  bundleError: null,
+  capabilities: null,
   isWorkletStartedPromise: Promise.resolve(true) as any,
   isWorkletInitializedPromise: Promise.resolve(true) as any,
 };
@@ -860,6 +872,650 @@ describe('useWalletManager', () => {
     });
   });
 
+  describe('commitTemporaryWallet', () => {
+    beforeEach(() => {
+      mockWorkletLifecycleService.getSeedAndEntropyFromMnemonic.mockResolvedValue({
+        encryptionKey: 'key',
+        encryptedSeedBuffer: 'seed',
+        encryptedEntropyBuffer: 'ent',
+      });
+    });
+
+    it('should hand the session credentials to the service and keep the wallet ready', async () => {
+      mockWalletSetupService.commitTemporaryWallet.mockResolvedValue({ restored: true, fingerprint: { ethereum: 'abc123' } });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.createTemporaryWallet('temp', 'test mnemonic');
+      });
+      mockWalletStoreInstance.setState({ addresses: { temp: { ethereum: { 0: '0xtemp' } } } });
+      await act(async () => {
+        await result.current.commitTemporaryWallet('temp');
+      });
+
+      expect(mockWalletSetupService.holdTemporaryWallet).toHaveBeenCalledWith('temp', {
+        encryptionKey: 'key',
+        encryptedSeed: 'seed',
+        encryptedEntropy: 'ent',
+        restored: true,
+      });
+      expect(mockWalletSetupService.commitTemporaryWallet).toHaveBeenCalledWith('temp', {});
+      const state = mockWalletStoreInstance.getState();
+      expect(state.tempWalletId).toBeNull();
+      expect(state.activeWalletId).toBe('temp');
+      expect(state.walletList).toEqual([{ identifier: 'temp', exists: true }]);
+      expect(state.addresses.temp).toEqual({ ethereum: { 0: '0xtemp' } });
+      expect(state.walletMetadata.temp).toMatchObject({ origin: 'restored', backedUp: true, fingerprint: { ethereum: 'abc123' } });
+      expect(result.current.status).toBe('UNLOCKED');
+      expect(mockWorkletLifecycleService.reset).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a wallet that is not the active temporary one', async () => {
+      mockWalletStoreInstance.setState({ walletList: [{ identifier: 'main', exists: true }] });
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(
+        act(async () => {
+          await result.current.commitTemporaryWallet('main');
+        }),
+      ).rejects.toThrow('"main" is not the active temporary wallet.');
+      expect(mockWalletSetupService.commitTemporaryWallet).not.toHaveBeenCalled();
+    });
+
+    it('should forget the held session when the temporary wallet is cleared', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.createTemporaryWallet('temp', 'test mnemonic');
+      });
+      act(() => {
+        result.current.clearTemporaryWallet();
+      });
+
+      expect(mockWalletSetupService.discardTemporaryWallet).toHaveBeenCalled();
+    });
+  });
+
+  describe('BIP-39 passphrase', () => {
+    it('should create a passphrase wallet and record that it needs the passphrase', async () => {
+      mockWalletSetupService.hasWallet.mockResolvedValue(false);
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.createWallet('hidden', { passphrase: 'secret words' });
+      });
+
+      expect(mockWalletSetupService.createNewWallet).toHaveBeenCalledWith('hidden', 'secret words');
+      const entry = mockWalletStoreInstance.getState().walletList.find((w: any) => w.identifier === 'hidden');
+      expect(entry).toEqual({ identifier: 'hidden', exists: true, passphraseRequired: true });
+      expect(JSON.stringify(mockWalletStoreInstance.getState())).not.toContain('secret words');
+    });
+
+    it('should restore with a passphrase and keep the flag across wallet list refreshes', async () => {
+      mockWalletSetupService.hasWallet.mockResolvedValueOnce(false).mockResolvedValue(true);
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.restoreWallet('test mnemonic', 'hidden', { passphrase: 'secret words' });
+      });
+      await act(async () => {
+        await result.current.lock();
+      });
+      await act(async () => {
+        await result.current.unlock('hidden', { passphrase: 'secret words' });
+      });
+
+      expect(mockWalletSetupService.initializeFromMnemonic).toHaveBeenCalledWith('test mnemonic', 'hidden', 'secret words');
+      expect(mockWalletSetupService.initializeWallet).toHaveBeenCalledWith({ walletId: 'hidden', passphrase: 'secret words' });
+      expect(result.current.wallets).toEqual([{ identifier: 'hidden', exists: true, passphraseRequired: true }]);
+    });
+
+    it('should pass the passphrase to a temporary wallet', async () => {
+      mockWorkletLifecycleService.getSeedAndEntropyFromMnemonic.mockResolvedValue({
+        encryptionKey: 'key',
+        encryptedSeedBuffer: 'seed',
+        encryptedEntropyBuffer: 'ent'
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.createTemporaryWallet('temp', 'test mnemonic', { passphrase: 'secret words' });
+      });
+
+      expect(mockWorkletLifecycleService.getSeedAndEntropyFromMnemonic).toHaveBeenCalledWith('test mnemonic', 'secret words');
+    });
+  });
+
+  describe('duplicate seeds', () => {
+    it('should keep the fingerprint of a restored wallet in its metadata', async () => {
+      mockWalletSetupService.initializeFromMnemonic.mockResolvedValue({
+        encryptionKey: '',
+        encryptedSeed: '',
+        encryptedEntropy: '',
+        fingerprint: { ethereum: 'abc123' },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.restoreWallet('test mnemonic', 'restored');
+      });
+
+      expect(mockWalletSetupService.initializeFromMnemonic).toHaveBeenCalledWith('test mnemonic', 'restored');
+      expect(result.current.walletMetadata.restored?.fingerprint).toEqual({ ethereum: 'abc123' });
+    });
+
+    it('should pass allowDuplicate through to the service', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.restoreWallet('test mnemonic', 'copy', { allowDuplicate: true });
+      });
+
+      expect(mockWalletSetupService.initializeFromMnemonic).toHaveBeenCalledWith(
+        'test mnemonic',
+        'copy',
+        undefined,
+        { allowDuplicate: true },
+      );
+    });
+
+    it('should surface DuplicateWalletError with the wallet to switch to', async () => {
+      mockWalletSetupService.initializeFromMnemonic.mockRejectedValue(new DuplicateWalletError('main', 'copy'));
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(
+        act(async () => {
+          await result.current.restoreWallet('test mnemonic', 'copy');
+        }),
+      ).rejects.toMatchObject({ code: 'DUPLICATE_WALLET', existingWalletId: 'main' });
+      expect(result.current.wallets).toEqual([]);
+    });
+
+    it('should fingerprint a wallet on unlock when it has none yet', async () => {
+      mockWalletSetupService.getLoadedWalletFingerprint.mockResolvedValueOnce({ ethereum: 'def456' });
+      mockWalletStoreInstance.setState({ walletList: [{ identifier: 'main', exists: true }] });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.unlock('main');
+      });
+
+      expect(result.current.walletMetadata.main?.fingerprint).toEqual({ ethereum: 'def456' });
+    });
+
+    it('should fingerprint networks added since the wallet was last fingerprinted', async () => {
+      mockWorkletStoreInstance.setState({
+        wdkConfigs: { networks: { ethereum: { blockchain: 'ethereum', config: {} }, tron: { blockchain: 'tron', config: {} } } } as WdkConfigs,
+      });
+      mockWalletSetupService.getLoadedWalletFingerprint.mockResolvedValueOnce({ tron: 'ttt' });
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }],
+        walletMetadata: { main: { backedUp: true, fingerprint: { ethereum: 'def456' } } },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.unlock('main');
+      });
+
+      expect(result.current.walletMetadata.main?.fingerprint).toEqual({ ethereum: 'def456', tron: 'ttt' });
+    });
+
+    it('should not fingerprint again when every network is covered', async () => {
+      mockWorkletStoreInstance.setState({
+        wdkConfigs: { networks: { ethereum: { blockchain: 'ethereum', config: {} } } } as WdkConfigs,
+      });
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }],
+        walletMetadata: { main: { backedUp: true, fingerprint: { ethereum: 'def456' } } },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.unlock('main');
+      });
+
+      expect(mockWalletSetupService.getLoadedWalletFingerprint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SLIP-39 shares', () => {
+    it('should restore from shares like restoreWallet', async () => {
+      mockWalletSetupService.hasWallet.mockResolvedValueOnce(false).mockResolvedValue(true);
+      mockWalletSetupService.initializeFromShares.mockResolvedValue({
+        encryptionKey: '',
+        encryptedSeed: '',
+        encryptedEntropy: '',
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      let walletId: string | undefined;
+      await act(async () => {
+        walletId = await result.current.restoreWalletFromShares(['share-1', 'share-3'], 'vault', { passphrase: 'secret' });
+      });
+
+      expect(walletId).toBe('vault');
+      expect(mockWalletSetupService.initializeFromShares).toHaveBeenCalledWith(['share-1', 'share-3'], 'vault', 'secret');
+      const state = mockWalletStoreInstance.getState();
+      expect(state.walletList).toEqual([{ identifier: 'vault', exists: true, passphraseRequired: true }]);
+      expect(state.walletMetadata.vault).toMatchObject({ origin: 'restored', backedUp: true });
+      expect(state.walletLoadingState).toEqual({ type: 'ready', identifier: 'vault' });
+    });
+
+    it('should refuse to restore from shares over an existing wallet', async () => {
+      mockWalletSetupService.hasWallet.mockResolvedValue(true);
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(act(async () => {
+        await result.current.restoreWalletFromShares(['share-1'], 'vault');
+      })).rejects.toThrow('A wallet with the ID "vault" already exists.');
+      expect(mockWalletSetupService.initializeFromShares).not.toHaveBeenCalled();
+    });
+
+    it('should split and validate through the service', async () => {
+      mockWalletSetupService.splitIntoShares.mockResolvedValue(['a', 'b', 'c']);
+      mockWalletSetupService.validateShares.mockResolvedValue({
+        complete: false,
+        threshold: 2,
+        validShares: 1,
+        remaining: 1,
+        invalidShares: [],
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(result.current.splitWalletIntoShares('main', { threshold: 2, shareCount: 3 })).resolves.toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+      await expect(result.current.validateShares(['a'])).resolves.toMatchObject({ remaining: 1 });
+      expect(mockWalletSetupService.splitIntoShares).toHaveBeenCalledWith('main', { threshold: 2, shareCount: 3 });
+    });
+  });
+
+  describe('wallet metadata', () => {
+    let nowSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    });
+
+    afterEach(() => {
+      nowSpy.mockRestore();
+    });
+
+    it('should record origin and timestamps when creating and restoring', async () => {
+      mockWalletSetupService.hasWallet.mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValue(true);
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.createWallet('new');
+      });
+      await act(async () => {
+        await result.current.lock();
+      });
+      await act(async () => {
+        await result.current.restoreWallet('test mnemonic', 'old');
+      });
+
+      expect(result.current.walletMetadata).toEqual({
+        new: { origin: 'created', createdAt: 1_700_000_000_000, lastUnlockedAt: 1_700_000_000_000, backedUp: false },
+        old: { origin: 'restored', createdAt: 1_700_000_000_000, lastUnlockedAt: 1_700_000_000_000, backedUp: true },
+      });
+    });
+
+    it('should update lastUnlockedAt on unlock without touching the rest', async () => {
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }],
+        walletMetadata: { main: { name: 'Main', origin: 'created', createdAt: 1, backedUp: true } },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.unlock('main');
+      });
+
+      expect(result.current.walletMetadata.main).toEqual({
+        name: 'Main',
+        origin: 'created',
+        createdAt: 1,
+        lastUnlockedAt: 1_700_000_000_000,
+        backedUp: true,
+      });
+    });
+
+    it('should rename, set the icon and mark a wallet as backed up', () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      act(() => {
+        result.current.renameWallet('main', '  Savings  ');
+        result.current.setWalletIcon('main', { icon: 'piggy', color: '#ff0000' });
+        result.current.setWalletBackedUp('main');
+      });
+      expect(result.current.walletMetadata.main).toEqual({
+        name: 'Savings',
+        icon: 'piggy',
+        color: '#ff0000',
+        backedUp: true,
+      });
+
+      act(() => {
+        result.current.renameWallet('main', '');
+        result.current.setWalletIcon('main', { color: null });
+      });
+      expect(result.current.walletMetadata.main).toMatchObject({ name: undefined, icon: 'piggy', color: undefined });
+    });
+
+    it('should reorder wallets, keeping unlisted ones after the listed ones', () => {
+      mockWalletStoreInstance.setState({
+        walletList: ['a', 'b', 'c', 'd'].map((identifier) => ({ identifier, exists: true })),
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      act(() => {
+        result.current.reorderWallets(['c', 'a']);
+      });
+
+      expect(result.current.wallets.map(({ identifier }) => identifier)).toEqual(['c', 'a', 'b', 'd']);
+      expect(() => result.current.reorderWallets(['x'])).toThrow('Unknown wallet(s): x');
+    });
+
+    it('should drop the metadata when the wallet is deleted', async () => {
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }, { identifier: 'other', exists: true }],
+        walletMetadata: { main: { name: 'Main', backedUp: true }, other: { name: 'Other', backedUp: false } },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.deleteWallet('main');
+      });
+
+      expect(mockWalletStoreInstance.getState().walletMetadata).toEqual({ other: { name: 'Other', backedUp: false } });
+    });
+
+    it('should carry names and icons through a backup', async () => {
+      mockWalletSetupService.exportBackup.mockResolvedValue('blob');
+      mockWalletSetupService.importBackup.mockResolvedValue({
+        restored: [{ identifier: 'main', metadata: { name: 'Main', icon: 'star' } }],
+        skipped: [],
+        failed: [],
+      });
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }],
+        walletMetadata: { main: { name: 'Main', icon: 'star', origin: 'created', createdAt: 1, backedUp: false } },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.exportBackup('correct horse');
+      });
+      expect(mockWalletSetupService.exportBackup).toHaveBeenCalledWith(
+        [{ identifier: 'main', metadata: { name: 'Main', icon: 'star' } }],
+        'correct horse',
+      );
+
+      mockWalletStoreInstance.setState({ walletList: [], walletMetadata: {} });
+      await act(async () => {
+        await result.current.importBackup('blob', 'correct horse');
+      });
+      expect(result.current.walletMetadata.main).toEqual({
+        name: 'Main',
+        icon: 'star',
+        origin: 'imported',
+        createdAt: 1_700_000_000_000,
+        backedUp: true,
+      });
+    });
+  });
+
+  describe('wallet backup', () => {
+    const accounts = [{ accountIndex: 0, addresses: { ethereum: '0xabc' } }];
+
+    it('should export every stored wallet with its metadata, but not the temporary one', async () => {
+      mockWalletSetupService.exportBackup.mockResolvedValue('blob');
+      mockWalletStoreInstance.setState({
+        walletList: [
+          { identifier: 'main', exists: true },
+          { identifier: 'hidden', exists: true, passphraseRequired: true },
+          { identifier: 'temp', exists: true },
+        ],
+        accountList: { main: accounts },
+        tempWalletId: 'temp',
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      let blob: string | undefined;
+      await act(async () => {
+        blob = await result.current.exportBackup('correct horse');
+      });
+
+      expect(blob).toBe('blob');
+      expect(mockWalletSetupService.exportBackup).toHaveBeenCalledWith(
+        [
+          { identifier: 'main', accounts },
+          { identifier: 'hidden', passphraseRequired: true },
+        ],
+        'correct horse',
+      );
+    });
+
+    it('should export only the requested wallets', async () => {
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }, { identifier: 'other', exists: true }],
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.exportBackup('correct horse', { walletIds: ['other'] });
+      });
+
+      expect(mockWalletSetupService.exportBackup).toHaveBeenCalledWith([{ identifier: 'other' }], 'correct horse');
+    });
+
+    it('should add restored wallets to the list, locked, with their accounts', async () => {
+      mockWalletSetupService.importBackup.mockResolvedValue({
+        restored: [
+          { identifier: 'main', accounts },
+          { identifier: 'hidden', passphraseRequired: true },
+        ],
+        skipped: ['existing'],
+        failed: [],
+      });
+      mockWalletStoreInstance.setState({ walletList: [{ identifier: 'existing', exists: true }] });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.importBackup('blob', 'correct horse');
+      });
+
+      expect(mockWalletSetupService.importBackup).toHaveBeenCalledWith('blob', 'correct horse');
+      expect(result.current.wallets).toEqual([
+        { identifier: 'existing', exists: true },
+        { identifier: 'main', exists: true },
+        { identifier: 'hidden', exists: true, passphraseRequired: true },
+      ]);
+      expect(mockWalletStoreInstance.getState().accountList).toEqual({ main: accounts });
+      expect(result.current.status).toBe('LOCKED');
+    });
+
+    it('should refuse to import while a wallet is active', async () => {
+      mockWalletStoreInstance.setState({
+        activeWalletId: 'main',
+        walletLoadingState: { type: 'ready', identifier: 'main' },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(
+        act(async () => {
+          await result.current.importBackup('blob', 'correct horse');
+        }),
+      ).rejects.toThrow('Call lock() before importing a backup');
+      expect(mockWalletSetupService.importBackup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('wallet reconciliation', () => {
+    beforeEach(() => {
+      mockWalletSetupService.inspectStoredWallets.mockResolvedValue([
+        { walletId: 'main', state: 'ok' },
+        { walletId: 'gone', state: 'absent' },
+        { walletId: 'found', state: 'ok', passphraseRequired: true },
+      ]);
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'main', exists: true }, { identifier: 'gone', exists: true }],
+        addresses: { gone: { ethereum: { 0: '0xgone' } } },
+      });
+    });
+
+    it('should report without repairing by default', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      let report: Awaited<ReturnType<typeof result.current.reconcileWallets>> | undefined;
+      await act(async () => {
+        report = await result.current.reconcileWallets({ knownWalletIds: ['found'] });
+      });
+
+      expect(mockWalletSetupService.inspectStoredWallets).toHaveBeenCalledWith(
+        expect.arrayContaining(['main', 'gone', 'found']),
+      );
+      expect(report).toMatchObject({ untracked: ['found'], missing: ['gone'], repaired: [] });
+      expect(result.current.wallets).toHaveLength(2);
+    });
+
+    it('should fix the wallet list when asked to repair', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.reconcileWallets({ repair: true, removeMissing: true });
+      });
+
+      expect(result.current.wallets).toEqual([
+        { identifier: 'main', exists: true },
+        { identifier: 'found', exists: true, passphraseRequired: true },
+      ]);
+      expect(mockWalletStoreInstance.getState().addresses).toEqual({});
+    });
+  });
+
+  describe('account discovery', () => {
+    it('should discover the accounts of the active wallet', async () => {
+      const discovered = { walletId: 'main', accounts: [], usedAccounts: {}, failed: [] };
+      const discoverSpy = jest.spyOn(accountDiscovery, 'discoverAccounts').mockResolvedValueOnce(discovered);
+      mockWalletStoreInstance.setState({
+        activeWalletId: 'main',
+        walletLoadingState: { type: 'ready', identifier: 'main' },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await expect(result.current.discoverAccounts({ gapLimit: 5 })).resolves.toBe(discovered);
+      });
+
+      expect(discoverSpy).toHaveBeenCalledWith('main', { gapLimit: 5 });
+    });
+
+    it('should reject when no wallet is unlocked', async () => {
+      const discoverSpy = jest.spyOn(accountDiscovery, 'discoverAccounts');
+      mockWalletStoreInstance.setState({ activeWalletId: null, walletLoadingState: { type: 'not_loaded' } });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await expect(result.current.discoverAccounts()).rejects.toThrow('No wallet is unlocked');
+      });
+
+      expect(discoverSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch-only wallets', () => {
+    const accounts = {
+      ethereum: [{ address: '0xcold0' }, { address: '0xcold1' }],
+      bitcoin: [{ xpub: 'xpub6cold' }],
+    };
+
+    it('should add a locked watch-only wallet with its addresses cached', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.addWatchOnlyWallet('treasury', accounts);
+      });
+
+      const state = mockWalletStoreInstance.getState();
+      expect(state.walletList).toEqual([{ identifier: 'treasury', exists: true, watchOnly: true }]);
+      expect(state.watchOnlyWallets).toEqual({ treasury: accounts });
+      expect(state.addresses).toEqual({ treasury: { ethereum: { 0: '0xcold0', 1: '0xcold1' } } });
+      expect(state.walletMetadata.treasury).toMatchObject({ origin: 'watched', backedUp: true });
+      expect(state.activeWalletId).toBeNull();
+    });
+
+    it('should reject an ID that is already taken', async () => {
+      mockWalletStoreInstance.setState({ walletList: [{ identifier: 'main', exists: true }] });
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(
+        act(async () => {
+          await result.current.addWatchOnlyWallet('main', accounts);
+        }),
+      ).rejects.toThrow('A wallet with the ID "main" already exists.');
+      expect(mockWalletStoreInstance.getState().walletList).toHaveLength(1);
+    });
+
+    it('should reject accounts without exactly one of address and xpub', async () => {
+      const { result } = renderHook(() => useWalletManager());
+
+      await expect(
+        act(async () => {
+          await result.current.addWatchOnlyWallet('cold', {
+            ethereum: [{ address: '0x1', xpub: 'xpub6' } as any],
+          });
+        }),
+      ).rejects.toThrow('Each watch-only account on ethereum needs either an address or an xpub');
+      expect(mockWalletStoreInstance.getState().walletList).toEqual([]);
+    });
+
+    it('should unlock from the watched accounts without touching secure storage', async () => {
+      mockWalletStoreInstance.setState({
+        walletList: [{ identifier: 'treasury', exists: true, watchOnly: true }],
+        watchOnlyWallets: { treasury: accounts },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.unlock('treasury');
+      });
+
+      expect(mockWalletSetupService.initializeWatchOnly).toHaveBeenCalledWith(accounts);
+      expect(mockWalletSetupService.initializeWallet).not.toHaveBeenCalled();
+      expect(mockWalletStoreInstance.getState().walletLoadingState).toEqual({
+        type: 'ready',
+        identifier: 'treasury',
+      });
+    });
+
+    it('should leave watch-only wallets out of backups and drop their accounts on delete', async () => {
+      mockWalletStoreInstance.setState({
+        walletList: [
+          { identifier: 'main', exists: true },
+          { identifier: 'treasury', exists: true, watchOnly: true },
+        ],
+        watchOnlyWallets: { treasury: accounts },
+      });
+      const { result } = renderHook(() => useWalletManager());
+
+      await act(async () => {
+        await result.current.exportBackup('correct horse');
+      });
+      expect(mockWalletSetupService.exportBackup).toHaveBeenCalledWith([{ identifier: 'main' }], 'correct horse');
+
+      await act(async () => {
+        await result.current.deleteWallet('treasury');
+      });
+      expect(mockWalletStoreInstance.getState().watchOnlyWallets).toEqual({});
+      expect(mockWalletStoreInstance.getState().walletList).toEqual([{ identifier: 'main', exists: true }]);
+    });
+  });
+
   describe('Helper methods and edge cases', () => {
     it('should throw error if walletId is empty in deleteWallet', async () => {
         const { result } = renderHook(() => useWalletManager());
@@ -868,6 +1524,21 @@ describe('useWalletManager', () => {
         })).rejects.toThrow('Wallet ID is required for deletion');
     });
 
+    it('should rotate the encryption key under the operation mutex', async () => {
+        mockWalletSetupService.rotateEncryptionKey.mockResolvedValue(undefined);
+        const { result } = renderHook(() => useWalletManager());
+
+        await act(async () => {
+            await result.current.rotateEncryptionKey('main');
+        });
+
+        expect(mockWalletSetupService.rotateEncryptionKey).toHaveBeenCalledWith('main');
+
+        mockWalletStoreInstance.setState({ isOperationInProgress: true, currentOperation: 'unlock' });
+        await expect(result.current.rotateEncryptionKey('main')).rejects.toThrow();
+        expect(mockWalletSetupService.rotateEncryptionKey).toHaveBeenCalledTimes(1);
+    });
+
     it('should generate mnemonic using worklet service', async () => {
         mockWorkletLifecycleService.generateEntropyAndEncrypt.mockResolvedValue({
             encryptionKey: 'key',
@@ -16,6 +16,8 @@ import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { create, StoreApi } from 'zustand';
 import { useWalletOrchestrator, UseWalletOrchestratorProps } from '../../src/hooks/internal/useWalletOrchestrator';
 import { getWalletStore, WalletStore, WalletLoadingState } from '../../src/store/walletStore';
+import { StartupStage } from '../../src/utils/initializationState';
+import { BundleIntegrityError } from '../../src/utils/errors';
 
 jest.mock('../../src/store/walletStore', () => ({
   ...jest.requireActual('../../src/store/walletStore'),
@@ -47,6 +49,8 @@ describe('useWalletOrchestrator', () => {
         lastBalanceUpdate: {},
         accountList: {},
         walletList: [],
+        walletMetadata: {},
+        watchOnlyWallets: {},
         activeWalletId: null,
         walletLoadingState: { type: 'not_loaded' } as WalletLoadingState,
         isOperationInProgress: false,
@@ -140,4 +144,105 @@ describe('useWalletOrchestrator', () => {
       expect(result.current.state).toEqual({ status: 'ERROR', error: walletError });
     });
   });
+
+  it('should report RECOVERING over errors while the worklet is being restarted', async () => {
+    const { result, rerender } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: {
+        ...initialProps,
+        isWorkletStarted: false,
+        workletError: 'IPC closed',
+        workletRecovery: { attempt: 2, reason: 'IPC close' },
+      },
+    });
+
+    act(() => {
+      mockWalletStore.setState({ activeWalletId: 'user1' });
+    });
+
+    await waitFor(() => {
+      expect(result.current.state).toEqual({ status: 'RECOVERING', attempt: 2, walletId: 'user1' });
+    });
+
+    rerender({ ...initialProps, isWorkletStarted: true, workletRecovery: null });
+
+    await waitFor(() => {
+      expect(result.current.state).toEqual({ status: 'LOCKED', walletId: 'user1' });
+    });
+  });
+
+  it('should report BUNDLE_REJECTED over the generic error when the bundle fails its integrity check', () => {
+    const bundleError = new BundleIntegrityError('hash_mismatch', 'Bundle hash mismatch');
+    const { result } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: {
+        ...initialProps,
+        isWorkletStarted: false,
+        workletError: 'Bundle hash mismatch',
+        bundleError,
+      },
+    });
+
+    expect(result.current.state).toEqual({ status: 'BUNDLE_REJECTED', error: bundleError });
+  });
+
+  it('should report SHUT_DOWN with the previously active wallet as a hint', async () => {
+    const { result } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: { ...initialProps, isWorkletStarted: false, isWorkletShutdown: true },
+    });
+
+    act(() => {
+      mockWalletStore.setState({ activeWalletId: 'user1' });
+    });
+
+    await waitFor(() => {
+      expect(result.current.state).toEqual({ status: 'SHUT_DOWN', walletId: 'user1' });
+    });
+  });
+
+  it('should report the running startup stage while initializing', () => {
+    const timings = [
+      { stage: StartupStage.LOADING_BUNDLE, startedAt: 1000, durationMs: 250, failed: false },
+      { stage: StartupStage.IPC_HANDSHAKE, startedAt: 1250, durationMs: null, failed: false },
+    ];
+    const { result } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: {
+        ...initialProps,
+        isWorkletStarted: false,
+        startupStage: StartupStage.IPC_HANDSHAKE,
+        startupTimings: timings,
+      },
+    });
+
+    expect(result.current.state).toEqual({
+      status: 'INITIALIZING',
+      stage: StartupStage.IPC_HANDSHAKE,
+      timings,
+    });
+  });
+
+  it('should stay LOCKED while initializeWDK loads the wallet seed', () => {
+    mockWalletStore.setState({ activeWalletId: 'user1' });
+
+    const { result } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: { ...initialProps, startupStage: StartupStage.INITIALIZE_WDK, startupTimings: [] },
+    });
+
+    expect(result.current.state).toEqual({ status: 'LOCKED', walletId: 'user1' });
+  });
+
+  it('should not hold READY back while the first addresses are derived', () => {
+    mockWalletStore.setState({
+      activeWalletId: 'user1',
+      walletLoadingState: { type: 'ready', identifier: 'user1' } as WalletLoadingState,
+    });
+
+    const { result } = renderHook((props) => useWalletOrchestrator(props), {
+      initialProps: {
+        ...initialProps,
+        isWorkletInitialized: true,
+        startupStage: StartupStage.DERIVING_ADDRESSES,
+      },
+    });
+
+    expect(result.current.state).toEqual({ status: 'READY', walletId: 'user1' });
+  });
 });
@@ -19,6 +19,7 @@ import { useWdkApp } from '../../src/hooks/useWdkApp';
 import { WdkAppContext, WdkAppContextValue } from '../../src/provider/WdkAppProvider';
 import { WorkletLifecycleService } from '../../src/services/workletLifecycleService';
 import { getWorkletStore, WorkletStore } from '../../src/store/workletStore';
+import * as dataWipe from '../../src/utils/dataWipe';
 import * as operationMutex from '../../src/utils/operationMutex';
 
 // Mock dependencies
@@ -28,6 +29,8 @@ jest.mock('../../src/store/workletStore', () => ({
 }));
 // Mock the mutex to simply execute the operation
 jest.spyOn(operationMutex, 'withOperationMutex').mockImplementation((_, fn) => fn());
+jest.spyOn(operationMutex, 'waitForOperationIdle').mockResolvedValue();
+jest.spyOn(operationMutex, 'isOperationInProgress').mockReturnValue(false);
 
 
 describe('useWdkApp', () => {
@@ -126,4 +129,76 @@ describe('useWdkApp', () => {
         expect(WorkletLifecycleService.resetWallets).not.toHaveBeenCalled();
       });
   });
+
+  describe('shutdown', () => {
+    it('should call WorkletLifecycleService.shutdown under the operation mutex', async () => {
+      const { result } = renderHook(() => useWdkApp(), { wrapper });
+
+      await act(async () => {
+        await result.current.shutdown();
+      });
+
+      expect(operationMutex.withOperationMutex).toHaveBeenCalledWith('shutdownWorklet', expect.any(Function));
+      expect(WorkletLifecycleService.shutdown).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('restart', () => {
+    it('should call WorkletLifecycleService.restart under the operation mutex', async () => {
+      const { result } = renderHook(() => useWdkApp(), { wrapper });
+
+      await act(async () => {
+        await result.current.restart();
+      });
+
+      expect(operationMutex.withOperationMutex).toHaveBeenCalledWith('restartWorklet', expect.any(Function));
+      expect(WorkletLifecycleService.restart).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw when the restart fails', async () => {
+      (WorkletLifecycleService.restart as jest.Mock).mockRejectedValueOnce(new Error('no stored configuration'));
+      const { result } = renderHook(() => useWdkApp(), { wrapper });
+
+      await act(async () => {
+        await expect(result.current.restart()).resolves.toBeUndefined();
+      });
+    });
+  });
+
+  describe('wipeAllData', () => {
+    it('should wipe under the operation mutex with the provider query client', async () => {
+      const report = { ok: true, steps: [] };
+      const wipeSpy = jest.spyOn(dataWipe, 'wipeAllData').mockResolvedValueOnce(report);
+      const queryClient = {} as WdkAppContextValue['queryClient'];
+      const { result } = renderHook(() => useWdkApp(), {
+        wrapper: ({ children }: PropsWithChildren) => (
+          <WdkAppContext.Provider value={{ ...mockContextValue, queryClient }}>
+            {children}
+          </WdkAppContext.Provider>
+        ),
+      });
+
+      await act(async () => {
+        await expect(result.current.wipeAllData()).resolves.toBe(report);
+      });
+
+      expect(operationMutex.waitForOperationIdle).toHaveBeenCalled();
+      expect(operationMutex.withOperationMutex).toHaveBeenCalledWith('wipeAllData', expect.any(Function));
+      expect(wipeSpy).toHaveBeenCalledWith(queryClient);
+    });
+
+    it('should wait again when another operation takes the mutex first', async () => {
+      jest.spyOn(dataWipe, 'wipeAllData').mockResolvedValueOnce({ ok: true, steps: [] });
+      (operationMutex.isOperationInProgress as jest.Mock).mockReturnValueOnce(true);
+      const { result } = renderHook(() => useWdkApp(), { wrapper });
+
+      await act(async () => {
+        await result.current.wipeAllData();
+      });
+
+      expect(operationMutex.waitForOperationIdle).toHaveBeenCalledTimes(2);
+      expect(operationMutex.withOperationMutex).toHaveBeenCalledTimes(1);
+    });
+  });
 });
+
@@ -0,0 +1,59 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useWdkCapabilities } from '../../src/hooks/useWdkCapabilities';
+import { getWorkletStore, resetWorkletStore } from '../../src/store/workletStore';
+
+describe('useWdkCapabilities', () => {
+  beforeEach(() => {
+    resetWorkletStore();
+  });
+
+  it('answers false for everything while capabilities are unknown', () => {
+    const { result } = renderHook(() => useWdkCapabilities());
+
+    expect(result.current.capabilities).toBeNull();
+    expect(result.current.hasRpc('callMethod')).toBe(false);
+    expect(result.current.hasModule('addressBook')).toBe(false);
+    expect(result.current.hasFeature('watchOnly')).toBe(false);
+  });
+
+  it('reflects the capabilities of the running bundle', () => {
+    const { result } = renderHook(() => useWdkCapabilities());
+
+    act(() => {
+      getWorkletStore().setState({
+        capabilities: {
+          protocolVersion: 1,
+          bundleVersion: '1.0.0',
+          rpcs: ['callMethod', 'callModule'],
+          networks: ['ethereum'],
+          protocols: ['usdt0'],
+          modules: ['addressBook'],
+          features: ['watchOnly'],
+        },
+      });
+    });
+
+    expect(result.current.capabilities?.bundleVersion).toBe('1.0.0');
+    expect(result.current.hasRpc('callModule')).toBe(true);
+    expect(result.current.hasNetwork('ethereum')).toBe(true);
+    expect(result.current.hasNetwork('bitcoin')).toBe(false);
+    expect(result.current.hasProtocol('usdt0')).toBe(true);
+    expect(result.current.hasModule('addressBook')).toBe(true);
+    expect(result.current.hasFeature('watchOnly')).toBe(true);
+    expect(result.current.hasFeature('bip39Passphrase')).toBe(false);
+  });
+});
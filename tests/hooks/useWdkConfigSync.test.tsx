@@ -0,0 +1,111 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { renderHook, act } from '@testing-library/react-native';
+import { QueryClient } from '@tanstack/react-query';
+import { useWdkConfigSync } from '../../src/hooks/internal/useWdkConfigSync';
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService';
+import { getWorkletStore, resetWorkletStore } from '../../src/store/workletStore';
+import { getWalletStore } from '../../src/store/walletStore';
+import { acquireOperationMutex } from '../../src/utils/operationMutex';
+import type { WdkConfigs } from '../../src/types';
+
+const ethereumOnly = {
+  networks: { ethereum: { blockchain: 'ethereum', config: { chainId: 1 } } },
+} as unknown as WdkConfigs;
+
+const withPolygon = {
+  networks: {
+    ...ethereumOnly.networks,
+    polygon: { blockchain: 'polygon', config: { chainId: 137 } },
+  },
+} as unknown as WdkConfigs;
+
+const flush = () => act(async () => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+});
+
+describe('useWdkConfigSync', () => {
+  const queryClient = new QueryClient();
+  let applySpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    resetWorkletStore();
+    getWalletStore().setState({ isOperationInProgress: false, currentOperation: null });
+    getWorkletStore().setState({ wdkConfigs: ethereumOnly });
+    applySpy = jest
+      .spyOn(WorkletLifecycleService, 'applyConfigs')
+      .mockImplementation(async (next) => {
+        getWorkletStore().setState({ wdkConfigs: next });
+        return null;
+      });
+  });
+
+  afterEach(() => {
+    applySpy.mockRestore();
+  });
+
+  it('ignores a new object holding the same config', async () => {
+    const busy = acquireOperationMutex('unlock');
+
+    renderHook(() => useWdkConfigSync({ ...ethereumOnly }, true, queryClient));
+    await flush();
+
+    expect(applySpy).not.toHaveBeenCalled();
+    busy.release();
+  });
+
+  it('waits for the mutex instead of losing the apply', async () => {
+    const unlock = acquireOperationMutex('unlock');
+
+    renderHook(() => useWdkConfigSync(withPolygon, true, queryClient));
+    await flush();
+    expect(applySpy).not.toHaveBeenCalled();
+
+    // Another operation grabs the mutex right as it frees up
+    let create: ReturnType<typeof acquireOperationMutex> | undefined;
+    act(() => {
+      unlock.release();
+      create = acquireOperationMutex('createWallet');
+    });
+    await flush();
+    expect(applySpy).not.toHaveBeenCalled();
+
+    act(() => create!.release());
+    await flush();
+
+    expect(applySpy).toHaveBeenCalledTimes(1);
+    expect(applySpy).toHaveBeenCalledWith(withPolygon);
+    expect(getWalletStore().getState().isOperationInProgress).toBe(false);
+  });
+
+  it('applies only the latest config when it changes while waiting', async () => {
+    const busy = acquireOperationMutex('unlock');
+
+    const { rerender } = renderHook(
+      ({ configs }: { configs: WdkConfigs }) => useWdkConfigSync(configs, true, queryClient),
+      { initialProps: { configs: withPolygon } },
+    );
+    await flush();
+    const latest = { networks: { polygon: withPolygon.networks.polygon } } as WdkConfigs;
+    rerender({ configs: latest });
+    await flush();
+
+    act(() => busy.release());
+    await flush();
+
+    expect(applySpy).toHaveBeenCalledTimes(1);
+    expect(applySpy).toHaveBeenCalledWith(latest);
+  });
+});
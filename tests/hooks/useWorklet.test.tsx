@@ -38,6 +38,13 @@ const initialState: Omit<WorkletStore, keyof ReturnType<typeof create>> = {
   workletStartResult: null,
   wdkInitResult: null,
   wdkConfigs: null,
+  bundleConfig: null,
+  recovery: null,
+  isShutdown: false,
+  startupStage: null,
+  startupTimings: [],
+  bundleError: null,
+  capabilities: null,
   isWorkletStartedPromise: createResolvablePromise<boolean>(),
   isWorkletInitializedPromise: createResolvablePromise<boolean>()
 };
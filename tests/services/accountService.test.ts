@@ -20,6 +20,17 @@
 
 import { AccountService } from '../../src/services/accountService'
 import { getWorkletStore } from '../../src/store/workletStore'
+import { AuthPolicyService } from '../../src/services/authPolicyService'
+import { getWalletStore } from '../../src/store/walletStore'
+import { bumpEpoch } from '../../src/utils/workletEpoch'
+import {
+  AuthenticationCancelledError,
+  AuthenticationFailedError,
+  WatchOnlyWalletError,
+  WdkAbortError,
+  WdkStaleResultError,
+  WdkTimeoutError,
+} from '../../src/utils/errors'
 
 // Mock stores
 jest.mock('../../src/store/workletStore', () => ({
@@ -386,5 +397,186 @@ describe('AccountService', () => {
       ).rejects.toThrow()
     })
   })
-})
 
+  describe('call options', () => {
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should reject with WdkTimeoutError when the worklet does not answer in time', async () => {
+      jest.useFakeTimers()
+      mockHRPC.callMethod.mockReturnValue(new Promise(() => {}))
+
+      const promise = AccountService.callAccountMethodWithOptions(
+        { timeoutMs: 1000 },
+        'ethereum',
+        0,
+        'getBalance'
+      )
+      const assertion = expect(promise).rejects.toBeInstanceOf(WdkTimeoutError)
+      await jest.advanceTimersByTimeAsync(1000)
+
+      await assertion
+    })
+
+    it('should reject with WdkAbortError when the signal aborts', async () => {
+      const controller = new AbortController()
+      mockHRPC.callMethod.mockReturnValue(new Promise(() => {}))
+
+      const promise = AccountService.callProtocolMethodWithOptions(
+        { signal: controller.signal },
+        'ethereum',
+        0,
+        'quoteSwap',
+        'swap',
+        'velora',
+        {}
+      )
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      controller.abort()
+
+      await expect(promise).rejects.toBeInstanceOf(WdkAbortError)
+    })
+
+    it('should not call the worklet when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        AccountService.callAccountMethodWithOptions(
+          { signal: controller.signal },
+          'ethereum',
+          0,
+          'getBalance'
+        )
+      ).rejects.toBeInstanceOf(WdkAbortError)
+      expect(mockHRPC.callMethod).not.toHaveBeenCalled()
+    })
+
+    it('should discard a read that answers after the loaded wallet changed', async () => {
+      let answer: (value: { result: string }) => void = () => {}
+      mockHRPC.callMethod.mockReturnValue(new Promise((resolve) => { answer = resolve }))
+
+      const promise = AccountService.callAccountMethod('ethereum', 0, 'getBalance')
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      bumpEpoch()
+      answer({ result: JSON.stringify('100') })
+
+      await expect(promise).rejects.toBeInstanceOf(WdkStaleResultError)
+    })
+
+    it('should still return a sent transaction when the loaded wallet changed meanwhile', async () => {
+      let answer: (value: { result: string }) => void = () => {}
+      mockHRPC.callMethod.mockReturnValue(new Promise((resolve) => { answer = resolve }))
+
+      const promise = AccountService.callAccountMethod('ethereum', 0, 'sendTransaction', { to: '0xabc', value: '1' })
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      bumpEpoch()
+      answer({ result: JSON.stringify({ hash: '0xsent', fee: '1' }) })
+
+      await expect(promise).resolves.toEqual({ hash: '0xsent', fee: '1' })
+    })
+  })
+
+  describe('auth policy', () => {
+    const prompt = jest.fn<Promise<boolean>, []>()
+
+    beforeEach(() => {
+      prompt.mockResolvedValue(true)
+      AuthPolicyService.setBiometricPrompt(prompt)
+      AuthPolicyService.setPolicy({ operations: { send: 'biometrics' } })
+      mockHRPC.callMethod.mockResolvedValue({ result: JSON.stringify({ hash: '0x1', fee: '1' }) })
+    })
+
+    afterEach(() => {
+      AuthPolicyService.setPolicy(null)
+      AuthPolicyService.setBiometricPrompt(null)
+      AuthPolicyService.resetAttempts()
+    })
+
+    it('should authenticate before sending and not call the worklet when cancelled', async () => {
+      await AccountService.callAccountMethod('ethereum', 0, 'sendTransaction', { to: '0xabc', value: '1' })
+      expect(prompt).toHaveBeenCalledTimes(1)
+
+      prompt.mockRejectedValue(new Error('User cancel'))
+      mockHRPC.callMethod.mockClear()
+
+      await expect(
+        AccountService.callAccountMethod('ethereum', 0, 'transfer', { recipient: '0xabc', amount: '1', token: '0xt' })
+      ).rejects.toBeInstanceOf(AuthenticationCancelledError)
+      expect(mockHRPC.callMethod).not.toHaveBeenCalled()
+    })
+
+    it('should gate every sign, send, transfer and approve method by name', async () => {
+      AuthPolicyService.setPolicy({ operations: { send: 'biometrics', sign: 'authenticator' }, authenticator: () => 'denied' })
+      mockHRPC.callMethod.mockResolvedValue({ result: '"0x1"' })
+
+      await AccountService.callAccountMethodWithOptions({}, 'ethereum', 0, 'sendUserOperation', {})
+      await AccountService.callAccountMethodWithOptions({}, 'ethereum', 0, 'approveToken', {})
+      await AccountService.callAccountMethodWithOptions({}, 'ethereum', 0, 'transferFrom', {})
+      expect(prompt).toHaveBeenCalledTimes(3)
+
+      await expect(
+        AccountService.callAccountMethodWithOptions({}, 'ethereum', 0, 'signTypedData', {})
+      ).rejects.toBeInstanceOf(AuthenticationFailedError)
+      await AccountService.callAccountMethodWithOptions({}, 'ethereum', 0, 'quoteSendTransaction', {})
+      expect(prompt).toHaveBeenCalledTimes(3)
+    })
+
+    it('should gate fund-moving protocol methods but not quotes or reads', async () => {
+      mockHRPC.callMethod.mockResolvedValue({ result: '"1000"' })
+
+      await AccountService.callAccountMethod('ethereum', 0, 'getBalance')
+      await AccountService.callProtocolMethod('ethereum', 0, 'quoteSwap', 'swap', 'velora', {})
+      expect(prompt).not.toHaveBeenCalled()
+
+      await AccountService.callProtocolMethod('ethereum', 0, 'swap', 'swap', 'velora', {})
+      expect(prompt).toHaveBeenCalledTimes(1)
+    })
+  })
+  describe('watch-only wallets', () => {
+    beforeEach(() => {
+      getWalletStore().setState({
+        activeWalletId: 'cold',
+        walletList: [{ identifier: 'cold', exists: true, watchOnly: true }],
+      })
+    })
+
+    afterEach(() => {
+      getWalletStore().setState({ activeWalletId: null, walletList: [] })
+    })
+
+    it('should read balances', async () => {
+      mockHRPC.callMethod.mockResolvedValue({ result: '"1000"' })
+
+      await expect(AccountService.callAccountMethod('ethereum', 0, 'getBalance')).resolves.toBe('1000')
+    })
+
+    it('should refuse sends, signing and write extension methods without calling the worklet', async () => {
+      await expect(
+        AccountService.callAccountMethod('ethereum', 0, 'sendTransaction', { to: '0xabc', value: '1' })
+      ).rejects.toBeInstanceOf(WatchOnlyWalletError)
+      await expect(AccountService.callAccountMethod('ethereum', 0, 'sign', 'hello')).rejects.toMatchObject({
+        code: 'WATCH_ONLY',
+        operation: 'sign',
+        walletId: 'cold',
+      })
+      await expect(
+        AccountService.callAccountMethodWithOptions({}, 'bitcoin', 0, 'signPsbt', 'psbt')
+      ).rejects.toBeInstanceOf(WatchOnlyWalletError)
+      await expect(
+        AccountService.callProtocolMethod('ethereum', 0, 'swap', 'swap', 'velora', {})
+      ).rejects.toBeInstanceOf(WatchOnlyWalletError)
+
+      expect(mockHRPC.callMethod).not.toHaveBeenCalled()
+    })
+
+    it('should allow quotes', async () => {
+      mockHRPC.callMethod.mockResolvedValue({ result: JSON.stringify({ fee: '1' }) })
+
+      await expect(
+        AccountService.callProtocolMethod('ethereum', 0, 'quoteSwap', 'swap', 'velora', {})
+      ).resolves.toEqual({ fee: '1' })
+    })
+  })
+})
@@ -0,0 +1,159 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AuthPolicyService } from '../../src/services/authPolicyService'
+import {
+  AuthenticationCancelledError,
+  AuthenticationFailedError,
+  AuthenticationLockoutError,
+} from '../../src/utils/errors'
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+describe('AuthPolicyService', () => {
+  const biometricPrompt = jest.fn<Promise<boolean>, []>()
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    biometricPrompt.mockReset()
+    biometricPrompt.mockResolvedValue(true)
+    AuthPolicyService.setBiometricPrompt(biometricPrompt)
+    AuthPolicyService.resetAttempts()
+  })
+
+  afterEach(() => {
+    AuthPolicyService.setPolicy(null)
+    AuthPolicyService.setBiometricPrompt(null)
+    jest.useRealTimers()
+  })
+
+  it('requires nothing without a policy or for unlisted operations', async () => {
+    await AuthPolicyService.authorize('send')
+
+    AuthPolicyService.setPolicy({ operations: { getMnemonic: 'biometrics' } })
+    await AuthPolicyService.authorize('send')
+
+    expect(biometricPrompt).not.toHaveBeenCalled()
+    expect(AuthPolicyService.getRequirement('getMnemonic')).toBe('biometrics')
+    expect(AuthPolicyService.getRequirement('send')).toBe('none')
+  })
+
+  describe('biometrics', () => {
+    beforeEach(() => {
+      AuthPolicyService.setPolicy({ operations: { send: 'biometrics' }, maxAttempts: 3 })
+    })
+
+    it('passes when the prompt succeeds', async () => {
+      await AuthPolicyService.authorize('send')
+
+      expect(biometricPrompt).toHaveBeenCalledTimes(1)
+    })
+
+    it('fails with the attempts left when the prompt is rejected', async () => {
+      biometricPrompt.mockResolvedValue(false)
+
+      const error = await AuthPolicyService.authorize('send').catch((e) => e)
+
+      expect(error).toBeInstanceOf(AuthenticationFailedError)
+      expect(error).toMatchObject({ code: 'AUTH_FAILED', operation: 'send', attemptsRemaining: 2 })
+    })
+
+    it('reports a dismissed prompt as cancelled without counting it', async () => {
+      biometricPrompt.mockRejectedValue(new Error('User canceled authentication'))
+
+      for (let i = 0; i < 5; i++) {
+        await expect(AuthPolicyService.authorize('send')).rejects.toBeInstanceOf(AuthenticationCancelledError)
+      }
+
+      biometricPrompt.mockResolvedValue(false)
+      await expect(AuthPolicyService.authorize('send')).rejects.toMatchObject({ attemptsRemaining: 2 })
+    })
+
+    it('locks out after maxAttempts consecutive failures until lockoutMs passes', async () => {
+      biometricPrompt.mockResolvedValue(false)
+
+      await expect(AuthPolicyService.authorize('send')).rejects.toBeInstanceOf(AuthenticationFailedError)
+      await expect(AuthPolicyService.authorize('send')).rejects.toBeInstanceOf(AuthenticationFailedError)
+      await expect(AuthPolicyService.authorize('send')).rejects.toMatchObject({
+        code: 'AUTH_LOCKOUT',
+        retryAfterMs: 30_000,
+      })
+
+      biometricPrompt.mockClear()
+      jest.advanceTimersByTime(10_000)
+      const error = await AuthPolicyService.authorize('send').catch((e) => e)
+      expect(error).toBeInstanceOf(AuthenticationLockoutError)
+      expect(error.retryAfterMs).toBe(20_000)
+      expect(biometricPrompt).not.toHaveBeenCalled()
+
+      jest.advanceTimersByTime(20_000)
+      biometricPrompt.mockResolvedValue(true)
+      await AuthPolicyService.authorize('send')
+      expect(biometricPrompt).toHaveBeenCalledTimes(1)
+    })
+
+    it('resets the failure count after a success', async () => {
+      biometricPrompt.mockResolvedValueOnce(false).mockResolvedValueOnce(false)
+      await expect(AuthPolicyService.authorize('send')).rejects.toThrow()
+      await expect(AuthPolicyService.authorize('send')).rejects.toThrow()
+      await AuthPolicyService.authorize('send')
+
+      biometricPrompt.mockResolvedValue(false)
+      await expect(AuthPolicyService.authorize('send')).rejects.toMatchObject({ attemptsRemaining: 2 })
+    })
+  })
+
+  describe('authenticator', () => {
+    it('passes the request to the app authenticator and honours its outcome', async () => {
+      const authenticator = jest.fn()
+        .mockResolvedValueOnce('granted')
+        .mockResolvedValueOnce('cancelled')
+        .mockResolvedValueOnce('denied')
+      AuthPolicyService.setPolicy({ operations: { deleteWallet: 'authenticator' }, authenticator })
+
+      await AuthPolicyService.authorize('deleteWallet', 'wallet-1')
+      await expect(AuthPolicyService.authorize('deleteWallet', 'wallet-1')).rejects.toBeInstanceOf(AuthenticationCancelledError)
+      await expect(AuthPolicyService.authorize('deleteWallet', 'wallet-1')).rejects.toBeInstanceOf(AuthenticationFailedError)
+
+      expect(authenticator).toHaveBeenCalledWith({
+        operation: 'deleteWallet',
+        walletId: 'wallet-1',
+        attemptsRemaining: 5,
+      })
+      expect(biometricPrompt).not.toHaveBeenCalled()
+    })
+
+    it('treats a thrown error as a failed attempt', async () => {
+      AuthPolicyService.setPolicy({
+        operations: { sign: 'authenticator' },
+        authenticator: () => {
+          throw new Error('wrong PIN')
+        },
+      })
+
+      await expect(AuthPolicyService.authorize('sign')).rejects.toThrow('Authentication for sign failed: wrong PIN')
+    })
+
+    it('refuses, without counting an attempt, when no authenticator is configured', async () => {
+      AuthPolicyService.setPolicy({ operations: { sign: 'authenticator' }, maxAttempts: 1 })
+
+      await expect(AuthPolicyService.authorize('sign')).rejects.toThrow('none was provided')
+      await expect(AuthPolicyService.authorize('sign')).rejects.toThrow('none was provided')
+    })
+  })
+})
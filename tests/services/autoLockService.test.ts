@@ -0,0 +1,168 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AppState, type AppStateStatus } from 'react-native'
+
+import { AutoLockService, autoLockTouchHandlers } from '../../src/services/autoLockService'
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService'
+import { getWalletStore } from '../../src/store/walletStore'
+import { withOperationMutex } from '../../src/utils/operationMutex'
+
+jest.mock('../../src/services/workletLifecycleService', () => ({
+  WorkletLifecycleService: {
+    reset: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+describe('AutoLockService', () => {
+  let changeAppState: (state: AppStateStatus) => void
+  const listener = jest.fn()
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.clearAllMocks()
+
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_, handler) => {
+      changeAppState = handler as (state: AppStateStatus) => void
+      return { remove: jest.fn() } as never
+    })
+    Object.defineProperty(AppState, 'currentState', { value: 'active', configurable: true })
+
+    getWalletStore().setState({
+      activeWalletId: 'wallet-1',
+      walletLoadingState: { type: 'ready', identifier: 'wallet-1' },
+      isOperationInProgress: false,
+      currentOperation: null,
+    })
+    unsubscribe = AutoLockService.subscribe(listener)
+  })
+
+  afterEach(() => {
+    unsubscribe()
+    AutoLockService.stop()
+    jest.useRealTimers()
+  })
+
+  it('locks after the configured time in the background (timer still running)', async () => {
+    AutoLockService.start({ backgroundTimeoutMs: 60000 })
+
+    changeAppState('background')
+    await jest.advanceTimersByTimeAsync(59999)
+    expect(WorkletLifecycleService.reset).not.toHaveBeenCalled()
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(WorkletLifecycleService.reset).toHaveBeenCalledTimes(1)
+    expect(getWalletStore().getState().activeWalletId).toBeNull()
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'background', walletId: 'wallet-1' }),
+    )
+  })
+
+  it('locks on resume when timers were suspended in the background', async () => {
+    AutoLockService.start({ backgroundTimeoutMs: 60000 })
+
+    changeAppState('background')
+    // Simulate iOS suspending JS: the clock moves on but no timer fires
+    jest.setSystemTime(Date.now() + 120000)
+    changeAppState('active')
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(getWalletStore().getState().activeWalletId).toBeNull()
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ reason: 'background' }))
+  })
+
+  it('does not lock when the app returns before the background timeout', async () => {
+    AutoLockService.start({ backgroundTimeoutMs: 60000 })
+
+    changeAppState('background')
+    await jest.advanceTimersByTimeAsync(30000)
+    changeAppState('active')
+    await jest.advanceTimersByTimeAsync(60000)
+
+    expect(getWalletStore().getState().activeWalletId).toBe('wallet-1')
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('locks after the idle timeout and restarts the countdown on activity', async () => {
+    AutoLockService.start({ idleTimeoutMs: 10000 })
+
+    await jest.advanceTimersByTimeAsync(8000)
+    AutoLockService.reportActivity()
+    await jest.advanceTimersByTimeAsync(8000)
+    expect(getWalletStore().getState().activeWalletId).toBe('wallet-1')
+
+    await jest.advanceTimersByTimeAsync(2000)
+    expect(getWalletStore().getState().activeWalletId).toBeNull()
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ reason: 'idle' }))
+  })
+
+  it('counts touches reported through autoLockTouchHandlers without claiming them', async () => {
+    AutoLockService.start({ idleTimeoutMs: 10000, wrapChildren: false })
+
+    await jest.advanceTimersByTimeAsync(8000)
+    expect(autoLockTouchHandlers.onStartShouldSetResponderCapture()).toBe(false)
+    await jest.advanceTimersByTimeAsync(8000)
+
+    expect(getWalletStore().getState().activeWalletId).toBe('wallet-1')
+  })
+
+  it('locks as soon as the app moves to the background', async () => {
+    AutoLockService.start({ lockOnBackground: true })
+
+    changeAppState('background')
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(getWalletStore().getState().activeWalletId).toBeNull()
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ reason: 'background' }))
+  })
+
+  it('defers the lock until a running wallet operation releases the mutex', async () => {
+    AutoLockService.start({ lockOnBackground: true })
+
+    let finishUnlock!: () => void
+    const unlock = withOperationMutex('unlock', () => new Promise<void>((resolve) => {
+      finishUnlock = resolve
+    }))
+
+    changeAppState('background')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(getWalletStore().getState().activeWalletId).toBe('wallet-1')
+
+    finishUnlock()
+    await unlock
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(getWalletStore().getState().activeWalletId).toBeNull()
+    expect(getWalletStore().getState().isOperationInProgress).toBe(false)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not emit when no wallet is active', async () => {
+    getWalletStore().setState({ activeWalletId: null })
+    AutoLockService.start({ lockOnBackground: true })
+
+    changeAppState('background')
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(WorkletLifecycleService.reset).not.toHaveBeenCalled()
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
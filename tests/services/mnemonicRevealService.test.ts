@@ -0,0 +1,141 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AppState, type AppStateStatus } from 'react-native'
+
+import { MnemonicRevealService } from '../../src/services/mnemonicRevealService'
+import { WalletSetupService } from '../../src/services/walletSetupService'
+import { getWalletStore } from '../../src/store/walletStore'
+import { MnemonicRevealEndedError } from '../../src/utils/errors'
+import { lockActiveWallet } from '../../src/utils/walletLock'
+
+jest.mock('../../src/services/walletSetupService', () => ({
+  WalletSetupService: {
+    getMnemonic: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/services/workletLifecycleService', () => ({
+  WorkletLifecycleService: {
+    reset: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+const MNEMONIC = 'abandon ability able about above absent absorb abstract absurd abuse access accident'
+const WORDS = MNEMONIC.split(' ')
+
+describe('MnemonicRevealService', () => {
+  let changeAppState: (state: AppStateStatus) => void
+  const remove = jest.fn()
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.clearAllMocks()
+
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_, handler) => {
+      changeAppState = handler as (state: AppStateStatus) => void
+      return { remove } as never
+    })
+    ;(WalletSetupService.getMnemonic as jest.Mock).mockResolvedValue(MNEMONIC)
+    getWalletStore().setState({
+      walletMetadata: { 'wallet-1': { backedUp: false } },
+      activeWalletId: null,
+    })
+  })
+
+  afterEach(() => {
+    MnemonicRevealService.endAll()
+    jest.useRealTimers()
+  })
+
+  it('reveals the phrase until the session expires and records the reveal', async () => {
+    const session = await MnemonicRevealService.reveal('wallet-1', { ttlMs: 5000 })
+
+    expect(WalletSetupService.getMnemonic).toHaveBeenCalledWith('wallet-1')
+    expect(session.getMnemonic()).toBe(MNEMONIC)
+    expect(session.expiresAt).toBe(Date.now() + 5000)
+    expect(getWalletStore().getState().walletMetadata['wallet-1']).toEqual({
+      backedUp: false,
+      mnemonicRevealedAt: Date.now(),
+    })
+
+    jest.advanceTimersByTime(5000)
+
+    expect(session.isActive()).toBe(false)
+    expect(() => session.getMnemonic()).toThrow(MnemonicRevealEndedError)
+    expect(remove).toHaveBeenCalled()
+  })
+
+  it('ends sessions when closed, on background and on lock', async () => {
+    const closed = await MnemonicRevealService.reveal('wallet-1')
+    closed.close()
+    expect(closed.isActive()).toBe(false)
+
+    const backgrounded = await MnemonicRevealService.reveal('wallet-1')
+    changeAppState('inactive')
+    expect(backgrounded.isActive()).toBe(true)
+    changeAppState('background')
+    expect(backgrounded.isActive()).toBe(false)
+
+    const locked = await MnemonicRevealService.reveal('wallet-1')
+    lockActiveWallet()
+    expect(locked.isActive()).toBe(false)
+  })
+
+  it('rejects when there is no phrase or the TTL is invalid', async () => {
+    ;(WalletSetupService.getMnemonic as jest.Mock).mockResolvedValueOnce(null)
+
+    await expect(MnemonicRevealService.reveal('wallet-1')).rejects.toThrow('No recovery phrase')
+    await expect(MnemonicRevealService.reveal('wallet-1', { ttlMs: 0 })).rejects.toThrow('ttlMs')
+    expect(getWalletStore().getState().walletMetadata['wallet-1']!.mnemonicRevealedAt).toBeUndefined()
+  })
+
+  describe('backup quiz', () => {
+    it('marks the wallet backed up once the words are right', async () => {
+      const session = await MnemonicRevealService.reveal('wallet-1')
+      const quiz = await MnemonicRevealService.createQuiz(session)
+      session.close()
+
+      expect(quiz.positions).toHaveLength(3)
+      expect(new Set(quiz.positions).size).toBe(3)
+      const answers = quiz.positions.map((position) => WORDS[position - 1]!)
+
+      expect(quiz.verify(answers.map(() => 'wrong'))).toBe(false)
+      expect(getWalletStore().getState().walletMetadata['wallet-1']!.backedUp).toBe(false)
+
+      expect(quiz.verify(answers.map((word) => ` ${word.toUpperCase()} `))).toBe(true)
+      expect(getWalletStore().getState().walletMetadata['wallet-1']).toMatchObject({
+        backedUp: true,
+        backupVerifiedAt: Date.now(),
+      })
+    })
+
+    it('needs a live session and ends on lock', async () => {
+      const session = await MnemonicRevealService.reveal('wallet-1')
+      const quiz = await MnemonicRevealService.createQuiz(session, { questions: 2 })
+      await expect(MnemonicRevealService.createQuiz(session, { questions: 13 })).rejects.toThrow('questions')
+
+      lockActiveWallet()
+
+      await expect(MnemonicRevealService.createQuiz(session)).rejects.toBeInstanceOf(MnemonicRevealEndedError)
+      expect(() => quiz.verify(['a', 'b'])).toThrow(MnemonicRevealEndedError)
+    })
+  })
+})
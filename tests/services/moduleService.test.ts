@@ -19,6 +19,8 @@
 
 import { ModuleService } from '../../src/services/moduleService'
 import { requireInitialized } from '../../src/utils/storeHelpers'
+import { getWorkletStore, resetWorkletStore } from '../../src/store/workletStore'
+import { UnsupportedByBundleError, WdkTimeoutError } from '../../src/utils/errors'
 
 jest.mock('../../src/utils/storeHelpers', () => ({
   requireInitialized: jest.fn(),
@@ -36,6 +38,7 @@ describe('ModuleService', () => {
       onModuleEvent: jest.fn(),
     }
     ;(requireInitialized as jest.Mock).mockResolvedValue(mockHRPC)
+    resetWorkletStore()
   })
 
   describe('callModule', () => {
@@ -69,6 +72,37 @@ describe('ModuleService', () => {
     it('rejects an empty method name', async () => {
       await expect(ModuleService.callModule('addressBook', '')).rejects.toThrow('method must be a non-empty string')
     })
+
+    it('refuses module calls on a bundle whose capabilities lack callModule', async () => {
+      getWorkletStore().setState({
+        capabilities: { protocolVersion: 1, bundleVersion: null, rpcs: ['callMethod'], networks: null, protocols: null, modules: null, features: null },
+      })
+
+      await expect(ModuleService.callModule('addressBook', 'list')).rejects.toBeInstanceOf(UnsupportedByBundleError)
+      expect(mockHRPC.callModule).not.toHaveBeenCalled()
+    })
+
+    it('refuses module calls on an HRPC without the module RPCs', async () => {
+      ;(requireInitialized as jest.Mock).mockResolvedValue({})
+
+      await expect(ModuleService.callModule('addressBook', 'list')).rejects.toMatchObject({
+        code: 'UNSUPPORTED_BY_BUNDLE',
+        feature: 'callModule',
+      })
+    })
+
+    it('rejects with WdkTimeoutError when the module does not answer in time', async () => {
+      jest.useFakeTimers()
+      try {
+        mockHRPC.callModule.mockReturnValue(new Promise(() => {}))
+        const promise = ModuleService.callModuleWithOptions({ timeoutMs: 500 }, 'addressBook', 'list')
+        const assertion = expect(promise).rejects.toBeInstanceOf(WdkTimeoutError)
+        await jest.advanceTimersByTimeAsync(500)
+        await assertion
+      } finally {
+        jest.useRealTimers()
+      }
+    })
   })
 
   describe('onModuleEvent', () => {
@@ -19,10 +19,20 @@
  */
 
 import { WalletSetupService } from '../../src/services/walletSetupService'
+import { AuthPolicyService } from '../../src/services/authPolicyService'
+import {
+  AuthenticationFailedError,
+  DuplicateWalletError,
+  PassphraseRequiredError,
+  WalletBackupError,
+} from '../../src/utils/errors'
 import { mockSecureStorage } from '../__mocks__/secureStorage'
 import { WorkletLifecycleService } from '../../src/services/workletLifecycleService'
 import { getWorkletStore } from '../../src/store/workletStore'
+import { getWalletStore } from '../../src/store/walletStore'
 import type { WdkConfigs } from '../../src/types'
+import * as Crypto from 'expo-crypto'
+import { randomBytes } from 'crypto'
 
 // Mock WorkletLifecycleService
 jest.mock('../../src/services/workletLifecycleService', () => ({
@@ -39,6 +49,28 @@ jest.mock('../../src/services/workletLifecycleService', () => ({
       encryptedSeedBuffer: 'test-encrypted-seed-from-mnemonic',
       encryptedEntropyBuffer: 'test-encrypted-entropy-from-mnemonic',
     })),
+    getMnemonicFromEntropy: jest.fn(() => Promise.resolve({ mnemonic: 'stored mnemonic' })),
+    getSeedFromEntropy: jest.fn(() => Promise.resolve({ encryptedSeedBuffer: 'test-encrypted-seed-from-entropy' })),
+    reencryptWallet: jest.fn((_key: string, _entropy: string, encryptedSeed?: string) => Promise.resolve({
+      encryptionKey: 'test-rotated-key',
+      encryptedEntropyBuffer: 'test-rotated-entropy',
+      ...(encryptedSeed ? { encryptedSeedBuffer: 'test-rotated-seed' } : {}),
+    })),
+    getBackupEntropy: jest.fn((encryptedEntropy: string) => Promise.resolve({
+      encryptedBackupEntropy: `backup-${encryptedEntropy}`,
+    })),
+    getSeedAndEntropyFromBackup: jest.fn(() => Promise.resolve({
+      encryptionKey: 'test-encryption-key',
+      encryptedSeedBuffer: 'test-encrypted-seed-from-backup',
+      encryptedEntropyBuffer: 'test-encrypted-entropy-from-backup',
+    })),
+    getSharesFromEntropy: jest.fn(() => Promise.resolve({ shares: ['share-1', 'share-2', 'share-3'] })),
+    validateShares: jest.fn(),
+    getSeedAndEntropyFromShares: jest.fn(() => Promise.resolve({
+      encryptionKey: 'test-encryption-key',
+      encryptedSeedBuffer: 'test-encrypted-seed-from-shares',
+      encryptedEntropyBuffer: 'test-encrypted-entropy-from-shares',
+    })),
     initializeWDK: jest.fn(() => Promise.resolve()),
     reset: jest.fn(),
   },
@@ -240,6 +272,78 @@ describe('WalletSetupService', () => {
         identifier
       )
     })
+
+    it('should unload the recovered seed when storing it fails', async () => {
+      mockSecureStorage.setEncryptedEntropy.mockRejectedValueOnce(new Error('keychain unavailable'))
+
+      await expect(
+        WalletSetupService.initializeFromMnemonic(testMnemonic, 'wallet-1')
+      ).rejects.toThrow('keychain unavailable')
+
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('wallet-1')
+      expect(WorkletLifecycleService.reset).toHaveBeenCalled()
+      expect(WorkletLifecycleService.initializeWDK).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('SLIP-39 shares', () => {
+    beforeEach(async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'wallet-1')
+      await mockSecureStorage.setEncryptedEntropy('test-entropy', 'wallet-1')
+    })
+
+    afterEach(() => {
+      AuthPolicyService.setPolicy(null)
+      AuthPolicyService.resetAttempts()
+    })
+
+    it('should split the stored entropy in the worklet', async () => {
+      const shares = await WalletSetupService.splitIntoShares('wallet-1', { threshold: 2, shareCount: 3 })
+
+      expect(shares).toEqual(['share-1', 'share-2', 'share-3'])
+      expect(WorkletLifecycleService.getSharesFromEntropy).toHaveBeenCalledWith('test-entropy', 'test-key', 2, 3)
+    })
+
+    it('should refuse invalid thresholds before touching storage', async () => {
+      await expect(
+        WalletSetupService.splitIntoShares('wallet-1', { threshold: 4, shareCount: 3 })
+      ).rejects.toThrow('threshold must be an integer from 1 to shareCount')
+      expect(mockSecureStorage.getEncryptedEntropy).not.toHaveBeenCalled()
+    })
+
+    it('should gate splitting on the getMnemonic requirement', async () => {
+      AuthPolicyService.setPolicy({ operations: { getMnemonic: 'authenticator' }, authenticator: () => 'denied' })
+
+      await expect(
+        WalletSetupService.splitIntoShares('wallet-1', { threshold: 2, shareCount: 3 })
+      ).rejects.toBeInstanceOf(AuthenticationFailedError)
+      expect(WorkletLifecycleService.getSharesFromEntropy).not.toHaveBeenCalled()
+    })
+
+    it('should fail for a wallet without stored entropy', async () => {
+      await expect(
+        WalletSetupService.splitIntoShares('missing', { threshold: 2, shareCount: 3 })
+      ).rejects.toThrow('Wallet missing has no stored entropy to split')
+    })
+
+    it('should store and load a wallet recovered from shares', async () => {
+      await WalletSetupService.initializeFromShares(['share-1', 'share-3'], 'wallet-2')
+
+      expect(WorkletLifecycleService.getSeedAndEntropyFromShares).toHaveBeenCalledWith(['share-1', 'share-3'], undefined)
+      expect(mockSecureStorage.setEncryptedSeed).toHaveBeenCalledWith('test-encrypted-seed-from-shares', 'wallet-2')
+      expect(mockSecureStorage.setEncryptedEntropy).toHaveBeenCalledWith('test-encrypted-entropy-from-shares', 'wallet-2')
+      expect(WorkletLifecycleService.initializeWDK).toHaveBeenCalledWith({
+        encryptionKey: 'test-encryption-key',
+        encryptedSeed: 'test-encrypted-seed-from-shares',
+      })
+    })
+
+    it('should not store the seed when recovering with a passphrase', async () => {
+      await WalletSetupService.initializeFromShares(['share-1', 'share-3'], 'wallet-2', 'secret')
+
+      expect(WorkletLifecycleService.getSeedAndEntropyFromShares).toHaveBeenCalledWith(['share-1', 'share-3'], 'secret')
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalled()
+    })
   })
 
   describe('initializeWallet', () => {
@@ -437,5 +541,510 @@ describe('WalletSetupService', () => {
       expect(await WalletSetupService.hasWallet(undefined)).toBe(false)
     })
   })
-})
 
+  describe('auth policy', () => {
+    beforeEach(async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'wallet-1')
+      await mockSecureStorage.setEncryptedSeed('test-seed', 'wallet-1')
+      await mockSecureStorage.setEncryptedEntropy('test-entropy', 'wallet-1')
+      mockSecureStorage.authenticate.mockResolvedValue(false)
+    })
+
+    afterEach(() => {
+      mockSecureStorage.authenticate.mockResolvedValue(true)
+      AuthPolicyService.setPolicy(null)
+      AuthPolicyService.resetAttempts()
+    })
+
+    it('should prompt through secure storage and refuse to unlock when biometrics fail', async () => {
+      AuthPolicyService.setPolicy({ operations: { unlock: 'biometrics' } })
+
+      await expect(
+        WalletSetupService.loadExistingWallet('wallet-1')
+      ).rejects.toBeInstanceOf(AuthenticationFailedError)
+      expect(mockSecureStorage.authenticate).toHaveBeenCalled()
+      expect(mockSecureStorage.getEncryptionKey).not.toHaveBeenCalled()
+    })
+
+    it('should keep the wallet when deleteWallet is not authorized', async () => {
+      AuthPolicyService.setPolicy({ operations: { deleteWallet: 'authenticator' }, authenticator: () => 'denied' })
+
+      await expect(WalletSetupService.deleteWallet('wallet-1')).rejects.toMatchObject({ code: 'AUTH_FAILED' })
+      expect(await mockSecureStorage.hasWallet('wallet-1')).toBe(true)
+      expect(WorkletLifecycleService.reset).not.toHaveBeenCalled()
+    })
+
+    it('should gate both getMnemonic and getEncryptionKey on the getMnemonic requirement', async () => {
+      AuthPolicyService.setPolicy({ operations: { getMnemonic: 'biometrics' } })
+
+      await expect(WalletSetupService.getMnemonic('wallet-1')).rejects.toBeInstanceOf(AuthenticationFailedError)
+      await expect(WalletSetupService.getEncryptionKey('wallet-1')).rejects.toBeInstanceOf(AuthenticationFailedError)
+      expect(mockSecureStorage.getEncryptionKey).not.toHaveBeenCalled()
+
+      mockSecureStorage.authenticate.mockResolvedValue(true)
+      expect(await WalletSetupService.getEncryptionKey('wallet-1')).toBe('test-key')
+      expect(mockSecureStorage.authenticate).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('duplicate seeds', () => {
+    const callMethod = jest.fn((_request: { network: string }) => Promise.resolve({ result: JSON.stringify('0xsame') }))
+    const defaultWorkletStore = (getWorkletStore as jest.Mock).getMockImplementation()
+    let wdkConfigs: WdkConfigs
+
+    beforeEach(() => {
+      wdkConfigs = mockNetworkConfigs
+      ;(getWorkletStore as jest.Mock).mockReturnValue({
+        getState: () => ({
+          isWorkletStarted: true,
+          isInitialized: true,
+          hrpc: { callMethod },
+          wdkConfigs,
+          isWorkletStartedPromise: { promise: Promise.resolve() },
+          isWorkletInitializedPromise: { promise: Promise.resolve() },
+        }),
+      })
+      ;(Crypto.digestStringAsync as jest.Mock).mockImplementation(
+        async (_algorithm: string, data: string) => `FP-${data}`
+      )
+      getWalletStore().setState({
+        walletMetadata: { existing: { backedUp: true, fingerprint: { ethereum: 'fp-ethereum:0xsame' } } },
+        tempWalletId: null,
+      })
+    })
+
+    afterEach(() => {
+      ;(getWorkletStore as jest.Mock).mockImplementation(defaultWorkletStore)
+      getWalletStore().setState({ walletMetadata: {} })
+    })
+
+    it('should fingerprint the loaded wallet from its first address on each network', async () => {
+      expect(await WalletSetupService.getLoadedWalletFingerprint()).toEqual({ ethereum: 'fp-ethereum:0xsame' })
+      expect(callMethod).toHaveBeenCalledWith(
+        expect.objectContaining({ methodName: 'getAddress', network: 'ethereum', accountIndex: 0 })
+      )
+    })
+
+    it('should leave out networks whose address cannot be derived', async () => {
+      wdkConfigs = { networks: { ...mockNetworkConfigs.networks, tron: { blockchain: 'tron', config: {} } } }
+      callMethod.mockImplementation(({ network }) =>
+        network === 'tron'
+          ? Promise.reject(new Error('tron unavailable'))
+          : Promise.resolve({ result: JSON.stringify('0xsame') })
+      )
+
+      expect(await WalletSetupService.getLoadedWalletFingerprint()).toEqual({ ethereum: 'fp-ethereum:0xsame' })
+      callMethod.mockImplementation(() => Promise.resolve({ result: JSON.stringify('0xsame') }))
+    })
+
+    it('should spot the same seed after a network was added', async () => {
+      wdkConfigs = { networks: { ...mockNetworkConfigs.networks, polygon: { blockchain: 'polygon', config: {} } } }
+
+      const error = await WalletSetupService.initializeFromMnemonic('test mnemonic', 'again').catch((e) => e)
+
+      expect(error).toBeInstanceOf(DuplicateWalletError)
+      expect(error.existingWalletId).toBe('existing')
+    })
+
+    it('should refuse to store a seed another wallet already holds', async () => {
+      const error = await WalletSetupService.initializeFromMnemonic('test mnemonic', 'again').catch((e) => e)
+
+      expect(error).toBeInstanceOf(DuplicateWalletError)
+      expect(error.existingWalletId).toBe('existing')
+      expect(mockSecureStorage.setEncryptionKey).not.toHaveBeenCalled()
+      expect(WorkletLifecycleService.reset).toHaveBeenCalled()
+    })
+
+    it('should store it anyway with allowDuplicate and return the fingerprint', async () => {
+      const result = await WalletSetupService.initializeFromMnemonic('test mnemonic', 'again', undefined, { allowDuplicate: true })
+
+      expect(result.fingerprint).toEqual({ ethereum: 'fp-ethereum:0xsame' })
+      expect(await mockSecureStorage.hasWallet('again')).toBe(true)
+    })
+
+    it('should store a seed that is not on the device yet', async () => {
+      callMethod.mockResolvedValueOnce({ result: JSON.stringify('0xnew') })
+
+      const result = await WalletSetupService.initializeFromMnemonic('other mnemonic', 'new')
+
+      expect(result.fingerprint).toEqual({ ethereum: 'fp-ethereum:0xnew' })
+      expect(await mockSecureStorage.hasWallet('new')).toBe(true)
+    })
+  })
+
+  describe('temporary wallet commit', () => {
+    afterEach(() => {
+      WalletSetupService.discardTemporaryWallet()
+    })
+
+    it('should store the held credentials without deriving them again', async () => {
+      WalletSetupService.holdTemporaryWallet('temp', {
+        encryptionKey: 'temp-key',
+        encryptedSeed: 'temp-seed',
+        encryptedEntropy: 'temp-entropy',
+        restored: true,
+      })
+
+      const result = await WalletSetupService.commitTemporaryWallet('temp')
+
+      expect(result).toMatchObject({ restored: true })
+      expect(mockSecureStorage.setEncryptionKey).toHaveBeenCalledWith('temp-key', 'temp', { requireBiometrics: false })
+      expect(mockSecureStorage.setEncryptedSeed).toHaveBeenCalledWith('temp-seed', 'temp')
+      expect(mockSecureStorage.setEncryptedEntropy).toHaveBeenCalledWith('temp-entropy', 'temp')
+      expect(WorkletLifecycleService.getSeedAndEntropyFromMnemonic).not.toHaveBeenCalled()
+      expect(WorkletLifecycleService.initializeWDK).not.toHaveBeenCalled()
+      await expect(WalletSetupService.commitTemporaryWallet('temp')).rejects.toThrow('No temporary wallet session')
+    })
+
+    it('should not store the seed of a passphrase session', async () => {
+      WalletSetupService.holdTemporaryWallet('temp', {
+        encryptionKey: 'temp-key',
+        encryptedSeed: 'temp-seed',
+        encryptedEntropy: 'temp-entropy',
+        passphraseRequired: true,
+      })
+
+      await WalletSetupService.commitTemporaryWallet('temp')
+
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalled()
+      expect(mockSecureStorage.setEncryptedEntropy).toHaveBeenCalledWith('temp-entropy', 'temp')
+    })
+
+    it('should refuse an ID that is already stored or has no session', async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'temp')
+      WalletSetupService.holdTemporaryWallet('temp', {
+        encryptionKey: 'temp-key',
+        encryptedSeed: 'temp-seed',
+        encryptedEntropy: 'temp-entropy',
+      })
+
+      await expect(WalletSetupService.commitTemporaryWallet('temp')).rejects.toThrow('already exists')
+      await expect(WalletSetupService.commitTemporaryWallet('other')).rejects.toThrow('No temporary wallet session')
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('stored wallet inspection', () => {
+    it('should report what secure storage holds for each candidate', async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'wallet-1')
+      await mockSecureStorage.setEncryptedSeed('test-seed', 'wallet-1')
+      await mockSecureStorage.setEncryptionKey('test-key', 'hidden')
+      await mockSecureStorage.setEncryptedEntropy('test-entropy', 'hidden')
+      await mockSecureStorage.setEncryptedSeed('test-seed', 'no-key')
+
+      const result = await WalletSetupService.inspectStoredWallets(['wallet-1', 'hidden', 'no-key', 'nothing'])
+
+      expect(result).toEqual([
+        { walletId: 'wallet-1', state: 'ok' },
+        { walletId: 'hidden', state: 'ok', passphraseRequired: true },
+        { walletId: 'no-key', state: 'unreadable', error: 'Encryption key is missing' },
+        { walletId: 'nothing', state: 'absent' },
+      ])
+      expect(mockSecureStorage.getEncryptionKey).not.toHaveBeenCalled()
+    })
+
+    it('should report a failing read as unreadable', async () => {
+      mockSecureStorage.hasWallet.mockRejectedValueOnce(new Error('Keychain item corrupted'))
+
+      const [status] = await WalletSetupService.inspectStoredWallets(['wallet-1'])
+
+      expect(status).toEqual({ walletId: 'wallet-1', state: 'unreadable', error: 'Keychain item corrupted' })
+    })
+
+    it('should remove stored entries without resetting the worklet', async () => {
+      await mockSecureStorage.setEncryptedSeed('test-seed', 'no-key')
+
+      await WalletSetupService.removeStoredWallet('no-key')
+
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('no-key')
+      expect(WorkletLifecycleService.reset).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('secure storage wipe', () => {
+    afterEach(() => {
+      AuthPolicyService.setPolicy(null)
+      AuthPolicyService.resetAttempts()
+    })
+
+    it('should delete every wallet and clear the storage', async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'wallet-1')
+      await mockSecureStorage.setEncryptedSeed('test-seed', 'wallet-1')
+
+      await WalletSetupService.wipeSecureStorage(['wallet-1', 'wallet-2'])
+
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('wallet-1')
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('wallet-2')
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('default')
+      expect(mockSecureStorage.clearAll).toHaveBeenCalled()
+      expect(await mockSecureStorage.getEncryptionKey('wallet-1')).toBeNull()
+    })
+
+    it('should ask for authentication once and delete nothing when refused', async () => {
+      AuthPolicyService.setPolicy({ operations: { deleteWallet: 'authenticator' }, authenticator: () => 'denied' })
+
+      await expect(WalletSetupService.wipeSecureStorage(['wallet-1'])).rejects.toMatchObject({ code: 'AUTH_FAILED' })
+      expect(mockSecureStorage.deleteWallet).not.toHaveBeenCalled()
+      expect(mockSecureStorage.clearAll).not.toHaveBeenCalled()
+    })
+
+    it('should clear the rest and name the wallets it could not delete', async () => {
+      mockSecureStorage.deleteWallet.mockRejectedValueOnce(new Error('Keychain busy'))
+
+      await expect(WalletSetupService.wipeSecureStorage(['wallet-1', 'wallet-2'])).rejects.toThrow('wallet-1')
+      expect(mockSecureStorage.deleteWallet).toHaveBeenCalledWith('wallet-2')
+      expect(mockSecureStorage.clearAll).toHaveBeenCalled()
+    })
+  })
+
+  describe('BIP-39 passphrase', () => {
+    it('should not store the seed of a wallet created with a passphrase', async () => {
+      await WalletSetupService.createNewWallet('hidden', 'secret words')
+
+      expect(WorkletLifecycleService.generateEntropyAndEncrypt).toHaveBeenCalledWith(12, 'secret words')
+      expect(mockSecureStorage.setEncryptionKey).toHaveBeenCalledWith(expect.any(String), 'hidden', { requireBiometrics: false })
+      expect(mockSecureStorage.setEncryptedEntropy).toHaveBeenCalledWith(expect.any(String), 'hidden')
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalled()
+    })
+
+    it('should pass the passphrase when restoring and keep it out of storage', async () => {
+      await WalletSetupService.initializeFromMnemonic('test mnemonic', 'hidden', 'secret words')
+
+      expect(WorkletLifecycleService.getSeedAndEntropyFromMnemonic).toHaveBeenCalledWith('test mnemonic', 'secret words')
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalled()
+      expect(JSON.stringify((mockSecureStorage as any).setEncryptionKey.mock.calls)).not.toContain('secret words')
+    })
+
+    it('should require the passphrase to unlock a passphrase wallet', async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'hidden')
+      await mockSecureStorage.setEncryptedEntropy('test-entropy', 'hidden')
+
+      await expect(WalletSetupService.loadExistingWallet('hidden')).rejects.toBeInstanceOf(PassphraseRequiredError)
+    })
+
+    it('should derive the seed from the stored entropy and the passphrase', async () => {
+      await mockSecureStorage.setEncryptionKey('test-key', 'hidden')
+      await mockSecureStorage.setEncryptedEntropy('test-entropy', 'hidden')
+
+      const result = await WalletSetupService.loadExistingWallet('hidden', 'secret words')
+
+      expect(WorkletLifecycleService.getSeedFromEntropy).toHaveBeenCalledWith('test-entropy', 'test-key', 'secret words')
+      expect(WorkletLifecycleService.getMnemonicFromEntropy).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        encryptionKey: 'test-key',
+        encryptedSeed: 'test-encrypted-seed-from-entropy',
+      })
+      expect(mockSecureStorage.getEncryptedSeed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rotateEncryptionKey', () => {
+    beforeEach(async () => {
+      await mockSecureStorage.setEncryptionKey('old-key', 'wallet-1')
+      await mockSecureStorage.setEncryptedSeed('old-seed', 'wallet-1')
+      await mockSecureStorage.setEncryptedEntropy('old-entropy', 'wallet-1')
+    })
+
+    afterEach(() => {
+      getWalletStore().setState({ activeWalletId: null, walletLoadingState: { type: 'not_loaded' } })
+      AuthPolicyService.setPolicy(null)
+      AuthPolicyService.resetAttempts()
+    })
+
+    it('should gate rotation on the getMnemonic requirement', async () => {
+      AuthPolicyService.setPolicy({ operations: { getMnemonic: 'authenticator' }, authenticator: () => 'denied' })
+
+      await expect(WalletSetupService.rotateEncryptionKey('wallet-1')).rejects.toBeInstanceOf(AuthenticationFailedError)
+      expect(mockSecureStorage.getEncryptionKey).not.toHaveBeenCalled()
+      expect(WorkletLifecycleService.reencryptWallet).not.toHaveBeenCalled()
+    })
+
+    it('should have the worklet re-encrypt under a fresh key and swap the entries', async () => {
+      await WalletSetupService.rotateEncryptionKey('wallet-1')
+
+      expect(WorkletLifecycleService.reencryptWallet).toHaveBeenCalledWith('old-key', 'old-entropy', 'old-seed')
+      expect(WorkletLifecycleService.getMnemonicFromEntropy).not.toHaveBeenCalled()
+      expect(await mockSecureStorage.getEncryptionKey('wallet-1')).toBe('test-rotated-key')
+      expect(await mockSecureStorage.getEncryptedSeed('wallet-1')).toBe('test-rotated-seed')
+      expect(await mockSecureStorage.getEncryptedEntropy('wallet-1')).toBe('test-rotated-entropy')
+      expect(WorkletLifecycleService.initializeWDK).not.toHaveBeenCalled()
+    })
+
+    it('should keep a passphrase wallet without a stored seed', async () => {
+      await mockSecureStorage.setEncryptionKey('old-key', 'hidden')
+      await mockSecureStorage.setEncryptedEntropy('old-entropy', 'hidden')
+
+      await WalletSetupService.rotateEncryptionKey('hidden')
+
+      expect(WorkletLifecycleService.reencryptWallet).toHaveBeenCalledWith('old-key', 'old-entropy', undefined)
+      expect(mockSecureStorage.setEncryptedSeed).not.toHaveBeenCalledWith(expect.anything(), 'hidden')
+      expect(await mockSecureStorage.getEncryptedSeed('hidden')).toBeNull()
+      expect(await mockSecureStorage.getEncryptionKey('hidden')).toBe('test-rotated-key')
+    })
+
+    it('should put the previous entries back when a write fails', async () => {
+      mockSecureStorage.setEncryptedEntropy.mockRejectedValueOnce(new Error('keychain unavailable'))
+
+      await expect(WalletSetupService.rotateEncryptionKey('wallet-1')).rejects.toThrow('keychain unavailable')
+
+      expect(await mockSecureStorage.getEncryptionKey('wallet-1')).toBe('old-key')
+      expect(await mockSecureStorage.getEncryptedSeed('wallet-1')).toBe('old-seed')
+      expect(await mockSecureStorage.getEncryptedEntropy('wallet-1')).toBe('old-entropy')
+    })
+
+    it('should write nothing if the worklet fails to verify the new ciphertexts', async () => {
+      ;(WorkletLifecycleService.reencryptWallet as jest.Mock)
+        .mockRejectedValueOnce(new Error('Re-encrypted wallet does not decrypt to the same secrets'))
+
+      await expect(WalletSetupService.rotateEncryptionKey('wallet-1')).rejects.toThrow('same secrets')
+
+      expect(mockSecureStorage.setEncryptionKey).toHaveBeenCalledTimes(1)
+      expect(await mockSecureStorage.getEncryptionKey('wallet-1')).toBe('old-key')
+    })
+
+    it('should write nothing if the worklet drops the stored seed', async () => {
+      ;(WorkletLifecycleService.reencryptWallet as jest.Mock).mockResolvedValueOnce({
+        encryptionKey: 'test-rotated-key',
+        encryptedEntropyBuffer: 'test-rotated-entropy',
+      })
+
+      await expect(WalletSetupService.rotateEncryptionKey('wallet-1')).rejects.toThrow('The current key was kept')
+
+      expect(await mockSecureStorage.getEncryptionKey('wallet-1')).toBe('old-key')
+      expect(await mockSecureStorage.getEncryptedSeed('wallet-1')).toBe('old-seed')
+    })
+
+    it('should re-initialize WDK when the rotated wallet is loaded', async () => {
+      getWalletStore().setState({
+        activeWalletId: 'wallet-1',
+        walletLoadingState: { type: 'ready', identifier: 'wallet-1' },
+      })
+      ;(getWorkletStore as jest.Mock).mockReturnValueOnce({ getState: () => ({ isInitialized: true }) })
+
+      await WalletSetupService.rotateEncryptionKey('wallet-1')
+
+      expect(WorkletLifecycleService.initializeWDK).toHaveBeenCalledWith({
+        encryptionKey: 'test-rotated-key',
+        encryptedSeed: 'test-rotated-seed',
+      })
+    })
+
+    it('should re-initialize WDK when the loaded default wallet is rotated without an ID', async () => {
+      await mockSecureStorage.setEncryptionKey('old-key')
+      await mockSecureStorage.setEncryptedSeed('old-seed')
+      await mockSecureStorage.setEncryptedEntropy('old-entropy')
+      getWalletStore().setState({
+        activeWalletId: 'default',
+        walletLoadingState: { type: 'ready', identifier: 'default' },
+      })
+      ;(getWorkletStore as jest.Mock).mockReturnValueOnce({ getState: () => ({ isInitialized: true }) })
+
+      await WalletSetupService.rotateEncryptionKey()
+
+      expect(WorkletLifecycleService.initializeWDK).toHaveBeenCalledWith({
+        encryptionKey: 'test-rotated-key',
+        encryptedSeed: 'test-rotated-seed',
+      })
+    })
+
+    it('should fail for a wallet that does not exist', async () => {
+      await expect(WalletSetupService.rotateEncryptionKey('missing')).rejects.toThrow('cannot be rotated')
+    })
+  })
+
+  describe('wallet backup', () => {
+    beforeEach(async () => {
+      (Crypto.getRandomBytesAsync as jest.Mock).mockImplementation((length: number) =>
+        Promise.resolve(new Uint8Array(randomBytes(length)))
+      )
+      await mockSecureStorage.setEncryptionKey('key-1', 'wallet-1')
+      await mockSecureStorage.setEncryptedSeed('seed-1', 'wallet-1')
+      await mockSecureStorage.setEncryptedEntropy('entropy-1', 'wallet-1')
+      await mockSecureStorage.setEncryptionKey('key-2', 'hidden')
+      await mockSecureStorage.setEncryptedEntropy('entropy-2', 'hidden')
+    })
+
+    afterEach(() => {
+      AuthPolicyService.setPolicy(null)
+    })
+
+    const exportBoth = () => WalletSetupService.exportBackup([
+      { identifier: 'wallet-1', accounts: [{ accountIndex: 0, addresses: { ethereum: '0xabc' } }] },
+      { identifier: 'hidden', passphraseRequired: true },
+    ], 'correct horse')
+
+    it('should have the worklet re-encrypt the entropy instead of reading the mnemonic', async () => {
+      const blob = await exportBoth()
+
+      expect(JSON.parse(blob)).toMatchObject({ format: 'wdk-wallet-backup', version: 1 })
+      expect(blob).not.toContain('backup-entropy')
+      const entropyKey = expect.stringMatching(/^[0-9a-f]{64}$/)
+      expect(WorkletLifecycleService.getBackupEntropy).toHaveBeenCalledWith('entropy-1', 'key-1', entropyKey)
+      expect(WorkletLifecycleService.getBackupEntropy).toHaveBeenCalledWith('entropy-2', 'key-2', entropyKey)
+      expect(WorkletLifecycleService.getMnemonicFromEntropy).not.toHaveBeenCalled()
+    })
+
+    it('should authorize the export once, as getMnemonic', async () => {
+      AuthPolicyService.setPolicy({ operations: { getMnemonic: 'biometrics' } })
+
+      await exportBoth()
+
+      expect(mockSecureStorage.authenticate).toHaveBeenCalledTimes(1)
+    })
+
+    it('should restore every wallet on a new device and leave none loaded', async () => {
+      const blob = await exportBoth()
+      const [[, , entropyKey]] = (WorkletLifecycleService.getBackupEntropy as jest.Mock).mock.calls
+      ;(mockSecureStorage as any)._clearStorage()
+      jest.clearAllMocks()
+
+      const result = await WalletSetupService.importBackup(blob, 'correct horse')
+
+      expect(result).toEqual({
+        restored: [
+          { identifier: 'wallet-1', accounts: [{ accountIndex: 0, addresses: { ethereum: '0xabc' } }] },
+          { identifier: 'hidden', passphraseRequired: true },
+        ],
+        skipped: [],
+        failed: [],
+      })
+      expect(WorkletLifecycleService.getSeedAndEntropyFromBackup).toHaveBeenCalledWith('backup-entropy-1', entropyKey)
+      expect(WorkletLifecycleService.getSeedAndEntropyFromBackup).toHaveBeenCalledWith('backup-entropy-2', entropyKey)
+      expect(WorkletLifecycleService.getSeedAndEntropyFromMnemonic).not.toHaveBeenCalled()
+      expect(mockSecureStorage.setEncryptedSeed).toHaveBeenCalledTimes(1)
+      expect(mockSecureStorage.setEncryptedSeed).toHaveBeenCalledWith(expect.any(String), 'wallet-1')
+      expect(mockSecureStorage.setEncryptedEntropy).toHaveBeenCalledWith(expect.any(String), 'hidden')
+      expect(WorkletLifecycleService.reset).toHaveBeenCalled()
+    })
+
+    it('should skip wallets that already exist', async () => {
+      const blob = await exportBoth()
+      await mockSecureStorage.deleteWallet('hidden')
+      jest.clearAllMocks()
+
+      const result = await WalletSetupService.importBackup(blob, 'correct horse')
+
+      expect(result.skipped).toEqual(['wallet-1'])
+      expect(result.restored.map(({ identifier }) => identifier)).toEqual(['hidden'])
+      expect(mockSecureStorage.setEncryptionKey).not.toHaveBeenCalledWith(expect.anything(), 'wallet-1', expect.anything())
+    })
+
+    it('should reject a wrong password without writing anything', async () => {
+      const blob = await exportBoth()
+      ;(mockSecureStorage as any)._clearStorage()
+      jest.clearAllMocks()
+
+      const error = await WalletSetupService.importBackup(blob, 'wrong horse').catch((e) => e)
+
+      expect(error).toBeInstanceOf(WalletBackupError)
+      expect(error.reason).toBe('wrong_password')
+      expect(mockSecureStorage.setEncryptionKey).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to export a wallet without entropy', async () => {
+      await expect(
+        WalletSetupService.exportBackup([{ identifier: 'missing' }], 'correct horse')
+      ).rejects.toThrow('Wallet missing has no entropy to back up')
+    })
+  })
+})
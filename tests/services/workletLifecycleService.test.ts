@@ -18,6 +18,9 @@ import { getWorkletStore } from '../../src/store/workletStore'
 import type { WdkConfigs, BundleConfig } from '../../src/types'
 import { createResolvablePromise } from '../../src/utils/promise'
 import { getEpoch } from '../../src/utils/workletEpoch'
+import { StartupStage } from '../../src/utils/initializationState'
+import { BundleIntegrityError } from '../../src/utils/errors'
+import { verifyBundleIntegrity } from '../../src/utils/bundleIntegrity'
 import HRPC from '@tetherto/pear-wrk-wdk/hrpc'
 
 const mockWorkletInstance = {
@@ -41,6 +44,10 @@ const mockHRPCInstance = {
   initializeWDK: mockInitializeWDK,
 }
 
+jest.mock('../../src/utils/bundleIntegrity', () => ({
+  verifyBundleIntegrity: jest.fn(() => Promise.resolve()),
+}))
+
 jest.mock('@tetherto/pear-wrk-wdk/hrpc', () => {
   return jest.fn().mockImplementation(() => {
     return mockHRPCInstance
@@ -64,6 +71,8 @@ jest.mock('../../src/store/workletStore', () => ({
           worklet: null,
           hrpc: null,
           error: null,
+          startupStage: null,
+          startupTimings: [],
         })),
         setState: jest.fn(),
       }
@@ -192,6 +201,8 @@ describe('WorkletLifecycleService', () => {
       wdkConfigs: null,
       workletStartResult: null,
       wdkInitResult: null,
+      startupStage: null,
+      startupTimings: [],
       isWorkletStartedPromise: createResolvablePromise<boolean>(),
       isWorkletInitializedPromise: createResolvablePromise<boolean>(),
     }
@@ -200,6 +211,108 @@ describe('WorkletLifecycleService', () => {
   })
 
   describe('startWorklet', () => {
+    it('reports each startup stage and closes the last one once started', async () => {
+      await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
+
+      const stages = (mockStore.setState as jest.Mock).mock.calls
+        .map(([update]) => update)
+        .filter((update) => typeof update === 'object' && 'startupStage' in update)
+        .map((update) => update.startupStage)
+
+      expect(stages).toEqual([
+        StartupStage.LOADING_BUNDLE,
+        StartupStage.IPC_HANDSHAKE,
+        StartupStage.WORKLET_START,
+        null,
+      ])
+    })
+
+    it('marks the running startup stage as failed when starting fails', async () => {
+      mockHRPCInstance.workletStart.mockRejectedValueOnce(new Error('bad config'))
+      const state = {
+        ...mockStore.getState(),
+        startupStage: StartupStage.WORKLET_START,
+        startupTimings: [
+          { stage: StartupStage.WORKLET_START, startedAt: Date.now(), durationMs: null, failed: false },
+        ],
+      }
+      ;(mockStore as any).getState = jest.fn(() => state)
+      void state.isWorkletStartedPromise.promise.catch(() => {})
+
+      await expect(
+        WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig),
+      ).rejects.toThrow('bad config')
+
+      const finished = (mockStore.setState as jest.Mock).mock.calls
+        .map(([update]) => update)
+        .filter((update) => typeof update === 'object' && update.startupStage === null)
+        .pop()
+      expect(finished.startupTimings).toEqual([
+        expect.objectContaining({ stage: StartupStage.WORKLET_START, failed: true }),
+      ])
+      expect(finished.startupTimings[0].durationMs).toBeGreaterThanOrEqual(0)
+    })
+
+    it('refuses a bundle failing its integrity check before creating the transport', async () => {
+      const rejection = new BundleIntegrityError('hash_mismatch', 'Bundle hash mismatch')
+      ;(verifyBundleIntegrity as jest.Mock).mockRejectedValueOnce(rejection)
+      void mockStore.getState().isWorkletStartedPromise.promise.catch(() => {})
+
+      await expect(
+        WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig),
+      ).rejects.toBe(rejection)
+
+      expect(HRPC).not.toHaveBeenCalled()
+      expect(mockWorkletInstance.start).not.toHaveBeenCalled()
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({ bundleError: rejection, isWorkletStarted: false }),
+      )
+    })
+
+    it('stores the capabilities the bundle reports from workletStart', async () => {
+      mockWorkletStart.mockResolvedValueOnce({
+        status: 'success',
+        protocolVersion: 1,
+        capabilities: { networks: Object.keys(defaultNetworkConfigs.networks) },
+      } as any)
+
+      await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
+
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isWorkletStarted: true,
+          capabilities: expect.objectContaining({ protocolVersion: 1, networks: Object.keys(defaultNetworkConfigs.networks) }),
+        }),
+      )
+    })
+
+    it('refuses and shuts down a bundle that lacks a configured network', async () => {
+      const destroy = jest.fn()
+      ;(mockWorkletInstance as any).destroy = destroy
+      mockWorkletStart.mockResolvedValueOnce({
+        status: 'success',
+        protocolVersion: 1,
+        capabilities: { networks: ['ethereum'] },
+      } as any)
+      void mockStore.getState().isWorkletStartedPromise.promise.catch(() => {})
+
+      try {
+        await expect(
+          WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig),
+        ).rejects.toMatchObject({ code: 'BUNDLE_INCOMPATIBLE', reason: 'unsupported_config' })
+
+        expect(destroy).toHaveBeenCalled()
+        expect(mockStore.setState).toHaveBeenCalledWith(
+          expect.objectContaining({
+            bundleError: expect.objectContaining({ reason: 'unsupported_config' }),
+            isWorkletStarted: false,
+          }),
+        )
+      } finally {
+        delete (mockWorkletInstance as any).destroy
+      }
+    })
+
     it('should start worklet with default network configuration', async () => {
       await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
 
@@ -331,6 +444,8 @@ describe('WorkletLifecycleService', () => {
         networkConfigs: defaultNetworkConfigs,
         workletStartResult: null,
         wdkInitResult: null,
+        startupStage: null,
+        startupTimings: [],
       }
       ;(mockStore as any).getState = jest.fn(() => alreadyStartedState)
 
@@ -360,6 +475,8 @@ describe('WorkletLifecycleService', () => {
         networkConfigs: null,
         workletStartResult: null,
         wdkInitResult: null,
+        startupStage: null,
+        startupTimings: [],
       }
       ;(mockStore as any).getState = jest.fn(() => alreadyLoadingState)
 
@@ -433,6 +550,8 @@ describe('WorkletLifecycleService', () => {
         wdkConfigs: null,
         workletStartResult: null,
         wdkInitResult: null,
+        startupStage: null,
+        startupTimings: [],
         isWorkletStartedPromise: createResolvablePromise<boolean>(),
         isWorkletInitializedPromise: createResolvablePromise<boolean>(),
       })
@@ -513,6 +632,48 @@ describe('WorkletLifecycleService', () => {
   })
 
   describe('initializeWDK', () => {
+    function useStartedState() {
+      const startPromise = createResolvablePromise<boolean>()
+      startPromise.resolve(true)
+      ;(mockStore as any).getState = jest.fn(() => ({
+        isWorkletStarted: true,
+        isLoading: false,
+        hrpc: mockHRPCInstance,
+        wdkConfigs: defaultNetworkConfigs,
+        startupStage: null,
+        startupTimings: [],
+        isWorkletInitializedPromise: createResolvablePromise<boolean>(),
+        isWorkletStartedPromise: startPromise,
+      }))
+    }
+
+    function reportedStages() {
+      return (mockStore.setState as jest.Mock).mock.calls
+        .map(([update]) => update)
+        .filter((update) => typeof update === 'object' && 'startupStage' in update)
+        .map((update) => update.startupStage)
+    }
+
+    it('tracks the first wallet load of a startup run, and only that one', async () => {
+      mockInitializeWDK.mockResolvedValue({ status: 'success' })
+      await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
+      useStartedState()
+      ;(mockStore.setState as jest.Mock).mockClear()
+
+      await WorkletLifecycleService.initializeWDK({ encryptionKey: 'key', encryptedSeed: 'seed' })
+      expect(reportedStages()).toEqual([StartupStage.INITIALIZE_WDK, StartupStage.DERIVING_ADDRESSES])
+
+      // The first address ends the startup run; a later unlock is not startup
+      const deriving = { ...mockStore.getState(), startupStage: StartupStage.DERIVING_ADDRESSES }
+      ;(mockStore as any).getState = jest.fn(() => deriving)
+      WorkletLifecycleService.completeStartupStage(StartupStage.DERIVING_ADDRESSES)
+      useStartedState()
+      ;(mockStore.setState as jest.Mock).mockClear()
+
+      await WorkletLifecycleService.initializeWDK({ encryptionKey: 'key', encryptedSeed: 'seed' })
+      expect(reportedStages()).toEqual([])
+    })
+
     it('calls hrpc.initializeWDK again when invoked twice with the same credentials', async () => {
       mockInitializeWDK.mockClear()
       mockInitializeWDK.mockResolvedValue({ status: 'success' })
@@ -535,6 +696,8 @@ describe('WorkletLifecycleService', () => {
         wdkConfigs: defaultNetworkConfigs,
         workletStartResult: null,
         wdkInitResult: { status: 'success' },
+        startupStage: null,
+        startupTimings: [],
         isWorkletInitializedPromise: initPromise,
         isWorkletStartedPromise: startPromise,
       }
@@ -576,6 +739,8 @@ describe('WorkletLifecycleService', () => {
         wdkConfigs: defaultNetworkConfigs,
         workletStartResult: null,
         wdkInitResult: null,
+        startupStage: null,
+        startupTimings: [],
         isWorkletInitializedPromise: initPromise,
         isWorkletStartedPromise: startPromise,
       }))
@@ -621,4 +786,282 @@ describe('WorkletLifecycleService', () => {
       expect(getEpoch()).toBe(before + 3)
     })
   })
+  describe('setTransport', () => {
+    afterEach(() => {
+      WorkletLifecycleService.setTransport()
+    })
+
+    it('starts against a custom transport instead of a Bare worklet', async () => {
+      const { Worklet } = require('react-native-bare-kit')
+      ;(Worklet as jest.Mock).mockClear()
+      const hrpc = {
+        workletStart: jest.fn().mockResolvedValue({ status: 'started' }),
+      }
+      const factory = jest.fn(() => ({ hrpc: hrpc as any }))
+      WorkletLifecycleService.setTransport(factory)
+
+      await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
+
+      expect(factory).toHaveBeenCalledWith({
+        bundleConfig: mockBundleConfig,
+        wdkConfigs: defaultNetworkConfigs,
+      })
+      expect(Worklet).not.toHaveBeenCalled()
+      expect(hrpc.workletStart).toHaveBeenCalledWith({
+        config: JSON.stringify(defaultNetworkConfigs),
+      })
+      expect(mockStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({ isWorkletStarted: true, worklet: null, ipc: null }),
+      )
+    })
+
+    it('disposes the custom transport when the worklet is torn down', async () => {
+      const dispose = jest.fn()
+      const hrpc = { workletStart: jest.fn().mockResolvedValue({ status: 'started' }) }
+      WorkletLifecycleService.setTransport(() => ({ hrpc: hrpc as any, dispose }))
+
+      await WorkletLifecycleService.startWorklet(defaultNetworkConfigs, mockBundleConfig)
+      await WorkletLifecycleService.teardownWorklet()
+
+      expect(dispose).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('teardownWorklet', () => {
+    it('stops the worklet, re-arms both lifecycle promises and keeps the stored configuration', async () => {
+      const hrpc = { cleanup: jest.fn() }
+      const worklet = { terminate: jest.fn(), stop: jest.fn() }
+      const previousState = {
+        ...mockSharedStore.getState(),
+        hrpc,
+        worklet,
+        isWorkletStarted: true,
+        wdkConfigs: defaultNetworkConfigs,
+        bundleConfig: mockBundleConfig,
+      }
+      mockSharedStore.getState = jest.fn(() => previousState)
+      const before = getEpoch()
+
+      await WorkletLifecycleService.teardownWorklet()
+
+      const update = (mockSharedStore.setState as jest.Mock).mock.calls[0][0]
+      expect(update).toEqual(expect.objectContaining({
+        worklet: null,
+        hrpc: null,
+        ipc: null,
+        isWorkletStarted: false,
+        isInitialized: false,
+      }))
+      expect(update).not.toHaveProperty('wdkConfigs')
+      expect(update).not.toHaveProperty('bundleConfig')
+      expect(update.isWorkletStartedPromise).not.toBe(previousState.isWorkletStartedPromise)
+      expect(update.isWorkletInitializedPromise).not.toBe(previousState.isWorkletInitializedPromise)
+      expect(hrpc.cleanup).toHaveBeenCalled()
+      expect(worklet.stop).toHaveBeenCalled()
+      expect(getEpoch()).toBe(before + 1)
+    })
+
+    it('drops the loaded wallet back to LOCKED, keeping a persisted walletId as the hint', async () => {
+      getWalletStore().setState({
+        activeWalletId: 'wallet-1',
+        tempWalletId: null,
+        walletLoadingState: { type: 'ready', identifier: 'wallet-1' },
+      })
+
+      await WorkletLifecycleService.teardownWorklet()
+
+      expect(getWalletStore().getState().activeWalletId).toBe('wallet-1')
+      expect(getWalletStore().getState().walletLoadingState).toEqual({ type: 'not_loaded' })
+    })
+
+    it('forgets a temporary wallet, which only lived inside the worklet', async () => {
+      getWalletStore().setState({
+        activeWalletId: 'temp-1',
+        tempWalletId: 'temp-1',
+        walletLoadingState: { type: 'ready', identifier: 'temp-1' },
+      })
+
+      await WorkletLifecycleService.teardownWorklet()
+
+      expect(getWalletStore().getState().activeWalletId).toBeNull()
+      expect(getWalletStore().getState().tempWalletId).toBeNull()
+    })
+  })
+
+  describe('shutdown', () => {
+    it('marks the worklet as shut down before tearing it down', async () => {
+      const before = getEpoch()
+
+      await WorkletLifecycleService.shutdown()
+
+      const calls = (mockSharedStore.setState as jest.Mock).mock.calls.map((call) => call[0])
+      expect(calls[0]).toEqual({ isShutdown: true, recovery: null })
+      expect(calls[1]).toEqual(expect.objectContaining({ isWorkletStarted: false, hrpc: null }))
+      expect(calls[calls.length - 1]).toEqual({ error: null })
+      expect(getEpoch()).toBe(before + 1)
+    })
+  })
+
+  describe('restart', () => {
+    it('starts the worklet again with the stored configuration', async () => {
+      const startSpy = jest.spyOn(WorkletLifecycleService, 'startWorklet').mockResolvedValue()
+      mockSharedStore.getState = jest.fn(() => ({
+        isWorkletStarted: false,
+        isShutdown: true,
+        wdkConfigs: defaultNetworkConfigs,
+        bundleConfig: mockBundleConfig,
+      }))
+
+      await WorkletLifecycleService.restart()
+
+      expect(mockSharedStore.setState).toHaveBeenCalledWith({ isShutdown: false })
+      expect(startSpy).toHaveBeenCalledWith(defaultNetworkConfigs, mockBundleConfig)
+      startSpy.mockRestore()
+    })
+
+    it('throws when the worklet was never started', async () => {
+      await expect(WorkletLifecycleService.restart()).rejects.toThrow(
+        'Worklet cannot be restarted: no stored configuration',
+      )
+    })
+  })
+  describe('applyConfigs', () => {
+    const ethereumOnly = {
+      networks: { ethereum: defaultNetworkConfigs.networks.ethereum },
+    } as WdkConfigs
+
+    function setCurrentState(overrides: Record<string, unknown>) {
+      const state = { ...mockSharedStore.getState(), wdkConfigs: ethereumOnly, ...overrides }
+      mockSharedStore.getState = jest.fn(() => state)
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('returns null before the worklet was ever started', async () => {
+      await expect(WorkletLifecycleService.applyConfigs(ethereumOnly)).resolves.toBeNull()
+      expect(mockSharedStore.setState).not.toHaveBeenCalled()
+    })
+
+    it('does nothing when the config is unchanged', async () => {
+      setCurrentState({ isWorkletStarted: true, isInitialized: true })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+
+      const diff = await WorkletLifecycleService.applyConfigs({ ...ethereumOnly })
+
+      expect(diff?.hasChanges).toBe(false)
+      expect(mockSharedStore.setState).not.toHaveBeenCalled()
+      expect(resetSpy).not.toHaveBeenCalled()
+    })
+
+    it('refuses a network the running bundle does not ship, changing nothing', async () => {
+      setCurrentState({
+        isWorkletStarted: true,
+        isInitialized: true,
+        capabilities: { protocolVersion: 1, bundleVersion: null, rpcs: null, networks: ['ethereum'], protocols: null, modules: null, features: null },
+      })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+
+      const withPolygon = {
+        networks: { ...ethereumOnly.networks, polygon: defaultNetworkConfigs.networks.polygon },
+      } as WdkConfigs
+
+      await expect(WorkletLifecycleService.applyConfigs(withPolygon)).rejects.toMatchObject({
+        code: 'BUNDLE_INCOMPATIBLE',
+        missing: ['networks.polygon'],
+      })
+      expect(mockSharedStore.setState).not.toHaveBeenCalled()
+      expect(resetSpy).not.toHaveBeenCalled()
+    })
+
+    it('resets only the changed blockchains and drops their cached data', async () => {
+      setCurrentState({ isWorkletStarted: true, isInitialized: true })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+      const initSpy = jest.spyOn(WorkletLifecycleService, 'initializeWDK').mockResolvedValue()
+      getWalletStore().setState({
+        addresses: { 'wallet-1': { ethereum: { 0: '0xabc' }, polygon: { 0: '0xdef' } } },
+        balances: { 'wallet-1': { polygon: { 0: { native: '1' } } } },
+        lastBalanceUpdate: { 'wallet-1': { polygon: { 0: 123 } } },
+      })
+      const next = {
+        networks: {
+          ...ethereumOnly.networks,
+          polygon: defaultNetworkConfigs.networks.polygon,
+        },
+      } as WdkConfigs
+
+      const diff = await WorkletLifecycleService.applyConfigs(next)
+
+      expect(diff?.changedNetworks).toEqual(['polygon'])
+      expect(mockSharedStore.setState).toHaveBeenCalledWith({ wdkConfigs: next })
+      expect(resetSpy).toHaveBeenCalledWith(['polygon'])
+      expect(initSpy).not.toHaveBeenCalled()
+      expect(getWalletStore().getState().addresses).toEqual({ 'wallet-1': { ethereum: { 0: '0xabc' } } })
+      expect(getWalletStore().getState().balances).toEqual({ 'wallet-1': {} })
+      expect(getWalletStore().getState().lastBalanceUpdate).toEqual({ 'wallet-1': {} })
+    })
+
+    it('falls back to a full initializeWDK when protocols change', async () => {
+      setCurrentState({ isWorkletStarted: true, isInitialized: true })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+      const initSpy = jest.spyOn(WorkletLifecycleService, 'initializeWDK').mockResolvedValue()
+
+      await WorkletLifecycleService.applyConfigs({
+        ...ethereumOnly,
+        protocols: { usdt0: { blockchain: 'ethereum', config: {} } },
+      } as WdkConfigs)
+
+      expect(mockSharedStore.setState).toHaveBeenCalledWith(
+        expect.objectContaining({ isInitialized: false, isReinitialized: true }),
+      )
+      expect(initSpy).toHaveBeenCalledWith()
+      expect(resetSpy).not.toHaveBeenCalled()
+    })
+
+    it('waits out a running load before re-arming the initialized promise', async () => {
+      let state: Record<string, unknown> = {
+        ...mockSharedStore.getState(),
+        wdkConfigs: ethereumOnly,
+        isWorkletStarted: true,
+        isInitialized: true,
+        isLoading: true,
+      }
+      const listeners: Array<(next: typeof state) => void> = []
+      mockSharedStore.getState = jest.fn(() => state)
+      mockSharedStore.subscribe = jest.fn((listener) => {
+        listeners.push(listener)
+        return () => listeners.splice(listeners.indexOf(listener), 1)
+      })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+      const next = {
+        networks: { ...ethereumOnly.networks, polygon: defaultNetworkConfigs.networks.polygon },
+      } as WdkConfigs
+
+      const applied = WorkletLifecycleService.applyConfigs(next)
+      await Promise.resolve()
+      expect(mockSharedStore.setState).not.toHaveBeenCalled()
+
+      state = { ...state, isLoading: false }
+      listeners.forEach((listener) => listener(state))
+      await applied
+
+      expect(resetSpy).toHaveBeenCalledWith(['polygon'])
+      expect(listeners).toHaveLength(0)
+      delete mockSharedStore.subscribe
+    })
+
+    it('only stores the new config when no wallet is loaded', async () => {
+      setCurrentState({ isWorkletStarted: true, isInitialized: false })
+      const resetSpy = jest.spyOn(WorkletLifecycleService, 'resetWallets').mockResolvedValue()
+      const initSpy = jest.spyOn(WorkletLifecycleService, 'initializeWDK').mockResolvedValue()
+
+      await WorkletLifecycleService.applyConfigs(defaultNetworkConfigs)
+
+      expect(mockSharedStore.setState).toHaveBeenCalledWith({ wdkConfigs: defaultNetworkConfigs })
+      expect(resetSpy).not.toHaveBeenCalled()
+      expect(initSpy).not.toHaveBeenCalled()
+    })
+  })
 })
+
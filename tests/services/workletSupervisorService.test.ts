@@ -0,0 +1,255 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { WorkletSupervisorService, getRestartDelay } from '../../src/services/workletSupervisorService'
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService'
+import { getWorkletStore, resetWorkletStore } from '../../src/store/workletStore'
+import { getDiagnosticsStore, resetDiagnosticsStore } from '../../src/store/diagnosticsStore'
+import { instrumentHrpc } from '../../src/utils/hrpcInstrumentation'
+
+jest.mock('../../src/services/workletLifecycleService', () => ({
+  WorkletLifecycleService: {
+    teardownWorklet: jest.fn(),
+    startWorklet: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+type Listener = (...args: unknown[]) => void
+
+function createIpc() {
+  const listeners = new Map<string, Listener[]>()
+  return {
+    on: jest.fn((event: string, listener: Listener) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener])
+    }),
+    emit(event: string) {
+      listeners.get(event)?.forEach((listener) => listener())
+    },
+  }
+}
+
+const wdkConfigs = { networks: { ethereum: { blockchain: 'ethereum', config: {} } } }
+const bundleConfig = { bundle: 'mock-bundle' }
+const pingCapabilities = {
+  protocolVersion: 1,
+  bundleVersion: null,
+  rpcs: ['ping', 'callMethod'],
+  networks: null,
+  protocols: null,
+  modules: null,
+  features: null,
+}
+
+function startedState(ipc: unknown, hrpc: unknown = {}) {
+  return {
+    ipc,
+    hrpc,
+    isWorkletStarted: true,
+    isInitialized: true,
+    wdkConfigs,
+    bundleConfig,
+  } as never
+}
+
+async function flushTimers(ms: number) {
+  await jest.advanceTimersByTimeAsync(ms)
+}
+
+describe('getRestartDelay', () => {
+  const policy = { maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 5000, backoffMultiplier: 2 }
+
+  it('backs off exponentially and caps at maxDelayMs', () => {
+    expect(getRestartDelay(1, policy)).toBe(1000)
+    expect(getRestartDelay(2, policy)).toBe(2000)
+    expect(getRestartDelay(3, policy)).toBe(4000)
+    expect(getRestartDelay(4, policy)).toBe(5000)
+  })
+})
+
+describe('WorkletSupervisorService', () => {
+  const teardownWorklet = WorkletLifecycleService.teardownWorklet as jest.Mock
+  const startWorklet = WorkletLifecycleService.startWorklet as jest.Mock
+  let ipc: ReturnType<typeof createIpc>
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.clearAllMocks()
+    resetWorkletStore()
+
+    ipc = createIpc()
+    getWorkletStore().setState(startedState(ipc))
+
+    teardownWorklet.mockImplementation(async () => {
+      getWorkletStore().setState({ ipc: null, hrpc: null, isWorkletStarted: false, isInitialized: false })
+    })
+    startWorklet.mockImplementation(async () => {
+      getWorkletStore().setState(startedState(createIpc()))
+    })
+  })
+
+  afterEach(() => {
+    WorkletSupervisorService.stop()
+    jest.useRealTimers()
+  })
+
+  it('tears down and restarts the worklet after an IPC close', async () => {
+    WorkletSupervisorService.start({
+      heartbeatIntervalMs: 0,
+      restartPolicy: { initialDelayMs: 100 },
+    })
+
+    ipc.emit('close')
+    await flushTimers(0)
+
+    expect(teardownWorklet).toHaveBeenCalledTimes(1)
+    expect(getWorkletStore().getState().recovery).toEqual({ attempt: 1, reason: 'IPC close' })
+
+    await flushTimers(100)
+
+    expect(startWorklet).toHaveBeenCalledWith(wdkConfigs, bundleConfig)
+    expect(getWorkletStore().getState().recovery).toBeNull()
+  })
+
+  it('ignores events from an IPC that has already been replaced', async () => {
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 0 })
+
+    getWorkletStore().setState({ ipc: createIpc() })
+    ipc.emit('close')
+    await flushTimers(0)
+
+    expect(teardownWorklet).not.toHaveBeenCalled()
+  })
+
+  it('treats an unanswered heartbeat as a dead worklet', async () => {
+    const ping = jest.fn(() => new Promise(() => {}))
+    getWorkletStore().setState({ ...startedState(ipc, { ping }), capabilities: pingCapabilities })
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(1000)
+    expect(ping).toHaveBeenCalledTimes(1)
+    expect(teardownWorklet).not.toHaveBeenCalled()
+
+    await flushTimers(500)
+    expect(teardownWorklet).toHaveBeenCalledTimes(1)
+    expect(getWorkletStore().getState().recovery?.reason).toBe('heartbeat timeout')
+  })
+
+  it('keeps running while heartbeats are answered, even with an error', async () => {
+    const ping = jest.fn(() => Promise.reject(new Error('unknown method')))
+    getWorkletStore().setState({ ...startedState(ipc, { ping }), capabilities: pingCapabilities })
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(3000)
+
+    expect(ping).toHaveBeenCalledTimes(3)
+    expect(teardownWorklet).not.toHaveBeenCalled()
+  })
+
+  it('probes with a getAddress call when the bundle has no ping', async () => {
+    const callMethod = jest.fn(() => new Promise(() => {}))
+    getWorkletStore().setState(startedState(ipc, { callMethod }))
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(1500)
+
+    expect(callMethod).toHaveBeenCalledWith({ methodName: 'getAddress', network: 'ethereum', accountIndex: 0 })
+    expect(getWorkletStore().getState().recovery?.reason).toBe('heartbeat timeout')
+  })
+
+  it('does not ping a bundle that does not list ping', async () => {
+    const ping = jest.fn(() => Promise.resolve())
+    const callMethod = jest.fn(() => Promise.resolve({ result: '"0x1"' }))
+    getWorkletStore().setState(startedState(ipc, { ping, callMethod }))
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(1000)
+
+    expect(ping).not.toHaveBeenCalled()
+    expect(callMethod).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps heartbeat probes out of the diagnostics', async () => {
+    resetDiagnosticsStore()
+    const callMethod = jest.fn(() => Promise.resolve({ result: '"0x1"' }))
+    getWorkletStore().setState(startedState(ipc, instrumentHrpc({ callMethod })))
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(1000)
+
+    expect(callMethod).toHaveBeenCalledTimes(1)
+    expect(getDiagnosticsStore().getState().methods).toEqual({})
+  })
+
+  it('skips the getAddress probe until a wallet is loaded', async () => {
+    const callMethod = jest.fn(() => Promise.resolve({ result: '"0x1"' }))
+    getWorkletStore().setState({ ...startedState(ipc, { callMethod }), isInitialized: false })
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 1000, heartbeatTimeoutMs: 500 })
+
+    await flushTimers(3000)
+
+    expect(callMethod).not.toHaveBeenCalled()
+    expect(teardownWorklet).not.toHaveBeenCalled()
+  })
+
+  it('follows the backoff policy and gives up with an error', async () => {
+    startWorklet.mockRejectedValue(new Error('bundle crashed'))
+    WorkletSupervisorService.start({
+      heartbeatIntervalMs: 0,
+      restartPolicy: { maxAttempts: 2, initialDelayMs: 100, backoffMultiplier: 3 },
+    })
+
+    ipc.emit('close')
+    await flushTimers(100)
+    expect(startWorklet).toHaveBeenCalledTimes(1)
+    expect(getWorkletStore().getState().recovery).toEqual({ attempt: 2, reason: 'IPC close' })
+
+    await flushTimers(299)
+    expect(startWorklet).toHaveBeenCalledTimes(1)
+    await flushTimers(1)
+    expect(startWorklet).toHaveBeenCalledTimes(2)
+
+    expect(getWorkletStore().getState().recovery).toBeNull()
+    expect(getWorkletStore().getState().error).toBe('Worklet restart failed after 2 attempts (IPC close)')
+  })
+
+  it('abandons recovery when the worklet was shut down meanwhile', async () => {
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 0, restartPolicy: { initialDelayMs: 100 } })
+
+    ipc.emit('close')
+    await flushTimers(0)
+    getWorkletStore().setState({ isShutdown: true })
+    await flushTimers(100)
+
+    expect(startWorklet).not.toHaveBeenCalled()
+    expect(getWorkletStore().getState().recovery).toBeNull()
+  })
+
+  it('cancels a pending restart when stopped', async () => {
+    WorkletSupervisorService.start({ heartbeatIntervalMs: 0, restartPolicy: { initialDelayMs: 100 } })
+
+    ipc.emit('close')
+    await flushTimers(0)
+    WorkletSupervisorService.stop()
+    await flushTimers(1000)
+
+    expect(startWorklet).not.toHaveBeenCalled()
+    expect(getWorkletStore().getState().recovery).toBeNull()
+  })
+})
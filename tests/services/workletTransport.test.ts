@@ -0,0 +1,45 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+const mockLoaded: string[] = []
+const mockIpc = { on: jest.fn() }
+
+jest.mock('react-native-bare-kit', () => {
+  mockLoaded.push('react-native-bare-kit')
+  return {
+    Worklet: jest.fn().mockImplementation(() => ({ start: jest.fn(), IPC: mockIpc })),
+  }
+})
+
+jest.mock('@tetherto/pear-wrk-wdk/hrpc', () => {
+  mockLoaded.push('@tetherto/pear-wrk-wdk/hrpc')
+  return jest.fn().mockImplementation((ipc) => ({ ipc }))
+})
+
+import { createBareWorkletTransport } from '../../src/services/workletTransport'
+
+describe('createBareWorkletTransport', () => {
+  it('loads the Bare runtime and HRPC client only when a worklet is started', async () => {
+    expect(mockLoaded).toEqual([])
+
+    const transport = await createBareWorkletTransport({
+      bundleConfig: { bundle: 'mock-bundle' },
+      wdkConfigs: { networks: {} },
+    })
+
+    expect(mockLoaded).toEqual(['react-native-bare-kit', '@tetherto/pear-wrk-wdk/hrpc'])
+    expect(transport.ipc).toBe(mockIpc)
+    expect(transport.hrpc).toEqual({ ipc: mockIpc })
+  })
+})
@@ -34,6 +34,7 @@ jest.mock('react-native-mmkv', () => ({
 
 // Mock expo-crypto
 jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
   digestStringAsync: jest.fn(),
   getRandomBytesAsync: jest.fn(() => Promise.resolve(new Uint8Array(32))),
 }))
@@ -44,6 +44,7 @@ describe('mmkvStorage', () => {
       set: jest.fn(),
       getString: jest.fn(),
       delete: jest.fn(),
+      clearAll: jest.fn(),
     }
     ;(createMMKV as jest.Mock).mockReturnValue(mockMMKVInstance)
     ;(getMMKVKey as jest.Mock).mockResolvedValue('test-encryption-key')
@@ -102,6 +103,21 @@ describe('mmkvStorage', () => {
     })
   })
 
+  describe('clearMMKVStorage', () => {
+    it('should clear every storage and drop the cached instances', async () => {
+      const { createMMKVStorage, clearMMKVStorage } = require('../../src/storage/mmkvStorage')
+
+      await createMMKVStorage('test-identifier-clear')
+      await clearMMKVStorage()
+
+      expect(mockMMKVInstance.clearAll).toHaveBeenCalled()
+
+      jest.clearAllMocks()
+      await createMMKVStorage('test-identifier-clear')
+      expect(getMMKVKey).toHaveBeenCalledWith('test-identifier-clear')
+    })
+  })
+
   describe('createMMKVStorageAdapter', () => {
     it('should create storage adapter', async () => {
       const { createMMKVStorageAdapter } = require('../../src/storage/mmkvStorage')
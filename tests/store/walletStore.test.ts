@@ -32,6 +32,8 @@ const mockInitState: WalletState = {
   lastBalanceUpdate: {}, // walletId -> network -> accountIndex -> timestamp
   accountList: {}, // walletId -> account list
   walletList: [],
+  walletMetadata: {},
+  watchOnlyWallets: {},
   activeWalletId: null,
   walletLoadingState: { type: 'not_loaded' },
   isOperationInProgress: false,
@@ -263,6 +265,8 @@ describe('walletStore', () => {
         lastBalanceUpdate: { 'w1': { ethereum: { 0: 123 } } },
         accountList: {},
         walletList: [],
+        walletMetadata: {},
+        watchOnlyWallets: {},
         activeWalletId: 'w1',
         walletLoadingState: { type: 'loading', identifier: 'w1', walletExists: true },
         isOperationInProgress: true,
@@ -301,6 +305,21 @@ describe('walletStore', () => {
       const result = rehydrateCallback(stateBeforeRehydration)
       expect(result).toBeUndefined();
     })
+
+    it('should persist wallet metadata with the wallet list', () => {
+      const storeInstance = createWalletStore()
+      const persistOptions = (storeInstance as any).persist.getOptions()
+      const walletMetadata = { w1: { name: 'Main', origin: 'created', createdAt: 1, backedUp: false } }
+
+      const persisted = persistOptions.partialize({
+        ...storeInstance.getState(),
+        walletList: [{ identifier: 'w1', exists: true }],
+        walletMetadata,
+      })
+
+      expect(persisted.walletMetadata).toEqual(walletMetadata)
+      expect(persisted.walletList).toEqual([{ identifier: 'w1', exists: true }])
+    })
   })
 })
 
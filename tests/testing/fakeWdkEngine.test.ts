@@ -0,0 +1,455 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Tests for the testing entry point: the fake WDK engine on its own and
+ * driven through the real services, plus the fake secure storage.
+ */
+
+import {
+  createFakeSecureStorage,
+  createFakeWdkEngine,
+  FAKE_TEST_MNEMONICS,
+  FAKE_WDK_CONFIGS,
+} from '../../src/testing'
+import type { FakeWdkEngine } from '../../src/testing'
+import { AccountService } from '../../src/services/accountService'
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService'
+import { getWorkletStore, resetWorkletStore } from '../../src/store/workletStore'
+
+jest.mock('../../src/store/walletStore', () => ({
+  getWalletStore: jest.fn(() => ({
+    getState: jest.fn(() => ({})),
+    setState: jest.fn(),
+  })),
+}))
+
+const NETWORK = 'ethereum'
+
+async function callMethod(engine: FakeWdkEngine, methodName: string, ...args: unknown[]): Promise<unknown> {
+  const hrpc = engine.hrpc as any
+  const response = await hrpc.callMethod({
+    methodName,
+    network: NETWORK,
+    accountIndex: 0,
+    args: JSON.stringify(args),
+  })
+  return JSON.parse(response.result)
+}
+
+async function loadWallet(engine: FakeWdkEngine, mnemonic = FAKE_TEST_MNEMONICS[0]!): Promise<void> {
+  const hrpc = engine.hrpc as any
+  const { encryptionKey, encryptedSeedBuffer } = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic })
+  await hrpc.initializeWDK({ encryptionKey, encryptedSeed: encryptedSeedBuffer, config: '{}' })
+}
+
+describe('createFakeWdkEngine', () => {
+  let engine: FakeWdkEngine
+
+  beforeEach(async () => {
+    engine = createFakeWdkEngine({ fee: '10' })
+    await loadWallet(engine)
+  })
+
+  describe('addresses', () => {
+    it('derives stable addresses per network and account index', async () => {
+      const address = await callMethod(engine, 'getAddress')
+
+      expect(address).toMatch(/^0x[0-9a-f]{40}$/)
+      expect(address).toBe(engine.getAddress(NETWORK, 0))
+      expect(createFakeWdkEngine().getAddress(NETWORK, 0)).toBe(address)
+      expect(engine.getAddress(NETWORK, 1)).not.toBe(address)
+      expect(engine.getAddress('polygon', 0)).not.toBe(address)
+    })
+
+    it('derives different addresses for different wallets', async () => {
+      const first = engine.getAddress(NETWORK, 0)
+      await loadWallet(engine, FAKE_TEST_MNEMONICS[1])
+
+      expect(engine.getAddress(NETWORK, 0)).not.toBe(first)
+    })
+  })
+
+  describe('balances', () => {
+    it('serves native and token balances from the ledger', async () => {
+      engine.setBalance(NETWORK, 0, '1000')
+      engine.setBalance(NETWORK, 0, 250n, '0xToken')
+
+      expect(await callMethod(engine, 'getBalance')).toBe('1000')
+      expect(await callMethod(engine, 'getTokenBalance', '0xtoken')).toBe('250')
+      expect(await callMethod(engine, 'getTokenBalances', ['0xToken', '0xOther'])).toEqual({
+        '0xToken': '250',
+        '0xOther': '0',
+      })
+    })
+
+    it('debits value plus fee on sendTransaction', async () => {
+      engine.setBalance(NETWORK, 0, '1000')
+
+      const result = await callMethod(engine, 'sendTransaction', { to: '0xabc', value: '400' }) as { hash: string, fee: string }
+
+      expect(result.fee).toBe('10')
+      expect(result.hash).toMatch(/^0x[0-9a-f]{64}$/)
+      expect(engine.getBalance(NETWORK, 0)).toBe('590')
+      expect(engine.getTransactions()).toEqual([
+        expect.objectContaining({ method: 'sendTransaction', to: '0xabc', amount: '400', token: null, hash: result.hash }),
+      ])
+    })
+
+    it('debits the token and the native fee on transfer', async () => {
+      engine.setBalance(NETWORK, 0, '100')
+      engine.setBalance(NETWORK, 0, '50', '0xToken')
+
+      await callMethod(engine, 'transfer', { recipient: '0xabc', amount: '20', token: '0xToken' })
+
+      expect(engine.getBalance(NETWORK, 0, '0xToken')).toBe('30')
+      expect(engine.getBalance(NETWORK, 0)).toBe('90')
+    })
+
+    it('rejects a send the balance cannot cover and leaves the ledger untouched', async () => {
+      engine.setBalance(NETWORK, 0, '100')
+
+      await expect(callMethod(engine, 'sendTransaction', { to: '0xabc', value: '95' })).rejects.toThrow('Insufficient balance')
+      expect(engine.getBalance(NETWORK, 0)).toBe('100')
+      expect(engine.getTransactions()).toHaveLength(0)
+    })
+  })
+
+  describe('signing', () => {
+    it('verifies its own signatures only', async () => {
+      const signature = await callMethod(engine, 'sign', 'hello')
+
+      expect(await callMethod(engine, 'verify', 'hello', signature)).toBe(true)
+      expect(await callMethod(engine, 'verify', 'other', signature)).toBe(false)
+    })
+  })
+
+  describe('watch-only', () => {
+    beforeEach(async () => {
+      const hrpc = engine.hrpc as any
+      await hrpc.initializeWDK({
+        watchOnly: JSON.stringify({ [NETWORK]: [{ address: '0xcold' }], bitcoin: [{ xpub: 'xpub6cold' }] }),
+        config: '{}',
+      })
+    })
+
+    it('reads watched addresses and their balances', async () => {
+      engine.setBalance(NETWORK, 0, '500')
+
+      expect(await callMethod(engine, 'getAddress')).toBe('0xcold')
+      expect(await callMethod(engine, 'getBalance')).toBe('500')
+      expect(engine.getAddress('bitcoin', 0)).toMatch(/^0x[0-9a-f]{40}$/)
+    })
+
+    it('refuses to sign or send', async () => {
+      await expect(callMethod(engine, 'sign', 'hello')).rejects.toThrow('read-only account')
+      await expect(callMethod(engine, 'sendTransaction', { to: '0xabc', value: '1' })).rejects.toThrow(
+        'read-only account',
+      )
+    })
+  })
+
+  describe('wallet creation', () => {
+    it('hands out the configured mnemonics and round-trips them through entropy', async () => {
+      const hrpc = engine.hrpc as any
+      const created = await hrpc.generateEntropyAndEncrypt({ wordCount: 12 })
+      const { mnemonic } = await hrpc.getMnemonicFromEntropy({
+        encryptedEntropy: created.encryptedEntropyBuffer,
+        encryptionKey: created.encryptionKey,
+      })
+
+      expect(mnemonic).toBe(FAKE_TEST_MNEMONICS[0])
+    })
+
+    it('derives a different seed, but the same mnemonic, with a passphrase', async () => {
+      const hrpc = engine.hrpc as any
+      const plainAddress = engine.getAddress(NETWORK, 0)
+      const hidden = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic: FAKE_TEST_MNEMONICS[0], passphrase: 'TREZOR' })
+      await hrpc.initializeWDK({ encryptionKey: hidden.encryptionKey, encryptedSeed: hidden.encryptedSeedBuffer })
+
+      expect(engine.getAddress(NETWORK, 0)).not.toBe(plainAddress)
+      const { mnemonic } = await hrpc.getMnemonicFromEntropy({
+        encryptedEntropy: hidden.encryptedEntropyBuffer,
+        encryptionKey: hidden.encryptionKey,
+      })
+      expect(mnemonic).toBe(FAKE_TEST_MNEMONICS[0])
+    })
+
+    it('fails initializeWDK when key and seed do not match', async () => {
+      const hrpc = engine.hrpc as any
+      const first = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic: FAKE_TEST_MNEMONICS[0] })
+      const second = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic: FAKE_TEST_MNEMONICS[1] })
+
+      await expect(
+        hrpc.initializeWDK({ encryptionKey: second.encryptionKey, encryptedSeed: first.encryptedSeedBuffer }),
+      ).rejects.toThrow('Decryption failed')
+    })
+  })
+
+  describe('SLIP-39 shares', () => {
+    it('splits entropy into shares any threshold of which recover the wallet', async () => {
+      const hrpc = engine.hrpc as any
+      const original = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic: FAKE_TEST_MNEMONICS[1] })
+      const { shares } = await hrpc.getSharesFromEntropy({
+        encryptedEntropy: original.encryptedEntropyBuffer,
+        encryptionKey: original.encryptionKey,
+        threshold: 2,
+        shareCount: 3,
+      })
+
+      expect(shares).toHaveLength(3)
+      expect(await hrpc.validateShares({ shares: [shares[2]] })).toEqual({
+        threshold: 2,
+        validShares: 1,
+        invalidShares: [],
+      })
+      await expect(hrpc.getSeedAndEntropyFromShares({ shares: [shares[0]] })).rejects.toThrow('Not enough shares')
+
+      const recovered = await hrpc.getSeedAndEntropyFromShares({ shares: [shares[2], shares[0]] })
+      expect(recovered).toEqual(original)
+    })
+
+    it('reports malformed and duplicate shares', async () => {
+      const hrpc = engine.hrpc as any
+      const wallet = await hrpc.getSeedAndEntropyFromMnemonic({ mnemonic: FAKE_TEST_MNEMONICS[0] })
+      const { shares } = await hrpc.getSharesFromEntropy({
+        encryptedEntropy: wallet.encryptedEntropyBuffer,
+        encryptionKey: wallet.encryptionKey,
+        threshold: 2,
+        shareCount: 2,
+      })
+
+      expect(await hrpc.validateShares({ shares: [shares[0], 'garbage', shares[0]] })).toEqual({
+        threshold: 2,
+        validShares: 1,
+        invalidShares: [
+          { index: 1, error: 'Invalid share' },
+          { index: 2, error: 'Duplicate share' },
+        ],
+      })
+    })
+  })
+
+  describe('failures and latency', () => {
+    it('fails only the next call with failNext', async () => {
+      engine.failNext('getBalance', new Error('node down'))
+
+      await expect(callMethod(engine, 'getBalance')).rejects.toThrow('node down')
+      expect(await callMethod(engine, 'getBalance')).toBe('0')
+    })
+
+    it('fails every call until the failure is cleared', async () => {
+      engine.setFailure('getBalance', new Error('node down'))
+
+      await expect(callMethod(engine, 'getBalance')).rejects.toThrow('node down')
+      await expect(callMethod(engine, 'getBalance')).rejects.toThrow('node down')
+
+      engine.setFailure('getBalance', null)
+      expect(await callMethod(engine, 'getBalance')).toBe('0')
+    })
+
+    it('reports unknown methods the way the worklet does', async () => {
+      await expect(callMethod(engine, 'bogus')).rejects.toThrow('Method bogus not found on account for network ethereum')
+    })
+
+    it('delays calls by the configured latency', async () => {
+      jest.useFakeTimers()
+      try {
+        engine.setLatency(1000, 'getBalance')
+        let settled = false
+        const promise = callMethod(engine, 'getBalance').then(() => { settled = true })
+
+        await jest.advanceTimersByTimeAsync(999)
+        expect(settled).toBe(false)
+        await jest.advanceTimersByTimeAsync(1)
+        await promise
+        expect(settled).toBe(true)
+      } finally {
+        jest.useRealTimers()
+      }
+    })
+  })
+
+  describe('modules', () => {
+    it('routes callModule to registered handlers and emits module events', async () => {
+      const hrpc = engine.hrpc as any
+      engine.registerModule('addressBook', { list: () => ['alice'] })
+      const onEvent = jest.fn()
+      hrpc.onModuleEvent(onEvent)
+
+      const response = await hrpc.callModule({ module: 'addressBook', method: 'list', args: '[]' })
+      engine.emitModuleEvent('addressBook', 'changed', { count: 1 })
+
+      expect(JSON.parse(response.result)).toEqual(['alice'])
+      expect(onEvent).toHaveBeenCalledWith({ module: 'addressBook', event: 'changed', payload: '{"count":1}' })
+    })
+  })
+
+  describe('through the services', () => {
+    beforeEach(() => {
+      resetWorkletStore()
+    })
+
+    afterEach(async () => {
+      await WorkletLifecycleService.teardownWorklet()
+      WorkletLifecycleService.setTransport()
+    })
+
+    it('serves AccountService calls once plugged in as the transport', async () => {
+      const serviceEngine = createFakeWdkEngine()
+      serviceEngine.setBalance(NETWORK, 0, '42')
+      WorkletLifecycleService.setTransport(serviceEngine.transport)
+
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+      const { encryptionKey, encryptedSeedBuffer } = await WorkletLifecycleService.generateEntropyAndEncrypt(12)
+      await WorkletLifecycleService.initializeWDK({ encryptionKey, encryptedSeed: encryptedSeedBuffer })
+
+      expect(await AccountService.callAccountMethod(NETWORK, 0, 'getBalance')).toBe('42')
+      expect(await AccountService.callAccountMethod(NETWORK, 0, 'getAddress')).toBe(serviceEngine.getAddress(NETWORK, 0))
+      expect(getWorkletStore().getState().capabilities?.networks).toEqual([NETWORK])
+    })
+
+    it('derives a passphrase seed from the stored entropy inside the engine', async () => {
+      const serviceEngine = createFakeWdkEngine()
+      WorkletLifecycleService.setTransport(serviceEngine.transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+      const hidden = await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(FAKE_TEST_MNEMONICS[0]!, 'TREZOR')
+
+      const { encryptedSeedBuffer } = await WorkletLifecycleService.getSeedFromEntropy(
+        hidden.encryptedEntropyBuffer,
+        hidden.encryptionKey,
+        'TREZOR',
+      )
+
+      expect(encryptedSeedBuffer).toBe(hidden.encryptedSeedBuffer)
+    })
+
+    it('refuses getSeedFromEntropy on a bundle that does not list it', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine({ protocolVersion: null }).transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+
+      await expect(
+        WorkletLifecycleService.getSeedFromEntropy('entropy', 'key', 'TREZOR'),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'getSeedFromEntropy' })
+    })
+
+    it('re-encrypts a wallet and refuses a key that does not open it', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine().transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+      const wallet = await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(FAKE_TEST_MNEMONICS[1]!)
+
+      await expect(
+        WorkletLifecycleService.reencryptWallet(
+          wallet.encryptionKey,
+          wallet.encryptedEntropyBuffer,
+          wallet.encryptedSeedBuffer,
+        ),
+      ).resolves.toEqual(wallet)
+      await expect(
+        WorkletLifecycleService.reencryptWallet('fake-key:wrong', wallet.encryptedEntropyBuffer),
+      ).rejects.toThrow('encryption key does not match')
+    })
+
+    it('moves entropy through a backup key without handing out the mnemonic', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine().transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+      const wallet = await WorkletLifecycleService.getSeedAndEntropyFromMnemonic(FAKE_TEST_MNEMONICS[1]!)
+
+      const { encryptedBackupEntropy } = await WorkletLifecycleService.getBackupEntropy(
+        wallet.encryptedEntropyBuffer,
+        wallet.encryptionKey,
+        'ab'.repeat(32),
+      )
+
+      await expect(
+        WorkletLifecycleService.getSeedAndEntropyFromBackup(encryptedBackupEntropy, 'ab'.repeat(32)),
+      ).resolves.toEqual(wallet)
+      await expect(
+        WorkletLifecycleService.getSeedAndEntropyFromBackup(encryptedBackupEntropy, 'cd'.repeat(32)),
+      ).rejects.toThrow('backup key does not match')
+    })
+
+    it('refuses watch-only loads and passphrases on a bundle that does not list them', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine({ features: [] }).transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+
+      await expect(
+        WorkletLifecycleService.initializeWDK({ watchOnly: { ethereum: [{ address: '0xabc' }] } }),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'watchOnly' })
+      await expect(
+        WorkletLifecycleService.getSeedAndEntropyFromMnemonic(FAKE_TEST_MNEMONICS[0]!, 'TREZOR'),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'bip39Passphrase' })
+      await expect(
+        WorkletLifecycleService.getSeedAndEntropyFromMnemonic(FAKE_TEST_MNEMONICS[0]!),
+      ).resolves.toMatchObject({ encryptionKey: expect.any(String) })
+    })
+
+    it('refuses the SLIP-39 share RPCs on a bundle that does not list them', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine({ protocolVersion: null }).transport)
+      await WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' })
+
+      await expect(
+        WorkletLifecycleService.getSharesFromEntropy('entropy', 'key', 2, 3),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'getSharesFromEntropy' })
+      await expect(
+        WorkletLifecycleService.validateShares(['share']),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'validateShares' })
+      await expect(
+        WorkletLifecycleService.getSeedAndEntropyFromShares(['share']),
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_BY_BUNDLE', feature: 'getSeedAndEntropyFromShares' })
+    })
+
+    it('is refused when it reports an unsupported protocol version', async () => {
+      WorkletLifecycleService.setTransport(createFakeWdkEngine({ protocolVersion: 99 }).transport)
+      void getWorkletStore().getState().isWorkletStartedPromise.promise.catch(() => {})
+
+      await expect(
+        WorkletLifecycleService.startWorklet(FAKE_WDK_CONFIGS, { bundle: 'fake' }),
+      ).rejects.toMatchObject({ reason: 'protocol_version' })
+      expect(getWorkletStore().getState().bundleError).toMatchObject({ code: 'BUNDLE_INCOMPATIBLE' })
+    })
+  })
+})
+
+describe('createFakeSecureStorage', () => {
+  it('stores wallets per identifier', async () => {
+    const storage = createFakeSecureStorage()
+
+    await storage.setEncryptionKey('key-a', 'wallet-a')
+    await storage.setEncryptedSeed('seed-a', 'wallet-a')
+
+    expect(await storage.hasWallet('wallet-a')).toBe(true)
+    expect(await storage.hasWallet('wallet-b')).toBe(false)
+    expect(await storage.getAllEncrypted('wallet-a')).toEqual({
+      encryptionKey: 'key-a',
+      encryptedSeed: 'seed-a',
+      encryptedEntropy: null,
+    })
+    expect(storage.getWalletIds()).toEqual(['wallet-a'])
+
+    await storage.deleteWallet('wallet-a')
+    expect(storage.getEntry('wallet-a')).toBeNull()
+  })
+
+  it('uses the default identifier and the configured device answers', async () => {
+    const storage = createFakeSecureStorage({
+      biometricsAvailable: false,
+      wallets: { default: { encryptionKey: 'key' } },
+    })
+
+    expect(await storage.getEncryptionKey()).toBe('key')
+    expect(await storage.isBiometricAvailable()).toBe(false)
+    expect(await storage.authenticate()).toBe(true)
+  })
+})
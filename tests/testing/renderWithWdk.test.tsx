@@ -0,0 +1,52 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import React from 'react';
+import { Text } from 'react-native';
+import { waitFor } from '@testing-library/react-native';
+import { renderWithWdk } from '../../src/testing/render';
+import { useWdkApp } from '../../src/hooks/useWdkApp';
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService';
+
+const StatusConsumer = () => {
+  const { state } = useWdkApp();
+  return <Text testID="status-text">{state.status}</Text>;
+};
+
+describe('renderWithWdk', () => {
+  beforeEach(() => {
+    // waitFor then advances the clock itself instead of polling in real
+    // time, so a busy machine can't run the test into its timeout
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await WorkletLifecycleService.teardownWorklet();
+    WorkletLifecycleService.setTransport();
+  });
+
+  it('starts the fake engine behind WdkAppProvider', async () => {
+    const { engine, secureStorage, getByTestId } = renderWithWdk(<StatusConsumer />);
+
+    await waitFor(
+      () => {
+        expect(getByTestId('status-text').props.children).toBe('NO_WALLET');
+      },
+      { timeout: 3000 },
+    );
+    expect(engine.getTransactions()).toEqual([]);
+    expect(secureStorage.getWalletIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { AccountService } from '../../src/services/accountService'
+import { AddressService } from '../../src/services/addressService'
+import { getWalletStore } from '../../src/store/walletStore'
+import { getWorkletStore } from '../../src/store/workletStore'
+import type { WdkConfigs } from '../../src/types'
+import { discoverAccounts } from '../../src/utils/accountDiscovery'
+import { WdkAbortError } from '../../src/utils/errors'
+
+jest.mock('../../src/services/accountService', () => ({
+  AccountService: {
+    callAccountMethodWithOptions: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/services/addressService', () => ({
+  AddressService: {
+    getAddress: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+// ethereum accounts 0, 1 and 4 hold funds; tron only account 0
+const FUNDED: Record<string, number[]> = { ethereum: [0, 1, 4], tron: [0] }
+
+describe('discoverAccounts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(AddressService.getAddress as jest.Mock).mockImplementation(
+      async (network: string, accountIndex: number) => `${network}-${accountIndex}`,
+    )
+    ;(AccountService.callAccountMethodWithOptions as jest.Mock).mockImplementation(
+      async (_options: unknown, network: string, accountIndex: number) =>
+        FUNDED[network]?.includes(accountIndex) ? '100' : '0',
+    )
+    getWorkletStore().setState({
+      wdkConfigs: { networks: { ethereum: {}, tron: {} } } as unknown as WdkConfigs,
+    })
+    getWalletStore().setState({ accountList: {} })
+  })
+
+  it('scans each network up to the gap limit and saves the used accounts', async () => {
+    const onProgress = jest.fn()
+
+    const result = await discoverAccounts('wallet-1', { onProgress })
+
+    expect(result.usedAccounts).toEqual({ ethereum: [0, 1, 4], tron: [0] })
+    expect(result.failed).toEqual([])
+    // ethereum: 0-7 (three unused after 4), tron: 0-3
+    expect(AddressService.getAddress).toHaveBeenCalledTimes(12)
+    expect(AddressService.getAddress).toHaveBeenCalledWith('ethereum', 7, 'wallet-1')
+    expect(AddressService.getAddress).not.toHaveBeenCalledWith('ethereum', 8, 'wallet-1')
+    expect(onProgress).toHaveBeenLastCalledWith({ network: 'tron', accountIndex: 3, used: false, scanned: 12 })
+
+    expect(getWalletStore().getState().accountList['wallet-1']).toEqual([
+      { accountIndex: 0, addresses: { ethereum: 'ethereum-0', tron: 'tron-0' } },
+      { accountIndex: 1, addresses: { ethereum: 'ethereum-1', tron: 'tron-1' } },
+      { accountIndex: 4, addresses: { ethereum: 'ethereum-4' } },
+    ])
+    expect(result.accounts).toEqual(getWalletStore().getState().accountList['wallet-1'])
+  })
+
+  it('uses a custom probe and keeps accounts already listed', async () => {
+    getWalletStore().setState({
+      accountList: { 'wallet-1': [{ accountIndex: 7, addresses: { tron: 'tron-7' } }] },
+    })
+    const isAccountUsed = jest.fn(async (_network: string, accountIndex: number) => accountIndex === 2)
+
+    const result = await discoverAccounts('wallet-1', { networks: ['tron'], gapLimit: 1, isAccountUsed })
+
+    expect(isAccountUsed).toHaveBeenCalledWith('tron', 0, 'tron-0')
+    expect(AccountService.callAccountMethodWithOptions).not.toHaveBeenCalled()
+    expect(result.usedAccounts).toEqual({ tron: [] })
+    expect(result.accounts.map(({ accountIndex }) => accountIndex)).toEqual([0, 7])
+  })
+
+  it('stops a network on a failed probe and carries on with the next', async () => {
+    ;(AccountService.callAccountMethodWithOptions as jest.Mock).mockRejectedValueOnce(new Error('RPC down'))
+
+    const result = await discoverAccounts('wallet-1')
+
+    expect(result.failed).toEqual([{ network: 'ethereum', accountIndex: 0, error: 'RPC down' }])
+    expect(result.usedAccounts).toEqual({ ethereum: [], tron: [0] })
+  })
+
+  it('rejects when aborted without saving anything', async () => {
+    const controller = new AbortController()
+    const onProgress = jest.fn(() => controller.abort())
+
+    await expect(
+      discoverAccounts('wallet-1', { onProgress, signal: controller.signal }),
+    ).rejects.toBeInstanceOf(WdkAbortError)
+    expect(getWalletStore().getState().accountList['wallet-1']).toBeUndefined()
+  })
+
+  it('validates the limits', async () => {
+    await expect(discoverAccounts('wallet-1', { gapLimit: 0 })).rejects.toThrow('gapLimit')
+    await expect(discoverAccounts('wallet-1', { maxAccounts: 1.5 })).rejects.toThrow('maxAccounts')
+  })
+})
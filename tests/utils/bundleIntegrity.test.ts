@@ -0,0 +1,102 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Tests for bundle integrity verification
+ */
+
+import * as Crypto from 'expo-crypto'
+
+import { computeBundleSha256, verifyBundleIntegrity } from '../../src/utils/bundleIntegrity'
+import { BundleIntegrityError } from '../../src/utils/errors'
+
+jest.mock('expo-crypto', () => ({
+  digestStringAsync: jest.fn(),
+  CryptoDigestAlgorithm: {
+    SHA256: 'SHA-256',
+  },
+}))
+
+const BUNDLE_HASH = 'ab'.repeat(32)
+
+describe('bundleIntegrity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(Crypto.digestStringAsync as jest.Mock).mockResolvedValue(BUNDLE_HASH.toUpperCase())
+  })
+
+  describe('computeBundleSha256', () => {
+    it('hashes the bundle with SHA-256 and returns lowercase hex', async () => {
+      await expect(computeBundleSha256('bundle-source')).resolves.toBe(BUNDLE_HASH)
+      expect(Crypto.digestStringAsync).toHaveBeenCalledWith('SHA-256', 'bundle-source')
+    })
+  })
+
+  describe('verifyBundleIntegrity', () => {
+    it('accepts a bundle that declares no checks without hashing it', async () => {
+      await expect(verifyBundleIntegrity({ bundle: 'bundle-source' })).resolves.toBeUndefined()
+      expect(Crypto.digestStringAsync).not.toHaveBeenCalled()
+    })
+
+    it('accepts a bundle matching its declared sha256 in any case', async () => {
+      await expect(
+        verifyBundleIntegrity({ bundle: 'bundle-source', sha256: BUNDLE_HASH.toUpperCase() }),
+      ).resolves.toBeUndefined()
+    })
+
+    it('rejects a bundle whose hash does not match', async () => {
+      const promise = verifyBundleIntegrity({ bundle: 'bundle-source', sha256: 'cd'.repeat(32), version: '1.2.0' })
+
+      await expect(promise).rejects.toBeInstanceOf(BundleIntegrityError)
+      await expect(promise).rejects.toMatchObject({
+        code: 'BUNDLE_INTEGRITY',
+        reason: 'hash_mismatch',
+        version: '1.2.0',
+      })
+    })
+
+    it('passes the computed hash, version and signature to the verifier', async () => {
+      const verifySignature = jest.fn(() => Promise.resolve(true))
+
+      await verifyBundleIntegrity({
+        bundle: 'bundle-source',
+        version: '1.2.0',
+        signature: 'sig',
+        verifySignature,
+      })
+
+      expect(verifySignature).toHaveBeenCalledWith({ sha256: BUNDLE_HASH, version: '1.2.0', signature: 'sig' })
+    })
+
+    it('rejects a signature the verifier refuses', async () => {
+      await expect(
+        verifyBundleIntegrity({ bundle: 'bundle-source', signature: 'sig', verifySignature: () => false }),
+      ).rejects.toMatchObject({ reason: 'signature_invalid' })
+    })
+
+    it('rejects when the verifier throws', async () => {
+      const verifySignature = () => { throw new Error('bad key') }
+
+      await expect(
+        verifyBundleIntegrity({ bundle: 'bundle-source', signature: 'sig', verifySignature }),
+      ).rejects.toMatchObject({ reason: 'signature_invalid', message: 'Bundle signature check failed: bad key' })
+    })
+
+    it('rejects a signature it has no way to verify', async () => {
+      await expect(
+        verifyBundleIntegrity({ bundle: 'bundle-source', signature: 'sig' }),
+      ).rejects.toMatchObject({ reason: 'signature_unverifiable' })
+    })
+  })
+})
@@ -0,0 +1,155 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { runWithCallOptions } from '../../src/utils/callOptions'
+import { WdkAbortError, WdkStaleResultError, WdkTimeoutError, isWdkError } from '../../src/utils/errors'
+import { log } from '../../src/utils/logger'
+import { bumpEpoch } from '../../src/utils/workletEpoch'
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+}))
+
+describe('runWithCallOptions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('passes the result through when no options are given', async () => {
+    await expect(runWithCallOptions('op', async () => 42)).resolves.toBe(42)
+  })
+
+  it('rejects with WdkTimeoutError when the call takes too long', async () => {
+    const call = jest.fn(() => new Promise<number>(() => {}))
+    const promise = runWithCallOptions('getBalance', call, { timeoutMs: 100 })
+
+    jest.advanceTimersByTime(100)
+
+    await expect(promise).rejects.toBeInstanceOf(WdkTimeoutError)
+    await expect(promise).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      operation: 'getBalance',
+      timeoutMs: 100,
+    })
+  })
+
+  it('resolves when the call answers before the timeout', async () => {
+    const promise = runWithCallOptions('op', async () => 'ok', { timeoutMs: 100 })
+    await expect(promise).resolves.toBe('ok')
+    expect(jest.getTimerCount()).toBe(0)
+  })
+
+  it('rejects with WdkAbortError when the signal aborts', async () => {
+    const controller = new AbortController()
+    const promise = runWithCallOptions('sign', () => new Promise(() => {}), {
+      signal: controller.signal,
+    })
+
+    controller.abort()
+
+    await expect(promise).rejects.toBeInstanceOf(WdkAbortError)
+    await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+  })
+
+  it('does not start the call when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const call = jest.fn(async () => 1)
+
+    await expect(
+      runWithCallOptions('op', call, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(WdkAbortError)
+    expect(call).not.toHaveBeenCalled()
+  })
+
+  it('discards a result that arrives after the timeout', async () => {
+    let resolveCall: (value: string) => void = () => {}
+    const promise = runWithCallOptions(
+      'op',
+      () => new Promise<string>((resolve) => { resolveCall = resolve }),
+      { timeoutMs: 50 },
+    )
+
+    jest.advanceTimersByTime(50)
+    await expect(promise).rejects.toBeInstanceOf(WdkTimeoutError)
+
+    resolveCall('late')
+    await Promise.resolve()
+    await Promise.resolve()
+
+    expect(log).toHaveBeenCalledWith('[callOptions] Discarding late result', { operation: 'op' })
+  })
+
+  it('does not log a discard when the call wins the race', async () => {
+    await expect(
+      runWithCallOptions('op', async () => 'ok', { timeoutMs: 100 }),
+    ).resolves.toBe('ok')
+    await Promise.resolve()
+    await Promise.resolve()
+
+    expect(log).not.toHaveBeenCalled()
+  })
+
+  it('rejects with WdkStaleResultError when the loaded wallet changed meanwhile', async () => {
+    let resolveCall: (value: string) => void = () => {}
+    const promise = runWithCallOptions(
+      'getBalance',
+      () => new Promise<string>((resolve) => { resolveCall = resolve }),
+      undefined,
+      true,
+    )
+
+    bumpEpoch()
+    resolveCall('balance of the previous wallet')
+
+    await expect(promise).rejects.toBeInstanceOf(WdkStaleResultError)
+    await expect(promise).rejects.toMatchObject({ code: 'STALE_RESULT', operation: 'getBalance' })
+  })
+
+  it('keeps the result of a write when the loaded wallet changed meanwhile', async () => {
+    let resolveCall: (value: string) => void = () => {}
+    const promise = runWithCallOptions(
+      'sendTransaction',
+      () => new Promise<string>((resolve) => { resolveCall = resolve }),
+    )
+
+    bumpEpoch()
+    resolveCall('0xhash')
+
+    await expect(promise).resolves.toBe('0xhash')
+  })
+
+  it('propagates call errors unchanged', async () => {
+    const error = new Error('boom')
+    await expect(
+      runWithCallOptions('op', async () => { throw error }, { timeoutMs: 100 }),
+    ).rejects.toBe(error)
+  })
+})
+
+describe('isWdkError', () => {
+  it('matches typed errors, optionally by code', () => {
+    const error = new WdkTimeoutError('op', 10)
+    expect(isWdkError(error)).toBe(true)
+    expect(isWdkError(error, 'TIMEOUT')).toBe(true)
+    expect(isWdkError(error, 'ABORTED')).toBe(false)
+    expect(isWdkError(new Error('plain'))).toBe(false)
+    expect(error.name).toBe('WdkTimeoutError')
+  })
+})
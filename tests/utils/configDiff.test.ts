@@ -0,0 +1,103 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { diffWdkConfigs } from '../../src/utils/configDiff'
+import type { WdkConfigs } from '../../src/types'
+
+const baseConfigs = {
+  networks: {
+    ethereum: { blockchain: 'ethereum', config: { chainId: 1, provider: 'https://eth.example' } },
+    polygon: { blockchain: 'polygon', config: { chainId: 137, provider: 'https://pol.example' } },
+  },
+  protocols: {
+    usdt0: { blockchain: 'ethereum', config: { routerAddress: '0x1' } },
+  },
+  modules: {
+    swap: { enabled: true },
+  },
+} as unknown as WdkConfigs
+
+function withChanges(changes: Record<string, unknown>): WdkConfigs {
+  return { ...baseConfigs, ...changes } as WdkConfigs
+}
+
+describe('diffWdkConfigs', () => {
+  it('reports no changes for structurally equal configs, regardless of key order', () => {
+    const reordered = {
+      modules: { swap: { enabled: true } },
+      protocols: baseConfigs.protocols,
+      networks: {
+        polygon: { config: { provider: 'https://pol.example', chainId: 137 }, blockchain: 'polygon' },
+        ethereum: baseConfigs.networks.ethereum,
+      },
+    } as unknown as WdkConfigs
+
+    expect(diffWdkConfigs(baseConfigs, reordered)).toEqual({
+      changedNetworks: [],
+      removedNetworks: [],
+      protocolsChanged: false,
+      modulesChanged: false,
+      requiresFullReinit: false,
+      hasChanges: false,
+    })
+  })
+
+  it('reports changed and added networks without requiring a full reinit', () => {
+    const next = withChanges({
+      networks: {
+        ...baseConfigs.networks,
+        ethereum: { blockchain: 'ethereum', config: { chainId: 1, provider: 'https://eth2.example' } },
+        arbitrum: { blockchain: 'arbitrum', config: { chainId: 42161 } },
+      },
+    })
+
+    const diff = diffWdkConfigs(baseConfigs, next)
+
+    expect(diff.changedNetworks.sort()).toEqual(['arbitrum', 'ethereum'])
+    expect(diff.requiresFullReinit).toBe(false)
+    expect(diff.hasChanges).toBe(true)
+  })
+
+  it('requires a full reinit when a network is removed', () => {
+    const next = withChanges({ networks: { ethereum: baseConfigs.networks.ethereum } })
+
+    const diff = diffWdkConfigs(baseConfigs, next)
+
+    expect(diff.changedNetworks).toEqual(['polygon'])
+    expect(diff.removedNetworks).toEqual(['polygon'])
+    expect(diff.requiresFullReinit).toBe(true)
+  })
+
+  it('requires a full reinit when protocols change', () => {
+    const diff = diffWdkConfigs(baseConfigs, withChanges({ protocols: {} }))
+
+    expect(diff.protocolsChanged).toBe(true)
+    expect(diff.changedNetworks).toEqual([])
+    expect(diff.requiresFullReinit).toBe(true)
+  })
+
+  it('requires a full reinit when modules change', () => {
+    const diff = diffWdkConfigs(baseConfigs, withChanges({ modules: { swap: { enabled: false } } }))
+
+    expect(diff.modulesChanged).toBe(true)
+    expect(diff.requiresFullReinit).toBe(true)
+  })
+
+  it('requires a full reinit when a key outside networks/protocols/modules changes', () => {
+    const diff = diffWdkConfigs(baseConfigs, withChanges({ indexer: { url: 'https://indexer.example' } }))
+
+    expect(diff.requiresFullReinit).toBe(true)
+    expect(diff.hasChanges).toBe(true)
+  })
+})
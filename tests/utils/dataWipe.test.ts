@@ -0,0 +1,128 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { QueryClient } from '@tanstack/react-query'
+
+import { AuthPolicyService } from '../../src/services/authPolicyService'
+import { WalletSetupService } from '../../src/services/walletSetupService'
+import { WorkletLifecycleService } from '../../src/services/workletLifecycleService'
+import { clearMMKVStorage } from '../../src/storage/mmkvStorage'
+import { getWalletStore } from '../../src/store/walletStore'
+import { getWorkletStore } from '../../src/store/workletStore'
+import {
+  createFakeSecureStorage,
+  type FakeSecureStorage,
+} from '../../src/testing/fakeSecureStorage'
+import { wipeAllData } from '../../src/utils/dataWipe'
+
+jest.mock('../../src/services/workletLifecycleService', () => ({
+  WorkletLifecycleService: {
+    reset: jest.fn(),
+    shutdown: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/storage/mmkvStorage', () => ({
+  ...jest.requireActual('../../src/storage/mmkvStorage'),
+  clearMMKVStorage: jest.fn(),
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+const stored = { encryptionKey: 'key', encryptedSeed: 'seed', encryptedEntropy: 'entropy' }
+
+describe('wipeAllData', () => {
+  let storage: FakeSecureStorage
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    storage = createFakeSecureStorage({
+      wallets: { main: stored, untracked: stored },
+    })
+    WalletSetupService.setSecureStorage(storage)
+
+    getWalletStore().setState({
+      walletList: [{ identifier: 'main', exists: true }],
+      addresses: { main: { ethereum: { 0: '0xmain' } } },
+      walletMetadata: { main: { backedUp: true } },
+      activeWalletId: 'main',
+    })
+    getWorkletStore().setState({ error: new Error('stale') })
+  })
+
+  afterEach(() => {
+    AuthPolicyService.setPolicy(null)
+    AuthPolicyService.resetAttempts()
+  })
+
+  it('wipes every step and reports success', async () => {
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(['balance', 'main'], '1')
+
+    const report = await wipeAllData(queryClient)
+
+    expect(report.ok).toBe(true)
+    expect(report.steps.map(({ step }) => step)).toEqual([
+      'secureStorage',
+      'worklet',
+      'mmkv',
+      'stores',
+      'queryCache',
+    ])
+    expect(storage.getWalletIds()).toEqual([])
+    expect(WorkletLifecycleService.shutdown).toHaveBeenCalled()
+    expect(clearMMKVStorage).toHaveBeenCalled()
+
+    const state = getWalletStore().getState()
+    expect(state.walletList).toEqual([])
+    expect(state.addresses).toEqual({})
+    expect(state.activeWalletId).toBeNull()
+    expect(getWorkletStore().getState().error).toBeNull()
+    expect(queryClient.getQueryData(['balance', 'main'])).toBeUndefined()
+  })
+
+  it('wipes nothing when authentication is refused', async () => {
+    AuthPolicyService.setPolicy({
+      operations: { deleteWallet: 'authenticator' },
+      authenticator: () => 'denied',
+    })
+
+    await expect(wipeAllData()).rejects.toMatchObject({ code: 'AUTH_FAILED' })
+
+    expect(storage.getWalletIds().sort()).toEqual(['main', 'untracked'])
+    expect(WorkletLifecycleService.shutdown).not.toHaveBeenCalled()
+    expect(getWalletStore().getState().walletList).toHaveLength(1)
+  })
+
+  it('runs the remaining steps after one fails', async () => {
+    ;(WorkletLifecycleService.shutdown as jest.Mock).mockRejectedValueOnce(
+      new Error('Worklet did not stop'),
+    )
+
+    const report = await wipeAllData()
+
+    expect(report.ok).toBe(false)
+    expect(report.steps).toEqual([
+      { step: 'secureStorage', ok: true },
+      { step: 'worklet', ok: false, error: new Error('Worklet did not stop') },
+      { step: 'mmkv', ok: true },
+      { step: 'stores', ok: true },
+    ])
+    expect(getWalletStore().getState().walletList).toEqual([])
+  })
+})
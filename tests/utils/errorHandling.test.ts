@@ -15,6 +15,7 @@
 import { handleServiceError } from '../../src/utils/errorHandling'
 import { normalizeError } from '../../src/utils/errorUtils'
 import { logError } from '../../src/utils/logger'
+import { WdkTimeoutError } from '../../src/utils/errors'
 
 // Mock dependencies
 jest.mock('../../src/utils/errorUtils', () => ({
@@ -31,6 +32,17 @@ describe('errorHandling', () => {
   })
 
   describe('handleServiceError', () => {
+    it('should rethrow typed WDK errors without normalizing them', () => {
+      const error = new WdkTimeoutError('getBalance', 100)
+
+      expect(() => {
+        handleServiceError(error, 'TestService', 'testOperation')
+      }).toThrow(error)
+
+      expect(normalizeError).not.toHaveBeenCalled()
+      expect(logError).toHaveBeenCalledWith('[TestService] testOperation failed:', error)
+    })
+
     it('should normalize and log error', () => {
       const error = new Error('Test error')
       const normalizedError = new Error('Normalized error')
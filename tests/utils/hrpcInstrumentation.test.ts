@@ -0,0 +1,216 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  getDiagnosticsStore,
+  resetDiagnosticsStore,
+} from '../../src/store/diagnosticsStore'
+import {
+  clearInFlightCalls,
+  getDiagnosticsSnapshot,
+  getUninstrumentedHrpc,
+  instrumentHrpc,
+  percentile,
+  resetDiagnostics,
+} from '../../src/utils/hrpcInstrumentation'
+
+describe('hrpcInstrumentation', () => {
+  beforeEach(() => {
+    resetDiagnosticsStore()
+  })
+
+  describe('instrumentHrpc', () => {
+    it('records method, network, payload sizes and outcome without argument values', async () => {
+      const rpc = instrumentHrpc({
+        callMethod: jest.fn().mockResolvedValue({ result: '"100"' }),
+      })
+
+      const response = await rpc.callMethod({
+        methodName: 'getBalance',
+        network: 'ethereum',
+        accountIndex: 0,
+        args: '["secret-value"]',
+      })
+
+      expect(response).toEqual({ result: '"100"' })
+      const state = getDiagnosticsStore().getState()
+      const stats = state.methods['callMethod:getBalance@ethereum']
+      expect(stats).toMatchObject({
+        method: 'callMethod:getBalance',
+        network: 'ethereum',
+        totalCalls: 1,
+        totalFailures: 0,
+      })
+      expect(stats?.samples[0]?.ok).toBe(true)
+      expect(stats?.samples[0]?.requestBytes).toBeGreaterThan(0)
+      expect(stats?.samples[0]?.responseBytes).toBe(JSON.stringify({ result: '"100"' }).length)
+      expect(JSON.stringify(state)).not.toContain('secret-value')
+      expect(state.inFlight).toEqual({})
+    })
+
+    it('names module calls after the module method', async () => {
+      const rpc = instrumentHrpc({
+        callModule: jest.fn().mockResolvedValue({ result: null }),
+      })
+
+      await rpc.callModule({ module: 'addressBook', method: 'list' })
+
+      expect(getDiagnosticsStore().getState().methods['callModule:addressBook.list@-']).toBeDefined()
+    })
+
+    it('keeps the wrapped instance reachable for calls that must not be recorded', async () => {
+      const raw = { callMethod: jest.fn().mockResolvedValue({ result: '"0x1"' }) }
+      const rpc = instrumentHrpc(raw)
+
+      expect(getUninstrumentedHrpc(rpc)).toBe(raw)
+      expect(getUninstrumentedHrpc(raw)).toBe(raw)
+
+      await getUninstrumentedHrpc(rpc).callMethod({ methodName: 'getAddress', network: 'ethereum', accountIndex: 0 })
+      expect(getDiagnosticsStore().getState().methods).toEqual({})
+    })
+
+    it('records failures and rethrows the original error', async () => {
+      const error = new Error('RPC timeout')
+      const rpc = instrumentHrpc({
+        callMethod: jest.fn().mockRejectedValue(error),
+      })
+
+      await expect(
+        rpc.callMethod({ methodName: 'getBalance', network: 'tron' }),
+      ).rejects.toBe(error)
+
+      const state = getDiagnosticsStore().getState()
+      expect(state.methods['callMethod:getBalance@tron']?.totalFailures).toBe(1)
+      expect(state.recentFailures).toEqual([
+        expect.objectContaining({
+          method: 'callMethod:getBalance',
+          network: 'tron',
+          error: 'Error',
+        }),
+      ])
+    })
+
+    it('keeps only the error code of a failure, never its message', async () => {
+      const error = Object.assign(new Error('insufficient funds for 0xabc'), { code: 'INSUFFICIENT_FUNDS' })
+      const rpc = instrumentHrpc({
+        callMethod: jest.fn().mockRejectedValue(error),
+      })
+
+      await expect(
+        rpc.callMethod({ methodName: 'sendTransaction', network: 'ethereum' }),
+      ).rejects.toBe(error)
+
+      const [failure] = getDiagnosticsStore().getState().recentFailures
+      expect(failure?.error).toBe('INSUFFICIENT_FUNDS')
+      expect(JSON.stringify(failure)).not.toContain('0xabc')
+    })
+
+    it('tracks calls in flight until they settle', async () => {
+      let resolveCall: (value: unknown) => void = () => {}
+      const rpc = instrumentHrpc({
+        callMethod: jest.fn(() => new Promise((resolve) => { resolveCall = resolve })),
+      })
+
+      const pending = rpc.callMethod({ methodName: 'sign', network: 'ethereum' })
+      const snapshot = getDiagnosticsSnapshot(getDiagnosticsStore().getState())
+      expect(snapshot.inFlight).toBe(1)
+      expect(snapshot.methods[0]).toMatchObject({ method: 'callMethod:sign', inFlight: 1, p50Ms: null })
+
+      resolveCall({ result: '"0x"' })
+      await pending
+
+      expect(getDiagnosticsSnapshot(getDiagnosticsStore().getState()).inFlight).toBe(0)
+    })
+
+    it('passes synchronous members through without recording them', () => {
+      const onModuleEvent = jest.fn()
+      const rpc = instrumentHrpc({ onModuleEvent, version: 2 })
+
+      rpc.onModuleEvent(() => {})
+
+      expect(onModuleEvent).toHaveBeenCalled()
+      expect(rpc.version).toBe(2)
+      expect(getDiagnosticsStore().getState().methods).toEqual({})
+    })
+  })
+
+  describe('clearInFlightCalls / resetDiagnostics', () => {
+    it('clears in-flight calls and then all metrics', async () => {
+      const rpc = instrumentHrpc({
+        ping: jest.fn().mockResolvedValue(undefined),
+        hang: jest.fn(() => new Promise(() => {})),
+      })
+      await rpc.ping()
+      void rpc.hang()
+
+      clearInFlightCalls()
+      expect(getDiagnosticsStore().getState().inFlight).toEqual({})
+      expect(getDiagnosticsStore().getState().methods['ping@-']).toBeDefined()
+
+      resetDiagnostics()
+      expect(getDiagnosticsStore().getState().methods).toEqual({})
+    })
+  })
+
+  describe('getDiagnosticsSnapshot', () => {
+    const sample = (durationMs: number, ok = true) => ({
+      durationMs,
+      requestBytes: 10,
+      responseBytes: ok ? 30 : 0,
+      ok,
+    })
+
+    it('computes percentiles per method and network, slowest first', () => {
+      const snapshot = getDiagnosticsSnapshot({
+        methods: {
+          'callMethod:getBalance@ethereum': {
+            method: 'callMethod:getBalance',
+            network: 'ethereum',
+            samples: [sample(100), sample(200), sample(300)],
+            totalCalls: 3,
+            totalFailures: 0,
+          },
+          'callMethod:getBalance@tron': {
+            method: 'callMethod:getBalance',
+            network: 'tron',
+            samples: [sample(2000), sample(3000, false)],
+            totalCalls: 2,
+            totalFailures: 1,
+          },
+        },
+        inFlight: {},
+        recentFailures: [],
+      })
+
+      expect(snapshot.methods.map((m) => m.network)).toEqual(['tron', 'ethereum'])
+      expect(snapshot.methods[1]).toMatchObject({
+        p50Ms: 200,
+        p90Ms: 300,
+        avgRequestBytes: 10,
+        avgResponseBytes: 30,
+      })
+      expect(snapshot.methods[0]).toMatchObject({ totalFailures: 1, avgResponseBytes: 15 })
+    })
+  })
+
+  describe('percentile', () => {
+    it('uses nearest rank', () => {
+      const values = Array.from({ length: 100 }, (_, i) => i + 1)
+      expect(percentile(values, 50)).toBe(50)
+      expect(percentile(values, 99)).toBe(99)
+      expect(percentile([5], 90)).toBe(5)
+      expect(percentile([], 50)).toBeNull()
+    })
+  })
+})
@@ -16,34 +16,46 @@
  * Tests for mnemonic utility functions
  */
 
-import { validateMnemonic } from '../../src/utils/mnemonicUtils'
+import {
+  normalizeMnemonic,
+  suggestMnemonicWords,
+  validateMnemonic,
+  validateMnemonicDetailed,
+} from '../../src/utils/mnemonicUtils'
+
+const phrase = (count: number, last: string) => [...Array(count - 1).fill('abandon'), last].join(' ')
+
+const VALID_12 = phrase(12, 'about')
+const VALID_24 = phrase(24, 'art')
 
 describe('mnemonicUtils', () => {
   describe('validateMnemonic', () => {
     it('should return true for valid 12-word mnemonic', () => {
-      const mnemonic = 'word1 word2 word3 word4 word5 word6 word7 word8 word9 word10 word11 word12'
-      expect(validateMnemonic(mnemonic)).toBe(true)
+      expect(validateMnemonic(VALID_12)).toBe(true)
     })
 
     it('should return true for valid 24-word mnemonic', () => {
-      const words = Array.from({ length: 24 }, (_, i) => `word${i + 1}`).join(' ')
-      expect(validateMnemonic(words)).toBe(true)
+      expect(validateMnemonic(VALID_24)).toBe(true)
+    })
+
+    it('should accept 15, 18 and 21 word mnemonics', () => {
+      expect(validateMnemonic(phrase(15, 'address'))).toBe(true)
+      expect(validateMnemonic(phrase(18, 'agent'))).toBe(true)
+      expect(validateMnemonic(phrase(21, 'admit'))).toBe(true)
     })
 
     it('should handle extra whitespace', () => {
-      const mnemonic = '  word1 word2 word3 word4 word5 word6 word7 word8 word9 word10 word11 word12  '
-      expect(validateMnemonic(mnemonic)).toBe(true)
+      expect(validateMnemonic(`  ${VALID_12}  `)).toBe(true)
     })
 
     it('should handle multiple spaces between words', () => {
-      const mnemonic = 'word1  word2  word3  word4  word5  word6  word7  word8  word9  word10  word11  word12'
-      expect(validateMnemonic(mnemonic)).toBe(true)
+      expect(validateMnemonic(VALID_12.split(' ').join('  '))).toBe(true)
     })
 
     it('should return false for invalid word counts', () => {
-      expect(validateMnemonic('word1 word2')).toBe(false)
-      expect(validateMnemonic('word1 word2 word3 word4 word5 word6 word7 word8 word9 word10 word11')).toBe(false)
-      expect(validateMnemonic('word1 word2 word3 word4 word5 word6 word7 word8 word9 word10 word11 word12 word13')).toBe(false)
+      expect(validateMnemonic('abandon about')).toBe(false)
+      expect(validateMnemonic(phrase(11, 'about'))).toBe(false)
+      expect(validateMnemonic(phrase(13, 'about'))).toBe(false)
     })
 
     it('should return false for empty mnemonic', () => {
@@ -51,12 +63,96 @@ describe('mnemonicUtils', () => {
       expect(validateMnemonic('   ')).toBe(false)
     })
 
-    it('should return false for mnemonic with empty words', () => {
-      // This test checks for a case where there might be an empty word
-      // However, with normalization, multiple spaces are handled
-      // So we test with an actual empty word case: word with empty string
-      expect(validateMnemonic('word1  word2 word3 word4 word5 word6 word7 word8 word9 word10 word11')).toBe(false)
+    it('should return false for words outside the wordlist', () => {
+      expect(validateMnemonic('word1 word2 word3 word4 word5 word6 word7 word8 word9 word10 word11 word12')).toBe(false)
+    })
+
+    it('should return false for a bad checksum', () => {
+      expect(validateMnemonic(phrase(12, 'abandon'))).toBe(false)
+    })
+
+    it('should accept other official wordlists', () => {
+      const japanese = [...Array(11).fill('あいこくしん'), 'あおぞら'].join('\u3000')
+      const spanish = 'ligero vista talar yogur venta queso yacer trozo ligero vista talar zafiro'
+
+      expect(validateMnemonic(japanese)).toBe(true)
+      expect(validateMnemonic(spanish)).toBe(true)
+      expect(validateMnemonic(spanish, { language: 'english' })).toBe(false)
     })
   })
-})
 
+  describe('validateMnemonicDetailed', () => {
+    it('should report a valid phrase with its language', () => {
+      expect(validateMnemonicDetailed(VALID_12)).toEqual({
+        valid: true,
+        error: null,
+        language: 'english',
+        wordCount: 12,
+        invalidWords: [],
+      })
+    })
+
+    it('should report invalid word positions with suggestions', () => {
+      const words = VALID_12.split(' ')
+      words[2] = 'abandn'
+      words[11] = 'abuot'
+
+      const result = validateMnemonicDetailed(words.join(' '))
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toBe('invalid_words')
+      expect(result.invalidWords).toEqual([
+        { index: 2, word: 'abandn', suggestions: ['abandon'] },
+        { index: 11, word: 'abuot', suggestions: ['about', 'abuse', 'adult'] },
+      ])
+    })
+
+    it('should report a checksum failure separately from bad words', () => {
+      expect(validateMnemonicDetailed(phrase(12, 'abandon'))).toMatchObject({
+        valid: false,
+        error: 'invalid_checksum',
+        invalidWords: [],
+      })
+    })
+
+    it('should report an unsupported word count', () => {
+      expect(validateMnemonicDetailed(phrase(13, 'about'))).toMatchObject({
+        error: 'invalid_word_count',
+        wordCount: 13,
+      })
+      expect(validateMnemonicDetailed('  ')).toMatchObject({ error: 'empty', language: null })
+    })
+
+    it('should ignore case', () => {
+      expect(validateMnemonicDetailed(VALID_12.toUpperCase()).valid).toBe(true)
+    })
+  })
+
+  describe('suggestMnemonicWords', () => {
+    it('should complete prefixes before fixing typos', () => {
+      expect(suggestMnemonicWords('zo')).toEqual(['zone', 'zoo'])
+      expect(suggestMnemonicWords('abandn')).toEqual(['abandon'])
+    })
+
+    it('should return the word itself when it is in the list', () => {
+      expect(suggestMnemonicWords('Zoo')).toEqual(['zoo'])
+    })
+
+    it('should return nothing for input too far from any word', () => {
+      expect(suggestMnemonicWords('qqqqqqqq')).toEqual([])
+      expect(suggestMnemonicWords('')).toEqual([])
+    })
+
+    it('should respect the limit and language', () => {
+      expect(suggestMnemonicWords('a', { limit: 2 })).toEqual(['abandon', 'ability'])
+      expect(suggestMnemonicWords('vist', { language: 'spanish' })).toContain('vista')
+    })
+  })
+
+  describe('normalizeMnemonic', () => {
+    it('should collapse whitespace, lowercase and apply NFKD', () => {
+      expect(normalizeMnemonic('  Abandon\u3000ABOUT\n')).toBe('abandon about')
+      expect(normalizeMnemonic('ábaco')).toBe('ábaco'.normalize('NFKD'))
+    })
+  })
+})
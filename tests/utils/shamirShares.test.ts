@@ -0,0 +1,75 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+
+import { assertShareSplitOptions, toShareValidationResult } from '../../src/utils/shamirShares'
+
+describe('shamirShares', () => {
+  describe('assertShareSplitOptions', () => {
+    it('accepts M-of-N splits SLIP-39 allows', () => {
+      expect(() => assertShareSplitOptions({ threshold: 2, shareCount: 3 })).not.toThrow()
+      expect(() => assertShareSplitOptions({ threshold: 16, shareCount: 16 })).not.toThrow()
+      expect(() => assertShareSplitOptions({ threshold: 1, shareCount: 1 })).not.toThrow()
+    })
+
+    it('rejects out-of-range counts and thresholds', () => {
+      expect(() => assertShareSplitOptions({ threshold: 2, shareCount: 17 })).toThrow('shareCount')
+      expect(() => assertShareSplitOptions({ threshold: 0, shareCount: 3 })).toThrow('threshold')
+      expect(() => assertShareSplitOptions({ threshold: 4, shareCount: 3 })).toThrow('threshold')
+      expect(() => assertShareSplitOptions({ threshold: 1.5, shareCount: 3 })).toThrow('threshold')
+    })
+
+    it('rejects a threshold of 1 with several shares', () => {
+      expect(() => assertShareSplitOptions({ threshold: 1, shareCount: 3 })).toThrow(
+        'A threshold of 1 only allows a single share',
+      )
+    })
+  })
+
+  describe('toShareValidationResult', () => {
+    it('reports how many more shares are needed', () => {
+      expect(toShareValidationResult({ threshold: 3, validShares: 1, invalidShares: [] })).toEqual({
+        complete: false,
+        threshold: 3,
+        validShares: 1,
+        remaining: 2,
+        invalidShares: [],
+      })
+    })
+
+    it('is complete once the threshold is met and no share is invalid', () => {
+      expect(toShareValidationResult({ threshold: 2, validShares: 3, invalidShares: [] })).toMatchObject({
+        complete: true,
+        remaining: 0,
+      })
+      expect(
+        toShareValidationResult({
+          threshold: 2,
+          validShares: 2,
+          invalidShares: [{ index: 2, error: 'Duplicate share' }],
+        }),
+      ).toMatchObject({ complete: false, remaining: 0 })
+    })
+
+    it('leaves the progress unknown until a share parses', () => {
+      expect(
+        toShareValidationResult({ threshold: null, validShares: 0, invalidShares: [{ index: 0, error: 'Invalid share' }] }),
+      ).toMatchObject({ complete: false, threshold: null, remaining: null })
+    })
+
+    it('throws on a malformed response', () => {
+      expect(() => toShareValidationResult({ validShares: 'two' })).toThrow()
+    })
+  })
+})
@@ -0,0 +1,144 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { randomBytes } from 'crypto'
+import * as Crypto from 'expo-crypto'
+
+import { WalletBackupError } from '../../src/utils/errors'
+import {
+  decryptWalletBackup,
+  encryptWalletBackup,
+  WALLET_BACKUP_VERSION,
+  type WalletBackupPayload,
+} from '../../src/utils/walletBackup'
+
+const HEX_KEY = /^[0-9a-f]{64}$/
+
+describe('walletBackup', () => {
+  const payload: WalletBackupPayload = {
+    wallets: [
+      {
+        identifier: 'main',
+        encryptedEntropy: 'sealed-7f7f7f7f',
+        accounts: [{ accountIndex: 0, addresses: { ethereum: '0xabc' } }],
+      },
+      {
+        identifier: 'savings',
+        encryptedEntropy: 'sealed-80808080',
+        passphraseRequired: true,
+      },
+    ],
+  }
+
+  let blob: string
+  let exportEntropyKey: string
+
+  const collect = (entropyKey: string) => {
+    exportEntropyKey = entropyKey
+    return Promise.resolve(payload.wallets)
+  }
+
+  beforeAll(async () => {
+    (Crypto.getRandomBytesAsync as jest.Mock).mockImplementation((length: number) =>
+      Promise.resolve(new Uint8Array(randomBytes(length))),
+    )
+    blob = await encryptWalletBackup('correct horse', collect)
+  })
+
+  const reason = (promise: Promise<unknown>) =>
+    promise.then(
+      () => null,
+      (error) => {
+        expect(error).toBeInstanceOf(WalletBackupError)
+        return error.reason
+      },
+    )
+
+  it('round-trips the payload with the right password', async () => {
+    await expect(decryptWalletBackup(blob, 'correct horse')).resolves.toEqual({
+      ...payload,
+      entropyKey: exportEntropyKey,
+    })
+  })
+
+  it('hands the same entropy key to export and import, and keeps it out of the blob', async () => {
+    const { entropyKey } = await decryptWalletBackup(blob, 'correct horse')
+
+    expect(entropyKey).toMatch(HEX_KEY)
+    expect(entropyKey).toBe(exportEntropyKey)
+    expect(blob).not.toContain(entropyKey)
+  })
+
+  it('writes a versioned envelope without the plaintext', () => {
+    const envelope = JSON.parse(blob)
+
+    expect(envelope).toMatchObject({
+      format: 'wdk-wallet-backup',
+      version: WALLET_BACKUP_VERSION,
+      kdf: { name: 'scrypt', N: 32768, r: 8, p: 1 },
+      cipher: { name: 'xchacha20-poly1305' },
+    })
+    expect(envelope.kdf.salt).toHaveLength(32)
+    expect(envelope.cipher.nonce).toHaveLength(48)
+    expect(blob).not.toContain('sealed-7f7f7f7f')
+    expect(blob).not.toContain('savings')
+  })
+
+  it('uses a fresh salt and nonce every time', async () => {
+    const again = JSON.parse(await encryptWalletBackup('correct horse', collect))
+    const first = JSON.parse(blob)
+
+    expect(again.kdf.salt).not.toBe(first.kdf.salt)
+    expect(again.cipher.nonce).not.toBe(first.cipher.nonce)
+  })
+
+  it('rejects a wrong password', async () => {
+    await expect(reason(decryptWalletBackup(blob, 'correct horse!'))).resolves.toBe('wrong_password')
+  })
+
+  it('rejects a backup whose header was altered', async () => {
+    const envelope = JSON.parse(blob)
+    envelope.kdf.N = 16384
+
+    await expect(
+      reason(decryptWalletBackup(JSON.stringify(envelope), 'correct horse')),
+    ).resolves.toBe('wrong_password')
+  })
+
+  it('reports a newer version as unsupported', async () => {
+    const envelope = { ...JSON.parse(blob), version: WALLET_BACKUP_VERSION + 1 }
+
+    await expect(
+      reason(decryptWalletBackup(JSON.stringify(envelope), 'correct horse')),
+    ).resolves.toBe('unsupported_version')
+  })
+
+  it('rejects input that is not a backup', async () => {
+    await expect(reason(decryptWalletBackup('not json', 'x'))).resolves.toBe('invalid_format')
+    await expect(reason(decryptWalletBackup('{"format":"other"}', 'x'))).resolves.toBe('invalid_format')
+  })
+
+  it('refuses KDF parameters that would exhaust memory', async () => {
+    const envelope = JSON.parse(blob)
+    envelope.kdf.N = 2 ** 24
+
+    await expect(
+      reason(decryptWalletBackup(JSON.stringify(envelope), 'correct horse')),
+    ).resolves.toBe('invalid_format')
+  })
+
+  it('requires a password to encrypt', async () => {
+    await expect(encryptWalletBackup('', collect)).rejects.toThrow('A password is required')
+  })
+})
@@ -0,0 +1,83 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as Crypto from 'expo-crypto'
+
+import { getWalletStore } from '../../src/store/walletStore'
+import {
+  computeWalletFingerprint,
+  findWalletByFingerprint,
+  fingerprintsMatch,
+} from '../../src/utils/walletFingerprint'
+
+describe('walletFingerprint', () => {
+  beforeEach(() => {
+    ;(Crypto.digestStringAsync as jest.Mock).mockImplementation(
+      async (_algorithm: string, data: string) => `HASH(${data})`,
+    )
+  })
+
+  describe('computeWalletFingerprint', () => {
+    it('should hash the address on each network separately, as lowercase hex', async () => {
+      const fingerprint = await computeWalletFingerprint({ tron: 'TAbc', ethereum: '0xDEF' })
+
+      expect(Crypto.digestStringAsync).toHaveBeenCalledWith('SHA-256', 'ethereum:0xDEF')
+      expect(Crypto.digestStringAsync).toHaveBeenCalledWith('SHA-256', 'tron:TAbc')
+      expect(fingerprint).toEqual({ ethereum: 'hash(ethereum:0xdef)', tron: 'hash(tron:tabc)' })
+    })
+
+    it('should return null without addresses', async () => {
+      expect(await computeWalletFingerprint({})).toBeNull()
+      expect(Crypto.digestStringAsync).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('fingerprintsMatch', () => {
+    it('should compare only the networks both fingerprints have', () => {
+      expect(fingerprintsMatch({ ethereum: 'a' }, { ethereum: 'a', tron: 'b' })).toBe(true)
+      expect(fingerprintsMatch({ ethereum: 'a', tron: 'b' }, { ethereum: 'a', tron: 'c' })).toBe(false)
+    })
+
+    it('should not match fingerprints without a network in common', () => {
+      expect(fingerprintsMatch({ ethereum: 'a' }, { tron: 'a' })).toBe(false)
+    })
+  })
+
+  describe('findWalletByFingerprint', () => {
+    beforeEach(() => {
+      getWalletStore().setState({
+        walletMetadata: {
+          main: { backedUp: true, fingerprint: { ethereum: 'aaa' } },
+          temp: { backedUp: false, fingerprint: { ethereum: 'bbb' } },
+          plain: { backedUp: false },
+        },
+        tempWalletId: 'temp',
+      })
+    })
+
+    it('should find the wallet holding a matching fingerprint', () => {
+      expect(findWalletByFingerprint({ ethereum: 'aaa', tron: 'ttt' })).toBe('main')
+      expect(findWalletByFingerprint({ ethereum: 'ccc' })).toBeNull()
+    })
+
+    it('should ignore the wallet itself and the temporary wallet', () => {
+      expect(findWalletByFingerprint({ ethereum: 'aaa' }, 'main')).toBeNull()
+      expect(findWalletByFingerprint({ ethereum: 'bbb' })).toBeNull()
+    })
+
+    it('should also check fingerprints not in the store yet', () => {
+      expect(findWalletByFingerprint({ ethereum: 'ccc' }, 'next', { imported: { ethereum: 'ccc' } })).toBe('imported')
+    })
+  })
+})
@@ -0,0 +1,146 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { WalletSetupService } from '../../src/services/walletSetupService'
+import { getWalletStore } from '../../src/store/walletStore'
+import {
+  createFakeSecureStorage,
+  type FakeSecureStorage,
+} from '../../src/testing/fakeSecureStorage'
+import { reconcileWallets } from '../../src/utils/walletReconciliation'
+
+jest.mock('../../src/services/workletLifecycleService', () => ({
+  WorkletLifecycleService: {
+    reset: jest.fn(),
+  },
+}))
+
+jest.mock('../../src/utils/logger', () => ({
+  log: jest.fn(),
+  logError: jest.fn(),
+  logWarn: jest.fn(),
+}))
+
+const stored = { encryptionKey: 'key', encryptedSeed: 'seed', encryptedEntropy: 'entropy' }
+
+describe('reconcileWallets', () => {
+  let storage: FakeSecureStorage
+
+  beforeEach(() => {
+    storage = createFakeSecureStorage({
+      wallets: {
+        tracked: stored,
+        untracked: stored,
+        'passphrase-wallet': { encryptionKey: 'key', encryptedEntropy: 'entropy' },
+        'no-key': { encryptedSeed: 'seed', encryptedEntropy: 'entropy' },
+      },
+    })
+    WalletSetupService.setSecureStorage(storage)
+
+    getWalletStore().setState({
+      walletList: [
+        { identifier: 'tracked', exists: true },
+        { identifier: 'gone', exists: true },
+        { identifier: 'watched', exists: true, watchOnly: true },
+      ],
+      addresses: {
+        tracked: { ethereum: { 0: '0xtracked' } },
+        gone: { ethereum: { 0: '0xgone' } },
+        stale: { ethereum: { 0: '0xstale' } },
+      },
+      balances: { stale: { ethereum: { 0: { native: '1' } } } },
+      accountList: { stale: [{ accountIndex: 0, addresses: {} }] },
+      walletMetadata: {},
+      watchOnlyWallets: { watched: { ethereum: [{ address: '0xwatched' }] } },
+      activeWalletId: null,
+      tempWalletId: null,
+    })
+  })
+
+  it('reports drift without changing anything by default', async () => {
+    const before = getWalletStore().getState()
+
+    const report = await reconcileWallets({ knownWalletIds: ['no-key'] })
+
+    expect(report.untracked.sort()).toEqual(['passphrase-wallet', 'untracked'])
+    expect(report.missing).toEqual(['gone'])
+    expect(report.orphaned).toEqual(['stale'])
+    expect(report.unreadable).toEqual([
+      { walletId: 'no-key', error: 'Encryption key is missing' },
+    ])
+    expect(report.repaired).toEqual([])
+    expect(getWalletStore().getState().walletList).toBe(before.walletList)
+  })
+
+  it('checks keys for presence without reading them', async () => {
+    const getEncryptionKey = jest.spyOn(storage, 'getEncryptionKey')
+
+    await reconcileWallets({ knownWalletIds: ['no-key'] })
+
+    expect(getEncryptionKey).not.toHaveBeenCalled()
+  })
+
+  it('repairs the wallet list and drops orphaned data, keeping missing wallets', async () => {
+    const report = await reconcileWallets({ repair: true })
+
+    const state = getWalletStore().getState()
+    expect(state.walletList).toEqual(
+      expect.arrayContaining([
+        { identifier: 'tracked', exists: true },
+        { identifier: 'watched', exists: true, watchOnly: true },
+        { identifier: 'untracked', exists: true },
+        { identifier: 'passphrase-wallet', exists: true, passphraseRequired: true },
+      ]),
+    )
+    expect(state.walletList.map((w) => w.identifier)).toContain('gone')
+    expect(Object.keys(state.addresses).sort()).toEqual(['gone', 'tracked'])
+    expect(state.balances).toEqual({})
+    expect(state.accountList).toEqual({})
+    expect(state.watchOnlyWallets.watched).toBeDefined()
+    expect(report.missing).toEqual(['gone'])
+    expect(report.repaired.sort()).toEqual(['passphrase-wallet', 'stale', 'untracked'])
+  })
+
+  it('removes missing wallets only when asked to', async () => {
+    const report = await reconcileWallets({ repair: true, removeMissing: true })
+
+    const state = getWalletStore().getState()
+    expect(state.walletList.map((w) => w.identifier)).not.toContain('gone')
+    expect(Object.keys(state.addresses)).toEqual(['tracked'])
+    expect(report.repaired).toContain('gone')
+  })
+
+  it('leaves the active wallet in place', async () => {
+    getWalletStore().setState({ activeWalletId: 'gone' })
+
+    const report = await reconcileWallets({ repair: true, removeMissing: true })
+
+    expect(report.missing).toEqual(['gone'])
+    expect(report.repaired).not.toContain('gone')
+    expect(getWalletStore().getState().addresses.gone).toBeDefined()
+  })
+
+  it('deletes unreadable entries only when asked to', async () => {
+    await reconcileWallets({ repair: true, knownWalletIds: ['no-key'] })
+    expect(storage.getEntry('no-key')).not.toBeNull()
+
+    const report = await reconcileWallets({
+      repair: true,
+      removeUnreadable: true,
+      knownWalletIds: ['no-key'],
+    })
+    expect(storage.getEntry('no-key')).toBeNull()
+    expect(report.repaired).toContain('no-key')
+  })
+})
@@ -0,0 +1,153 @@
+// Copyright 2026 Tether Operations Limited
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Tests for the workletStart compatibility handshake
+ */
+
+import {
+  assertBundleCompatible,
+  assertBundleHasFeature,
+  bundleHasRpc,
+  findUnsupportedConfig,
+  parseWorkletHandshake,
+} from '../../src/utils/workletCapabilities'
+import type { WdkCapabilities } from '../../src/utils/workletCapabilities'
+import { BundleIncompatibleError, UnsupportedByBundleError } from '../../src/utils/errors'
+import { MAX_WORKLET_PROTOCOL_VERSION, REQUIRED_WORKLET_RPCS } from '../../src/utils/constants'
+import type { WdkConfigs } from '../../src/types'
+
+const wdkConfigs = {
+  networks: {
+    sepolia: { blockchain: 'ethereum', config: {} },
+    bitcoin: { blockchain: 'bitcoin', config: {} },
+  },
+  protocols: {
+    usdt0: { protocolName: 'usdt0', blockchain: 'ethereum', config: {} },
+  },
+  modules: {
+    addressBook: {},
+  },
+} as unknown as WdkConfigs
+
+const capabilities = (overrides: Partial<WdkCapabilities> = {}): WdkCapabilities => ({
+  protocolVersion: MAX_WORKLET_PROTOCOL_VERSION,
+  bundleVersion: '1.0.0',
+  rpcs: [...REQUIRED_WORKLET_RPCS, 'callModule'],
+  networks: ['ethereum', 'bitcoin'],
+  protocols: ['usdt0'],
+  modules: ['addressBook'],
+  features: ['watchOnly'],
+  ...overrides,
+})
+
+describe('workletCapabilities', () => {
+  describe('parseWorkletHandshake', () => {
+    it('returns null for bundles that predate the handshake', () => {
+      expect(parseWorkletHandshake({ status: 'started' })).toBeNull()
+      expect(parseWorkletHandshake(null)).toBeNull()
+    })
+
+    it('reads the protocol version and capability lists', () => {
+      expect(
+        parseWorkletHandshake({
+          status: 'started',
+          protocolVersion: 1,
+          bundleVersion: '2.1.0',
+          capabilities: { rpcs: ['callMethod'], networks: ['ethereum'], features: ['watchOnly'] },
+        }),
+      ).toEqual({
+        protocolVersion: 1,
+        bundleVersion: '2.1.0',
+        rpcs: ['callMethod'],
+        networks: ['ethereum'],
+        protocols: null,
+        modules: null,
+        features: ['watchOnly'],
+      })
+    })
+
+    it('rejects a malformed handshake', () => {
+      expect(() => parseWorkletHandshake({ protocolVersion: 'one' })).toThrow(BundleIncompatibleError)
+    })
+  })
+
+  describe('findUnsupportedConfig', () => {
+    it('matches networks by config key or blockchain', () => {
+      expect(findUnsupportedConfig(capabilities(), wdkConfigs)).toEqual([])
+      expect(findUnsupportedConfig(capabilities({ networks: ['sepolia'] }), wdkConfigs)).toEqual(['networks.bitcoin'])
+    })
+
+    it('skips lists the bundle does not report', () => {
+      expect(
+        findUnsupportedConfig(capabilities({ networks: null, protocols: null, modules: null }), wdkConfigs),
+      ).toEqual([])
+    })
+
+    it('reports missing protocols and modules', () => {
+      expect(findUnsupportedConfig(capabilities({ protocols: [], modules: [] }), wdkConfigs)).toEqual([
+        'protocols.usdt0',
+        'modules.addressBook',
+      ])
+    })
+  })
+
+  describe('assertBundleCompatible', () => {
+    it('accepts a compatible bundle', () => {
+      expect(() => assertBundleCompatible(capabilities(), wdkConfigs)).not.toThrow()
+    })
+
+    it('refuses an unsupported protocol version', () => {
+      expect(() =>
+        assertBundleCompatible(capabilities({ protocolVersion: MAX_WORKLET_PROTOCOL_VERSION + 1 }), wdkConfigs),
+      ).toThrow(expect.objectContaining({ code: 'BUNDLE_INCOMPATIBLE', reason: 'protocol_version' }))
+    })
+
+    it('refuses a bundle missing required RPCs', () => {
+      expect(() =>
+        assertBundleCompatible(capabilities({ rpcs: ['workletStart', 'callMethod'] }), wdkConfigs),
+      ).toThrow(expect.objectContaining({
+        reason: 'missing_rpcs',
+        missing: ['initializeWDK', 'generateEntropyAndEncrypt', 'getMnemonicFromEntropy', 'getSeedAndEntropyFromMnemonic'],
+      }))
+    })
+
+    it('refuses a bundle lacking configured networks', () => {
+      expect(() =>
+        assertBundleCompatible(capabilities({ networks: ['ethereum'] }), wdkConfigs),
+      ).toThrow(expect.objectContaining({ reason: 'unsupported_config', missing: ['networks.bitcoin'] }))
+    })
+  })
+
+  describe('assertBundleHasFeature', () => {
+    it('accepts a feature the bundle lists', () => {
+      expect(() => assertBundleHasFeature(capabilities(), 'watchOnly')).not.toThrow()
+    })
+
+    it('refuses a feature the bundle does not list, or when it lists none', () => {
+      for (const caps of [capabilities(), capabilities({ features: null }), null]) {
+        expect(() => assertBundleHasFeature(caps, 'bip39Passphrase')).toThrow(UnsupportedByBundleError)
+      }
+    })
+  })
+
+  describe('bundleHasRpc', () => {
+    it('reports only RPCs the bundle lists', () => {
+      expect(bundleHasRpc(capabilities({ rpcs: ['ping'] }), 'ping')).toBe(true)
+      expect(bundleHasRpc(capabilities(), 'ping')).toBe(false)
+      expect(bundleHasRpc(capabilities({ rpcs: null }), 'ping')).toBe(false)
+      expect(bundleHasRpc(null, 'ping')).toBe(false)
+    })
+  })
+})